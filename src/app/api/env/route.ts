@@ -82,6 +82,7 @@ async function writeEnvFile(map: EnvMap, original: string): Promise<void> {
 }
 
 const UpdateSchema = z.object({
+  AI_PROVIDER: z.enum(['openai', 'anthropic', 'gemini', 'ollama']).optional(),
   AI_API_KEY: z.string().min(1).optional(),
   AI_BASE_URL: z.string().url().optional(),
   AI_MODEL_ID: z.string().min(1).optional(),
@@ -91,6 +92,7 @@ export async function GET(): Promise<Response> {
   try {
     const { map } = await readEnvFile();
     const env = {
+      AI_PROVIDER: map.AI_PROVIDER ?? 'openai',
       AI_API_KEY: map.AI_API_KEY ?? '',
       AI_BASE_URL: map.AI_BASE_URL ?? '',
       AI_MODEL_ID: map.AI_MODEL_ID ?? '',
@@ -116,7 +118,7 @@ export async function POST(req: Request): Promise<Response> {
     }
     const { map, raw } = await readEnvFile();
     const next: EnvMap = { ...map };
-    for (const key of ['AI_API_KEY', 'AI_BASE_URL', 'AI_MODEL_ID'] as const) {
+    for (const key of ['AI_PROVIDER', 'AI_API_KEY', 'AI_BASE_URL', 'AI_MODEL_ID'] as const) {
       const val = parsed.data[key];
       if (typeof val === 'string') {
         next[key] = val;
@@ -124,6 +126,7 @@ export async function POST(req: Request): Promise<Response> {
     }
     await writeEnvFile(next, raw);
     const env = {
+      AI_PROVIDER: next.AI_PROVIDER ?? 'openai',
       AI_API_KEY: next.AI_API_KEY ?? '',
       AI_BASE_URL: next.AI_BASE_URL ?? '',
       AI_MODEL_ID: next.AI_MODEL_ID ?? '',
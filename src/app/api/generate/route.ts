@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { getConfigFromRequest } from '@/lib/config';
+import { chatCompletion, errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
 
 // 配置为静态导出
 export const dynamic = "force-static";
@@ -16,63 +16,24 @@ export async function POST(req: Request): Promise<Response> {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
-    const cfg = await getConfigFromRequest(req);
-
-    console.log('API 配置:', {
-      baseURL: cfg.ai.baseURL,
-      model: cfg.ai.model,
-      hasApiKey: !!cfg.ai.apiKey
-    });
-
-    const response = await fetch(cfg.ai.baseURL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.ai.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: cfg.ai.model,
-        messages: [
-          {
-            role: 'user',
-            content: parsed.data.prompt
-          }
-        ],
-        temperature: parsed.data.temperature ?? 1.0,
-        max_tokens: parsed.data.maxOutputTokens,
-        stream: false
-      })
+    const result = await chatCompletion(req, {
+      tag: 'GENERATE',
+      prompt: parsed.data.prompt,
+      temperature: parsed.data.temperature,
+      maxOutputTokens: parsed.data.maxOutputTokens,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter API error:', response.status, errorText);
-      return Response.json(
-        { error: 'AI API Error', status: response.status, message: errorText },
-        { status: 500 }
-      );
-    }
-
-    const result = await response.json();
-    
     return Response.json({
       ok: true,
-      model: cfg.ai.model,
-      text: result.choices[0]?.message?.content || '',
-      finishReason: result.choices[0]?.finish_reason,
+      model: result.model,
+      text: result.text,
+      finishReason: result.finishReason,
       usage: result.usage,
     });
   } catch (err: unknown) {
-    console.error('Generate API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
-}
\ No newline at end of file
+}
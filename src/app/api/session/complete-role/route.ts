@@ -1,8 +1,11 @@
 import { z } from 'zod';
-import { getConfigFromRequest } from '@/lib/config';
-import { QAItem, buildFinalPrompt } from '@/lib/prompt';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { QAItem, qaToText } from '@/lib/prompt';
+import { buildWorkflowPrompt, worldBookIncludes } from '@/lib/workflowPrompts';
+import { loadWorldBookEntries } from '@/lib/worldBookFiles';
+import { formatTemplateIssues } from '@/lib/templateEngine';
+import { getWorldPack, readWorldPackTemplate } from '@/lib/worldPacks';
+import { GatewayError, chatCompletion, errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
+import { parseCharacterCompletionXmlWithDiagnostics } from '@/lib/xml';
 
 // 配置为静态导出
 export const dynamic = "force-static";
@@ -22,73 +25,27 @@ const BodySchema = z.object({
   temperature: z.number().min(0).max(2).optional(),
   maxOutputTokens: z.number().int().min(1).max(8192).optional(),
   modelId: z.string().min(1).optional(),
+  // 世界包（决定人物补全模板）；为空时取默认世界包
+  packId: z.string().optional(),
 });
 
-// Minimal XML helpers (local to this route)
-function stripCData(s: string): string {
-  return s.replace(/<!\[CDATA\[/g, '').replace(/\]\]>/g, '');
-}
-function innerText(xml: string, tag: string): string | null {
-  const re = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i');
-  const m = xml.match(re);
-  if (!m) return null;
-  return stripCData(m[1]).trim();
-}
-
-type CompletionExtracted = {
-  name: string;
-  age: string;
-  appearanceClothes: string;
-  magicPre: string;
-  magicPost: string;
-  tragicStory: string;
-  personality: string;
-  originalSin: string;
-};
-
-function parseCharacterCompletionXml(xml: string): CompletionExtracted | null {
-  if (typeof xml !== 'string' || !xml.trim()) return null;
-  // Narrow scope to root if present
-  const rootMatch = xml.match(/<characterCompletion\b[^>]*>([\s\S]*?)<\/characterCompletion>/i);
-  const scope = rootMatch ? rootMatch[1] : xml;
-
-  const name = innerText(scope, 'name') ?? '';
-  const age = innerText(scope, 'age') ?? '';
-  const appearanceClothes = innerText(scope, 'appearanceClothes') ?? '';
-  const magicPre = innerText(scope, 'pre') ?? '';
-  const magicPost = innerText(scope, 'post') ?? '';
-  const tragicStory = innerText(scope, 'tragicStory') ?? '';
-  const personality = innerText(scope, 'personality') ?? '';
-  const originalSin = innerText(scope, 'originalSin') ?? '';
-
-  if (!name || !age || !appearanceClothes || !tragicStory || !personality || !originalSin) {
-    return null;
-  }
-  return { name, age, appearanceClothes, magicPre, magicPost, tragicStory, personality, originalSin };
-}
-
 export async function POST(req: Request): Promise<Response> {
+  let context: Record<string, unknown> = {};
   try {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
-    const { sessionId, roleId, roleName, qa, temperature, maxOutputTokens, modelId } = parsed.data;
-
-    const cfg = await getConfigFromRequest(req);
-    const baseURL = cfg.ai.baseURL;
-    const model = modelId ?? cfg.ai.model;
+    const { sessionId, roleId, roleName, qa, temperature, maxOutputTokens, modelId, packId } = parsed.data;
+    context = { sessionId, roleId, roleName };
 
-    // Read the character generation template
-    const templatePath = join(process.cwd(), 'game', 'random', '人物生成.md');
+    // Read the character generation template of the selected world pack
+    const pack = await getWorldPack(packId);
     let characterTemplate = '';
     try {
-      characterTemplate = await readFile(templatePath, 'utf-8');
+      characterTemplate = await readWorldPackTemplate(pack, 'character');
     } catch (err) {
       console.warn('Could not read character template:', err);
       // Fallback to basic instruction if file not found
@@ -117,58 +74,32 @@ XML 输出格式（严格）：
 </characterCompletion>`;
     }
 
-    // Build final prompt: user Q&A + character template
-    const { finalPrompt } = buildFinalPrompt(qa as QAItem[], characterTemplate);
-
-    const payload = {
-      model,
-      messages: [
-        {
-          role: 'user',
-          content: finalPrompt,
-        },
-      ],
-      temperature: temperature ?? 1.0,
-      max_tokens: maxOutputTokens,
-      stream: false,
-    };
-
-    console.log('SESSION COMPLETE-ROLE request payload:', { sessionId, roleId, roleName, payload });
-
-    const response = await fetch(baseURL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.ai.apiKey}`,
-      },
-      body: JSON.stringify(payload),
-    });
-
-    const rawText = await response.clone().text();
-    console.log('SESSION COMPLETE-ROLE raw response status:', response.status);
-    console.log('SESSION COMPLETE-ROLE raw response body:', rawText);
-
-    if (!response.ok) {
-      return Response.json({
-        ok: false,
-        sessionId,
-        roleId,
-        roleName,
-        model,
-        parseOk: false,
-        error: `Model API error: ${response.status}`,
-        text: '',
-      }, { status: 502 });
+    // Build final prompt: user Q&A + character template (rendered by the shared template engine)
+    const { entries } = await loadWorldBookEntries(pack.worldBooksDir);
+    const { prompt: finalPrompt, issues } = buildWorkflowPrompt(
+      'character',
+      characterTemplate,
+      { qa: qaToText(qa as QAItem[]), worldBooks: '' },
+      worldBookIncludes(entries)
+    );
+    if (issues.length > 0) {
+      throw new GatewayError('CONFIG_ERROR', `invalid character template:\n${formatTemplateIssues(issues)}`, {
+        details: issues,
+      });
     }
 
-    const result = await response.json();
-    const choice = result?.choices?.[0];
-    const text: string =
-      choice?.message?.content ??
-      choice?.text ??
-      '';
+    const result = await chatCompletion(req, {
+      tag: 'COMPLETE-ROLE',
+      prompt: finalPrompt,
+      modelId,
+      temperature,
+      maxOutputTokens,
+    });
+    const text = result.text;
 
-    const extracted = parseCharacterCompletionXml(text);
+    const { data: extracted, diagnostics } = parseCharacterCompletionXmlWithDiagnostics(text, {
+      finishReason: result.finishReason,
+    });
     const parseOk = !!extracted;
 
     return Response.json({
@@ -176,18 +107,15 @@ XML 输出格式（严格）：
       sessionId,
       roleId,
       roleName,
-      model,
+      model: result.model,
       text,
       parseOk,
       extracted: extracted ?? undefined,
-      finishReason: choice?.finish_reason,
-      usage: result?.usage,
+      diagnostics,
+      finishReason: result.finishReason,
+      usage: result.usage,
     });
   } catch (err: unknown) {
-    console.error('SESSION COMPLETE-ROLE API error:', err);
-    return Response.json(
-      { ok: false, error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err, { ...context, parseOk: false, text: '' });
   }
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { z } from 'zod';
-import { getConfigFromRequest } from '@/lib/config';
-import { parseStoryOutlineXml, composeOutlineAppendPrompt, parseFullStoryOutlineXml, FullOutlineChapter, FullOutlineSection } from '@/lib/xml';
+import { parseStoryOutlineXmlWithDiagnostics, composeOutlineAppendPrompt, parseFullStoryOutlineXmlWithDiagnostics, FullOutlineChapter, FullOutlineSection } from '@/lib/xml';
+import { chatCompletion, errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
 
 // 配置为静态导出
 export const dynamic = "force-static";
@@ -22,10 +22,7 @@ export async function POST(req: Request): Promise<Response> {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
     const { sessionId, profilePrompt, rawPrompt, temperature, maxOutputTokens, modelId } = parsed.data;
@@ -35,59 +32,21 @@ export async function POST(req: Request): Promise<Response> {
       ? rawPrompt
       : `${profilePrompt}\n\n${OUTLINE_INSTRUCTION}`;
 
-    const cfg = await getConfigFromRequest(req);
-    const baseURL = cfg.ai.baseURL;
-    const model = modelId ?? cfg.ai.model;
-
-    console.log('OUTLINE API 配置:', {
-      baseURL,
-      model,
-      hasApiKey: !!cfg.ai.apiKey,
-    });
-
-    const payload = {
-      model,
-      messages: [
-        {
-          role: 'user',
-          content: finalPrompt,
-        },
-      ],
-      temperature: temperature ?? 1.0,
-      max_tokens: maxOutputTokens,
-      stream: false,
-    };
-    console.log('OUTLINE API request payload:', payload);
-
-    const response = await fetch(baseURL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.ai.apiKey}`,
-      },
-      body: JSON.stringify(payload),
+    const result = await chatCompletion(req, {
+      tag: 'OUTLINE',
+      prompt: finalPrompt,
+      modelId,
+      temperature,
+      maxOutputTokens,
     });
+    const text = result.text;
 
-    const rawText = await response.clone().text();
-    console.log('OUTLINE API raw response status:', response.status);
-    console.log('OUTLINE API raw response body:', rawText);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      return Response.json(
-        { error: 'AI API Error', status: response.status, message: errorText },
-        { status: 502 }
-      );
-    }
-
-    const result = await response.json();
-    console.log('OUTLINE API parsed json:', result);
-    const choice = result?.choices?.[0];
-    const text: string = choice?.message?.content ?? choice?.text ?? '';
-
-    const fullOutline = parseFullStoryOutlineXml(text);
-    const extractedOutline = fullOutline ? null : parseStoryOutlineXml(text);
+    // 优先按完整大纲解析；失败时回退到 premise/beats 结构，诊断取与结果对应的一方
+    const full = parseFullStoryOutlineXmlWithDiagnostics(text, { finishReason: result.finishReason });
+    const minimal = full.data ? null : parseStoryOutlineXmlWithDiagnostics(text, { finishReason: result.finishReason });
+    const fullOutline = full.data;
+    const extractedOutline = minimal?.data ?? null;
+    const diagnostics = minimal?.data ? minimal.diagnostics : full.diagnostics;
     const composedWithOutline = extractedOutline && !rawPrompt
       ? composeOutlineAppendPrompt(profilePrompt!, extractedOutline)
       : undefined;
@@ -95,10 +54,11 @@ export async function POST(req: Request): Promise<Response> {
     return Response.json({
       ok: true,
       sessionId,
-      model,
+      model: result.model,
       text,
-      usage: result?.usage,
+      usage: result.usage,
       parseOk: !!(fullOutline || extractedOutline),
+      diagnostics,
       extractedPremise: fullOutline?.premise ?? extractedOutline?.premise,
       extractedBeats: fullOutline
         ? (fullOutline.chapters as FullOutlineChapter[]).flatMap(
@@ -109,10 +69,6 @@ export async function POST(req: Request): Promise<Response> {
       composedWithOutline,
     });
   } catch (err: unknown) {
-    console.error('OUTLINE API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
 }
\ No newline at end of file
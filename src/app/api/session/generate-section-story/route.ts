@@ -1,6 +1,6 @@
 import { z } from 'zod';
-import { getConfigFromRequest } from '@/lib/config';
-import { parseStoryXml } from '@/lib/xml';
+import { parseStoryXmlWithDiagnostics } from '@/lib/xml';
+import { chatCompletion, errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
 
 // 配置为静态导出
 export const dynamic = "force-static";
@@ -24,82 +24,36 @@ export async function POST(req: Request): Promise<Response> {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
     const { sessionId, rawPrompt, temperature, maxOutputTokens, modelId } = parsed.data;
 
-    const cfg = await getConfigFromRequest(req);
-    const baseURL = cfg.ai.baseURL;
-    const model = modelId ?? cfg.ai.model;
-
-    console.log('SECTION STORY API 配置:', {
-      baseURL,
-      model,
-      hasApiKey: !!cfg.ai.apiKey,
+    const result = await chatCompletion(req, {
+      tag: 'SECTION STORY',
+      prompt: rawPrompt,
+      modelId,
+      temperature,
+      maxOutputTokens,
     });
 
-    const payload = {
-      model,
-      messages: [
-        {
-          role: 'user',
-          content: rawPrompt,
-        },
-      ],
-      temperature: temperature ?? 1.0,
-      max_tokens: maxOutputTokens,
-      stream: false,
-    };
-    console.log('SECTION STORY API request payload:', { sessionId, payloadPreview: { model, temperature: payload.temperature, max_tokens: payload.max_tokens } });
-
-    const response = await fetch(baseURL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.ai.apiKey}`,
-      },
-      body: JSON.stringify(payload),
+    const { data: parsedStory, diagnostics } = parseStoryXmlWithDiagnostics(result.text, {
+      finishReason: result.finishReason,
     });
-
-    const rawText = await response.clone().text();
-    console.log('SECTION STORY API raw response status:', response.status);
-    console.log('SECTION STORY API raw response body:', rawText);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      return Response.json(
-        { error: 'AI API Error', status: response.status, message: errorText },
-        { status: 502 }
-      );
-    }
-
-    const result = await response.json();
-    const choice = result?.choices?.[0];
-    const text: string = choice?.message?.content ?? choice?.text ?? '';
-
-    const parsedStory = parseStoryXml(text);
     const parseOk = !!parsedStory;
 
     return Response.json({
       ok: true,
       sessionId,
-      model,
-      text,
+      model: result.model,
+      text: result.text,
       parseOk,
+      diagnostics,
       finalStory: parsedStory ?? undefined,
-      finishReason: choice?.finish_reason,
-      usage: result?.usage,
+      finishReason: result.finishReason,
+      usage: result.usage,
     });
   } catch (err: unknown) {
-    console.error('SECTION STORY API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import { z } from 'zod';
-import { getConfigFromRequest } from '@/lib/config';
-import { parseStoryXml } from '@/lib/xml';
+import { parseStoryXmlWithDiagnostics } from '@/lib/xml';
+import { chatCompletion, errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
 
 // 配置为静态导出
 export const dynamic = "force-static";
@@ -21,10 +21,7 @@ export async function POST(req: Request): Promise<Response> {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
     const { sessionId, composedWithOutline, temperature, maxOutputTokens, modelId } = parsed.data;
@@ -32,75 +29,31 @@ export async function POST(req: Request): Promise<Response> {
     // 构造故事生成提示词
     const finalPrompt = `${composedWithOutline}\n\n${STORY_INSTRUCTION}`;
 
-    const cfg = await getConfigFromRequest(req);
-    const baseURL = cfg.ai.baseURL;
-    const model = modelId ?? cfg.ai.model;
-
-    console.log('STORY API 配置:', {
-      baseURL,
-      model,
-      hasApiKey: !!cfg.ai.apiKey,
+    const result = await chatCompletion(req, {
+      tag: 'STORY',
+      prompt: finalPrompt,
+      modelId,
+      temperature,
+      maxOutputTokens,
     });
 
-    const payload = {
-      model,
-      messages: [
-        {
-          role: 'user',
-          content: finalPrompt,
-        },
-      ],
-      temperature: temperature ?? 1.0,
-      max_tokens: maxOutputTokens,
-      stream: false,
-    };
-    console.log('STORY API request payload:', payload);
-
-    const response = await fetch(baseURL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.ai.apiKey}`,
-      },
-      body: JSON.stringify(payload),
+    const { data: extractedStory, diagnostics } = parseStoryXmlWithDiagnostics(result.text, {
+      finishReason: result.finishReason,
     });
 
-    const rawText = await response.clone().text();
-    console.log('STORY API raw response status:', response.status);
-    console.log('STORY API raw response body:', rawText);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      return Response.json(
-        { error: 'AI API Error', status: response.status, message: errorText },
-        { status: 502 }
-      );
-    }
-
-    const result = await response.json();
-    console.log('STORY API parsed json:', result);
-    const choice = result?.choices?.[0];
-    const text: string = choice?.message?.content ?? choice?.text ?? '';
-
-    const extractedStory = parseStoryXml(text);
-
     return Response.json({
       ok: true,
       sessionId,
-      model,
-      text,
-      usage: result?.usage,
+      model: result.model,
+      text: result.text,
+      usage: result.usage,
       parseOk: !!extractedStory,
+      diagnostics,
       extractedTitle: extractedStory?.title,
       extractedContent: extractedStory?.content,
       finalStory: extractedStory,
     });
   } catch (err: unknown) {
-    console.error('STORY API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
 import { z } from 'zod';
-import { getConfigFromRequest } from '@/lib/config';
 import { QAItem, buildFinalPrompt, DEFAULT_INSTRUCTION } from '@/lib/prompt';
-import { parseCharacterXml, composeProfilePrompt, CharacterXML } from '@/lib/xml';
+import { parseCharacterXmlWithDiagnostics, composeProfilePrompt, CharacterXML, XmlDiagnostics } from '@/lib/xml';
+import { chatCompletion, errorResponse, invalidBodyResponse, GatewayError, type GatewayResult } from '@/lib/llmGateway';
 
 // 配置为静态导出
 export const dynamic = "force-static";
@@ -34,9 +34,11 @@ type RoleResult = {
   finishReason?: string;
   usage?: unknown;
   extracted?: CharacterXML | null;
+  diagnostics?: XmlDiagnostics;
   extractedAppearance?: string;
   extractedPreferences?: string;
   composedProfilePrompt?: string;
+  error?: { code: string; message: string };
 };
 
 export async function POST(req: Request): Promise<Response> {
@@ -44,23 +46,12 @@ export async function POST(req: Request): Promise<Response> {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
     const { sessionId, roles, temperature, maxOutputTokens, modelId } = parsed.data;
 
-    const cfg = await getConfigFromRequest(req);
-    const baseURL = cfg.ai.baseURL;
-    const model = modelId ?? cfg.ai.model;
-
-    console.log('SESSION MULTI API 配置:', {
-      baseURL,
-      model,
-      hasApiKey: !!cfg.ai.apiKey,
-    });
+    let model = modelId ?? '';
 
     // For each role, build final prompt and call model
     const roleResults: RoleResult[] = [];
@@ -68,69 +59,48 @@ export async function POST(req: Request): Promise<Response> {
     for (const role of roles) {
       const { finalPrompt } = buildFinalPrompt(role.qa as QAItem[], DEFAULT_INSTRUCTION);
 
-      const payload = {
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: finalPrompt,
-          },
-        ],
-        temperature: temperature ?? 1.0,
-        max_tokens: maxOutputTokens,
-        stream: false,
-      };
-
-      console.log('SESSION MULTI API request payload (role):', role.roleId, payload);
-
-      const response = await fetch(baseURL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cfg.ai.apiKey}`,
-        },
-        body: JSON.stringify(payload),
-      });
-
-      const rawText = await response.clone().text();
-      console.log('SESSION MULTI role raw response status:', role.roleId, response.status);
-      console.log('SESSION MULTI role raw response body:', role.roleId, rawText);
-
-      if (!response.ok) {
-        // Continue but mark extracted null
+      let result: GatewayResult;
+      try {
+        result = await chatCompletion(req, {
+          tag: `SESSION MULTI ${role.roleId}`,
+          prompt: finalPrompt,
+          modelId,
+          temperature,
+          maxOutputTokens,
+        });
+      } catch (err: unknown) {
+        // 单个角色失败不影响其它角色：记录错误后继续
+        if (err instanceof GatewayError && err.code === 'CONFIG_ERROR') throw err;
         roleResults.push({
           roleId: role.roleId,
           roleName: role.roleName,
           text: '',
-          model,
-          finishReason: undefined,
-          usage: undefined,
+          model: modelId ?? '',
           extracted: null,
-          extractedAppearance: undefined,
-          extractedPreferences: undefined,
-          composedProfilePrompt: undefined,
+          error: {
+            code: err instanceof GatewayError ? err.code : 'INTERNAL_ERROR',
+            message: err instanceof Error ? err.message : 'Unknown error',
+          },
         });
         continue;
       }
+      model = result.model;
+      const text = result.text;
 
-      const result = await response.json();
-      const choice = result?.choices?.[0];
-      const text: string =
-        choice?.message?.content ??
-        choice?.text ??
-        '';
-
-      const extracted = parseCharacterXml(text);
+      const { data: extracted, diagnostics } = parseCharacterXmlWithDiagnostics(text, {
+        finishReason: result.finishReason,
+      });
       const composed = extracted ? composeProfilePrompt(extracted) : undefined;
 
       roleResults.push({
         roleId: role.roleId,
         roleName: role.roleName,
         text,
-        model,
-        finishReason: choice?.finish_reason,
-        usage: result?.usage,
+        model: result.model,
+        finishReason: result.finishReason,
+        usage: result.usage,
         extracted,
+        diagnostics,
         extractedAppearance: extracted?.appearance,
         extractedPreferences: extracted?.preferences,
         composedProfilePrompt: composed,
@@ -153,10 +123,6 @@ export async function POST(req: Request): Promise<Response> {
       combinedProfilePrompt: combinedProfilePrompt || undefined,
     });
   } catch (err: unknown) {
-    console.error('SESSION MULTI API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
 }
\ No newline at end of file
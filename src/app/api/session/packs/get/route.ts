@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { getWorldPack, readWorldPackTemplates } from '@/lib/worldPacks';
+import { errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
+
+// 配置为静态导出
+export const dynamic = "force-static";
+export const runtime = 'nodejs';
+
+const BodySchema = z.object({
+  // 为空时取默认世界包
+  packId: z.string().optional(),
+});
+
+/**
+ * POST /api/session/packs/get
+ * 返回世界包清单与工作流模板原文（不做替换），供前端组装提示词
+ */
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const json = await req.json();
+    const parsed = BodySchema.safeParse(json);
+    if (!parsed.success) {
+      return invalidBodyResponse(parsed.error);
+    }
+    const pack = await getWorldPack(parsed.data.packId);
+    const templates = await readWorldPackTemplates(pack);
+    return Response.json({ ok: true, pack: pack.manifest, isDefault: pack.isDefault, templates });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
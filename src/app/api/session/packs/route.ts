@@ -0,0 +1,19 @@
+import { listWorldPacks } from '@/lib/worldPacks';
+import { errorResponse } from '@/lib/llmGateway';
+
+// 配置为静态导出
+export const dynamic = "force-static";
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/session/packs
+ * 列出可用的世界包（默认世界包在前）；清单无效的世界包以 warnings 返回
+ */
+export async function GET(): Promise<Response> {
+  try {
+    const { packs, warnings } = await listWorldPacks();
+    return Response.json({ ok: true, packs, warnings });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
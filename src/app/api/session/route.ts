@@ -1,44 +1,20 @@
 import { z } from 'zod';
-import { getConfigFromRequest } from '@/lib/config';
 import { QAItem, buildFinalPrompt, DEFAULT_INSTRUCTION } from '@/lib/prompt';
-import { parseCharacterXml, composeProfilePrompt } from '@/lib/xml';
+import { parseCharacterXmlWithDiagnostics, composeProfilePrompt } from '@/lib/xml';
+import { chatCompletion, errorResponse, invalidBodyResponse, GatewayError } from '@/lib/llmGateway';
+import { getSessionStore, SESSION_ID_PATTERN, type StoredProfileSession } from '@/lib/sessionStore';
 
 // 配置为静态导出
 export const dynamic = "force-static";
 export const runtime = 'nodejs';
 
-type StoredSession = {
-  sessionId: string;
-  qa: QAItem[];
-  promptOnly: string;
-  appendInstruction: string;
-  finalPrompt: string;
-  templateName?: string;
-  templateRaw?: string;
-  output?: {
-    text: string;
-    model: string;
-    finishReason?: string;
-    usage?: unknown;
-    raw?: unknown;
-  };
-  extractedXml?: {
-    appearance: string;
-    preferences: string;
-  };
-  composedProfilePrompt?: string;
-  updatedAt: number;
-};
-
-const store = new Map<string, StoredSession>();
-
 const QaItemSchema = z.object({
   q: z.string().min(1, 'q required'),
   a: z.string().min(1, 'a required'),
 });
 
 const BodySchema = z.object({
-  sessionId: z.string().min(1, 'sessionId required'),
+  sessionId: z.string().regex(SESSION_ID_PATTERN, 'invalid sessionId'),
   qa: z.array(QaItemSchema).min(1, 'qa must have at least 1 item'),
   temperature: z.number().min(0).max(2).optional(),
   maxOutputTokens: z.number().int().min(1).max(8192).optional(),
@@ -55,19 +31,16 @@ export async function POST(req: Request): Promise<Response> {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
     const { sessionId, qa, temperature, maxOutputTokens, modelId } = parsed.data;
     const { promptOnly, finalPrompt, templateName, templateRaw } = buildFinalPrompt(qa, DEFAULT_INSTRUCTION);
 
     // 先保存会话（不含输出）
-    const initial: StoredSession = {
-      sessionId,
-      qa,
+    const store = getSessionStore();
+    const initial: StoredProfileSession = {
+      qa: qa as QAItem[],
       promptOnly,
       appendInstruction: DEFAULT_INSTRUCTION,
       finalPrompt,
@@ -75,102 +48,52 @@ export async function POST(req: Request): Promise<Response> {
       templateRaw,
       updatedAt: Date.now(),
     };
-    store.set(sessionId, initial);
-
-    // 直接使用持久化文件中的完整 chat/completions URL
-    const cfg = await getConfigFromRequest(req);
-    const baseURL = cfg.ai.baseURL; // 期望为 https://openrouter.ai/api/v1/chat/completions
-    const model = modelId ?? cfg.ai.model;
-
-    // 日志便于排查
-    console.log('SESSION API 配置:', {
-      baseURL,
-      model,
-      hasApiKey: !!cfg.ai.apiKey,
+    await store.update(sessionId, { profile: initial });
+
+    const result = await chatCompletion(req, {
+      tag: 'SESSION',
+      prompt: finalPrompt,
+      modelId,
+      temperature,
+      maxOutputTokens,
     });
+    const text = result.text;
 
-    const payload = {
-      model,
-      messages: [
-        {
-          role: 'user',
-          content: finalPrompt,
-        },
-      ],
-      temperature: temperature ?? 1.0,
-      max_tokens: maxOutputTokens,
-      stream: false,
-    };
-    console.log('SESSION API request payload:', payload);
-
-    const response = await fetch(baseURL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cfg.ai.apiKey}`,
-      },
-      body: JSON.stringify(payload),
+    const { data: extracted, diagnostics } = parseCharacterXmlWithDiagnostics(text, {
+      finishReason: result.finishReason,
     });
-
-    const rawText = await response.clone().text();
-    console.log('SESSION API raw response status:', response.status);
-    console.log('SESSION API raw response body:', rawText);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      return Response.json(
-        { error: 'AI API Error', status: response.status, message: errorText },
-        { status: 502 }
-      );
-    }
-
-    const result = await response.json();
-    console.log('SESSION API parsed json:', result);
-
-    // OpenAI/OR 标准响应解析
-    const choice = result?.choices?.[0];
-    const text: string =
-      choice?.message?.content ??
-      choice?.text ??
-      '';
-
-    const extracted = parseCharacterXml(text);
     const composedPrompt = extracted ? composeProfilePrompt(extracted) : undefined;
 
-    const stored = store.get(sessionId);
-    const finalStored: StoredSession = {
-      ...(stored ?? initial),
+    const stored = await store.get(sessionId);
+    const finalStored: StoredProfileSession = {
+      ...(stored?.profile ?? initial),
       output: {
         text,
-        model,
-        finishReason: choice?.finish_reason,
-        usage: result?.usage,
-        raw: result,
+        model: result.model,
+        finishReason: result.finishReason,
+        usage: result.usage,
+        raw: result.raw,
       },
       extractedXml: extracted || undefined,
       composedProfilePrompt: composedPrompt,
       updatedAt: Date.now(),
     };
-    store.set(sessionId, finalStored);
+    await store.update(sessionId, { profile: finalStored });
 
     return Response.json({
       ok: true,
       sessionId,
-      model,
+      model: result.model,
       text,
-      usage: result?.usage,
+      usage: result.usage,
       parseOk: !!extracted,
+      diagnostics,
       extractedAppearance: extracted?.appearance,
       extractedPreferences: extracted?.preferences,
       composedProfilePrompt: composedPrompt,
     });
   } catch (err: unknown) {
-    console.error('SESSION API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
 }
 
@@ -183,11 +106,14 @@ export async function GET(req: Request): Promise<Response> {
     const url = new URL(req.url);
     const sessionId = url.searchParams.get('sessionId') ?? '';
     if (!sessionId) {
-      return Response.json({ error: 'sessionId required' }, { status: 400 });
+      return errorResponse(new GatewayError('INVALID_BODY', 'sessionId required'));
+    }
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return errorResponse(new GatewayError('INVALID_BODY', 'invalid sessionId'));
     }
-    const data = store.get(sessionId);
+    const data = (await getSessionStore().get(sessionId))?.profile;
     if (!data) {
-      return Response.json({ error: 'not found', sessionId }, { status: 404 });
+      return errorResponse(new GatewayError('NOT_FOUND', 'not found'), { sessionId });
     }
     return Response.json({
       ok: true,
@@ -203,10 +129,6 @@ export async function GET(req: Request): Promise<Response> {
       updatedAt: data.updatedAt,
     });
   } catch (err: unknown) {
-    console.error('SESSION GET error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
 }
\ No newline at end of file
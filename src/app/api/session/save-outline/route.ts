@@ -1,20 +1,16 @@
 import { z } from 'zod';
+import { getSessionStore, SESSION_ID_PATTERN } from '@/lib/sessionStore';
+import { errorResponse, invalidBodyResponse, GatewayError } from '@/lib/llmGateway';
 
 // 配置为静态导出
 export const dynamic = "force-static";
 export const runtime = 'nodejs';
 
-type SavedOutline = {
-  sessionId: string;
-  outlineXml: string;
-  savedAt: number;
-};
-
-const store = new Map<string, SavedOutline>();
-
 const BodySchema = z.object({
-  sessionId: z.string().min(1, 'sessionId required'),
+  sessionId: z.string().regex(SESSION_ID_PATTERN, 'invalid sessionId'),
   outlineXml: z.string().min(1, 'outlineXml required'),
+  // 可选：大纲 id（缺省为 outline_<时间戳>，同 id 再次保存则覆盖）
+  outlineId: z.string().min(1).optional(),
 });
 
 export async function POST(req: Request): Promise<Response> {
@@ -22,34 +18,26 @@ export async function POST(req: Request): Promise<Response> {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
-    const { sessionId, outlineXml } = parsed.data;
+    const { sessionId, outlineXml, outlineId } = parsed.data;
+    const savedAt = Date.now();
+    const id = outlineId ?? `outline_${savedAt}`;
 
-    const saved: SavedOutline = {
-      sessionId,
-      outlineXml,
-      savedAt: Date.now(),
-    };
-
-    store.set(sessionId, saved);
+    await getSessionStore().update(sessionId, {
+      outlines: [{ id, outlineXml, createdAt: savedAt }],
+    });
 
     return Response.json({
       ok: true,
       sessionId,
+      outlineId: id,
       length: outlineXml.length,
-      savedAt: saved.savedAt,
+      savedAt,
     });
   } catch (err: unknown) {
-    console.error('SAVE OUTLINE API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
 }
 
@@ -58,25 +46,30 @@ export async function GET(req: Request): Promise<Response> {
     const url = new URL(req.url);
     const sessionId = url.searchParams.get('sessionId') ?? '';
     if (!sessionId) {
-      return Response.json({ error: 'sessionId required' }, { status: 400 });
+      return errorResponse(new GatewayError('INVALID_BODY', 'sessionId required'));
+    }
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return errorResponse(new GatewayError('INVALID_BODY', 'invalid sessionId'));
     }
 
-    const outline = store.get(sessionId);
+    // 返回最近保存的一份大纲
+    const outlines = (await getSessionStore().get(sessionId))?.outlines ?? [];
+    const outline = outlines.reduce<(typeof outlines)[number] | undefined>(
+      (latest, o) => (!latest || o.createdAt >= latest.createdAt ? o : latest),
+      undefined
+    );
     if (!outline) {
-      return Response.json({ error: 'outline not found', sessionId }, { status: 404 });
+      return errorResponse(new GatewayError('NOT_FOUND', 'outline not found'), { sessionId });
     }
 
     return Response.json({
       ok: true,
       sessionId,
+      outlineId: outline.id,
       outlineXml: outline.outlineXml,
-      savedAt: outline.savedAt,
+      savedAt: outline.createdAt,
     });
   } catch (err: unknown) {
-    console.error('GET OUTLINE API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
 }
\ No newline at end of file
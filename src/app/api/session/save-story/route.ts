@@ -1,20 +1,13 @@
 import { z } from 'zod';
+import { getSessionStore, SESSION_ID_PATTERN, type StoredStory } from '@/lib/sessionStore';
+import { errorResponse, invalidBodyResponse, GatewayError } from '@/lib/llmGateway';
 
 // 配置为静态导出
 export const dynamic = "force-static";
 export const runtime = 'nodejs';
 
-type SavedStory = {
-  sessionId: string;
-  title: string;
-  content: string;
-  savedAt: number;
-};
-
-const store = new Map<string, SavedStory>();
-
 const BodySchema = z.object({
-  sessionId: z.string().min(1, 'sessionId required'),
+  sessionId: z.string().regex(SESSION_ID_PATTERN, 'invalid sessionId'),
   title: z.string().min(1, 'title required'),
   content: z.string().min(1, 'content required'),
 });
@@ -24,22 +17,18 @@ export async function POST(req: Request): Promise<Response> {
     const json = await req.json();
     const parsed = BodySchema.safeParse(json);
     if (!parsed.success) {
-      return Response.json(
-        { error: 'Invalid body', details: parsed.error.flatten() },
-        { status: 400 }
-      );
+      return invalidBodyResponse(parsed.error);
     }
 
     const { sessionId, title, content } = parsed.data;
     
-    const savedStory: SavedStory = {
-      sessionId,
+    const savedStory: StoredStory = {
       title,
       content,
       savedAt: Date.now(),
     };
     
-    store.set(sessionId, savedStory);
+    await getSessionStore().update(sessionId, { story: savedStory });
 
     return Response.json({
       ok: true,
@@ -49,11 +38,7 @@ export async function POST(req: Request): Promise<Response> {
       savedAt: savedStory.savedAt,
     });
   } catch (err: unknown) {
-    console.error('SAVE STORY API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
 }
 
@@ -62,12 +47,15 @@ export async function GET(req: Request): Promise<Response> {
     const url = new URL(req.url);
     const sessionId = url.searchParams.get('sessionId') ?? '';
     if (!sessionId) {
-      return Response.json({ error: 'sessionId required' }, { status: 400 });
+      return errorResponse(new GatewayError('INVALID_BODY', 'sessionId required'));
+    }
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return errorResponse(new GatewayError('INVALID_BODY', 'invalid sessionId'));
     }
     
-    const story = store.get(sessionId);
+    const story = (await getSessionStore().get(sessionId))?.story;
     if (!story) {
-      return Response.json({ error: 'story not found', sessionId }, { status: 404 });
+      return errorResponse(new GatewayError('NOT_FOUND', 'story not found'), { sessionId });
     }
 
     return Response.json({
@@ -78,10 +66,6 @@ export async function GET(req: Request): Promise<Response> {
       savedAt: story.savedAt,
     });
   } catch (err: unknown) {
-    console.error('GET STORY API error:', err);
-    return Response.json(
-      { error: 'Internal Server Error', message: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(err);
   }
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { getSessionStore, SESSION_ID_PATTERN } from '@/lib/sessionStore';
+import { errorResponse, invalidBodyResponse, GatewayError } from '@/lib/llmGateway';
+
+// 配置为静态导出
+export const dynamic = "force-static";
+export const runtime = 'nodejs';
+
+const BodySchema = z.object({
+  sessionId: z.string().regex(SESSION_ID_PATTERN, 'invalid sessionId'),
+});
+
+/**
+ * POST /api/session/store/get
+ * 读取单个会话的完整记录（问答会话、角色、大纲与小节故事）
+ */
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const json = await req.json();
+    const parsed = BodySchema.safeParse(json);
+    if (!parsed.success) {
+      return invalidBodyResponse(parsed.error);
+    }
+    const { sessionId } = parsed.data;
+    const session = await getSessionStore().get(sessionId);
+    if (!session) {
+      return errorResponse(new GatewayError('NOT_FOUND', 'session not found'), { sessionId });
+    }
+    return Response.json({ ok: true, session });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
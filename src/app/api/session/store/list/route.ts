@@ -0,0 +1,19 @@
+import { getSessionStore } from '@/lib/sessionStore';
+import { errorResponse } from '@/lib/llmGateway';
+
+// 配置为静态导出
+export const dynamic = "force-static";
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/session/store/list
+ * 列出服务端持久化的全部会话摘要（按更新时间倒序）
+ */
+export async function GET(): Promise<Response> {
+  try {
+    const sessions = await getSessionStore().list();
+    return Response.json({ ok: true, sessions });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
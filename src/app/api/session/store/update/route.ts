@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { getSessionStore, SESSION_ID_PATTERN } from '@/lib/sessionStore';
+import { errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
+
+// 配置为静态导出
+export const dynamic = "force-static";
+export const runtime = 'nodejs';
+
+const OutlinePatchSchema = z.object({
+  id: z.string().min(1, 'outline id required'),
+  outlineXml: z.string().optional(),
+  charactersXml: z.string().optional(),
+  title: z.string().optional(),
+  protagonistName: z.string().optional(),
+  createdAt: z.number().optional(),
+  // 值为 null 表示删除该节
+  sectionStories: z.record(z.string(), z.string().nullable()).optional(),
+});
+
+const BodySchema = z.object({
+  sessionId: z.string().regex(SESSION_ID_PATTERN, 'invalid sessionId'),
+  title: z.string().optional(),
+  protagonistName: z.string().optional(),
+  roles: z.array(z.unknown()).optional(),
+  outlines: z.array(OutlinePatchSchema).optional(),
+  story: z
+    .object({
+      title: z.string(),
+      content: z.string(),
+      savedAt: z.number(),
+    })
+    .optional(),
+});
+
+/**
+ * POST /api/session/store/update
+ * 局部更新会话（不存在则创建）：顶层字段覆盖，大纲按 id 合并，小节故事按键合并
+ */
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const json = await req.json();
+    const parsed = BodySchema.safeParse(json);
+    if (!parsed.success) {
+      return invalidBodyResponse(parsed.error);
+    }
+    const { sessionId, ...patch } = parsed.data;
+    const session = await getSessionStore().update(sessionId, patch);
+    return Response.json({ ok: true, sessionId, updatedAt: session.updatedAt });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -1,18 +1,16 @@
-import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { getWorldPack, readWorldPackTemplate } from '@/lib/worldPacks';
 
 // 配置为静态导出
 export const dynamic = "force-static";
 export const runtime = 'nodejs';
 
 /**
- * 返回 game/workflow/生成大纲提示词.md 原始文本（不做替换）
- * 前端负责将 {{mainCharacter}} 替换为已选择的主人公名称。
+ * 返回默认世界包的 workflow/生成大纲提示词.md 原始文本（不做替换；其他世界包经 /api/session/packs/get 获取）
+ * 前端以模板引擎（@/lib/workflowPrompts）渲染 {{mainCharacter}}、{{characters}} 等变量。
  */
 export async function GET(): Promise<Response> {
   try {
-    const filePath = join(process.cwd(), 'game', 'workflow', '生成大纲提示词.md');
-    const text = await readFile(filePath, 'utf-8');
+    const text = await readWorldPackTemplate(await getWorldPack(), 'outline');
     return new Response(text, {
       status: 200,
       headers: { 'Content-Type': 'text/plain; charset=utf-8' },
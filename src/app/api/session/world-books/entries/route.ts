@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { loadWorldBookEntries } from '@/lib/worldBookFiles';
+import { getWorldPack } from '@/lib/worldPacks';
+import { errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
+
+// 配置为静态导出
+export const dynamic = "force-static";
+export const runtime = 'nodejs';
+
+const BodySchema = z.object({
+  // 为空时取默认世界包
+  packId: z.string().optional(),
+});
+
+/**
+ * GET /api/session/world-books/entries
+ * 以 JSON 返回默认世界包的全部世界书条目（供前端建立检索索引，只注入相关条目）
+ * 条目含 front matter 元数据（meta）；front matter 无法解析的行以 warnings 返回
+ */
+export async function GET(): Promise<Response> {
+  try {
+    const { entries, warnings } = await loadWorldBookEntries((await getWorldPack()).worldBooksDir);
+    return Response.json({ ok: true, entries, warnings });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * POST /api/session/world-books/entries
+ * 同 GET，但可指定世界包：{ packId? }
+ */
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const json = await req.json();
+    const parsed = BodySchema.safeParse(json);
+    if (!parsed.success) {
+      return invalidBodyResponse(parsed.error);
+    }
+    const pack = await getWorldPack(parsed.data.packId);
+    const { entries, warnings } = await loadWorldBookEntries(pack.worldBooksDir);
+    return Response.json({ ok: true, packId: pack.manifest.id, entries, warnings });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -1,42 +1,54 @@
-import { readdir, readFile } from 'fs/promises';
-import { join } from 'path';
+import { z } from 'zod';
+import { parseWorldBookFile } from '@/lib/worldRetrieval';
+import {
+  buildWorldBookTree,
+  createWorldBookFile,
+  deleteWorldBookFile,
+  updateWorldBookFile,
+  type WorldBookNode,
+} from '@/lib/worldBookFiles';
+import { getWorldPack } from '@/lib/worldPacks';
+import { errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
 
 // 配置为静态导出
 export const dynamic = "force-static";
 export const runtime = 'nodejs';
 
-type Node = { type: 'folder' | 'file'; name: string; children?: Node[]; content?: string };
+// 单个世界书文件的内容上限（字符）
+const MAX_CONTENT_LENGTH = 200_000;
+
+const PathSchema = z.string().min(1, 'path required');
+// 为空时取默认世界包
+const PackIdSchema = z.string().optional();
+const ContentSchema = z.string().max(MAX_CONTENT_LENGTH, 'content too long');
+
+const CreateSchema = z.object({
+  packId: PackIdSchema,
+  path: PathSchema,
+  content: ContentSchema.default(''),
+});
+
+const UpdateSchema = z
+  .object({
+    packId: PackIdSchema,
+    path: PathSchema,
+    content: ContentSchema.optional(),
+    // 重命名 / 移动到新路径
+    newPath: PathSchema.optional(),
+  })
+  .refine((b) => b.content !== undefined || b.newPath !== undefined, 'content or newPath required');
+
+const DeleteSchema = z.object({
+  packId: PackIdSchema,
+  path: PathSchema,
+});
 
 function cdata(s: string): string {
   const safe = (s ?? '').replace(/\]\]>/g, ']]]]><![CDATA[>');
   return `<![CDATA[${safe}]]>`;
 }
 
-async function buildTree(absDir: string, relName: string): Promise<Node> {
-  const dirNode: Node = { type: 'folder', name: relName, children: [] };
-  const entries = await readdir(absDir, { withFileTypes: true });
-  // 稳定输出：按名字排序
-  entries.sort((a, b) => a.name.localeCompare(b.name, 'zh-CN'));
-  for (const e of entries) {
-    const absPath = join(absDir, e.name);
-    if (e.isDirectory()) {
-      const child = await buildTree(absPath, e.name);
-      dirNode.children!.push(child);
-    } else if (e.isFile()) {
-      let content = '';
-      try {
-        content = await readFile(absPath, 'utf-8');
-      } catch {
-        // 跳过不可读文件
-        content = '';
-      }
-      dirNode.children!.push({ type: 'file', name: e.name, content });
-    }
-  }
-  return dirNode;
-}
-
-function renderXml(node: Node, indent = ''): string {
+function renderXml(node: WorldBookNode, indent = ''): string {
   const pad = (s: string) => s.split('\n').map((l) => indent + l).join('\n');
   if (node.type === 'folder') {
     const nameTag = `<name>${cdata(node.name)}</name>`;
@@ -46,23 +58,97 @@ function renderXml(node: Node, indent = ''): string {
     const body = [pad(nameTag), childrenXml ? childrenXml : ''].filter(Boolean).join('\n');
     return `${indent}<folder>\n${body}\n${indent}</folder>`;
   } else {
+    // front matter 不进入正文，改为输出元数据标签
+    const raw = node.content ?? '';
+    const { entry } = parseWorldBookFile(node.path, raw);
+    const meta = entry.content !== raw ? entry.meta : undefined;
     const nameTag = `<name>${cdata(node.name)}</name>`;
-    const contentTag = `<content>${cdata(node.content ?? '')}</content>`;
-    const body = [pad(nameTag), pad(contentTag)].join('\n');
+    const contentTag = `<content>${cdata(entry.content)}</content>`;
+    const metaTags = meta
+      ? [
+          meta.keywords.length > 0 ? `<keywords>${cdata(meta.keywords.join(', '))}</keywords>` : '',
+          meta.priority !== 0 ? `<priority>${meta.priority}</priority>` : '',
+          meta.constant ? '<constant>true</constant>' : '',
+          `<stages>${meta.stages.join(', ')}</stages>`,
+        ].filter(Boolean)
+      : [];
+    const body = [pad(nameTag), ...metaTags.map(pad), pad(contentTag)].join('\n');
     return `${indent}<file>\n${body}\n${indent}</file>`;
   }
 }
 
+/**
+ * GET /api/session/world-books
+ * 以 XML 返回默认世界包的全部世界书（folder/file 结构）
+ */
 export async function GET(): Promise<Response> {
   try {
-    const baseDir = join(process.cwd(), 'game', 'world_books');
-    const root = await buildTree(baseDir, 'world_books');
+    const root = await buildWorldBookTree((await getWorldPack()).worldBooksDir);
     const xml = ['<?xml version="1.0" encoding="UTF-8"?>', '<worldBooks>', renderXml(root, '  '), '</worldBooks>'].join('\n');
     return new Response(xml, {
       status: 200,
       headers: { 'Content-Type': 'application/xml; charset=utf-8' },
     });
   } catch (err: unknown) {
-    return Response.json({ error: 'Failed to read world_books', message: err instanceof Error ? err.message : 'Unknown error' }, { status: 500 });
+    return errorResponse(err);
+  }
+}
+
+/**
+ * POST /api/session/world-books
+ * 新建世界书文件：{ packId?, path: "world_setting/新条目.md", content }；已存在返回 409
+ */
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const json = await req.json();
+    const parsed = CreateSchema.safeParse(json);
+    if (!parsed.success) {
+      return invalidBodyResponse(parsed.error);
+    }
+    const { packId, path: relPath, content } = parsed.data;
+    const pack = await getWorldPack(packId);
+    const path = await createWorldBookFile(relPath, content, pack.worldBooksDir, pack.worldBookFolders);
+    return Response.json({ ok: true, path });
+  } catch (err: unknown) {
+    return errorResponse(err);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * PUT /api/session/world-books
+ * 保存内容和/或重命名、移动：{ packId?, path, content?, newPath? }
+ */
+export async function PUT(req: Request): Promise<Response> {
+  try {
+    const json = await req.json();
+    const parsed = UpdateSchema.safeParse(json);
+    if (!parsed.success) {
+      return invalidBodyResponse(parsed.error);
+    }
+    const { packId, path, content, newPath } = parsed.data;
+    const pack = await getWorldPack(packId);
+    const finalPath = await updateWorldBookFile(path, { content, newPath }, pack.worldBooksDir, pack.worldBookFolders);
+    return Response.json({ ok: true, path: finalPath });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
+
+/**
+ * DELETE /api/session/world-books
+ * 删除世界书文件：{ packId?, path }
+ */
+export async function DELETE(req: Request): Promise<Response> {
+  try {
+    const json = await req.json();
+    const parsed = DeleteSchema.safeParse(json);
+    if (!parsed.success) {
+      return invalidBodyResponse(parsed.error);
+    }
+    const pack = await getWorldPack(parsed.data.packId);
+    const path = await deleteWorldBookFile(parsed.data.path, pack.worldBooksDir, pack.worldBookFolders);
+    return Response.json({ ok: true, path });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { buildWorldBookTree } from '@/lib/worldBookFiles';
+import { getWorldPack } from '@/lib/worldPacks';
+import { errorResponse, invalidBodyResponse } from '@/lib/llmGateway';
+
+// 配置为静态导出
+export const dynamic = "force-static";
+export const runtime = 'nodejs';
+
+const BodySchema = z.object({
+  // 为空时取默认世界包
+  packId: z.string().optional(),
+});
+
+/**
+ * POST /api/session/world-books/tree
+ * 以 JSON 返回指定世界包的世界书目录树（文件带原文，含 front matter），以及允许写入的分类目录，供世界书编辑器使用
+ */
+export async function POST(req: Request): Promise<Response> {
+  try {
+    const json = await req.json();
+    const parsed = BodySchema.safeParse(json);
+    if (!parsed.success) {
+      return invalidBodyResponse(parsed.error);
+    }
+    const pack = await getWorldPack(parsed.data.packId);
+    const tree = await buildWorldBookTree(pack.worldBooksDir);
+    return Response.json({ ok: true, packId: pack.manifest.id, folders: pack.worldBookFolders, tree });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
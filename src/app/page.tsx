@@ -1,10 +1,169 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState, useCallback } from "react";
-import { parseFullStoryOutlineXml, parseStoryOutlineXml, parseStoryXml, type FullOutlineXML, type OutlineXML } from "@/lib/xml";
-import { buildFinalPrompt } from "@/lib/prompt";
-import { postChatCompletionsFromLocalConfig } from "../lib/aiClient";
-import { saveOutlineToHistory, loadOutlineHistory, clearOutlineHistory, type OutlineHistoryEntry } from "../lib/history";
+import {
+  parseFullStoryOutlineXml,
+  parseFullStoryOutlineXmlWithDiagnostics,
+  parseStoryOutlineXml,
+  parseStoryXmlWithDiagnostics,
+  parseCharacterCompletionXmlWithDiagnostics,
+  parseSectionMemoryXmlWithDiagnostics,
+  parseSectionStateXmlWithDiagnostics,
+  parseContinuityReportXmlWithDiagnostics,
+  parseTrialTurnXmlWithDiagnostics,
+  parseTrialVerdictXmlWithDiagnostics,
+  parseStoryChoicesXmlWithDiagnostics,
+  extractPartialStoryContent,
+  formatXmlDiagnostics,
+  type FullOutlineXML,
+  type OutlineXML,
+} from "@/lib/xml";
+import { qaToText } from "@/lib/prompt";
+import { formatTemplateIssues, type TemplateVars } from "@/lib/templateEngine";
+import {
+  buildWorkflowPrompt,
+  sectionTemplateVars,
+  splitWorkflowPrompt,
+  worldBookIncludes,
+  type WorkflowPromptPart,
+} from "@/lib/workflowPrompts";
+import { loadPromptPreviewEnabled, measurePromptParts, savePromptPreviewEnabled, type MeasuredPromptPart } from "@/lib/promptInspector";
+import PromptInspector from "@/components/PromptInspector";
+import type { ApiStage } from "@/lib/apiProfiles";
+import { embedTextsFromLocalConfig, postChatCompletionsFromLocalConfig, previewChatRequest, resolveStageModel } from "../lib/aiClient";
+import { budgetSectionPrompt, contextLimitFor, loadContextBudgetSettings, tailText, type ContextBudgetReport } from "@/lib/tokenBudget";
+import {
+  DEFAULT_MEMORY_TEMPLATE,
+  formatStoryMemory,
+  freshRecord,
+  loadStoryMemory,
+  putRecord,
+  saveStoryMemory,
+  sectionPosition,
+  textFingerprint,
+  type SectionMemory,
+  type StoryMemory,
+} from "@/lib/storyMemory";
+import {
+  buildStateExtractionPrompt,
+  formatStoryState,
+  isCharacterAlive,
+  loadStoryState,
+  reduceStoryState,
+  saveStoryState,
+  type SectionState,
+  type StoryStateRecord,
+} from "@/lib/storyState";
+import CastSidebar from "@/components/CastSidebar";
+import { castNamesFromCharactersXml, characterRecordsFromXml } from "@/lib/charactersXml";
+import {
+  buildContinuityJudgePrompt,
+  checkSectionRules,
+  formatRevisionNotes,
+  judgementFromReport,
+  loadContinuity,
+  saveContinuity,
+  type ContinuityIssue,
+  type ContinuityJudgement,
+  type ContinuityRecord,
+} from "@/lib/continuityCheck";
+import ContinuityReport from "@/components/ContinuityReport";
+import {
+  applyTrialTurn,
+  applyTrialVerdict,
+  buildTrialTurnPrompt,
+  buildTrialVerdictPrompt,
+  collectEvidence,
+  formatTrialOutcome,
+  investigationKeyBefore,
+  isTrialSection,
+  loadTrials,
+  newTrialSession,
+  playerEntry,
+  saveTrials,
+  trialSectionState,
+  trialSectionText,
+  type TrialAction,
+  type TrialPromptInput,
+  type TrialSession,
+} from "@/lib/trial";
+import TrialPanel from "@/components/TrialPanel";
+import {
+  activePath,
+  addStoryNode,
+  buildChoicePrompt,
+  childrenOf,
+  emptyStoryTree,
+  formatPlayerChoice,
+  latestLeafUnder,
+  loadBranchChoicesEnabled,
+  loadStoryTree,
+  mergeStoryTrees,
+  pathStories,
+  reconcileStoryTree,
+  saveBranchChoicesEnabled,
+  saveStoryTree,
+  setActiveLeaf,
+  storyLeaves,
+  updateStoryNode,
+  type StoryNode,
+  type StoryTree,
+} from "@/lib/storyTree";
+import BranchChoices from "@/components/BranchChoices";
+import StoryTreePanel from "@/components/StoryTreePanel";
+import {
+  SECTION_STORIES_PREFIX,
+  addSectionVersion,
+  collectSectionVersions,
+  loadSectionVersions,
+  saveSectionVersions,
+  type SectionVersion,
+  type SectionVersionRecord,
+  type SectionVersions,
+} from "@/lib/sectionVersions";
+import SectionVersionsPanel from "@/components/SectionVersionsPanel";
+import { streamWithContinuation } from "@/lib/continuation";
+import { saveOutlineToHistory, loadOutlineHistory, clearOutlineHistory, upsertOutlineHistory, type OutlineHistoryEntry } from "../lib/history";
+import { pushSession, listServerSessions, fetchServerSession, sectionStoriesPatch } from "@/lib/sessionSync";
+import type { SessionSummary } from "@/lib/sessionStore";
+import { buildProjectArchive, parseProjectArchive, restoreProjectArchive } from "@/lib/projectArchive";
+import { makeExcerpt, writeSaveSlot, type SaveSlot } from "@/lib/saveSlots";
+import SaveLoadPanel from "@/components/SaveLoadPanel";
+import WorldBookEditor from "@/components/WorldBookEditor";
+import FixedNpcEditor from "@/components/FixedNpcEditor";
+import {
+  DEFAULT_CAST_RULES,
+  activeNpcCharacters,
+  checkCastCount,
+  formatCastRange,
+  loadFixedNpcs,
+  npcsFromPack,
+  resetFixedNpcs,
+  saveFixedNpcs,
+  type FixedNpc,
+  type PromptCharacter,
+} from "@/lib/castRoster";
+import {
+  fetchWorldPack,
+  fetchWorldPacks,
+  loadSelectedPackId,
+  saveSelectedPackId,
+  type PackQuestion,
+  type WorldPackBundle,
+  type WorldPackSummary,
+} from "@/lib/worldPackClient";
+import StoryReader from "@/components/StoryReader";
+import { buildReaderScript, isLineRead, loadReadMarks, speakerNamesFromCharactersXml } from "@/lib/reader";
+import { bookFromOutline, safeFileName, toEpub, toHtml, toMarkdown } from "@/lib/storyExport";
+import {
+  fetchWorldBookEntries,
+  loadWorldRetrievalSettings,
+  retrieveWorldBooks,
+  type EmbedFn,
+  type WorldBookEntry,
+  type WorldRetrievalReport,
+  type WorldStage,
+} from "@/lib/worldRetrieval";
 
 /**
  * 前端文字游戏 · 问卷 → 多阶段 AI 工作流 → 故事结果
@@ -17,17 +176,6 @@ import { saveOutlineToHistory, loadOutlineHistory, clearOutlineHistory, type Out
 type StageStatus = "idle" | "running" | "done" | "error";
 
 
-/** 用于前端内存中的“中文提示词”结构（不落盘） */
-interface PromptCharacter {
-  name: string;           // 姓名（女性）
-  appearance: string;     // 外貌与衣着
-  magic_pre: string;      // 魔女化前的能力
-  magic_post: string;     // 魔女化后的能力
-  tragic_story: string;   // 悲惨故事
-  personality: string;    // 性格特质（正/负）
-  original_sin: string;   // 原罪
-}
-
 /** 最终发给 AI 的“中文键名”提示词结构 */
 interface PromptCharacterCN {
   姓名: string;
@@ -92,34 +240,6 @@ function mapRoleToPromptCharacter(role: RoleForm): PromptCharacter {
   return { name, appearance, magic_pre, magic_post, tragic_story, personality, original_sin };
 }
 
-/** 固定第13人：冰上 梅露露（根据补充设定提炼为六字段，中文值） */
-function getMeruruCharacter(): PromptCharacter {
-  return {
-    name: "冰上 梅露露",
-    appearance:
-      "白发灰瞳的纤细少女，身高约158cm。常独处、神情怯弱，稍受刺激便泪如雨下。" +
-      "喜静、爱阅读，擅长设计监狱内各类个性化物品（衣服、手机壳等）（梅露露不会透露是她设计的，少女们醒来就发现已经有这些东西了）。举止克制而敏感，" +
-      "常以近乎要哭的表情示人，时常在意自己是否做错、是否伤到他人。",
-    magic_pre:
-      "『治愈』——使目标回到过去的状态：可瞬时治疗身体伤势，并修复被破坏的无机物与尸体；" +
-      "但无法逆转死亡、使人复生。对“魔女化”具有一定的缓解或轻微降低作用。",
-    magic_post:
-      "能力进一步强化，连“心理创伤”亦可被治愈与抚平，治愈的深度与范围显著提升。",
-    tragic_story:
-      "曾是大魔女“月代雪”收养的人类试验品，被用于测试“魔女因子”。她并未变为残骸且仍保有人形，" +
-      "被视为失败作；却也因此寿命极长、几近不死（除特定药物外不可杀）。大魔女离开后，她将其视作唯一的家人，" +
-      "执念般地追寻其踪迹；在人类高层操纵下成为监狱的实际管理者与典狱长的主人，暗中推动“魔女审判”。" +
-      "她误以为以少女们相互残杀与绝望加深魔女化，就能从中找回大魔女，因而甘愿背负‘幕后黑手’之名；" +
-      "她也知晓“魔女安息仪式”的方法，却长久无法令良心跨过需要‘13名活着的魔女’的门槛。" +
-      "她把自己当作‘魔女’的一分子，并始终以为自己承接了‘魔女杀手’之力——这份信念既支撑她，也吞噬她。",
-    personality:
-      "过度忧虑、敏感自责、对他人有发自内心的尊敬；对自身消极并伴随自虐倾向。" +
-      "一旦在意某人会下意识尾随、躲在暗处观察；喜独处与阅读，情绪脆弱却又强迫自己背负“正确”的重担。",
-    original_sin:
-      "爱欲——对“大魔女”的执念与依恋凌驾于一切之上，以他人的痛苦与绝望换取一次“重逢”的可能。",
-  };
-}
-
 // CDATA 包裹，避免特殊符号造成解析错误
 function cdata(s: string): string {
   const t = (s || "").replace(/\]\]>/g, "]]]]><![CDATA[>");
@@ -149,48 +269,7 @@ function buildCharactersXml(protagonistName: string, list: PromptCharacterCN[]):
   return lines.join('\n');
 }
 
-// ==== 前端 AI 补全解析与模板（无后端依赖） ====
-type CompletionExtracted = {
-  name: string;
-  age: string;
-  appearanceClothes: string;
-  magicPre: string;
-  magicPost: string;
-  tragicStory: string;
-  personality: string;
-  originalSin: string;
-};
-
-function stripCDataLocal(s: string): string {
-  return (s ?? "").replace(/<!\[CDATA\[/g, "").replace(/\]\]>/g, "");
-}
-function innerTextLocal(xml: string, tag: string): string | null {
-  const re = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, "i");
-  const m = xml.match(re);
-  if (!m) return null;
-  return stripCDataLocal(m[1]).trim();
-}
-function parseCharacterCompletionXml(xml: string): CompletionExtracted | null {
-  if (typeof xml !== "string" || !xml.trim()) return null;
-  const rootMatch = xml.match(/<characterCompletion\b[^>]*>([\s\S]*?)<\/characterCompletion>/i);
-  const scope = rootMatch ? rootMatch[1] : xml;
-
-  const name = innerTextLocal(scope, "name") ?? "";
-  const age = innerTextLocal(scope, "age") ?? "";
-  const appearanceClothes = innerTextLocal(scope, "appearanceClothes") ?? "";
-  const magicPre = innerTextLocal(scope, "pre") ?? "";
-  const magicPost = innerTextLocal(scope, "post") ?? "";
-  const tragicStory = innerTextLocal(scope, "tragicStory") ?? "";
-  const personality = innerTextLocal(scope, "personality") ?? "";
-  const originalSin = innerTextLocal(scope, "originalSin") ?? "";
-
-  if (!name || !age || !appearanceClothes || !tragicStory || !personality || !originalSin) {
-    return null;
-  }
-  return { name, age, appearanceClothes, magicPre, magicPost, tragicStory, personality, originalSin };
-}
-
-// 与后端 fallback 一致的“人物补全”模板（前端直接使用）
+// 与后端 fallback 一致的“人物补全”模板（世界包未提供人物补全模板时使用）
 const CHARACTER_COMPLETION_TEMPLATE = `任务：生成一个人物设定（女性，15-18岁），并以 XML 输出，字段如下：
 - 姓名
 - 年龄
@@ -223,6 +302,7 @@ type UIQuestion = {
   placeholder?: string;
 };
 
+/** 世界包未声明问卷（或尚未加载）时使用的问题，与默认世界包一致 */
 const DEFAULT_QUESTIONS: UIQuestion[] = [
   {
     id: "q1",
@@ -308,9 +388,12 @@ function copyText(text: string) {
   } catch {}
 }
 
-function downloadText(filename: string, text: string) {
+function downloadText(filename: string, text: string, type = "text/plain;charset=utf-8") {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+function downloadBlob(filename: string, blob: Blob) {
   try {
-    const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
@@ -326,9 +409,10 @@ function OutlineCard({ entry, onLoad, onCreateSection }: { entry: OutlineHistory
   const [showParsed, setShowParsed] = useState(false);
 
   const parsed = useMemo(() => {
-    const full: FullOutlineXML | null = parseFullStoryOutlineXml(entry.outlineXml);
+    const fullRes = parseFullStoryOutlineXmlWithDiagnostics(entry.outlineXml);
+    const full: FullOutlineXML | null = fullRes.data;
     const minimal: OutlineXML | null = full ? null : parseStoryOutlineXml(entry.outlineXml);
-    return { full, minimal };
+    return { full, minimal, problem: full || minimal ? "" : formatXmlDiagnostics(fullRes.diagnostics) };
   }, [entry.outlineXml]);
 
   const created = new Date(entry.createdAt);
@@ -468,7 +552,9 @@ function OutlineCard({ entry, onLoad, onCreateSection }: { entry: OutlineHistory
               </ol>
             </section>
           ) : (
-            <p className="text-[13px] leading-[18px] text-red-600">无法解析该 XML。</p>
+            <p className="text-[13px] leading-[18px] text-red-600">
+              无法解析该 XML。{parsed.problem}
+            </p>
           )}
         </div>
       )}
@@ -476,6 +562,97 @@ function OutlineCard({ entry, onLoad, onCreateSection }: { entry: OutlineHistory
   );
 }
 
+// --- 本页内联：服务端会话列表（从 /api/session/store 拉取，导入到本机大纲历史） ---
+function ServerSessionList({ onImported }: { onImported?: () => void }) {
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function refresh() {
+    setLoading(true);
+    setMessage(null);
+    const list = await listServerSessions();
+    setLoading(false);
+    if (!list) {
+      setMessage("无法连接服务端会话存储（纯静态部署时不可用）。");
+      return;
+    }
+    setSessions(list);
+  }
+
+  async function importSession(id: string) {
+    setMessage(null);
+    const rec = await fetchServerSession(id);
+    if (!rec) {
+      setMessage("读取会话失败。");
+      return;
+    }
+    for (const o of rec.outlines) {
+      if (!o.outlineXml) continue;
+      upsertOutlineHistory({
+        id: o.id,
+        sessionId: rec.sessionId,
+        protagonistName: o.protagonistName ?? rec.protagonistName ?? "",
+        createdAt: o.createdAt,
+        outlineXml: o.outlineXml,
+        charactersXml: o.charactersXml,
+        title: o.title,
+      });
+      if (o.sectionStories && Object.keys(o.sectionStories).length > 0) {
+        try {
+          const local = JSON.parse(localStorage.getItem(SECTION_STORIES_PREFIX + o.id) || "{}");
+          localStorage.setItem(SECTION_STORIES_PREFIX + o.id, JSON.stringify({ ...local, ...o.sectionStories }));
+        } catch {}
+      }
+    }
+    setMessage(`已导入 ${rec.outlines.length} 份大纲。`);
+    onImported?.();
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={loading}
+          className="h-10 px-4 rounded-[8px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform disabled:opacity-60"
+          title="列出服务端保存的会话"
+        >
+          {loading ? "读取中…" : "服务端会话"}
+        </button>
+        {message && <span className="text-[13px] leading-[18px] text-black/60">{message}</span>}
+      </div>
+      {sessions && (
+        sessions.length === 0 ? (
+          <p className="mt-3 text-[14px] leading-[20px] text-black/70">服务端暂无会话。</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-black/10 border border-black/10">
+            {sessions.map((s) => (
+              <li key={s.sessionId} className="flex flex-wrap items-center gap-3 p-3">
+                <div className="min-w-0 flex-1">
+                  <p className="text-[14px] leading-[20px] font-medium">{s.title || "未命名会话"}</p>
+                  <p className="text-[12px] leading-[16px] text-black/60">
+                    主人公：{s.protagonistName || "—"} · 大纲 {s.outlineCount} · 小节 {s.sectionCount} · 更新：{new Date(s.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => importSession(s.sessionId)}
+                  className="h-10 px-4 rounded-[8px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform"
+                  title="导入到本机大纲历史"
+                >
+                  导入
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
+
 type RoleForm = {
   roleId: string;
   roleName: string;
@@ -484,7 +661,10 @@ type RoleForm = {
   questions: UIQuestion[];
 };
 
-function makeDefaultQuestions(): UIQuestion[] {
+function makeDefaultQuestions(questions?: PackQuestion[]): UIQuestion[] {
+  if (questions && questions.length > 0) {
+    return questions.map((q) => ({ id: q.id, q: q.q, a: "", fixed: true, placeholder: q.placeholder }));
+  }
   return DEFAULT_QUESTIONS.map((q) => ({ ...q, a: "" }));
 }
 
@@ -494,8 +674,33 @@ function newRoleName(n: number): string {
 
 // 本地存储键名
 const ROLES_CACHE_KEY = "manosaba_ai.roles";
-const SECTION_STORIES_PREFIX = "manosaba_ai.section_stories.";
 const SECTION_EXPAND_PREFIX = "manosaba_ai.section_expand.";
+// 每节生成时的自动续写情况（按大纲分区）
+const SECTION_ROUNDS_PREFIX = "manosaba_ai.section_rounds.";
+
+type SectionRounds = Record<string, { rounds: number; truncated?: boolean }>;
+
+// 生成或开庭前需补齐的小节达到此数时先确认（每节两次模型调用）
+const BACKFILL_CONFIRM_SECTIONS = 3;
+// 小节正文的生成温度（与接口默认值一致，显式传入以便记入版本历史）
+const SECTION_STORY_TEMPERATURE = 1.0;
+
+// 注入提示词的世界书：xml 为收录条目的 XML，entries 为全部条目（供 {{> 引用}}），included 为收录的条目
+type LoadedWorld = { xml: string; entries: WorldBookEntry[]; included: WorldBookEntry[]; report?: WorldRetrievalReport };
+
+// 此前各节的剧情记忆与故事状态（按故事顺序）
+type SectionRecords = { memory: SectionMemory[]; states: SectionState[] };
+
+// 互动审判进行中的上下文：提示词的事实依据与面板展示所需（session 之外的部分开庭时确定）
+type TrialState = {
+  outlineKey: string;
+  session: TrialSession;
+  input: Omit<TrialPromptInput, "session">;
+  candidates: string[];
+};
+
+// 调查节正文作为审判依据时保留的结尾字数
+const TRIAL_INVESTIGATION_CHARS = 6000;
 
 // 从本地存储加载角色数据
 function loadRolesFromCache(): RoleForm[] {
@@ -534,6 +739,12 @@ function saveRolesToCache(roles: RoleForm[]) {
 export default function Home() {
   const [roles, setRoles] = useState<RoleForm[]>([]);
   const [isClient, setIsClient] = useState(false);
+  // 世界包：当前选择（空串为默认世界包）、可选列表与已加载的清单/模板
+  const [packId, setPackId] = useState("");
+  const [packs, setPacks] = useState<WorldPackSummary[]>([]);
+  const [pack, setPack] = useState<WorldPackBundle | null>(null);
+  const castRules = pack?.manifest.cast ?? DEFAULT_CAST_RULES;
+  const requiredAnswers = pack?.manifest.questions?.length ?? DEFAULT_QUESTIONS.length;
   // 开始界面：初始显示左下角按钮行，点击后进入主界面
   const [showStartMenu, setShowStartMenu] = useState(true);
   // 同步“开始界面”状态到 body 类（用于初始页面隐藏 API 插头按钮）
@@ -589,6 +800,61 @@ export default function Home() {
     }
   }, []);
 
+  // 世界包：读取上次的选择与可选列表
+  useEffect(() => {
+    setPackId(loadSelectedPackId());
+    fetchWorldPacks()
+      .then(setPacks)
+      .catch((e) => console.warn("[packs] 读取世界包列表失败", e));
+  }, []);
+
+  // 切换世界包后加载清单（阵容人数、问卷、固定 NPC）；所选世界包不存在时回退为默认世界包
+  useEffect(() => {
+    if (!isClient) return;
+    let cancelled = false;
+    fetchWorldPack(packId)
+      .then((bundle) => {
+        if (!cancelled) setPack(bundle);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.warn("[packs] 读取世界包失败", e);
+        setPack(null);
+        if (packId) {
+          saveSelectedPackId("");
+          setPackId("");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [packId, isClient]);
+
+  function selectPack(id: string) {
+    saveSelectedPackId(id);
+    setPackId(id);
+  }
+
+  // 固定 NPC 名单：随世界包切换读取（本地修改优先，否则为清单默认名单）
+  const [fixedNpcs, setFixedNpcs] = useState<FixedNpc[]>([]);
+  const [npcEditorOpen, setNpcEditorOpen] = useState(false);
+  const closeNpcEditor = useCallback(() => setNpcEditorOpen(false), []);
+  useEffect(() => {
+    if (pack) setFixedNpcs(loadFixedNpcs(pack.manifest.id, pack.manifest.fixedCharacters));
+  }, [pack]);
+
+  function changeFixedNpcs(list: FixedNpc[]) {
+    if (!pack) return;
+    saveFixedNpcs(pack.manifest.id, list);
+    setFixedNpcs(list);
+  }
+
+  function resetNpcs() {
+    if (!pack) return;
+    resetFixedNpcs(pack.manifest.id);
+    setFixedNpcs(npcsFromPack(pack.manifest.fixedCharacters));
+  }
+
   // 监听 roles 变化并自动保存到缓存（仅在客户端）
   useEffect(() => {
     if (isClient && roles.length > 0) {
@@ -629,13 +895,20 @@ export default function Home() {
 
   // 组装后的“中文提示词”变量（仅内存，不落盘；最终发给 AI 使用中文键名）
   const [rolesPrompt, setRolesPrompt] = useState<PromptPayloadCN | null>(null);
+
+  // 当前主人公名称：组装后的提示词 → 选中角色 → 从流程或历史载入的名称
+  function protagonistName(fallback = "未命名角色"): string {
+    return rolesPrompt?.主人公名称 || roles.find(r => r.roleId === protagonist)?.roleName?.trim() || protagonistNameState || fallback;
+  }
   // 以 XML 字符串形式保存“人物提示词”（不使用 JSON，直接可发给 AI）
   const [rolesPromptXml, setRolesPromptXml] = useState<string | null>(null);
   const [outlineFull, setOutlineFull] = useState<FullOutlineXML | null>(null);
   const [outlineMinimal, setOutlineMinimal] = useState<OutlineXML | null>(null);
-  const [, setOutlineTitle] = useState<string | undefined>(undefined);
+  const [outlineTitle, setOutlineTitle] = useState<string | undefined>(undefined);
   const [outlineXmlText, setOutlineXmlText] = useState<string>("");
   const [currentOutlineKey, setCurrentOutlineKey] = useState<string | null>(null);
+  // 当前大纲所属会话（新生成时为本次 sessionId，从历史载入时为历史条目的 sessionId），用于同步到服务端
+  const [outlineSessionId, setOutlineSessionId] = useState<string | null>(null);
   const [sectionExpand, setSectionExpand] = useState<Record<string, boolean>>({});
 
 
@@ -855,15 +1128,20 @@ export default function Home() {
     setTimeout(() => setLastCgIdx(null), 800);
   }
 
+  // 阅读模式（打开时由阅读器接管方向键）
+  const [readerOpen, setReaderOpen] = useState(false);
+  const [readerStart, setReaderStart] = useState(0);
+
   // 键盘快捷键（左右方向键）
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
+      if (readerOpen) return;
       if (e.key === "ArrowLeft") goPrev();
       else if (e.key === "ArrowRight") goNext();
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [goNext, goPrev]);
+  }, [goNext, goPrev, readerOpen]);
 
   // 工具方法：统计每个角色的回答数
   function answeredCount(role: RoleForm): number {
@@ -872,13 +1150,17 @@ export default function Home() {
 
   const selectedRoles = useMemo(() => roles.filter((r) => r.selected), [roles]);
   const invalidSelectedRoles = useMemo(
-    () => selectedRoles.filter((r) => answeredCount(r) < 7),
-    [selectedRoles]
+    () => selectedRoles.filter((r) => answeredCount(r) < requiredAnswers),
+    [selectedRoles, requiredAnswers]
   );
 
   const canSubmit = useMemo(
-    () => !running && selectedRoles.length === 12 && invalidSelectedRoles.length === 0 && protagonist,
-    [running, selectedRoles, invalidSelectedRoles, protagonist]
+    () =>
+      !running &&
+      !checkCastCount(selectedRoles.length, castRules) &&
+      invalidSelectedRoles.length === 0 &&
+      protagonist,
+    [running, selectedRoles, castRules, invalidSelectedRoles, protagonist]
   );
 
   function resetAll() {
@@ -892,7 +1174,7 @@ export default function Home() {
         roleName: newRoleName(1),
         selected: true,
         expanded: true,
-        questions: makeDefaultQuestions(),
+        questions: makeDefaultQuestions(pack?.manifest.questions),
       },
     ];
     setRoles(newRoles);
@@ -940,7 +1222,7 @@ export default function Home() {
           roleName: newRoleName(nextIdx),
           selected: true,
           expanded: true,
-          questions: makeDefaultQuestions(),
+          questions: makeDefaultQuestions(pack?.manifest.questions),
         },
       ];
     });
@@ -997,11 +1279,31 @@ export default function Home() {
         .filter((x) => x.a.trim().length > 0)
         .map((x) => ({ q: x.q.trim(), a: x.a.trim() }));
 
-      const { finalPrompt } = buildFinalPrompt(qa as Array<{ q: string; a: string }>, CHARACTER_COMPLETION_TEMPLATE);
-      const res = await postChatCompletionsFromLocalConfig(finalPrompt);
+      // 世界书：仅注入声明了 completion 阶段的条目；读取失败不影响补全
+      let world: LoadedWorld = { xml: "", entries: [], included: [] };
+      try {
+        world = await loadWorldXml(qa.map((x) => x.a).join("\n"), "completion", `completion-${roleId}`);
+      } catch (e: unknown) {
+        console.warn("[world-books] 人物补全读取世界书失败", e);
+      }
+      const template = pack?.templates.character || CHARACTER_COMPLETION_TEMPLATE;
+      const vars = { qa: qaToText(qa), worldBooks: world.xml };
+      const includes = worldBookIncludes(world.entries);
+      const { prompt, issues } = buildWorkflowPrompt("character", template, vars, includes);
+      if (issues.length > 0) throw new Error(`人物补全模板有误：\n${formatTemplateIssues(issues)}`);
+      const finalPrompt = await reviewPrompt(
+        `人物补全 · ${role.roleName}`,
+        "completion",
+        prompt,
+        splitWorkflowPrompt("character", template, vars, includes)
+      );
+      if (finalPrompt === null) return;
+      const res = await postChatCompletionsFromLocalConfig(finalPrompt, { stage: "completion" });
       if (!res.ok) throw new Error(res.message || "AI 补全失败");
-      const parsed = parseCharacterCompletionXml(res.text || "");
-      if (!parsed) throw new Error("AI 补全解析失败");
+      const { data: parsed, diagnostics } = parseCharacterCompletionXmlWithDiagnostics(res.text || "", {
+        finishReason: res.finishReason,
+      });
+      if (!parsed) throw new Error(`AI 补全解析失败：${formatXmlDiagnostics(diagnostics)}`);
 
       const { name, age, appearanceClothes, magicPre, magicPost, tragicStory, personality, originalSin } = parsed;
 
@@ -1053,14 +1355,15 @@ export default function Home() {
 
     // 构造"已勾选角色"的问答
     const selected = roles.filter((r) => r.selected);
-    if (selected.length !== 12) {
-      setError("必须严格勾选 12 个角色才能生成故事。");
+    const castError = checkCastCount(selected.length, castRules);
+    if (castError) {
+      setError(`${castError}，才能生成故事。`);
       setStage((s) => ({ ...s, profile: "error" }));
       setRunning(false);
       return;
     }
-    if (selected.some((r) => answeredCount(r) < 7)) {
-      setError("每个勾选的角色必须回答完全部 7 个问题。");
+    if (selected.some((r) => answeredCount(r) < requiredAnswers)) {
+      setError(`每个勾选的角色必须回答完全部 ${requiredAnswers} 个问题。`);
       setStage((s) => ({ ...s, profile: "error" }));
       setRunning(false);
       return;
@@ -1073,34 +1376,27 @@ export default function Home() {
     }
 
     try {
-      // 1) 在前端内存中组装“中文键名”的人物列表（固定追加第13位：冰上 梅露露）
+      // 0) 拉取当前世界包（模板与固定 NPC 以最新文件为准）
+      const bundle = await fetchWorldPack(packId);
+      setPack(bundle);
+
+      // 1) 在前端内存中组装“中文键名”的人物列表（追加已启用的固定 NPC，如默认世界包的冰上 梅露露）
       const protagonistRole = selected.find((r) => r.roleId === protagonist)!;
       const protagonistName = (protagonistRole?.roleName?.trim() || "未命名角色");
       setProtagonistNameState(protagonistName);
 
-      const charactersEN = selected.map(mapRoleToPromptCharacter);
-      const meruruEN = getMeruruCharacter();
-
-      const charactersCN: PromptCharacterCN[] = [
-        ...charactersEN.map((c) => ({
-          姓名: c.name,
-          外貌与衣着: c.appearance,
-          魔女化前的能力: c.magic_pre,
-          魔女化后的能力: c.magic_post,
-          悲惨故事: c.tragic_story,
-          性格特质: c.personality,
-          原罪: c.original_sin,
-        })),
-        {
-          姓名: meruruEN.name,
-          外貌与衣着: meruruEN.appearance,
-          魔女化前的能力: meruruEN.magic_pre,
-          魔女化后的能力: meruruEN.magic_post,
-          悲惨故事: meruruEN.tragic_story,
-          性格特质: meruruEN.personality,
-          原罪: meruruEN.original_sin,
-        },
-      ];
+      const npcs = loadFixedNpcs(bundle.manifest.id, bundle.manifest.fixedCharacters);
+      const charactersEN: PromptCharacter[] = [...selected.map(mapRoleToPromptCharacter), ...activeNpcCharacters(npcs)];
+
+      const charactersCN: PromptCharacterCN[] = charactersEN.map((c) => ({
+        姓名: c.name,
+        外貌与衣着: c.appearance,
+        魔女化前的能力: c.magic_pre,
+        魔女化后的能力: c.magic_post,
+        悲惨故事: c.tragic_story,
+        性格特质: c.personality,
+        原罪: c.original_sin,
+      }));
 
       const promptPayloadCN: PromptPayloadCN = {
         主人公名称: protagonistName,
@@ -1116,31 +1412,59 @@ export default function Home() {
       (window as typeof window & { rolesPromptXml?: string }).rolesPromptXml = charactersXml;
       console.info("rolesPromptXml", charactersXml);
 
-      // 3) 读取 world_books 大提示词（XML）与生成大纲模板原文，并替换 {{mainCharacter}}
-      const rWorld = await fetch("/api/session/world-books", { method: "GET" });
-      if (!rWorld.ok) throw new Error(`world-books 接口错误：${rWorld.status}`);
-      const worldXml = await rWorld.text();
-
-      const rTpl = await fetch("/api/session/workflow/outline-prompt", { method: "GET" });
-      if (!rTpl.ok) throw new Error(`outline-prompt 接口错误：${rTpl.status}`);
-      let outlineTpl = await rTpl.text();
-      outlineTpl = outlineTpl.replace(/\{\{\s*mainCharacter\s*\}\}/g, protagonistName);
+      // 3) 检索与人物相关的世界书（XML）
+      const castNames = speakerNamesFromCharactersXml(charactersXml, [protagonistName]);
+      const world = await loadWorldXml(
+        [protagonistName, ...castNames, ...castNames, charactersXml.replace(/<[^>]+>/g, " ")].join("\n"),
+        "outline",
+        "outline"
+      );
 
-      // 4) 组装最终 rawPrompt：先 world_books XML，再人物 XML，最后模板文本
-      const rawPrompt = [worldXml, charactersXml, outlineTpl].join("\n\n");
+      // 4) 以生成大纲模板渲染最终 rawPrompt（模板有误时不发送请求）
+      const outlineVars = {
+        worldBooks: world.xml,
+        characters: charactersXml,
+        mainCharacter: protagonistName,
+        castCount: charactersEN.length,
+        castList: charactersEN.map((c) => c.name),
+      };
+      const includes = worldBookIncludes(world.entries);
+      const built = buildWorkflowPrompt("outline", bundle.templates.outline, outlineVars, includes);
+      if (built.issues.length > 0) throw new Error(`生成大纲模板有误：\n${formatTemplateIssues(built.issues)}`);
+
+      // 开启“发送前预览”时先确认提示词；取消则回到问卷，不发送请求
+      const rawPrompt = await reviewPrompt(
+        "故事大纲",
+        "outline",
+        built.prompt,
+        splitWorkflowPrompt("outline", bundle.templates.outline, outlineVars, includes)
+      );
+      if (rawPrompt === null) {
+        setStage({ profile: "idle", outline: "idle", story: "idle" });
+        setStep("form");
+        return;
+      }
 
       setStage((s) => ({ ...s, profile: "done", outline: "running" }));
 
       // 5) 前端直接调用 LLM，发送 rawPrompt 获取故事大纲 XML
-      const outlineRes = await postChatCompletionsFromLocalConfig(rawPrompt);
+      const outlineRes = await postChatCompletionsFromLocalConfig(rawPrompt, { stage: "outline" });
       if (!outlineRes.ok || !outlineRes.text) {
         throw new Error(outlineRes.message || "大纲生成失败（LLM响应为空或错误）");
       }
       const outlineXml = outlineRes.text;
 
       // 解析完整/简易结构
-      const full = parseFullStoryOutlineXml(outlineXml);
+      const fullRes = parseFullStoryOutlineXmlWithDiagnostics(outlineXml, { finishReason: outlineRes.finishReason });
+      const full = fullRes.data;
       const minimal = full ? null : parseStoryOutlineXml(outlineXml);
+      if (!full && !minimal) {
+        // 仍保留原始 XML 以便查看，但提示具体原因
+        showErrorPopup(`大纲解析失败：${formatXmlDiagnostics(fullRes.diagnostics)}`);
+      } else if (full) {
+        const dropped = fullRes.diagnostics.issues.filter((i) => i.code === "incomplete-item");
+        if (dropped.length > 0) showErrorPopup(`大纲输出不完整：${dropped.map((i) => i.message).join("；")}`);
+      }
       setOutlineFull(full ?? null);
       setOutlineMinimal(minimal ?? null);
       setOutlineTitle(full?.title);
@@ -1160,6 +1484,14 @@ export default function Home() {
       };
       try { saveOutlineToHistory(entry); } catch {}
       setCurrentOutlineKey(entry.id);
+      setOutlineSessionId(sessionId);
+      // 同步到服务端会话存储（尽力而为）
+      void pushSession(sessionId, {
+        title: full?.title,
+        protagonistName,
+        roles,
+        outlines: [{ id: entry.id, outlineXml, charactersXml, title: full?.title, protagonistName, createdAt: entry.createdAt }],
+      });
 
       setStage((s) => ({ ...s, outline: "done", story: "idle" }));
 
@@ -1183,8 +1515,41 @@ export default function Home() {
 
   // 每节故事生成缓存：键 = "chapterIdx-sectionIdx"
   const [sectionStories, setSectionStories] = useState<Record<string, string>>({});
+  // sectionStories 所属的大纲键（载入完成前与 currentOutlineKey 不同）
+  const [storiesOutlineKey, setStoriesOutlineKey] = useState<string | null>(null);
+  // 上次成功推送到服务端的小节故事（target 为“会话/大纲键”）
+  const pushedStoriesRef = useRef<{ target: string; stories: Record<string, string> } | null>(null);
   // 当前正在生成的节（用于禁用按钮与显示“创建中...”文案）
   const [generatingKey, setGeneratingKey] = useState<string | null>(null);
+  // 流式生成中的节正文（随 SSE 分块实时刷新）与中止控制器
+  const [streamingText, setStreamingText] = useState<string>("");
+  const [streamingRound, setStreamingRound] = useState<number>(0);
+  // 生成前补齐此前各节记录的进度（无需补齐时为 null）
+  const [backfillProgress, setBackfillProgress] = useState<{ done: number; total: number } | null>(null);
+  // 各节自动续写轮数（用于卡片徽标）
+  const [sectionRounds, setSectionRounds] = useState<SectionRounds>({});
+  // 世界书检索报告（键："outline" 或小节键）
+  const [worldReports, setWorldReports] = useState<Record<string, WorldRetrievalReport>>({});
+  // 上下文预算报告（键：小节键）
+  const [budgetReports, setBudgetReports] = useState<Record<string, ContextBudgetReport>>({});
+  // 剧情记忆与故事状态（所属大纲键 + 各节记录）；提取状态键为 "memory:小节键" / "state:小节键"
+  // 进行中的提取任务按类型、大纲键、小节键与正文指纹去重
+  const [storyMemory, setStoryMemory] = useState<{ outlineKey: string; entries: StoryMemory }>({ outlineKey: "", entries: {} });
+  const [storyState, setStoryState] = useState<{ outlineKey: string; entries: StoryStateRecord }>({ outlineKey: "", entries: {} });
+  const [continuity, setContinuity] = useState<{ outlineKey: string; entries: ContinuityRecord }>({ outlineKey: "", entries: {} });
+  const [extractStatus, setExtractStatus] = useState<Record<string, "pending" | "error">>({});
+  const extractJobsRef = useRef<Map<string, Promise<unknown>>>(new Map());
+  const [castSidebarOpen, setCastSidebarOpen] = useState(false);
+  const [storyTree, setStoryTree] = useState<{ outlineKey: string; tree: StoryTree }>({ outlineKey: "", tree: emptyStoryTree() });
+  const [branchChoices, setBranchChoices] = useState(false);
+  const [storyTreeOpen, setStoryTreeOpen] = useState(false);
+  const [sectionVersions, setSectionVersions] = useState<{ outlineKey: string; entries: SectionVersions }>({ outlineKey: "", entries: {} });
+  // 正在查看版本历史的小节键
+  const [versionsKey, setVersionsKey] = useState<string | null>(null);
+  const [trial, setTrial] = useState<TrialState | null>(null);
+  const [trialBusy, setTrialBusy] = useState(false);
+  const [trialError, setTrialError] = useState<string | null>(null);
+  const sectionAbortRef = useRef<AbortController | null>(null);
 
   // 章节顺序键列表（用于控制“只允许依次生成”与“只允许最近一节重新生成”）
   const orderedKeys = useMemo(() => {
@@ -1231,22 +1596,63 @@ export default function Home() {
   // 加载/保存本节生成内容与折叠状态（按当前大纲键分区）
   useEffect(() => {
     if (!currentOutlineKey) return;
+    // 没有本地正文的大纲从空白开始（否则上一份大纲的正文会被并入本大纲的故事树）
+    let stories: Record<string, string> = {};
     try {
       const s = localStorage.getItem(SECTION_STORIES_PREFIX + currentOutlineKey);
-      if (s) setSectionStories(JSON.parse(s));
+      if (s) stories = JSON.parse(s);
     } catch {}
+    setSectionStories(stories);
+    setStoriesOutlineKey(currentOutlineKey);
+    const loadedTree = loadStoryTree(currentOutlineKey);
+    const tree = reconcileStoryTree(loadedTree, stories);
+    if (tree !== loadedTree) saveStoryTree(currentOutlineKey, tree);
+    setStoryTree({ outlineKey: currentOutlineKey, tree });
     try {
       const e = localStorage.getItem(SECTION_EXPAND_PREFIX + currentOutlineKey);
       if (e) setSectionExpand(JSON.parse(e));
     } catch {}
+    try {
+      const r = localStorage.getItem(SECTION_ROUNDS_PREFIX + currentOutlineKey);
+      setSectionRounds(r ? JSON.parse(r) : {});
+    } catch {}
+    setStoryMemory({ outlineKey: currentOutlineKey, entries: loadStoryMemory(currentOutlineKey) });
+    setStoryState({ outlineKey: currentOutlineKey, entries: loadStoryState(currentOutlineKey) });
+    setContinuity({ outlineKey: currentOutlineKey, entries: loadContinuity(currentOutlineKey) });
+    setSectionVersions({ outlineKey: currentOutlineKey, entries: loadSectionVersions(currentOutlineKey) });
+    setExtractStatus({});
   }, [currentOutlineKey]);
 
+  // 存档、导入等直接写入的正文并入故事树的当前分支
   useEffect(() => {
-    if (!currentOutlineKey) return;
+    if (!currentOutlineKey || storyTree.outlineKey !== currentOutlineKey) return;
+    const tree = reconcileStoryTree(storyTree.tree, sectionStories);
+    if (tree === storyTree.tree) return;
+    saveStoryTree(currentOutlineKey, tree);
+    setStoryTree({ outlineKey: currentOutlineKey, tree });
+  }, [sectionStories, storyTree, currentOutlineKey]);
+
+  useEffect(() => {
+    setBranchChoices(loadBranchChoicesEnabled());
+  }, []);
+
+  // 切换大纲后的首次渲染中 sectionStories 仍是上一份大纲的正文，须等本大纲载入后再保存与推送；
+  // 推送只发送相对上次推送的增量，移出当前分支的小节以 null 删除
+  useEffect(() => {
+    if (!currentOutlineKey || storiesOutlineKey !== currentOutlineKey) return;
     try {
       localStorage.setItem(SECTION_STORIES_PREFIX + currentOutlineKey, JSON.stringify(sectionStories));
     } catch {}
-  }, [sectionStories, currentOutlineKey]);
+    if (!outlineSessionId) return;
+    const target = `${outlineSessionId}/${currentOutlineKey}`;
+    const last = pushedStoriesRef.current;
+    const patch = sectionStoriesPatch(last?.target === target ? last.stories : {}, sectionStories);
+    if (!patch) return;
+    const stories = sectionStories;
+    void pushSession(outlineSessionId, { outlines: [{ id: currentOutlineKey, sectionStories: patch }] }).then((ok) => {
+      if (ok) pushedStoriesRef.current = { target, stories };
+    });
+  }, [sectionStories, storiesOutlineKey, currentOutlineKey, outlineSessionId]);
 
   useEffect(() => {
     if (!currentOutlineKey) return;
@@ -1255,6 +1661,13 @@ export default function Home() {
     } catch {}
   }, [sectionExpand, currentOutlineKey]);
 
+  useEffect(() => {
+    if (!currentOutlineKey) return;
+    try {
+      localStorage.setItem(SECTION_ROUNDS_PREFIX + currentOutlineKey, JSON.stringify(sectionRounds));
+    } catch {}
+  }, [sectionRounds, currentOutlineKey]);
+
   // 为某节创建故事前的持久化与错误弹窗工具
   function showErrorPopup(msg: string) {
     try {
@@ -1265,12 +1678,678 @@ export default function Home() {
     } catch {}
   }
 
-  // 为某节创建故事
-  async function generateSectionStory(chIdx: number, secIdx: number, sectionTitle: string) {
+  /**
+   * 取注入提示词的世界书 XML：只收录适用于该阶段的条目，带关键词的条目需被 query 触发，常驻条目总是收录；
+   * 开启检索时其余条目还需与 query 相关且在 token 预算内，关闭检索时不做相关度与预算限制。
+   * 没有可收录的条目时 xml 为空串；entries 为全部条目，供模板 {{> 引用}} 解析；
+   * included 为收录的条目，供上下文预算按优先级裁剪。
+   */
+  async function loadWorldXml(
+    query: string,
+    stage: WorldStage,
+    reportKey: string
+  ): Promise<LoadedWorld> {
+    const settings = loadWorldRetrievalSettings();
+    const entries = await fetchWorldBookEntries(packId);
+    const model = settings.enabled ? settings.embeddingModel : "";
+    const embed: EmbedFn | undefined = model
+      ? async (texts) => {
+          const r = await embedTextsFromLocalConfig(texts, { model });
+          if (!r.ok) throw new Error(r.message || "向量化失败");
+          return r.vectors;
+        }
+      : undefined;
+    const { xml, entries: included, report } = await retrieveWorldBooks(entries, query, {
+      stage,
+      budgetTokens: !settings.enabled ? undefined : stage === "outline" ? settings.outlineBudget : settings.sectionBudget,
+      embed,
+      embedCacheKey: model,
+      embeddingWeight: settings.embeddingWeight,
+    });
+    setWorldReports(prev => ({ ...prev, [reportKey]: report }));
+    return { xml, entries, included, report };
+  }
+
+  // 当前大纲下某节的剧情记忆（正文已变化的旧记忆不展示）
+  function memoryOf(key: string): SectionMemory | undefined {
+    return storyMemory.outlineKey === currentOutlineKey ? freshRecord(storyMemory.entries, key, sectionStories[key]) : undefined;
+  }
+
+  // 当前局势：按故事顺序汇总已生成小节的故事状态（“局势”侧栏）
+  const storySnapshot = useMemo(() => {
+    const record = storyState.outlineKey === currentOutlineKey ? storyState.entries : {};
+    const entries = orderedKeys
+      .map((k) => freshRecord(record, k, sectionStories[k]))
+      .filter((e): e is SectionState => !!e);
+    return reduceStoryState(castNamesFromCharactersXml(rolesPromptXml ?? ""), entries);
+  }, [storyState, currentOutlineKey, orderedKeys, sectionStories, rolesPromptXml]);
+
+  const closeCastSidebar = useCallback(() => setCastSidebarOpen(false), []);
+
+  // 大纲中某节的简述（完整大纲取 summary，简版大纲取 beat）
+  function sectionSummaryOfKey(key: string): string {
+    const [ci, si] = key.split("-").map((x) => parseInt(x, 10));
+    return (outlineFull ? outlineFull.chapters[ci]?.sections[si]?.summary : outlineMinimal?.beats[si]) ?? "";
+  }
+
+  // 某节开始前的局势：只汇总其之前、正文未变化的小节状态
+  function snapshotBefore(key: string) {
+    const record = storyState.outlineKey === currentOutlineKey ? storyState.entries : {};
+    const entries = orderedKeys
+      .slice(0, Math.max(0, orderedKeys.indexOf(key)))
+      .map((k) => freshRecord(record, k, sectionStories[k]))
+      .filter((e): e is SectionState => !!e);
+    return reduceStoryState(castNamesFromCharactersXml(rolesPromptXml ?? ""), entries);
+  }
+
+  // 连贯性规则检查：已生成的各节对照简述、此前局势与人物设定（本地即时计算）
+  const continuityRules = useMemo(() => {
+    const record = storyState.outlineKey === currentOutlineKey ? storyState.entries : {};
+    const castNames = castNamesFromCharactersXml(rolesPromptXml ?? "");
+    const characters = characterRecordsFromXml(rolesPromptXml ?? "");
+    const knownNames = speakerNamesFromCharactersXml(rolesPromptXml ?? "", protagonistNameState ? [protagonistNameState] : []);
+    const before: SectionState[] = [];
+    const out: Record<string, ContinuityIssue[]> = {};
+    for (const key of orderedKeys) {
+      const text = sectionStories[key];
+      if (!text) continue;
+      const [ci, si] = key.split("-").map((x) => parseInt(x, 10));
+      const summary = (outlineFull ? outlineFull.chapters[ci]?.sections[si]?.summary : outlineMinimal?.beats[si]) ?? "";
+      out[key] = checkSectionRules({ text, summary, snapshot: reduceStoryState(castNames, before), characters, knownNames });
+      const st = freshRecord(record, key, text);
+      if (st) before.push(st);
+    }
+    return out;
+  }, [orderedKeys, sectionStories, storyState, currentOutlineKey, rolesPromptXml, protagonistNameState, outlineFull, outlineMinimal]);
+
+  // 当前大纲下某节的模型审校结果（正文已变化的旧结果不展示）
+  function judgementOf(key: string): ContinuityJudgement | undefined {
+    return continuity.outlineKey === currentOutlineKey ? freshRecord(continuity.entries, key, sectionStories[key]) : undefined;
+  }
+
+  // 由模型对照简述、此前局势与人物设定审校一节，写入本地存储
+  async function judgeSection(key: string) {
+    const outlineKey = currentOutlineKey;
+    const text = sectionStories[key];
+    if (!outlineKey || !text) return;
+    updateExtractStatus(`judge:${key}`, "pending");
+    try {
+      const { prompt, issues } = buildContinuityJudgePrompt({
+        key,
+        sectionTitle: sectionTitleOfKey(key) ?? sectionPosition(key),
+        sectionSummary: sectionSummaryOfKey(key),
+        snapshot: snapshotBefore(key),
+        charactersXml: rolesPromptXml ?? "",
+        sectionText: text,
+      });
+      if (issues.length > 0) throw new Error(`审校提示词有误：\n${formatTemplateIssues(issues)}`);
+      const res = await postChatCompletionsFromLocalConfig(prompt, { stage: "review", temperature: 0.2 });
+      if (!res.ok) throw new Error(res.message || "连贯性审校失败");
+      const { data, diagnostics } = parseContinuityReportXmlWithDiagnostics(res.text, { finishReason: res.finishReason });
+      if (!data) throw new Error(`审校结果解析失败：${formatXmlDiagnostics(diagnostics)}`);
+      const entries = putRecord(loadContinuity(outlineKey), judgementFromReport(key, text, data));
+      saveContinuity(outlineKey, entries);
+      setContinuity(prev => (prev.outlineKey === outlineKey ? { outlineKey, entries } : prev));
+      updateExtractStatus(`judge:${key}`, null);
+    } catch (e: unknown) {
+      console.warn("[continuity] 审校失败", key, e);
+      updateExtractStatus(`judge:${key}`, "error");
+    }
+  }
+
+  // 把连贯性问题作为修改要求重新生成该节
+  // 任一已生成的小节都可按问题重写：之后的小节移出当前分支（保留在故事树中）
+  function regenerateWithFixes(key: string, issues: ContinuityIssue[]) {
+    const index = orderedKeys.indexOf(key);
+    const later = orderedKeys.slice(index + 1).some((k) => sectionStories[k]);
+    if (later && !confirm("按这些问题重写本节后，之后已生成的小节将移出当前分支（保留在故事树中）。继续吗？")) return;
+    const [ci, si] = key.split("-").map((x) => parseInt(x, 10));
+    const title = (outlineFull ? sectionTitleOfKey(key) : undefined) ?? `第${si + 1}节`;
+    void generateSectionStory(ci, si, title, formatRevisionNotes(issues));
+  }
+
+  function renderContinuity(key: string) {
+    const rules = continuityRules[key];
+    if (!rules) return null;
+    return (
+      <ContinuityReport
+        ruleIssues={rules}
+        judgeIssues={judgementOf(key)?.issues}
+        judgeStatus={extractStatus[`judge:${key}`]}
+        canRegenerate={orderedKeys.includes(key) && isGeneratedKey(key)}
+        busy={!!generatingKey}
+        onJudge={() => void judgeSection(key)}
+        onRegenerate={(issues) => regenerateWithFixes(key, issues)}
+      />
+    );
+  }
+
+  function updateExtractStatus(id: string, status: "pending" | "error" | null) {
+    setExtractStatus(prev => {
+      const next = { ...prev };
+      if (status) next[id] = status;
+      else delete next[id];
+      return next;
+    });
+  }
+
+  // 同一提取任务（类型、大纲、小节与正文指纹相同）只发一次请求
+  function runExtraction<T>(jobKey: string, start: () => Promise<T | null>): Promise<T | null> {
+    let job = extractJobsRef.current.get(jobKey) as Promise<T | null> | undefined;
+    if (!job) {
+      job = start().finally(() => extractJobsRef.current.delete(jobKey));
+      extractJobsRef.current.set(jobKey, job);
+    }
+    return job;
+  }
+
+  // 缺少最新剧情记忆或故事状态、需要（重新）提取的小节
+  function staleSectionKeys(outlineKey: string, keys: string[], stories: Record<string, string>): string[] {
+    const memory = loadStoryMemory(outlineKey);
+    const states = loadStoryState(outlineKey);
+    return keys.filter((k) => stories[k] && (!freshRecord(memory, k, stories[k]) || !freshRecord(states, k, stories[k])));
+  }
+
+  // 补齐较多小节前先确认（每节两次模型调用，如从历史载入的大纲）
+  function confirmBackfill(count: number): boolean {
+    return (
+      count < BACKFILL_CONFIRM_SECTIONS ||
+      confirm(`此前有 ${count} 节尚无最新的剧情记忆与故事状态，需先逐节提取（约 ${count * 2} 次模型调用）。继续吗？`)
+    );
+  }
+
+  /**
+   * 确保 keys（按故事顺序）中已生成的小节都有最新的剧情记忆与故事状态：缺失或正文已变化的依次提取（同一节的两项并行），
+   * 后一节参考前面的结果。提取失败不阻止生成，该节只是不计入（下次使用前重试）。返回按顺序排列的可用记录。
+   * signal 中止后不再发起新的提取；onProgress 按需要提取的小节报告进度。
+   */
+  async function ensureSectionRecords(
+    outlineKey: string,
+    keys: string[],
+    stories: Record<string, string>,
+    opts: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+  ): Promise<SectionRecords> {
+    const { signal, onProgress } = opts;
+    const memory: SectionMemory[] = [];
+    const states: SectionState[] = [];
+    const stale = new Set(staleSectionKeys(outlineKey, keys, stories));
+    let done = 0;
+    if (stale.size > 0) onProgress?.(0, stale.size);
+    for (const key of keys) {
+      if (signal?.aborted) break;
+      const text = stories[key];
+      if (!text) continue;
+      const fp = textFingerprint(text);
+      const cachedMemory = freshRecord(loadStoryMemory(outlineKey), key, text);
+      const cachedState = freshRecord(loadStoryState(outlineKey), key, text);
+      const [m, st] = await Promise.all([
+        cachedMemory ??
+          runExtraction(`memory:${outlineKey}:${key}:${fp}`, () => summarizeSection(outlineKey, key, text, [...memory], signal)),
+        cachedState ??
+          runExtraction(`state:${outlineKey}:${key}:${fp}`, () => extractSectionState(outlineKey, key, text, [...states], signal)),
+      ]);
+      if (m) memory.push(m);
+      if (st) states.push(st);
+      if (stale.has(key)) onProgress?.(++done, stale.size);
+    }
+    return { memory, states };
+  }
+
+  // 以剧情记忆模板提炼一节的摘要与要事，写入本地存储
+  async function summarizeSection(
+    outlineKey: string,
+    key: string,
+    text: string,
+    before: SectionMemory[],
+    signal?: AbortSignal
+  ): Promise<SectionMemory | null> {
+    const [ci, si] = key.split("-").map((x) => parseInt(x, 10));
+    const title = sectionTitleOfKey(key) ?? sectionPosition(key);
+    updateExtractStatus(`memory:${key}`, "pending");
+    try {
+      const template = (await fetchWorldPack(packId)).templates.memory || DEFAULT_MEMORY_TEMPLATE;
+      const { prompt, issues } = buildWorkflowPrompt("memory", template, {
+        sectionText: text,
+        sectionTitle: title,
+        chapterIndex: ci + 1,
+        chapterTitle: outlineFull?.chapters[ci]?.chapterTitle ?? "",
+        sectionIndex: si + 1,
+        castList: castNamesFromCharactersXml(rolesPromptXml ?? ""),
+        storySoFar: formatStoryMemory(before),
+      });
+      if (issues.length > 0) throw new Error(`剧情记忆模板有误：\n${formatTemplateIssues(issues)}`);
+      const res = await postChatCompletionsFromLocalConfig(prompt, { stage: "memory", temperature: 0.3, signal });
+      if (!res.ok) throw new Error(res.message || "剧情记忆提炼失败");
+      const { data, diagnostics } = parseSectionMemoryXmlWithDiagnostics(res.text, { finishReason: res.finishReason });
+      if (!data) throw new Error(`剧情记忆解析失败：${formatXmlDiagnostics(diagnostics)}`);
+      const entry: SectionMemory = { ...data, key, title, fingerprint: textFingerprint(text), updatedAt: Date.now() };
+      const entries = putRecord(loadStoryMemory(outlineKey), entry);
+      saveStoryMemory(outlineKey, entries);
+      setStoryMemory(prev => (prev.outlineKey === outlineKey ? { outlineKey, entries } : prev));
+      updateExtractStatus(`memory:${key}`, null);
+      return entry;
+    } catch (e: unknown) {
+      if (signal?.aborted) {
+        updateExtractStatus(`memory:${key}`, null);
+        return null;
+      }
+      console.warn("[story-memory] 提炼失败", key, e);
+      updateExtractStatus(`memory:${key}`, "error");
+      return null;
+    }
+  }
+
+  // 以结构化请求提取一节的故事状态（死亡与凶手、审判投票与处刑、魔女化、线索），写入本地存储
+  async function extractSectionState(
+    outlineKey: string,
+    key: string,
+    text: string,
+    before: SectionState[],
+    signal?: AbortSignal
+  ): Promise<SectionState | null> {
+    const castList = castNamesFromCharactersXml(rolesPromptXml ?? "");
+    updateExtractStatus(`state:${key}`, "pending");
+    try {
+      const { prompt, issues } = buildStateExtractionPrompt({
+        key,
+        sectionTitle: sectionTitleOfKey(key) ?? sectionPosition(key),
+        sectionText: text,
+        castList,
+        stateSoFar: formatStoryState(reduceStoryState(castList, before)),
+      });
+      if (issues.length > 0) throw new Error(`故事状态提示词有误：\n${formatTemplateIssues(issues)}`);
+      const res = await postChatCompletionsFromLocalConfig(prompt, { stage: "memory", temperature: 0.2, signal });
+      if (!res.ok) throw new Error(res.message || "故事状态提取失败");
+      const { data, diagnostics } = parseSectionStateXmlWithDiagnostics(res.text, { finishReason: res.finishReason });
+      if (!data) throw new Error(`故事状态解析失败：${formatXmlDiagnostics(diagnostics)}`);
+      const entry: SectionState = { ...data, key, fingerprint: textFingerprint(text), updatedAt: Date.now() };
+      const entries = putRecord(loadStoryState(outlineKey), entry);
+      saveStoryState(outlineKey, entries);
+      setStoryState(prev => (prev.outlineKey === outlineKey ? { outlineKey, entries } : prev));
+      updateExtractStatus(`state:${key}`, null);
+      return entry;
+    } catch (e: unknown) {
+      if (signal?.aborted) {
+        updateExtractStatus(`state:${key}`, null);
+        return null;
+      }
+      console.warn("[story-state] 提取失败", key, e);
+      updateExtractStatus(`state:${key}`, "error");
+      return null;
+    }
+  }
+
+  // ---- 故事树与分支抉择 ----
+
+  // 当前分支上各小节的节点（正文与页面一致的才算）
+  const activeNodes = useMemo(() => {
+    const tree = storyTree.outlineKey === currentOutlineKey ? storyTree.tree : emptyStoryTree();
+    return Object.fromEntries(activePath(tree).map((n) => [n.key, n])) as Record<string, StoryNode>;
+  }, [storyTree, currentOutlineKey]);
+
+  function branchCount(): number {
+    return storyTree.outlineKey === currentOutlineKey ? storyLeaves(storyTree.tree).length : 0;
+  }
+
+  // 以本地存储中的故事树为准（异步流程中 state 可能已过时），并与页面正文对齐
+  function currentTree(outlineKey: string, stories: Record<string, string>): StoryTree {
+    return reconcileStoryTree(loadStoryTree(outlineKey), stories);
+  }
+
+  function storeTree(outlineKey: string, tree: StoryTree) {
+    saveStoryTree(outlineKey, tree);
+    setStoryTree(prev => (prev.outlineKey === outlineKey || !prev.outlineKey ? { outlineKey, tree } : prev));
+  }
+
+  // 展开当前分支为页面正文（与各节的生成轮数）
+  function showActiveBranch(tree: StoryTree): Record<string, string> {
+    const path = activePath(tree);
+    const stories = pathStories(path);
+    setSectionStories(stories);
+    setSectionRounds(Object.fromEntries(path.flatMap((n) => (n.rounds ? [[n.key, n.rounds]] : []))));
+    return stories;
+  }
+
+  /**
+   * 新生成的小节作为当前分支上一节节点的子节点写入故事树（重新生成即为兄弟节点，旧版本保留），
+   * 并沿用上一节所选的抉择。返回新的页面正文与节点 id。
+   */
+  function commitSectionText(key: string, text: string, rounds?: StoryNode["rounds"]): { stories: Record<string, string>; nodeId: string | null } {
+    const outlineKey = currentOutlineKey;
+    if (!outlineKey) {
+      const stories = { ...sectionStories, [key]: text };
+      setSectionStories(stories);
+      return { stories, nodeId: null };
+    }
+    const base = currentTree(outlineKey, sectionStories);
+    const orderIdx = orderedKeys.indexOf(key);
+    const parent = orderIdx > 0 ? activePath(base).find((n) => n.key === orderedKeys[orderIdx - 1]) : undefined;
+    const { tree, node } = addStoryNode(base, { parentId: parent?.id ?? null, key, text, choice: formatPlayerChoice(parent), rounds });
+    const next = setActiveLeaf(tree, node.id);
+    storeTree(outlineKey, next);
+    return { stories: showActiveBranch(next), nodeId: node.id };
+  }
+
+  // 由模型为某节末尾提出主人公的抉择
+  async function proposeChoices(outlineKey: string, nodeId: string) {
+    const node = loadStoryTree(outlineKey).nodes[nodeId];
+    if (!node) return;
+    updateExtractStatus(`choice:${nodeId}`, "pending");
+    try {
+      const [ci, si] = node.key.split("-").map((x) => parseInt(x, 10));
+      const vars = sectionTemplateVars(outlineFull, ci, si);
+      const { prompt, issues } = buildChoicePrompt({
+        key: node.key,
+        sectionTitle: sectionTitleOfKey(node.key) ?? sectionPosition(node.key),
+        sectionText: node.text,
+        protagonist: protagonistName(),
+        nextSectionTitle: String(vars.nextSectionTitle ?? ""),
+        nextSectionSummary: String(vars.nextSectionSummary ?? ""),
+        storyState: formatStoryState(storySnapshot),
+      });
+      if (issues.length > 0) throw new Error(`抉择提示词有误：\n${formatTemplateIssues(issues)}`);
+      const res = await postChatCompletionsFromLocalConfig(prompt, { stage: "choice", temperature: 0.9 });
+      if (!res.ok) throw new Error(res.message || "抉择生成失败");
+      const { data, diagnostics } = parseStoryChoicesXmlWithDiagnostics(res.text, { finishReason: res.finishReason });
+      if (!data) throw new Error(`抉择解析失败：${formatXmlDiagnostics(diagnostics)}`);
+      storeTree(outlineKey, updateStoryNode(loadStoryTree(outlineKey), nodeId, { choices: { options: data.choices } }));
+      updateExtractStatus(`choice:${nodeId}`, null);
+    } catch (e: unknown) {
+      console.warn("[story-tree] 抉择生成失败", nodeId, e);
+      updateExtractStatus(`choice:${nodeId}`, "error");
+    }
+  }
+
+  // 选择抉择：下一节已沿其他抉择生成时，从本节开辟新分支（原分支保留）
+  function pickBranchChoice(key: string, index: number) {
+    const outlineKey = currentOutlineKey;
+    if (!outlineKey) return;
+    const base = currentTree(outlineKey, sectionStories);
+    const path = activePath(base);
+    const at = path.findIndex((n) => n.key === key);
+    const node = path[at];
+    const option = node?.choices?.options[index];
+    if (!node || !option) return;
+    const next = path[at + 1];
+    let tree = updateStoryNode(base, node.id, { choices: { ...node.choices!, picked: index } });
+    if (next && next.choice !== option.label) {
+      if (!confirm(`之后的小节沿另一抉择生成。改选“${option.label}”将从本节开辟新分支，原分支保留在故事树中。继续吗？`)) return;
+      tree = setActiveLeaf(tree, node.id);
+    }
+    storeTree(outlineKey, tree);
+    showActiveBranch(tree);
+  }
+
+  // 切换分支：mode 为 leaf 时跳到节点之下最近的结局，为 here 时把当前分支截到该节点
+  function switchBranch(nodeId: string, mode: "leaf" | "here") {
+    const outlineKey = currentOutlineKey;
+    if (!outlineKey || generatingKey) return;
+    const base = currentTree(outlineKey, sectionStories);
+    if (!base.nodes[nodeId]) return;
+    const tree = setActiveLeaf(base, mode === "leaf" ? latestLeafUnder(base, nodeId) : nodeId);
+    storeTree(outlineKey, tree);
+    showActiveBranch(tree);
+    const leaf = tree.activeLeaf ? tree.nodes[tree.activeLeaf] : undefined;
+    if (leaf) setSectionExpand(prev => ({ ...prev, [leaf.key]: true }));
+    setStoryTreeOpen(false);
+  }
+
+  function toggleBranchChoices() {
+    const next = !branchChoices;
+    saveBranchChoicesEnabled(next);
+    setBranchChoices(next);
+  }
+
+  const closeStoryTree = useCallback(() => setStoryTreeOpen(false), []);
+
+  // 小节下方的抉择：开启分支抉择或该节已有抉择时显示
+  function renderBranchChoices(key: string) {
+    const outlineKey = currentOutlineKey;
+    const node = activeNodes[key];
+    if (!outlineKey || !node || node.text !== sectionStories[key] || (!branchChoices && !node.choices)) return null;
+    const index = orderedKeys.indexOf(key);
+    const nextNode = index >= 0 ? activeNodes[orderedKeys[index + 1]] : undefined;
+    return (
+      <BranchChoices
+        choices={node.choices}
+        status={extractStatus[`choice:${node.id}`]}
+        taken={nextNode?.parentId === node.id ? nextNode.choice : undefined}
+        busy={!!generatingKey}
+        onPropose={() => void proposeChoices(outlineKey, node.id)}
+        onPick={(i) => pickBranchChoice(key, i)}
+      />
+    );
+  }
+
+  // ---- 版本历史 ----
+
+  // 记录新生成的版本（正文在故事树节点 nodeId 中，这里只记生成信息）
+  function recordSectionVersion(
+    outlineKey: string | null,
+    key: string,
+    nodeId: string | null,
+    input: Omit<SectionVersionRecord, "id" | "createdAt" | "text" | "nodeId">
+  ) {
+    if (!outlineKey || !nodeId) return;
+    const entries = addSectionVersion(loadSectionVersions(outlineKey), key, { ...input, nodeId });
+    if (!saveSectionVersions(outlineKey, entries)) {
+      showErrorPopup("版本信息保存失败（可能超出浏览器存储配额），正文已保存，但本次生成的模型与提示词信息未记录");
+      return;
+    }
+    setSectionVersions(prev => (prev.outlineKey === outlineKey || !prev.outlineKey ? { outlineKey, entries } : prev));
+  }
+
+  // 某节的全部版本（含故事树中此前生成、未记录信息的版本）
+  function versionsOf(key: string): SectionVersion[] {
+    const recorded = sectionVersions.outlineKey === currentOutlineKey ? sectionVersions.entries[key] ?? [] : [];
+    const tree = storyTree.outlineKey === currentOutlineKey ? storyTree.tree : emptyStoryTree();
+    return collectSectionVersions(recorded, Object.values(tree.nodes).filter((n) => n.key === key));
+  }
+
+  /**
+   * 恢复某个版本为本节正文：当前分支上一节之下已有同内容的节点时切换过去，否则作为新版本写入故事树。
+   * 与重新生成一样，之后的小节移出当前分支（保留在故事树中）。
+   */
+  function restoreSectionVersion(key: string, version: SectionVersion) {
+    const outlineKey = currentOutlineKey;
+    if (!outlineKey || generatingKey || version.text === sectionStories[key]) return;
+    const orderIdx = orderedKeys.indexOf(key);
+    const later = orderedKeys.slice(orderIdx + 1).some((k) => sectionStories[k]);
+    if (later && !confirm("恢复此版本后，之后已生成的小节将移出当前分支（保留在故事树中）。继续吗？")) return;
+    const base = currentTree(outlineKey, sectionStories);
+    const parent = orderIdx > 0 ? activePath(base).find((n) => n.key === orderedKeys[orderIdx - 1]) : undefined;
+    const existing = childrenOf(base, parent?.id ?? null).find((n) => n.key === key && n.text === version.text);
+    let stories: Record<string, string>;
+    if (existing) {
+      const tree = setActiveLeaf(base, existing.id);
+      storeTree(outlineKey, tree);
+      stories = showActiveBranch(tree);
+    } else {
+      stories = commitSectionText(key, version.text).stories;
+    }
+    setSectionExpand(prev => ({ ...prev, [key]: true }));
+    setVersionsKey(null);
+    void ensureSectionRecords(outlineKey, orderedKeys.slice(0, orderIdx + 1), stories);
+  }
+
+  const closeVersions = useCallback(() => setVersionsKey(null), []);
+
+  // 小节生成内容标题栏的“版本”按钮
+  function renderVersionsButton(key: string) {
+    const count = versionsOf(key).length;
+    if (count === 0) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => setVersionsKey(key)}
+        disabled={!!generatingKey}
+        className="h-8 px-3 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform disabled:opacity-40"
+        title="查看本节的所有生成版本，逐字对比或恢复"
+      >
+        版本（{count}）
+      </button>
+    );
+  }
+
+  // ---- 互动审判 ----
+
+  function storeTrialSession(outlineKey: string, session: TrialSession) {
+    saveTrials(outlineKey, { ...loadTrials(outlineKey), [session.key]: session });
+  }
+
+  // 开庭（或继续未完成的审判）：先补齐此前各节的记忆与状态，以局势、调查节正文与线索为事实依据
+  async function openTrial(chIdx: number, secIdx: number, sectionTitle: string) {
+    const outlineKey = currentOutlineKey;
+    const key = `${chIdx}-${secIdx}`;
+    if (!outlineKey) {
+      showErrorPopup("尚未加载大纲，无法开庭。");
+      return;
+    }
+    const orderIdx = orderedKeys.indexOf(key);
+    if (orderIdx > 0 && !confirmBackfill(staleSectionKeys(outlineKey, orderedKeys.slice(0, orderIdx), sectionStories).length)) return;
+    setTrialError(null);
+    setTrialBusy(true);
+    try {
+      const records: SectionRecords =
+        orderIdx > 0 ? await ensureSectionRecords(outlineKey, orderedKeys.slice(0, orderIdx), sectionStories) : { memory: [], states: [] };
+      const protagonistNameForTrial = protagonistName();
+      const snapshot = reduceStoryState(castNamesFromCharactersXml(rolesPromptXml ?? ""), records.states);
+      const invKey = investigationKeyBefore(orderedKeys, key, sectionTitleOfKey);
+      const input: TrialState["input"] = {
+        key,
+        sectionTitle,
+        sectionSummary: sectionSummaryOfKey(key),
+        protagonist: protagonistNameForTrial,
+        snapshot,
+        investigation: invKey ? tailText(sectionStories[invKey] ?? "", TRIAL_INVESTIGATION_CHARS) : "",
+        evidence: collectEvidence(snapshot, records.memory),
+      };
+      const candidates = snapshot.cast.filter((c) => c.status === "alive" && c.name !== protagonistNameForTrial).map((c) => c.name);
+      const saved = loadTrials(outlineKey)[key];
+      const session = saved ?? newTrialSession(key, sectionTitle);
+      setTrial({ outlineKey, session, input, candidates });
+      if (session.entries.length === 0) await advanceTrial({ outlineKey, session, input, candidates });
+    } catch (e: unknown) {
+      showErrorPopup(e instanceof Error ? e.message : "开庭失败");
+    } finally {
+      setTrialBusy(false);
+    }
+  }
+
+  // 一轮辩论：玩家的发言先显示出来，模型回应失败时撤回
+  async function advanceTrial(state: TrialState, action?: TrialAction) {
+    const { outlineKey, session, input } = state;
+    setTrialError(null);
+    setTrialBusy(true);
+    try {
+      const { prompt, issues } = buildTrialTurnPrompt({ ...input, session }, action);
+      if (issues.length > 0) throw new Error(`审判提示词有误：\n${formatTemplateIssues(issues)}`);
+      const pending = action ? { ...session, entries: [...session.entries, playerEntry(input.protagonist, action)] } : session;
+      setTrial({ ...state, session: pending });
+      const res = await postChatCompletionsFromLocalConfig(prompt, { stage: "trial", temperature: 0.8 });
+      if (!res.ok) throw new Error(res.message || "审判回应失败");
+      const { data, diagnostics } = parseTrialTurnXmlWithDiagnostics(res.text, { finishReason: res.finishReason });
+      if (!data) throw new Error(`审判回应解析失败：${formatXmlDiagnostics(diagnostics)}`);
+      const next = applyTrialTurn(pending, data);
+      storeTrialSession(outlineKey, next);
+      setTrial(prev => (prev?.session.key === session.key ? { ...state, session: next } : prev));
+    } catch (e: unknown) {
+      setTrial(prev => (prev?.session.key === session.key ? { ...state, session } : prev));
+      setTrialError(e instanceof Error ? e.message : "审判回应失败");
+    } finally {
+      setTrialBusy(false);
+    }
+  }
+
+  function enterTrialVote() {
+    if (!trial) return;
+    const session: TrialSession = { ...trial.session, phase: "vote", updatedAt: Date.now() };
+    storeTrialSession(trial.outlineKey, session);
+    setTrial({ ...trial, session });
+  }
+
+  async function castTrialVote(target: string) {
+    if (!trial) return;
+    const state = trial;
+    const session: TrialSession = { ...state.session, playerVote: target };
+    setTrialError(null);
+    setTrialBusy(true);
+    try {
+      const { prompt, issues } = buildTrialVerdictPrompt({ ...state.input, session });
+      if (issues.length > 0) throw new Error(`审判提示词有误：\n${formatTemplateIssues(issues)}`);
+      const res = await postChatCompletionsFromLocalConfig(prompt, { stage: "trial", temperature: 0.7 });
+      if (!res.ok) throw new Error(res.message || "开票失败");
+      const { data, diagnostics } = parseTrialVerdictXmlWithDiagnostics(res.text, { finishReason: res.finishReason });
+      if (!data) throw new Error(`投票结果解析失败：${formatXmlDiagnostics(diagnostics)}`);
+      const next = applyTrialVerdict(session, state.input.protagonist, state.candidates, data);
+      storeTrialSession(state.outlineKey, next);
+      setTrial(prev => (prev?.session.key === session.key ? { ...state, session: next } : prev));
+    } catch (e: unknown) {
+      setTrialError(e instanceof Error ? e.message : "开票失败");
+    } finally {
+      setTrialBusy(false);
+    }
+  }
+
+  // 审判记录写为本节正文；投票与处刑直接计入故事状态，剧情记忆在后台提炼
+  function finishTrial() {
+    // 处刑描写与计票不符时不写入，避免正文与故事状态矛盾
+    if (!trial || trial.session.recounted) return;
+    const { outlineKey, session } = trial;
+    const key = session.key;
+    const text = trialSectionText(session);
+    const done: TrialSession = { ...session, finished: true, updatedAt: Date.now() };
+    storeTrialSession(outlineKey, done);
+    const states = putRecord(loadStoryState(outlineKey), trialSectionState(done, text));
+    saveStoryState(outlineKey, states);
+    setStoryState(prev => (prev.outlineKey === outlineKey ? { outlineKey, entries: states } : prev));
+    const { stories, nodeId } = commitSectionText(key, text);
+    recordSectionVersion(outlineKey, key, nodeId, { model: resolveStageModel("trial"), promptHash: "", source: "trial" });
+    setSectionExpand(prev => ({ ...prev, [key]: true }));
+    setTrial(null);
+    void ensureSectionRecords(outlineKey, orderedKeys.slice(0, orderedKeys.indexOf(key) + 1), stories);
+  }
+
+  function restartTrial() {
+    if (!trial || !confirm("重新开庭会清空本场审判的发言与投票，确定吗？")) return;
+    const session = newTrialSession(trial.session.key, trial.session.title);
+    storeTrialSession(trial.outlineKey, session);
+    void advanceTrial({ ...trial, session });
+  }
+
+  const closeTrial = useCallback(() => {
+    setTrial(null);
+    setTrialError(null);
+  }, []);
+
+  // 审判节的“互动审判”按钮（与创建 / 重新创建按钮同样受生成顺序限制）；简版大纲以节拍文本 hint 判断是否为审判节
+  function renderTrialButton(chIdx: number, secIdx: number, sectionTitle: string, enabled: boolean, hint = sectionTitle) {
+    if (!enabled || !isTrialSection(hint)) return null;
+    const key = `${chIdx}-${secIdx}`;
+    const saved = currentOutlineKey ? loadTrials(currentOutlineKey)[key] : undefined;
+    return (
+      <button
+        type="button"
+        onClick={() => void openTrial(chIdx, secIdx, sectionTitle)}
+        className="h-10 px-4 rounded-[8px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform"
+        disabled={!!generatingKey || trialBusy}
+        aria-disabled={!!generatingKey || trialBusy}
+        title="以主人公身份亲自参与本节审判：出示证据、反驳发言并投票"
+      >
+        {saved && !saved.finished && saved.entries.length > 0 ? "继续互动审判" : "互动审判"}
+      </button>
+    );
+  }
+
+  // 为某节创建故事；revisionNotes 为按连贯性问题重新生成时的修改要求
+  async function generateSectionStory(chIdx: number, secIdx: number, sectionTitle: string, revisionNotes = "") {
     try {
       setError(null);
       const currentKey = `${chIdx}-${secIdx}`;
       setGeneratingKey(currentKey);
+      // 补齐此前各节的记录与流式生成共用同一中止信号（“停止生成”对两者都有效）
+      const controller = new AbortController();
+      sectionAbortRef.current = controller;
 
       // 基础校验
       const outlineXml = outlineXmlText ?? "";
@@ -1282,84 +2361,210 @@ export default function Home() {
       // 准备人物 XML（优先使用已构建的 rolesPromptXml，其次从 rolesPrompt 临时构建；若均缺失则以空列表降级以允许从历史直接生成）
       let charactersXml = rolesPromptXml ?? "";
       if (!charactersXml) {
-        const protagonistName =
-          rolesPrompt?.主人公名称 ||
-          roles.find(r => r.roleId === protagonist)?.roleName?.trim() ||
-          protagonistNameState ||
-          "未命名角色";
         const list = rolesPrompt?.人物列表;
         try {
-          charactersXml = buildCharactersXml(protagonistName, Array.isArray(list) ? list : []);
+          charactersXml = buildCharactersXml(protagonistName(), Array.isArray(list) ? list : []);
         } catch {
           // 降级：构建空人物列表的 XML
-          charactersXml = buildCharactersXml(protagonistName, []);
+          charactersXml = buildCharactersXml(protagonistName(), []);
         }
       }
 
-      // 世界书大提示词（XML）
-      const rWorld = await fetch("/api/session/world-books", { method: "GET" });
-      if (!rWorld.ok) {
-        showErrorPopup(`world-books 接口错误：${rWorld.status}`);
+      // 此前各节（按故事顺序，跨章）的剧情记忆与故事状态；缺失的先行提取
+      const orderIdx = orderedKeys.indexOf(currentKey);
+      const priorKeys = orderIdx > 0 ? orderedKeys.slice(0, orderIdx) : [];
+      if (currentOutlineKey && !confirmBackfill(staleSectionKeys(currentOutlineKey, priorKeys, sectionStories).length)) return;
+      const records: SectionRecords = currentOutlineKey && priorKeys.length > 0
+        ? await ensureSectionRecords(currentOutlineKey, priorKeys, sectionStories, {
+            signal: controller.signal,
+            onProgress: (done, total) => setBackfillProgress(done < total ? { done, total } : null),
+          })
+        : { memory: [], states: [] };
+      setBackfillProgress(null);
+      if (controller.signal.aborted) return;
+      const castList = castNamesFromCharactersXml(charactersXml);
+      const snapshot = reduceStoryState(castList, records.states);
+
+      // 世界书：按本节标题、摘要与在场角色检索相关条目（XML）
+      const fullOutline = parseFullStoryOutlineXml(outlineXml);
+      const sectionVars = sectionTemplateVars(fullOutline, chIdx, secIdx);
+      const sectionSummary =
+        fullOutline?.chapters[chIdx]?.sections[secIdx]?.summary ??
+        parseStoryOutlineXml(outlineXml)?.beats[secIdx] ??
+        "";
+      const protagonistNameForWorld = protagonistName("");
+      // 在场角色：标题或摘要中出现且仍存活的人物，外加主人公（重复一次以提高权重）
+      const present = speakerNamesFromCharactersXml(charactersXml, protagonistNameForWorld ? [protagonistNameForWorld] : [])
+        .filter((n) => n === protagonistNameForWorld || (`${sectionTitle}${sectionSummary}`.includes(n) && isCharacterAlive(snapshot, n)));
+      let world: LoadedWorld = { xml: "", entries: [], included: [] };
+      try {
+        world = await loadWorldXml([sectionTitle, sectionSummary, ...present, ...present].join("\n"), "section", currentKey);
+      } catch (e: unknown) {
+        showErrorPopup(e instanceof Error ? e.message : "世界书读取失败");
         return;
       }
-      const worldXml = await rWorld.text();
 
-      // 读取“生成故事”模板，并替换占位符
-      const rTpl = await fetch("/api/session/workflow/story-prompt", { method: "GET" });
-      if (!rTpl.ok) {
-        showErrorPopup(`story-prompt 接口错误：${rTpl.status}`);
+      // 读取当前世界包的“生成故事”模板
+      let storyTpl = "";
+      try {
+        storyTpl = (await fetchWorldPack(packId)).templates.story;
+      } catch (e: unknown) {
+        showErrorPopup(e instanceof Error ? e.message : "读取生成故事模板失败");
         return;
       }
-      let storyTpl = await rTpl.text();
-
-      const protagonistNameForTpl =
-        rolesPrompt?.主人公名称 ||
-        roles.find(r => r.roleId === protagonist)?.roleName?.trim() ||
-        protagonistNameState ||
-        "未命名角色";
-
-      storyTpl = storyTpl
-        .replace(/\{\{\s*mainCharacter\s*\}\}/g, protagonistNameForTpl)
-        .replace(/\{\{\s*sectionTitle\s*\}\}/g, sectionTitle);
-
-      // 上一节内容（若为首节则为空）
-      const prevKey = `${chIdx}-${secIdx - 1}`;
-      const prevText = secIdx > 0 ? (sectionStories[prevKey] ?? "") : "";
-
-      // 组装 rawPrompt：世界书 XML + 人物 XML + 大纲完整 XML + 上一节内容 + 模板
-      const parts = [
-        worldXml,
-        charactersXml,
-        outlineXml,
-        prevText ? `上一节内容：\n${prevText}` : "",
-        storyTpl,
-      ].filter(Boolean);
-      const rawPrompt = parts.join("\n\n");
 
-      // 前端直接调用 LLM 生成当前小节
-      const res = await postChatCompletionsFromLocalConfig(rawPrompt);
+      const protagonistNameForTpl = protagonistName();
+
+      // 上一节内容（按故事顺序，跨章衔接；全书首节为空）
+      const prevKey = orderIdx > 0 ? orderedKeys[orderIdx - 1] : null;
+      const prevText = prevKey ? (sectionStories[prevKey] ?? "") : "";
+      // 上一节末尾所选的抉择（分支抉择）
+      const branchParent = prevKey && currentOutlineKey
+        ? activePath(currentTree(currentOutlineKey, sectionStories)).find((n) => n.key === prevKey)
+        : undefined;
+      const playerChoice = formatPlayerChoice(branchParent);
+      // 上一节为已完成的互动审判（且正文仍是审判记录）时，附上审判结果
+      const prevTrial = prevKey && currentOutlineKey ? loadTrials(currentOutlineKey)[prevKey] : undefined;
+      const trialOutcome = prevTrial?.finished && trialSectionText(prevTrial) === prevText ? formatTrialOutcome(prevTrial) : "";
+
+      // 以生成故事模板渲染 rawPrompt（世界书、人物、大纲、上一节等均为模板变量；模板有误时不发送请求）
+      const storyVars = {
+        ...sectionVars,
+        worldBooks: world.xml,
+        characters: charactersXml,
+        outline: outlineXml,
+        mainCharacter: protagonistNameForTpl,
+        castCount: castList.length,
+        castList,
+        sectionTitle,
+        sectionSummary,
+        storySoFar: formatStoryMemory(records.memory),
+        storyState: formatStoryState(snapshot),
+        prevSection: prevText,
+        trialOutcome,
+        playerChoice,
+        revisionNotes,
+      };
+      const includes = worldBookIncludes(world.entries);
+      const built = buildWorkflowPrompt("story", storyTpl, storyVars, includes);
+      if (built.issues.length > 0) {
+        showErrorPopup(`生成故事模板有误：\n${formatTemplateIssues(built.issues)}`);
+        return;
+      }
+
+      // 上下文预算：超出所用模型的上下文窗口时依次裁剪较早小节、低优先级世界书、不在场角色
+      let promptVars: TemplateVars = storyVars;
+      let prompt = built.prompt;
+      const budgetSettings = loadContextBudgetSettings();
+      if (budgetSettings.enabled) {
+        const model = resolveStageModel("section");
+        const limit = contextLimitFor(model, budgetSettings.overrides);
+        const budgeted = budgetSectionPrompt({
+          budget: Math.max(0, limit.tokens - budgetSettings.reserveTokens),
+          vars: storyVars,
+          render: (v) => buildWorkflowPrompt("story", storyTpl, v, includes).prompt,
+          outline: fullOutline,
+          chIdx,
+          secIdx,
+          worldEntries: world.included,
+          worldReport: world.report,
+          presentNames: present,
+          compactStorySoFar: formatStoryMemory(records.memory, { recentSummaries: 3 }),
+        });
+        setBudgetReports(prev => ({
+          ...prev,
+          [currentKey]: {
+            model,
+            limit,
+            reserveTokens: budgetSettings.reserveTokens,
+            budget: budgeted.budget,
+            tokens: budgeted.tokens,
+            steps: budgeted.steps,
+            overBudget: budgeted.overBudget,
+          },
+        }));
+        if (
+          budgeted.overBudget &&
+          !confirm(
+            `本节提示词约 ${budgeted.tokens} tokens，裁剪后仍超出可用上下文 ${budgeted.budget} tokens` +
+              `（${model || "未配置模型"} 上限 ${limit.tokens}，为输出预留 ${budgetSettings.reserveTokens}）。\n` +
+              "继续发送可能被截断或报错，是否仍要发送？"
+          )
+        ) {
+          return;
+        }
+        promptVars = budgeted.vars;
+        prompt = budgeted.prompt;
+      }
+
+      const rawPrompt = await reviewPrompt(
+        sectionTitle,
+        "section",
+        prompt,
+        splitWorkflowPrompt("story", storyTpl, promptVars, includes)
+      );
+      if (rawPrompt === null) return;
+
+      // 前端直接以流式方式调用 LLM 生成当前小节，边到达边渲染；中止时保留已到达部分
+      // 因长度上限截断时自动续写，拼接完整后再解析
+      setStreamingText("");
+      setStreamingRound(0);
+      const res = await streamWithContinuation(rawPrompt, {
+        stage: "section",
+        temperature: SECTION_STORY_TEMPERATURE,
+        signal: controller.signal,
+        onDelta: (fullText) => setStreamingText(extractPartialStoryContent(fullText)),
+        onRound: setStreamingRound,
+      });
       if (!res.ok) {
         showErrorPopup(res.message ?? "生成小节故事失败");
         return;
       }
       const rawText = res.text || "";
-      const parsedStory = parseStoryXml(rawText);
-      const text: string = parsedStory?.content || rawText;
+      const { data: parsedStory, diagnostics } = parseStoryXmlWithDiagnostics(rawText, { finishReason: res.finishReason });
+      if (!res.aborted && !parsedStory) {
+        console.warn("[section-story] XML 解析失败，按原文保存：", formatXmlDiagnostics(diagnostics), diagnostics.issues);
+      }
+      const text: string = res.aborted
+        ? extractPartialStoryContent(rawText)
+        : parsedStory?.content || rawText;
       if (!text) {
-        showErrorPopup("生成的小节故事为空");
+        // 尚未收到内容即停止：视为取消，不提示错误
+        if (!res.aborted) showErrorPopup("生成的小节故事为空");
         return;
       }
 
       const key = `${chIdx}-${secIdx}`;
-      setSectionStories(prev => ({ ...prev, [key]: text }));
+      // 写入故事树：重新生成的版本成为新分支，旧版本保留
+      const { stories, nodeId } = commitSectionText(key, text, { rounds: res.rounds, truncated: res.truncated || undefined });
+      recordSectionVersion(currentOutlineKey, key, nodeId, {
+        model: resolveStageModel("section"),
+        temperature: SECTION_STORY_TEMPERATURE,
+        promptHash: textFingerprint(rawPrompt),
+        source: "section",
+      });
       setSectionExpand(prev => ({ ...prev, [key]: true })); // 默认生成后展开
       setGeneratingKey(null);
+      // 完整生成的小节随即在后台提取剧情记忆与故事状态，供下一节使用（中止的半截正文留待下次使用前再提取）
+      if (currentOutlineKey && !res.aborted) {
+        void ensureSectionRecords(currentOutlineKey, orderedKeys.slice(0, orderIdx + 1), stories);
+        if (branchChoices && nodeId && orderIdx + 1 < orderedKeys.length) void proposeChoices(currentOutlineKey, nodeId);
+      }
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : "生成小节故事失败");
     } finally {
+      sectionAbortRef.current = null;
+      setBackfillProgress(null);
+      setStreamingText("");
+      setStreamingRound(0);
       setGeneratingKey(null);
     }
   }
+
+  // 中止正在流式生成的小节（已到达的正文会被保留）
+  function stopSectionStory() {
+    try { sectionAbortRef.current?.abort(); } catch {}
+  }
   // 查看最新历史大纲：直接切换到“结果”视图并展示上次保存的大纲
   function showLatestOutlineFromHistory() {
     try {
@@ -1388,6 +2593,7 @@ export default function Home() {
       }
       setProtagonistNameState(entry.protagonistName || "");
       setCurrentOutlineKey(entry.id);
+      setOutlineSessionId(entry.sessionId || null);
 
       // 更新阶段状态并跳转到结果页（仅展示大纲）
       setStage({ profile: "done", outline: "done", story: "idle" });
@@ -1415,6 +2621,7 @@ export default function Home() {
       }
       setProtagonistNameState(entry.protagonistName || "");
       setCurrentOutlineKey(entry.id);
+      setOutlineSessionId(entry.sessionId || null);
       setStage({ profile: "done", outline: "done", story: "idle" });
       setStep("result");
       setShowOutlineHistory(false);
@@ -1422,6 +2629,200 @@ export default function Home() {
       setError(e instanceof Error ? e.message : "载入历史失败");
     }
   }
+  // 项目导出/导入：打包角色问卷、主人公、全部大纲与小节故事、设置（不含 API Key）
+  const projectFileRef = useRef<HTMLInputElement | null>(null);
+  function exportProject() {
+    try {
+      const archive = buildProjectArchive({ roles, protagonist });
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadText(`manosaba_project_${stamp}.json`, JSON.stringify(archive, null, 2));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "导出项目失败");
+    }
+  }
+  async function importProjectFile(file: File) {
+    try {
+      const parsed = parseProjectArchive(await file.text());
+      if (!parsed.ok) {
+        setError(parsed.error);
+        return;
+      }
+      const { archive } = parsed;
+      const { outlines } = restoreProjectArchive(archive);
+      setRoles(archive.roles);
+      setProtagonist(archive.roles.some((r) => r.roleId === archive.protagonist) ? archive.protagonist : "");
+      refreshOutlineHistory();
+      setError(null);
+      try { window.dispatchEvent(new CustomEvent("api:configUpdated")); } catch {}
+      try { alert(`已导入项目：${archive.roles.length} 个角色，${outlines} 份大纲。`); } catch {}
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "导入项目失败");
+    }
+  }
+  // 存档/读档：编号槽位保存完整进度，读档后回到保存时的位置
+  const [saveLoadMode, setSaveLoadMode] = useState<"save" | "load" | null>(null);
+  const [worldEditorOpen, setWorldEditorOpen] = useState(false);
+  const closeSaveLoad = useCallback(() => setSaveLoadMode(null), []);
+  const closeWorldEditor = useCallback(() => setWorldEditorOpen(false), []);
+
+  // 提示词检查器：开启“发送前预览”时，各阶段发送前先展示提示词，等待确认（可修改）或取消
+  const [promptPreview, setPromptPreview] = useState(false);
+  const [promptReview, setPromptReview] = useState<{
+    title: string;
+    stage: ApiStage;
+    prompt: string;
+    parts: MeasuredPromptPart[];
+  } | null>(null);
+  const promptReviewResolveRef = useRef<((prompt: string | null) => void) | null>(null);
+  useEffect(() => {
+    setPromptPreview(loadPromptPreviewEnabled());
+  }, []);
+
+  function togglePromptPreview() {
+    const next = !promptPreview;
+    savePromptPreviewEnabled(next);
+    setPromptPreview(next);
+  }
+
+  /** 预览关闭时直接返回原提示词；开启时返回确认后的提示词，取消返回 null */
+  function reviewPrompt(title: string, stage: ApiStage, prompt: string, parts: WorkflowPromptPart[]): Promise<string | null> {
+    if (!promptPreview) return Promise.resolve(prompt);
+    return new Promise((resolve) => {
+      promptReviewResolveRef.current?.(null);
+      promptReviewResolveRef.current = resolve;
+      setPromptReview({ title, stage, prompt, parts: measurePromptParts(parts) });
+    });
+  }
+
+  const finishPromptReview = useCallback((prompt: string | null) => {
+    const resolve = promptReviewResolveRef.current;
+    promptReviewResolveRef.current = null;
+    setPromptReview(null);
+    resolve?.(prompt);
+  }, []);
+  const cancelPromptReview = useCallback(() => finishPromptReview(null), [finishPromptReview]);
+
+  function sectionTitleOfKey(key: string): string | undefined {
+    const [ci, si] = key.split("-").map((x) => parseInt(x, 10));
+    if (outlineFull) return outlineFull.chapters[ci]?.sections[si]?.sectionTitle;
+    if (outlineMinimal) return outlineMinimal.beats[si];
+    return undefined;
+  }
+
+  function saveToSlot(slot: number): string | null {
+    if (running || generatingKey) return "生成进行中，请完成或停止后再存档";
+    const furthestKey = furthestIndex >= 0 ? orderedKeys[furthestIndex] : null;
+    const furthestText = furthestKey ? sectionStories[furthestKey] : "";
+    const data: SaveSlot = {
+      slot,
+      savedAt: Date.now(),
+      step,
+      stage,
+      roles,
+      protagonist,
+      protagonistName: protagonistNameState,
+      currentOutlineKey,
+      outlineSessionId,
+      outlineXml: outlineXmlText,
+      charactersXml: rolesPromptXml ?? undefined,
+      outlineTitle: outlineTitle ?? outlineFull?.title,
+      sectionStories,
+      storyTree: currentOutlineKey ? loadStoryTree(currentOutlineKey) : undefined,
+      cgIdx: currentCgIdx,
+      preview: furthestKey && furthestText
+        ? { key: furthestKey, sectionTitle: sectionTitleOfKey(furthestKey), excerpt: makeExcerpt(furthestText) }
+        : undefined,
+    };
+    try {
+      writeSaveSlot(data);
+      return null;
+    } catch (e: unknown) {
+      return e instanceof Error ? e.message : "写入失败（可能超出浏览器存储配额）";
+    }
+  }
+
+  function loadFromSlot(data: SaveSlot) {
+    try {
+      setRoles(data.roles);
+      setProtagonist(data.protagonist);
+      setProtagonistNameState(data.protagonistName || "");
+      setRolesPromptXml(data.charactersXml ?? null);
+      const outlineXml = data.outlineXml || "";
+      const full = outlineXml ? parseFullStoryOutlineXml(outlineXml) : null;
+      const minimal = outlineXml && !full ? parseStoryOutlineXml(outlineXml) : null;
+      setOutlineFull(full ?? null);
+      setOutlineMinimal(minimal ?? null);
+      setOutlineTitle(data.outlineTitle ?? full?.title);
+      setOutlineXmlText(outlineXml);
+      // 先写回本地小节缓存与故事树，避免切换大纲键时被旧缓存覆盖
+      if (data.currentOutlineKey) {
+        try { localStorage.setItem(SECTION_STORIES_PREFIX + data.currentOutlineKey, JSON.stringify(data.sectionStories)); } catch {}
+        const slotTree = data.storyTree;
+        if (slotTree) {
+          try { storeTree(data.currentOutlineKey, mergeStoryTrees(loadStoryTree(data.currentOutlineKey), slotTree)); } catch {}
+        }
+      }
+      setSectionStories(data.sectionStories);
+      setCurrentOutlineKey(data.currentOutlineKey);
+      setOutlineSessionId(data.outlineSessionId);
+      if (data.cgIdx >= 0 && data.cgIdx < cgList.length) setCurrentCgIdx(data.cgIdx);
+      // “生成中”无法续跑：回到问卷步骤，阶段中未完成的部分视为未开始
+      if (data.step === "progress") {
+        setStep("form");
+        setStage({ profile: "idle", outline: "idle", story: "idle" });
+      } else {
+        setStep(data.step);
+        setStage(data.stage);
+      }
+      setError(null);
+      setSaveLoadMode(null);
+      setShowStartMenu(false);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "读档失败");
+    }
+  }
+
+  // 阅读脚本：按 orderedKeys 依次展开已生成的小节
+  const readerLines = useMemo(() => {
+    const titleOf = (k: string) => {
+      const [ci, si] = k.split("-").map((x) => parseInt(x, 10));
+      return outlineFull ? outlineFull.chapters[ci]?.sections[si]?.sectionTitle : outlineMinimal?.beats[si];
+    };
+    const sections = orderedKeys
+      .filter((k) => !!sectionStories[k])
+      .map((k) => ({ key: k, title: titleOf(k), text: sectionStories[k] }));
+    const names = speakerNamesFromCharactersXml(rolesPromptXml ?? "", [protagonistNameState]);
+    return buildReaderScript(sections, names);
+  }, [orderedKeys, sectionStories, outlineFull, outlineMinimal, rolesPromptXml, protagonistNameState]);
+
+  function openReader() {
+    // 从第一条未读台词开始；全部已读则从头开始
+    const marks = currentOutlineKey ? loadReadMarks(currentOutlineKey) : {};
+    const firstUnread = readerLines.findIndex((l) => !isLineRead(marks, l));
+    setReaderStart(firstUnread >= 0 ? firstUnread : 0);
+    setReaderOpen(true);
+  }
+  const closeReader = useCallback(() => setReaderOpen(false), []);
+
+  // 成品导出：按大纲章节结构组合已生成的小节
+  function exportStory(format: "md" | "html" | "epub") {
+    try {
+      const book = bookFromOutline({ full: outlineFull, minimal: outlineMinimal }, sectionStories, {
+        title: outlineTitle ?? outlineFull?.title,
+      });
+      if (book.chapters.length === 0) {
+        setError("暂无已生成的小节，无法导出。");
+        return;
+      }
+      const base = safeFileName(book.title);
+      if (format === "md") downloadText(`${base}.md`, toMarkdown(book), "text/markdown;charset=utf-8");
+      else if (format === "html") downloadText(`${base}.html`, toHtml(book), "text/html;charset=utf-8");
+      else downloadBlob(`${base}.epub`, new Blob([toEpub(book) as BlobPart], { type: "application/epub+zip" }));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "导出失败");
+    }
+  }
+
   // 从历史卡片内“一键载入并生成指定小节”
   function loadAndCreateSection(entry: OutlineHistoryEntry, chIdx: number, secIdx: number, sectionTitle: string) {
     try {
@@ -1532,7 +2933,88 @@ export default function Home() {
         </button>
       </div>
 
-      {/* 开始界面：左下角按钮行（初始显示），点击 NewGame/LoadGame 进入主界面 */}
+      {/* 阅读模式：覆盖在 CG 背景层之上，进入新小节时切换下一张 CG */}
+      {readerOpen && (
+        <StoryReader
+          lines={readerLines}
+          outlineId={currentOutlineKey}
+          startIndex={readerStart}
+          onClose={closeReader}
+          onSectionChange={goNext}
+          onCgPrev={goPrev}
+          onCgNext={goNext}
+        />
+      )}
+
+      {/* 存档/读档面板（开始界面 LoadGame 与主界面存档/读档按钮共用） */}
+      {worldEditorOpen && <WorldBookEditor packId={packId} onClose={closeWorldEditor} />}
+      {promptReview && (
+        <PromptInspector
+          title={promptReview.title}
+          parts={promptReview.parts}
+          prompt={promptReview.prompt}
+          preview={(p) => previewChatRequest(p, { stage: promptReview.stage }, promptReview.stage === "section")}
+          onSend={finishPromptReview}
+          onCancel={cancelPromptReview}
+        />
+      )}
+      {npcEditorOpen && (
+        <FixedNpcEditor
+          packName={pack?.manifest.name ?? "默认世界"}
+          npcs={fixedNpcs}
+          onChange={changeFixedNpcs}
+          onReset={resetNpcs}
+          onClose={closeNpcEditor}
+        />
+      )}
+      {castSidebarOpen && (
+        <CastSidebar
+          snapshot={storySnapshot}
+          pending={Object.entries(extractStatus).filter(([id, st]) => id.startsWith("state:") && st === "pending").length}
+          failed={Object.entries(extractStatus).filter(([id, st]) => id.startsWith("state:") && st === "error").length}
+          onClose={closeCastSidebar}
+        />
+      )}
+      {storyTreeOpen && (
+        <StoryTreePanel
+          tree={storyTree.outlineKey === currentOutlineKey ? storyTree.tree : emptyStoryTree()}
+          titleOf={sectionTitleOfKey}
+          onSwitch={(id) => switchBranch(id, "leaf")}
+          onBranchFrom={(id) => switchBranch(id, "here")}
+          onClose={closeStoryTree}
+        />
+      )}
+      {versionsKey && (
+        <SectionVersionsPanel
+          title={`${sectionPosition(versionsKey)} ${sectionTitleOfKey(versionsKey) ?? ""}`.trim()}
+          versions={versionsOf(versionsKey)}
+          currentText={sectionStories[versionsKey] ?? ""}
+          busy={!!generatingKey}
+          onRestore={(v) => restoreSectionVersion(versionsKey, v)}
+          onClose={closeVersions}
+        />
+      )}
+      {trial && (
+        <TrialPanel
+          session={trial.session}
+          protagonist={trial.input.protagonist}
+          evidence={trial.input.evidence}
+          candidates={trial.candidates}
+          busy={trialBusy}
+          error={trialError}
+          onAction={(action) => void advanceTrial(trial, action)}
+          onEnterVote={enterTrialVote}
+          onVote={(target) => void castTrialVote(target)}
+          onFinish={finishTrial}
+          onRestart={restartTrial}
+          onClose={closeTrial}
+        />
+      )}
+      {saveLoadMode && (
+        <SaveLoadPanel mode={saveLoadMode} onClose={closeSaveLoad} onSave={saveToSlot} onLoad={loadFromSlot} />
+      )}
+
+      {/* 开始界面：左下角按钮行（初始显示），NewGame 进入主界面，LoadGame 打开读档面板 */}
       {showStartMenu && (
         <>
           {/* 标题图：开始页面右上角（适当放大），不影响交互 */}
@@ -1546,6 +3028,39 @@ export default function Home() {
             />
           </div>
 
+          {/* 世界包选择：左上角（仅有多个世界包时显示） */}
+          {packs.length > 1 && (
+            <div className="fixed top-6 left-6 z-[26] ui-visible rounded-[4px] border border-black/25 bg-white/70 backdrop-blur px-4 py-3 text-sm text-black max-w-[360px]">
+              <label className="flex items-center gap-2">
+                <span className="shrink-0">世界包</span>
+                <select
+                  className="flex-1 h-9 px-2 rounded-[4px] border border-black/25 bg-white/80 hover:border-black focus:outline-none"
+                  value={pack?.manifest.id ?? packId}
+                  onChange={(e) => {
+                    const target = packs.find((p) => p.id === e.target.value);
+                    selectPack(!target || target.isDefault ? "" : target.id);
+                  }}
+                >
+                  {packs.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}（{formatCastRange(p.cast)} 人）
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {(() => {
+                const current = packs.find((p) => p.id === (pack?.manifest.id ?? packId));
+                if (!current) return null;
+                return (
+                  <div className="mt-2 text-xs text-black/70 leading-relaxed">
+                    {current.description}
+                    {current.fixedCharacters.length > 0 && <div>固定角色：{current.fixedCharacters.join("、")}</div>}
+                  </div>
+                );
+              })()}
+            </div>
+          )}
+
           {/* 左下角按钮行 */}
           <div className="start-menu fixed bottom-6 left-6 z-[25] ui-visible flex items-end gap-0">
             {/* LoadGame */}
@@ -1553,21 +3068,7 @@ export default function Home() {
               type="button"
               className="group relative start-btn no-select"
               aria-label="LoadGame"
-              onClick={() => {
-                try {
-                  const list = loadOutlineHistory?.() ?? [];
-                  if (!Array.isArray(list) || list.length === 0) {
-                    alert('暂无历史大纲，请先生成一次大纲。');
-                    return;
-                  }
-                  setShowStartMenu(false);
-                  showLatestOutlineFromHistory();
-                } catch {
-                  // 容错：仍尝试进入历史视图
-                  setShowStartMenu(false);
-                  showLatestOutlineFromHistory();
-                }
-              }}
+              onClick={() => setSaveLoadMode("load")}
             >
               <img
                 src="/start_ui/LoadGame-unselected.png"
@@ -1703,7 +3204,7 @@ export default function Home() {
       )}
 
       {!showStartMenu && (
-      <main className="mx-auto max-w-[880px] px-6 sm:px-8 py-12 sm:py-16 relative z-10 glass-card fade-in-up ui-visible">
+      <main className={cls("mx-auto max-w-[880px] px-6 sm:px-8 py-12 sm:py-16 relative z-10 glass-card fade-in-up ui-visible", readerOpen && "hidden")}>
         {/* 顶部标题 */}
         <header className="mb-10 sm:mb-12">
           <div className="mb-6 sm:mb-8">
@@ -1774,7 +3275,10 @@ export default function Home() {
             <section className="p-6 sm:p-8">
               <SectionTitle>角色问卷（多角色）</SectionTitle>
               <p className="mt-2 text-black/70 text-[16px] leading-[24px]">
-                每个角色都有7个固定问题。必须严格勾选12个角色，每个角色必须回答完全部7个问题才能生成故事。
+                世界包：{pack?.manifest.name ?? "加载中"}。每个角色都有{requiredAnswers}个固定问题。需勾选{formatCastRange(castRules)}个角色，每个角色必须回答完全部{requiredAnswers}个问题才能生成故事。
+                {activeNpcCharacters(fixedNpcs).length > 0 && (
+                  <>另有固定角色：{activeNpcCharacters(fixedNpcs).map((c) => c.name).join("、")}。</>
+                )}
               </p>
 
               <div className="mt-6 flex flex-wrap items-center gap-4">
@@ -1794,6 +3298,70 @@ export default function Home() {
                 >
                   查看最近大纲
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setSaveLoadMode("save")}
+                  className="h-12 px-5 rounded-[4px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="保存当前进度到存档槽"
+                >
+                  存档
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSaveLoadMode("load")}
+                  className="h-12 px-5 rounded-[4px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="从存档槽恢复进度"
+                >
+                  读档
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setWorldEditorOpen(true)}
+                  className="h-12 px-5 rounded-[4px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="查看与编辑 game/world_books 下的世界书"
+                >
+                  编辑世界书
+                </button>
+                <button
+                  type="button"
+                  onClick={togglePromptPreview}
+                  aria-pressed={promptPreview}
+                  className={cls(
+                    "h-12 px-5 rounded-[4px] border active:scale-[0.99] transition-all",
+                    promptPreview ? "border-black bg-black text-white" : "border-black/25 hover:border-black"
+                  )}
+                  title="开启后，每次生成前先预览并可修改将要发送的提示词；取消则不发送"
+                >
+                  发送前预览：{promptPreview ? "开" : "关"}
+                </button>
+
+                <button
+                  type="button"
+                  onClick={exportProject}
+                  className="h-12 px-5 rounded-[4px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="导出整个项目为 JSON（不含 API Key）"
+                >
+                  导出项目
+                </button>
+                <button
+                  type="button"
+                  onClick={() => projectFileRef.current?.click()}
+                  className="h-12 px-5 rounded-[4px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="从导出的 JSON 恢复项目"
+                >
+                  导入项目
+                </button>
+                <input
+                  ref={projectFileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    e.target.value = "";
+                    if (f) void importProjectFile(f);
+                  }}
+                />
                 <div className="ms-auto" />
 
                 <button
@@ -1926,14 +3494,23 @@ export default function Home() {
               <div className="mt-6 space-y-4">
                 <div className="flex flex-wrap items-center gap-4">
                   <div className="text-[14px] leading-[20px] text-black/70">
-                    已选择角色：{isClient ? selectedRoles.length : 0} / 12
+                    已选择角色：{isClient ? selectedRoles.length : 0} / {formatCastRange(castRules)}
+                    {activeNpcCharacters(fixedNpcs).length > 0 && ` · 固定角色 ${activeNpcCharacters(fixedNpcs).length}`}
                   </div>
                   <div className="text-[14px] leading-[20px] text-black/70">
-                    生成规则：必须严格勾选 12 个角色，每个角色必须回答完全部 7 个问题。
+                    生成规则：需勾选 {formatCastRange(castRules)} 个角色，每个角色必须回答完全部 {requiredAnswers} 个问题。
                   </div>
+                  <button
+                    type="button"
+                    onClick={() => setNpcEditorOpen(true)}
+                    disabled={!pack}
+                    className="h-10 px-4 rounded-[4px] border border-black/25 hover:border-black active:scale-[0.99] transition-all disabled:opacity-60"
+                  >
+                    编辑固定角色
+                  </button>
                 </div>
 
-                {isClient && selectedRoles.length === 12 && (
+                {isClient && !checkCastCount(selectedRoles.length, castRules) && (
                   <div className="protagonist-select">
                     <label className="text-[14px] leading-[20px] font-medium">选择主人公：</label>
                     <div className="select-wrap">
@@ -1972,13 +3549,12 @@ export default function Home() {
 
                 {!canSubmit && (
                   <p className="mt-3 text-[14px] leading-[20px] text-black/60">
-                    {selectedRoles.length !== 12
-                      ? `请勾选严格 12 个角色（当前：${selectedRoles.length}）`
-                      : invalidSelectedRoles.length > 0
-                      ? `有 ${invalidSelectedRoles.length} 个角色未完成全部 7 个问题`
-                      : !protagonist
-                      ? "请选择一个主人公角色"
-                      : "请检查所有条件"}
+                    {checkCastCount(selectedRoles.length, castRules) ??
+                      (invalidSelectedRoles.length > 0
+                        ? `有 ${invalidSelectedRoles.length} 个角色未完成全部 ${requiredAnswers} 个问题`
+                        : !protagonist
+                        ? "请选择一个主人公角色"
+                        : "请检查所有条件")}
                   </p>
                 )}
 
@@ -2110,6 +3686,7 @@ export default function Home() {
               {outlineFull && (
                 <section className="mt-6 border border-black/10 p-5 sm:p-6 shadow-sm">
                   <h3 className="text-[24px] leading-[32px] font-semibold tracking-tight">章节结构</h3>
+                  {worldReports.outline && <WorldReportLine label="大纲引用世界书" report={worldReports.outline} />}
                   <div className="mt-4 space-y-4">
                     {outlineFull.chapters.map((ch, idx) => (
                       <div key={idx} className="border border-black/12 border-l-[3px] p-4 bg-white/70">
@@ -2151,11 +3728,15 @@ export default function Home() {
                                           {generatingKey === key ? "重新创建中..." : "为此节重新创建故事"}
                                         </button>
                                       )}
+                                      {renderTrialButton(idx, j, sec.sectionTitle, canCreate || canRecreate)}
                                     </>
                                   );
                                 })()}
                               </div>
-                              {(() => {
+                              {generatingKey === `${idx}-${j}` && (
+                                <StreamingSectionCard text={streamingText} round={streamingRound} backfill={backfillProgress} onStop={stopSectionStory} />
+                              )}
+                              {generatingKey !== `${idx}-${j}` && (() => {
                                 const sKey = `${idx}-${j}`;
                                 const has = sectionStories[sKey];
                                 const expanded = sectionExpand[sKey] ?? false;
@@ -2163,15 +3744,21 @@ export default function Home() {
                                 return (
                                   <div className="mt-3 border border-black/10 bg-white/80">
                                     <div className="flex items-center justify-between px-3 py-2">
-                                      <span className="text-[13px] leading-[18px] text-black/60">本节生成内容</span>
-                                      <button
-                                        type="button"
-                                        onClick={() => setSectionExpand(prev => ({ ...prev, [sKey]: !expanded }))}
-                                        className="h-8 px-3 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform"
-                                        title={expanded ? "收起内容" : "展开内容"}
-                                      >
-                                        {expanded ? "收起内容" : "展开内容"}
-                                      </button>
+                                      <span className="flex items-center gap-2 text-[13px] leading-[18px] text-black/60">
+                                        本节生成内容
+                                        <ContinuationBadge info={sectionRounds[sKey]} />
+                                      </span>
+                                      <div className="flex items-center gap-2">
+                                        {renderVersionsButton(sKey)}
+                                        <button
+                                          type="button"
+                                          onClick={() => setSectionExpand(prev => ({ ...prev, [sKey]: !expanded }))}
+                                          className="h-8 px-3 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform"
+                                          title={expanded ? "收起内容" : "展开内容"}
+                                        >
+                                          {expanded ? "收起内容" : "展开内容"}
+                                        </button>
+                                      </div>
                                     </div>
                                     {expanded && (
                                       <div className="p-3 text-[14px] leading-[20px] whitespace-pre-wrap">
@@ -2181,6 +3768,13 @@ export default function Home() {
                                   </div>
                                 );
                               })()}
+                              {worldReports[`${idx}-${j}`] && <WorldReportLine label="本节引用世界书" report={worldReports[`${idx}-${j}`]} />}
+                              {budgetReports[`${idx}-${j}`] && <BudgetReportLine report={budgetReports[`${idx}-${j}`]} />}
+                              {sectionStories[`${idx}-${j}`] && (
+                                <MemoryLine memory={memoryOf(`${idx}-${j}`)} status={extractStatus[`memory:${idx}-${j}`]} />
+                              )}
+                              {generatingKey !== `${idx}-${j}` && renderContinuity(`${idx}-${j}`)}
+                              {generatingKey !== `${idx}-${j}` && renderBranchChoices(`${idx}-${j}`)}
                             </li>
                           ))}
                         </ol>
@@ -2192,6 +3786,7 @@ export default function Home() {
               {!outlineFull && outlineMinimal && (
                 <section className="mt-6 border border-black/10 p-5 sm:p-6 shadow-sm">
                   <h3 className="text-[24px] leading-[32px] font-semibold tracking-tight">大纲结构</h3>
+                  {worldReports.outline && <WorldReportLine label="大纲引用世界书" report={worldReports.outline} />}
                   <p className="mt-2 text-[14px] leading-[20px] text-black/70">前提：{outlineMinimal.premise}</p>
                   <ol className="mt-4 divide-y divide-black/10">
                     {outlineMinimal.beats.map((b, i) => (
@@ -2229,11 +3824,15 @@ export default function Home() {
                                     {generatingKey === key ? "重新创建中..." : "为此节重新创建故事"}
                                   </button>
                                 )}
+                                {renderTrialButton(0, i, `第${i + 1}节`, canCreate || canRecreate, b)}
                               </>
                             );
                           })()}
                         </div>
-                        {(() => {
+                        {generatingKey === `0-${i}` && (
+                          <StreamingSectionCard text={streamingText} round={streamingRound} backfill={backfillProgress} onStop={stopSectionStory} />
+                        )}
+                        {generatingKey !== `0-${i}` && (() => {
                           const sKey = `0-${i}`;
                           const has = sectionStories[sKey];
                           const expanded = sectionExpand[sKey] ?? false;
@@ -2241,15 +3840,21 @@ export default function Home() {
                           return (
                             <div className="mt-3 border border-black/10 bg-white/80">
                               <div className="flex items-center justify-between px-3 py-2">
-                                <span className="text-[13px] leading-[18px] text-black/60">本节生成内容</span>
-                                <button
-                                  type="button"
-                                  onClick={() => setSectionExpand(prev => ({ ...prev, [sKey]: !expanded }))}
-                                  className="h-8 px-3 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform"
-                                  title={expanded ? "收起内容" : "展开内容"}
-                                >
-                                  {expanded ? "收起内容" : "展开内容"}
-                                </button>
+                                <span className="flex items-center gap-2 text-[13px] leading-[18px] text-black/60">
+                                  本节生成内容
+                                  <ContinuationBadge info={sectionRounds[sKey]} />
+                                </span>
+                                <div className="flex items-center gap-2">
+                                  {renderVersionsButton(sKey)}
+                                  <button
+                                    type="button"
+                                    onClick={() => setSectionExpand(prev => ({ ...prev, [sKey]: !expanded }))}
+                                    className="h-8 px-3 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform"
+                                    title={expanded ? "收起内容" : "展开内容"}
+                                  >
+                                    {expanded ? "收起内容" : "展开内容"}
+                                  </button>
+                                </div>
                               </div>
                               {expanded && (
                                 <div className="p-3 text-[14px] leading-[20px] whitespace-pre-wrap">
@@ -2259,6 +3864,11 @@ export default function Home() {
                             </div>
                           );
                         })()}
+                        {worldReports[`0-${i}`] && <WorldReportLine label="本节引用世界书" report={worldReports[`0-${i}`]} />}
+                        {budgetReports[`0-${i}`] && <BudgetReportLine report={budgetReports[`0-${i}`]} />}
+                        {sectionStories[`0-${i}`] && <MemoryLine memory={memoryOf(`0-${i}`)} status={extractStatus[`memory:0-${i}`]} />}
+                        {generatingKey !== `0-${i}` && renderContinuity(`0-${i}`)}
+                        {generatingKey !== `0-${i}` && renderBranchChoices(`0-${i}`)}
                       </li>
                     ))}
                   </ol>
@@ -2274,6 +3884,91 @@ export default function Home() {
                 >
                   {showOutlineHistory ? "隐藏大纲历史" : "显示大纲历史"}
                 </button>
+                <button
+                  type="button"
+                  onClick={openReader}
+                  disabled={readerLines.length === 0}
+                  className="h-12 px-5 rounded-[10px] border border-black/25 hover:border-black active:scale-[0.99] transition-all disabled:opacity-40 disabled:pointer-events-none"
+                  title="以视觉小说方式阅读已生成的小节"
+                >
+                  阅读模式
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setCastSidebarOpen(true)}
+                  className="h-12 px-5 rounded-[10px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="查看登场人物的存活状态、魔女化程度、审判记录与线索"
+                >
+                  局势{storySnapshot.sections > 0 ? `（存活 ${storySnapshot.cast.filter((c) => c.status === "alive").length}）` : ""}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setStoryTreeOpen(true)}
+                  className="h-12 px-5 rounded-[10px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="查看各小节的所有版本与分支，切换分支或对比结局"
+                >
+                  故事树{branchCount() > 1 ? `（${branchCount()} 条分支）` : ""}
+                </button>
+                <button
+                  type="button"
+                  onClick={toggleBranchChoices}
+                  aria-pressed={branchChoices}
+                  className={cls(
+                    "h-12 px-5 rounded-[10px] border active:scale-[0.99] transition-all",
+                    branchChoices ? "border-black bg-black text-white" : "border-black/25 hover:border-black"
+                  )}
+                  title="开启后，每节生成后由模型提出 2~4 个主人公的抉择，所选抉择决定下一节的走向"
+                >
+                  分支抉择：{branchChoices ? "开" : "关"}
+                </button>
+                {(["md", "html", "epub"] as const).map((fmt) => (
+                  <button
+                    key={fmt}
+                    type="button"
+                    onClick={() => exportStory(fmt)}
+                    disabled={readerLines.length === 0}
+                    className="h-12 px-5 rounded-[10px] border border-black/25 hover:border-black active:scale-[0.99] transition-all disabled:opacity-40 disabled:pointer-events-none"
+                    title="导出已生成的小节（按章节结构，含目录）"
+                  >
+                    {fmt === "md" ? "导出 Markdown" : fmt === "html" ? "导出 HTML" : "导出 EPUB"}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setSaveLoadMode("save")}
+                  className="h-12 px-5 rounded-[10px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="保存当前进度到存档槽"
+                >
+                  存档
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSaveLoadMode("load")}
+                  className="h-12 px-5 rounded-[10px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="从存档槽恢复进度"
+                >
+                  读档
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setWorldEditorOpen(true)}
+                  className="h-12 px-5 rounded-[10px] border border-black/25 hover:border-black active:scale-[0.99] transition-all"
+                  title="查看与编辑 game/world_books 下的世界书"
+                >
+                  编辑世界书
+                </button>
+                <button
+                  type="button"
+                  onClick={togglePromptPreview}
+                  aria-pressed={promptPreview}
+                  className={cls(
+                    "h-12 px-5 rounded-[10px] border active:scale-[0.99] transition-all",
+                    promptPreview ? "border-black bg-black text-white" : "border-black/25 hover:border-black"
+                  )}
+                  title="开启后，每次生成前先预览并可修改将要发送的提示词；取消则不发送"
+                >
+                  发送前预览：{promptPreview ? "开" : "关"}
+                </button>
                 <div className="ms-auto" />
                 <button
                   type="button"
@@ -2309,6 +4004,7 @@ export default function Home() {
                         清空历史
                       </button>
                     </div>
+                    <ServerSessionList onImported={refreshOutlineHistory} />
                   </header>
 
                   {historyList.length === 0 ? (
@@ -2409,3 +4105,174 @@ function ProgressRow({
     </div>
   );
 }
+
+/** 流式生成中的小节卡片：实时显示已到达的正文，并可随时停止（保留已生成部分） */
+function StreamingSectionCard({
+  text,
+  round,
+  backfill,
+  onStop,
+}: {
+  text: string;
+  round: number;
+  /** 生成前补齐此前各节剧情记忆与故事状态的进度 */
+  backfill: { done: number; total: number } | null;
+  onStop: () => void;
+}) {
+  return (
+    <div className="mt-3 border border-black/10 bg-white/80">
+      <div className="flex items-center justify-between px-3 py-2">
+        <span className="flex items-center gap-2 text-[13px] leading-[18px] text-black/60">
+          <SpinnerDot active />
+          {backfill
+            ? `正在补齐此前各节的剧情记忆与故事状态（${backfill.done}/${backfill.total}）`
+            : `${round > 0 ? `正在续写（第 ${round} 轮）` : "正在生成"} · 已接收 ${text.length} 字`}
+        </span>
+        <button
+          type="button"
+          onClick={onStop}
+          className="h-8 px-3 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform"
+          title="停止生成并保留已生成内容"
+        >
+          停止生成
+        </button>
+      </div>
+      <div className="p-3 text-[14px] leading-[20px] whitespace-pre-wrap">
+        {text || "等待模型输出…"}
+      </div>
+    </div>
+  );
+}
+
+/** 小节卡片上的自动续写徽标：显示续写轮数；达到上限仍被截断时提示 */
+function ContinuationBadge({ info }: { info?: { rounds: number; truncated?: boolean } }) {
+  if (!info || (info.rounds <= 0 && !info.truncated)) return null;
+  return (
+    <span
+      className={cls(
+        "inline-flex h-5 items-center rounded-[4px] border px-2 text-[12px] leading-[16px]",
+        info.truncated ? "border-red-600/40 text-red-600" : "border-black/20 text-black/70"
+      )}
+      title={info.truncated ? "已达到续写轮数上限，正文可能仍不完整" : "模型输出达到长度上限后自动续写"}
+    >
+      {info.rounds > 0 ? `续写 ${info.rounds} 轮` : "未续写"}
+      {info.truncated ? " · 仍被截断" : ""}
+    </span>
+  );
+}
+
+/** 世界书检索报告：收录条目数与 token 用量，展开可查看收录/因预算跳过的条目 */
+const WORLD_INCLUDE_LABEL: Record<WorldRetrievalReport["included"][number]["via"], string> = {
+  constant: "常驻",
+  keyword: "关键词触发",
+  relevance: "相关度",
+  all: "全部收录",
+};
+
+function WorldReportLine({ label, report }: { label: string; report: WorldRetrievalReport }) {
+  const overBudget = report.skipped.filter((s) => s.reason === "budget");
+  const notTriggered = report.skipped.filter((s) => s.reason === "not-triggered");
+  return (
+    <details className="mt-2 text-[12px] leading-[18px] text-black/60">
+      <summary className="cursor-pointer select-none">
+        {label}：{report.included.length} 条 · 约 {report.usedTokens} / {report.budgetTokens ?? "不限"} tokens
+        {report.budgetTokens === undefined ? "" : report.semantic ? " · 关键词+语义" : " · 关键词"}
+        {overBudget.length > 0 ? ` · ${overBudget.length} 条超出预算` : ""}
+        {notTriggered.length > 0 ? ` · ${notTriggered.length} 条未触发` : ""}
+      </summary>
+      {report.semanticError && <p className="mt-1 text-red-600">语义检索失败，已回退为关键词检索：{report.semanticError}</p>}
+      <ul className="mt-1 space-y-0.5">
+        {report.included.map((it) => (
+          <li key={it.id}>
+            <span className="text-black/80">{it.title}</span>
+            <span className="ml-2 text-black/40">
+              {it.category} · {it.tokens} tokens · {WORLD_INCLUDE_LABEL[it.via]}
+              {it.via === "relevance" ? ` ${it.score}` : ""}
+              {it.priority !== 0 ? ` · 优先级 ${it.priority}` : ""}
+            </span>
+          </li>
+        ))}
+        {overBudget.map((it) => (
+          <li key={it.id} className="text-black/40">
+            <span className="line-through">{it.title}</span>
+            <span className="ml-2">超出预算 · {it.tokens} tokens</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+/** 上下文预算报告：提示词估算 token 数与可用上下文，展开可查看各裁剪步骤 */
+const CONTEXT_LIMIT_SOURCE_LABEL: Record<ContextBudgetReport["limit"]["source"], string> = {
+  override: "自定义",
+  table: "内置表",
+  default: "默认值",
+};
+
+function BudgetReportLine({ report }: { report: ContextBudgetReport }) {
+  return (
+    <details className="mt-1 text-[12px] leading-[18px] text-black/60">
+      <summary className={cls("cursor-pointer select-none", report.overBudget && "text-red-600")}>
+        上下文：约 {report.tokens} / {report.budget} tokens
+        {report.steps.length > 0 ? ` · 已裁剪 ${report.steps.length} 项` : ""}
+        {report.overBudget ? " · 仍超出预算" : ""}
+      </summary>
+      <p className="mt-1">
+        {report.model || "未配置模型"} · 上限 {report.limit.tokens}（{CONTEXT_LIMIT_SOURCE_LABEL[report.limit.source]}）· 输出预留 {report.reserveTokens}
+      </p>
+      {report.steps.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {report.steps.map((st) => (
+            <li key={st.id}>
+              <span className="text-black/80">{st.label}</span>
+              <span className="ml-2 text-black/40">
+                {st.detail} · 节省约 {st.savedTokens} tokens
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
+
+/** 剧情记忆：本节提炼出的摘要与要事（注入之后各节的“故事至今”） */
+const MEMORY_LINE_CATEGORIES: Array<{ field: "deaths" | "executions" | "clues" | "relationships"; label: string }> = [
+  { field: "deaths", label: "死亡" },
+  { field: "executions", label: "处刑" },
+  { field: "clues", label: "线索" },
+  { field: "relationships", label: "关系" },
+];
+
+function MemoryLine({ memory, status }: { memory?: SectionMemory; status?: "pending" | "error" }) {
+  if (!memory) {
+    return (
+      <p className="mt-1 text-[12px] leading-[18px] text-black/40">
+        剧情记忆：{status === "pending" ? "提炼中…" : status === "error" ? "提炼失败，生成下一节前会重试" : "生成下一节前提炼"}
+      </p>
+    );
+  }
+  const counts = MEMORY_LINE_CATEGORIES.map(({ field, label }) => ({ label, items: memory[field] })).filter((c) => c.items.length > 0);
+  return (
+    <details className="mt-1 text-[12px] leading-[18px] text-black/60">
+      <summary className="cursor-pointer select-none">
+        剧情记忆{status === "pending" ? "（更新中…）" : ""}
+        {counts.length > 0 ? ` · ${counts.map((c) => `${c.label} ${c.items.length}`).join(" · ")}` : ""}
+      </summary>
+      <p className="mt-1 text-black/80">{memory.summary}</p>
+      {counts.map((c) => (
+        <div key={c.label} className="mt-1">
+          <span className="text-black/80">{c.label}</span>
+          <ul className="space-y-0.5">
+            {c.items.map((it, i) => (
+              <li key={i} className="text-black/50">
+                {it}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </details>
+  );
+}
@@ -1,21 +1,45 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import {
+  API_STAGES,
+  createProfile,
+  loadApiProfiles,
+  saveApiProfiles,
+  type ApiProfile,
+  type ApiProfilesState,
+  type ApiStage,
+} from "@/lib/apiProfiles";
+import { AI_PROVIDERS, getProviderAdapter } from "@/lib/providers";
+import { MAX_CONTINUATION_ROUNDS, loadContinuationRounds, saveContinuationRounds } from "@/lib/continuation";
+import {
+  DEFAULT_WORLD_RETRIEVAL,
+  loadWorldRetrievalSettings,
+  saveWorldRetrievalSettings,
+  type WorldRetrievalSettings,
+} from "@/lib/worldRetrieval";
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  formatContextOverrides,
+  loadContextBudgetSettings,
+  parseContextOverrides,
+  saveContextBudgetSettings,
+  type ContextBudgetSettings,
+} from "@/lib/tokenBudget";
 
 /**
  * 右上角 API 配置插头按钮 + 配置面板
- * - 持久化：存储在浏览器 localStorage（键：manosaba_ai.api_config）
+ * - 持久化：存储在浏览器 localStorage（键：manosaba_ai.api_profiles；默认档案同步到 manosaba_ai.api_config）
+ * - 多个命名档案 + 分阶段路由：人物补全 / 大纲 / 小节故事可各自选择档案与模型
  * - 后端不再读取 .env 或进程环境变量；每次请求均从请求头 x-ai-* 动态获取配置
+ * - 供应商（AI_PROVIDER）决定请求/响应格式：OpenAI 兼容 / Anthropic / Gemini / Ollama
+ * - 长文续写：小节输出因长度上限截断时的自动续写轮数（键：manosaba_ai.continuation_rounds）
+ * - 世界书检索：是否按相关度只注入部分条目、token 预算与可选向量模型（键：manosaba_ai.world_retrieval）
+ * - 上下文预算：小节提示词超出模型上下文时自动裁剪，可为模型自定义上下文上限（键：manosaba_ai.context_budget）
  * - UI 规范：黑白极简、4/8pt 间距、圆角不超过 4px、微交互
  * - 触控友好：按钮尺寸 ≥ 48×48
  */
 
-type EnvState = {
-  AI_API_KEY: string;
-  AI_BASE_URL: string;
-  AI_MODEL_ID: string;
-};
-
 type LoadStatus = "idle" | "loading" | "ok" | "error";
 type SaveStatus = "idle" | "saving" | "ok" | "error";
 
@@ -25,11 +49,14 @@ function cls(...xs: Array<string | false | undefined>) {
 
 export default function ApiConfigPanel() {
   const [open, setOpen] = useState(false);
-  const [env, setEnv] = useState<EnvState>({
-    AI_API_KEY: "",
-    AI_BASE_URL: "",
-    AI_MODEL_ID: "",
-  });
+  const [state, setState] = useState<ApiProfilesState>({ profiles: [], defaultId: "", routes: {} });
+  // 当前正在编辑的档案
+  const [editingId, setEditingId] = useState("");
+  const [continuationRounds, setContinuationRounds] = useState(0);
+  const [world, setWorld] = useState<WorldRetrievalSettings>(DEFAULT_WORLD_RETRIEVAL);
+  const [budget, setBudget] = useState<ContextBudgetSettings>(DEFAULT_CONTEXT_BUDGET);
+  // 自定义上下文上限（每行“模型片段 = 上限”），保存时解析
+  const [limitOverrides, setLimitOverrides] = useState("");
   const [loadStatus, setLoadStatus] = useState<LoadStatus>("idle");
   const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
@@ -47,14 +74,14 @@ export default function ApiConfigPanel() {
     setLoadStatus("loading");
     setErrorMsg(null);
     try {
-      const raw = localStorage.getItem("manosaba_ai.api_config");
-      const parsed = raw ? JSON.parse(raw) : null;
-      const next: EnvState = {
-        AI_API_KEY: parsed?.AI_API_KEY ?? "",
-        AI_BASE_URL: parsed?.AI_BASE_URL ?? "",
-        AI_MODEL_ID: parsed?.AI_MODEL_ID ?? "",
-      };
-      setEnv(next);
+      const next = loadApiProfiles();
+      setState(next);
+      setEditingId(next.defaultId);
+      setContinuationRounds(loadContinuationRounds());
+      setWorld(loadWorldRetrievalSettings());
+      const b = loadContextBudgetSettings();
+      setBudget(b);
+      setLimitOverrides(formatContextOverrides(b.overrides));
       setLoadStatus("ok");
     } catch (e: unknown) {
       setLoadStatus("error");
@@ -62,15 +89,51 @@ export default function ApiConfigPanel() {
     }
   }, [open]);
 
-  function onChange(key: keyof EnvState, val: string) {
-    setEnv((prev) => ({ ...prev, [key]: val }));
+  const editing = state.profiles.find((p) => p.id === editingId) ?? state.profiles[0];
+  const adapter = getProviderAdapter(editing?.provider);
+
+  function onChange<K extends keyof ApiProfile>(key: K, val: ApiProfile[K]) {
+    if (!editing) return;
+    setState((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((p) => (p.id === editing.id ? { ...p, [key]: val } : p)),
+    }));
+  }
+
+  function addProfile() {
+    // 新档案以当前档案为模板，便于只改模型或 Key
+    const p = createProfile(`档案 ${state.profiles.length + 1}`, editing);
+    setState((prev) => ({ ...prev, profiles: [...prev.profiles, p] }));
+    setEditingId(p.id);
+  }
+
+  function removeProfile() {
+    if (!editing || state.profiles.length <= 1) return;
+    const rest = state.profiles.filter((p) => p.id !== editing.id);
+    const routes: ApiProfilesState["routes"] = {};
+    for (const [stage, route] of Object.entries(state.routes) as Array<[ApiStage, ApiProfilesState["routes"][ApiStage]]>) {
+      routes[stage] = route?.profileId === editing.id ? { ...route, profileId: undefined } : route;
+    }
+    const defaultId = state.defaultId === editing.id ? rest[0].id : state.defaultId;
+    setState({ profiles: rest, defaultId, routes });
+    setEditingId(defaultId);
+  }
+
+  function onRouteChange(stage: ApiStage, patch: { profileId?: string; modelId?: string }) {
+    setState((prev) => ({
+      ...prev,
+      routes: { ...prev.routes, [stage]: { ...(prev.routes[stage] ?? {}), ...patch } },
+    }));
   }
 
   function save() {
     setSaveStatus("saving");
     setErrorMsg(null);
     try {
-      localStorage.setItem("manosaba_ai.api_config", JSON.stringify(env));
+      saveApiProfiles(state);
+      saveContinuationRounds(continuationRounds);
+      saveWorldRetrievalSettings(world);
+      saveContextBudgetSettings({ ...budget, overrides: parseContextOverrides(limitOverrides) });
       setSaveStatus("ok");
       // 1.6 秒后自动关闭
       setTimeout(() => {
@@ -245,7 +308,7 @@ export default function ApiConfigPanel() {
           />
 
           {/* 面板容器：遵循圆角 ≤ 4px、黑白极简、4/8pt 间距 */}
-          <div className="relative w-[92%] max-w-[640px] rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+          <div className="relative w-[92%] max-w-[640px] max-h-[90vh] overflow-y-auto rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
             <div className="flex items-center justify-between">
               <h2 className="text-[28px] leading-[36px] font-semibold tracking-tight">API 配置</h2>
               <button
@@ -262,7 +325,88 @@ export default function ApiConfigPanel() {
               配置将存储到本机浏览器 localStorage，仅对你本人生效，不影响他人。后端调用将随请求头动态使用你的配置。
             </p>
 
+            {/* 档案列表 */}
+            <div className="mt-6 flex flex-wrap items-center gap-2">
+              {state.profiles.map((p) => (
+                <button
+                  key={p.id}
+                  type="button"
+                  aria-pressed={editing?.id === p.id}
+                  onClick={() => setEditingId(p.id)}
+                  className={cls(
+                    "h-10 px-4 rounded-[4px] border transition-transform active:scale-[0.98]",
+                    editing?.id === p.id ? "border-black" : "border-black/20 hover:border-black"
+                  )}
+                >
+                  {p.name || "未命名"}
+                  {p.id === state.defaultId && <span className="ml-2 text-[12px] text-black/60">默认</span>}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={addProfile}
+                className="h-10 px-4 rounded-[4px] border border-dashed border-black/30 hover:border-black active:scale-[0.98] transition-transform"
+              >
+                + 新建档案
+              </button>
+            </div>
+
+            {editing && (
             <div className="mt-6 grid gap-6">
+              {/* 档案名称 */}
+              <div>
+                <label className="block text-[14px] leading-[20px] font-medium mb-2">
+                  档案名称
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    className="flex-1 min-w-[160px] rounded-[4px] border border-black/15 px-4 py-3 text-[16px] leading-[24px] outline-none focus:border-black transition-colors"
+                    value={editing.name}
+                    placeholder="如：便宜快速 / 长上下文"
+                    onChange={(e) => onChange("name", e.target.value)}
+                  />
+                  <button
+                    type="button"
+                    disabled={editing.id === state.defaultId}
+                    onClick={() => setState((prev) => ({ ...prev, defaultId: editing.id }))}
+                    className="h-12 px-4 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.98] transition-transform disabled:opacity-40 disabled:pointer-events-none"
+                  >
+                    设为默认
+                  </button>
+                  <button
+                    type="button"
+                    disabled={state.profiles.length <= 1}
+                    onClick={removeProfile}
+                    className="h-12 px-4 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.98] transition-transform disabled:opacity-40 disabled:pointer-events-none"
+                  >
+                    删除
+                  </button>
+                </div>
+              </div>
+
+              {/* AI_PROVIDER */}
+              <div>
+                <label className="block text-[14px] leading-[20px] font-medium mb-2">
+                  AI_PROVIDER
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {AI_PROVIDERS.map((p) => (
+                    <button
+                      key={p.id}
+                      type="button"
+                      aria-pressed={editing.provider === p.id}
+                      onClick={() => onChange("provider", p.id)}
+                      className={cls(
+                        "h-10 px-4 rounded-[4px] border transition-transform active:scale-[0.98]",
+                        editing.provider === p.id ? "border-black bg-black text-white" : "border-black/20 bg-white hover:border-black"
+                      )}
+                    >
+                      {p.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* AI_API_KEY */}
               <div>
                 <label className="block text-[14px] leading-[20px] font-medium mb-2">
@@ -270,9 +414,9 @@ export default function ApiConfigPanel() {
                 </label>
                 <input
                   className="w-full rounded-[4px] border border-black/15 px-4 py-3 text-[16px] leading-[24px] outline-none focus:border-black transition-colors"
-                  value={env.AI_API_KEY}
-                  placeholder="必填：你的 API Key（仅黑白文本）"
-                  onChange={(e) => onChange("AI_API_KEY", e.target.value)}
+                  value={editing.apiKey}
+                  placeholder={adapter.requiresApiKey ? "必填：你的 API Key（仅黑白文本）" : "可选：本地服务通常无需 API Key"}
+                  onChange={(e) => onChange("apiKey", e.target.value)}
                 />
               </div>
 
@@ -283,12 +427,12 @@ export default function ApiConfigPanel() {
                 </label>
                 <input
                   className="w-full rounded-[4px] border border-black/15 px-4 py-3 text-[16px] leading-[24px] outline-none focus:border-black transition-colors"
-                  value={env.AI_BASE_URL}
-                  placeholder="必填：完整的 chat/completions 接口 URL"
-                  onChange={(e) => onChange("AI_BASE_URL", e.target.value)}
+                  value={editing.baseURL}
+                  placeholder="必填：完整的接口 URL"
+                  onChange={(e) => onChange("baseURL", e.target.value)}
                 />
                 <p className="mt-2 text-[12px] leading-[16px] text-black/60">
-                  例如： https://api.openai.com/v1/chat/completions
+                  例如： {adapter.baseURLExample}
                 </p>
               </div>
 
@@ -299,12 +443,170 @@ export default function ApiConfigPanel() {
                 </label>
                 <input
                   className="w-full rounded-[4px] border border-black/15 px-4 py-3 text-[16px] leading-[24px] outline-none focus:border-black transition-colors"
-                  value={env.AI_MODEL_ID}
+                  value={editing.model}
                   placeholder="必填：模型 ID（如 gpt-4o-mini / meta-llama/llama-3.1-...）"
-                  onChange={(e) => onChange("AI_MODEL_ID", e.target.value)}
+                  onChange={(e) => onChange("model", e.target.value)}
                 />
               </div>
             </div>
+            )}
+
+            {/* 分阶段路由 */}
+            <div className="mt-8">
+              <h3 className="text-[16px] leading-[24px] font-semibold">分阶段路由</h3>
+              <p className="mt-1 text-[12px] leading-[16px] text-black/60">
+                为每个生成阶段选择档案；模型留空则使用档案自身的模型。
+              </p>
+              <div className="mt-4 grid gap-3">
+                {API_STAGES.map((st) => {
+                  const route = state.routes[st.id] ?? {};
+                  return (
+                    <div key={st.id} className="flex flex-wrap items-center gap-2">
+                      <span className="w-[88px] text-[14px] leading-[20px] font-medium">{st.label}</span>
+                      <select
+                        className="h-10 rounded-[4px] border border-black/15 bg-white px-3 text-[14px] outline-none focus:border-black transition-colors"
+                        value={route.profileId ?? ""}
+                        onChange={(e) => onRouteChange(st.id, { profileId: e.target.value || undefined })}
+                      >
+                        <option value="">默认档案</option>
+                        {state.profiles.map((p) => (
+                          <option key={p.id} value={p.id}>{p.name || "未命名"}</option>
+                        ))}
+                      </select>
+                      <input
+                        className="flex-1 min-w-[160px] h-10 rounded-[4px] border border-black/15 px-3 text-[14px] outline-none focus:border-black transition-colors"
+                        value={route.modelId ?? ""}
+                        placeholder="可选：覆盖模型 ID"
+                        onChange={(e) => onRouteChange(st.id, { modelId: e.target.value })}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* 长文续写 */}
+            <div className="mt-8">
+              <h3 className="text-[16px] leading-[24px] font-semibold">长文续写</h3>
+              <p className="mt-1 text-[12px] leading-[16px] text-black/60">
+                小节故事因输出长度上限被截断时，自动请求模型从截断处继续的最大轮数；0 表示不续写。
+              </p>
+              <div className="mt-4 flex items-center gap-2">
+                <span className="w-[88px] text-[14px] leading-[20px] font-medium">续写轮数</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_CONTINUATION_ROUNDS}
+                  step={1}
+                  className="w-[120px] h-10 rounded-[4px] border border-black/15 px-3 text-[14px] outline-none focus:border-black transition-colors"
+                  value={continuationRounds}
+                  onChange={(e) => {
+                    const n = Math.floor(Number(e.target.value));
+                    setContinuationRounds(Number.isFinite(n) ? Math.min(Math.max(n, 0), MAX_CONTINUATION_ROUNDS) : 0);
+                  }}
+                />
+              </div>
+            </div>
+
+            {/* 世界书检索 */}
+            <div className="mt-8">
+              <h3 className="text-[16px] leading-[24px] font-semibold">世界书检索</h3>
+              <p className="mt-1 text-[12px] leading-[16px] text-black/60">
+                开启后按当前小节摘要与在场角色只注入相关的世界书条目（关键词 BM25，可选向量模型做语义检索），并限制 token 预算；关闭则注入全部世界书。
+              </p>
+              <div className="mt-4 grid gap-3">
+                <label className="flex items-center gap-2 text-[14px] leading-[20px]">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-black"
+                    checked={world.enabled}
+                    onChange={(e) => setWorld((w) => ({ ...w, enabled: e.target.checked }))}
+                  />
+                  启用检索
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-[88px] text-[14px] leading-[20px] font-medium">小节预算</span>
+                  <input
+                    type="number"
+                    min={200}
+                    step={100}
+                    className="w-[120px] h-10 rounded-[4px] border border-black/15 px-3 text-[14px] outline-none focus:border-black transition-colors"
+                    value={world.sectionBudget}
+                    onChange={(e) => setWorld((w) => ({ ...w, sectionBudget: Number(e.target.value) || 0 }))}
+                  />
+                  <span className="w-[88px] text-[14px] leading-[20px] font-medium sm:ms-4">大纲预算</span>
+                  <input
+                    type="number"
+                    min={200}
+                    step={100}
+                    className="w-[120px] h-10 rounded-[4px] border border-black/15 px-3 text-[14px] outline-none focus:border-black transition-colors"
+                    value={world.outlineBudget}
+                    onChange={(e) => setWorld((w) => ({ ...w, outlineBudget: Number(e.target.value) || 0 }))}
+                  />
+                  <span className="text-[12px] leading-[16px] text-black/60">tokens</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-[88px] text-[14px] leading-[20px] font-medium">向量模型</span>
+                  <input
+                    className="flex-1 min-w-[160px] h-10 rounded-[4px] border border-black/15 px-3 text-[14px] outline-none focus:border-black transition-colors"
+                    value={world.embeddingModel}
+                    placeholder="可选：如 text-embedding-3-small / nomic-embed-text；留空仅用关键词"
+                    onChange={(e) => setWorld((w) => ({ ...w, embeddingModel: e.target.value }))}
+                  />
+                  <span className="text-[14px] leading-[20px] font-medium sm:ms-2">语义权重</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    className="w-[88px] h-10 rounded-[4px] border border-black/15 px-3 text-[14px] outline-none focus:border-black transition-colors"
+                    value={world.embeddingWeight}
+                    onChange={(e) => setWorld((w) => ({ ...w, embeddingWeight: Number(e.target.value) || 0 }))}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* 上下文预算 */}
+            <div className="mt-8">
+              <h3 className="text-[16px] leading-[24px] font-semibold">上下文预算</h3>
+              <p className="mt-1 text-[12px] leading-[16px] text-black/60">
+                按小节所用模型的上下文上限（减去输出预留）估算提示词长度；超出时依次精简较早小节、丢弃低优先级世界书、压缩不在场角色，仍超出则发送前提醒。
+              </p>
+              <div className="mt-4 grid gap-3">
+                <label className="flex items-center gap-2 text-[14px] leading-[20px]">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-black"
+                    checked={budget.enabled}
+                    onChange={(e) => setBudget((b) => ({ ...b, enabled: e.target.checked }))}
+                  />
+                  启用上下文预算
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-[88px] text-[14px] leading-[20px] font-medium">输出预留</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1000}
+                    className="w-[120px] h-10 rounded-[4px] border border-black/15 px-3 text-[14px] outline-none focus:border-black transition-colors"
+                    value={budget.reserveTokens}
+                    onChange={(e) => setBudget((b) => ({ ...b, reserveTokens: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))}
+                  />
+                  <span className="text-[12px] leading-[16px] text-black/60">tokens</span>
+                </div>
+                <div className="flex flex-wrap items-start gap-2">
+                  <span className="w-[88px] pt-2 text-[14px] leading-[20px] font-medium">自定义上限</span>
+                  <textarea
+                    rows={3}
+                    className="flex-1 min-w-[160px] rounded-[4px] border border-black/15 px-3 py-2 font-mono text-[13px] leading-[20px] outline-none focus:border-black transition-colors"
+                    value={limitOverrides}
+                    placeholder={"每行一条：模型片段 = 上限，如\nqwen2.5:7b = 8192\nmy-model = 32k"}
+                    onChange={(e) => setLimitOverrides(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
 
             {/* 状态与动作 */}
             <div className="mt-6 flex flex-wrap items-center gap-4">
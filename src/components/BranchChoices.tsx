@@ -0,0 +1,77 @@
+"use client";
+
+import type { StoryChoice } from "@/lib/storyTree";
+
+/**
+ * 小节末尾的分支抉择：模型提出 2~4 个主人公的行动，选择其一后下一节沿该抉择生成。
+ * 下一节已沿其他抉择生成时，改选会从本节开辟新分支（原分支保留在故事树中）。
+ */
+
+type Props = {
+  choices?: { options: StoryChoice[]; picked?: number };
+  status?: "pending" | "error";
+  /** 当前分支进入下一节时所选的抉择（下一节尚未生成时为空） */
+  taken?: string;
+  busy: boolean;
+  onPropose: () => void;
+  onPick: (index: number) => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+export default function BranchChoices({ choices, status, taken, busy, onPropose, onPick }: Props) {
+  if (!choices) {
+    return (
+      <p className="mt-1 text-[12px] leading-[18px] text-black/40">
+        抉择：
+        {status === "pending" ? (
+          "生成中…"
+        ) : (
+          <button type="button" onClick={onPropose} disabled={busy} className="underline underline-offset-2 hover:text-black disabled:opacity-40">
+            {status === "error" ? "生成失败，重试" : "为主人公提出抉择"}
+          </button>
+        )}
+      </p>
+    );
+  }
+  return (
+    <div className="mt-2 text-[12px] leading-[18px] text-black/60">
+      <div className="flex items-center gap-2">
+        <span>主人公的抉择</span>
+        <button
+          type="button"
+          onClick={onPropose}
+          disabled={busy || status === "pending"}
+          className="text-black/40 underline underline-offset-2 hover:text-black disabled:opacity-40"
+        >
+          {status === "pending" ? "生成中…" : "换一批"}
+        </button>
+      </div>
+      <ul className="mt-1 grid gap-1 sm:grid-cols-2">
+        {choices.options.map((opt, i) => {
+          const picked = choices.picked === i;
+          return (
+            <li key={i}>
+              <button
+                type="button"
+                onClick={() => onPick(i)}
+                disabled={busy}
+                title={opt.consequence || undefined}
+                className={cls(
+                  "w-full text-left px-3 py-2 rounded-[4px] border transition-colors disabled:opacity-40",
+                  picked ? "border-black bg-black text-white" : "border-black/15 hover:border-black"
+                )}
+              >
+                <span className="block text-[13px] leading-[18px]">{opt.label}</span>
+                {opt.consequence && <span className={cls("block", picked ? "text-white/70" : "text-black/40")}>{opt.consequence}</span>}
+                {taken === opt.label && !picked && <span className="block text-black/40">（当前分支）</span>}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
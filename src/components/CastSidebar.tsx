@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect } from "react";
+import { sectionPosition } from "@/lib/storyMemory";
+import { CAST_STATUS_LABELS, WITCH_STAGE_LABELS, type CastState, type StoryStateSnapshot } from "@/lib/storyState";
+
+/**
+ * “局势”侧栏：按已生成小节汇总的故事状态
+ * - 登场人物：存活 / 已死亡（死因、凶手）/ 已处刑，魔女化程度（0~4 格）
+ * - 审判记录（指认、处刑与投票）与已发现的线索
+ * - 提取在每节生成后于后台进行，pending / failed 为仍在提取或提取失败的小节数
+ */
+
+type Props = {
+  snapshot: StoryStateSnapshot;
+  pending: number;
+  failed: number;
+  onClose: () => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function CastRow({ c }: { c: CastState }) {
+  const ended = c.status !== "alive";
+  return (
+    <li className="py-2">
+      <div className="flex items-center gap-2">
+        <span className={cls("flex-1 min-w-0 truncate text-[14px] leading-[20px] font-medium", ended && "text-black/40 line-through")}>
+          {c.name}
+          {c.extra && <span className="ml-1 text-[12px] font-normal text-black/40 no-underline">（名单外）</span>}
+        </span>
+        <span
+          className={cls(
+            "shrink-0 px-2 h-6 inline-flex items-center rounded-[4px] border text-[12px]",
+            c.status === "alive" ? "border-black/20 text-black/70" : "border-black bg-black text-white"
+          )}
+        >
+          {CAST_STATUS_LABELS[c.status]}
+        </span>
+      </div>
+      {ended && (
+        <p className="mt-1 text-[12px] leading-[16px] text-black/50">
+          {[c.endedIn && sectionPosition(c.endedIn), c.cause && `死因：${c.cause}`, c.status === "dead" && `凶手：${c.killer || "未查明"}`]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      )}
+      <div className="mt-1 flex items-center gap-2" title={c.witchNote || WITCH_STAGE_LABELS[c.witchStage]}>
+        <span className="text-[12px] leading-[16px] text-black/50">魔女化</span>
+        <span className="flex gap-[2px]" aria-label={`魔女化程度 ${c.witchStage}/4`}>
+          {[1, 2, 3, 4].map((n) => (
+            <span key={n} className={cls("w-4 h-[6px] rounded-[1px]", n <= c.witchStage ? "bg-black" : "bg-black/10")} />
+          ))}
+        </span>
+        <span className="text-[12px] leading-[16px] text-black/50">{WITCH_STAGE_LABELS[c.witchStage]}</span>
+      </div>
+    </li>
+  );
+}
+
+export default function CastSidebar({ snapshot, pending, failed, onClose }: Props) {
+  // Esc 关闭
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const alive = snapshot.cast.filter((c) => c.status === "alive").length;
+
+  return (
+    <div className="fixed inset-0 z-[70] ui-visible" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-white/40" onClick={onClose} />
+      <aside className="absolute right-0 top-0 h-full w-[92%] max-w-[380px] flex flex-col border-l border-black/15 bg-white text-black shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+        <div className="flex items-center justify-between gap-4 p-5 border-b border-black/10">
+          <div className="min-w-0">
+            <h2 className="text-[22px] leading-[28px] font-semibold tracking-tight">局势</h2>
+            <p className="text-[12px] leading-[16px] text-black/60">
+              存活 {alive} / {snapshot.cast.length} · 已汇总 {snapshot.sections} 节
+              {pending > 0 ? ` · ${pending} 节提取中…` : ""}
+              {failed > 0 ? ` · ${failed} 节提取失败（生成下一节前重试）` : ""}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="关闭"
+            className="h-10 px-4 rounded-[4px] border border-black/20 bg-white active:scale-[0.98] transition-transform"
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5">
+          <ul className="divide-y divide-black/10">
+            {snapshot.cast.map((c) => (
+              <CastRow key={c.name} c={c} />
+            ))}
+          </ul>
+
+          {snapshot.trials.length > 0 && (
+            <section className="mt-6">
+              <h3 className="text-[14px] leading-[20px] font-semibold">审判记录</h3>
+              <ul className="mt-2 space-y-2 text-[12px] leading-[18px] text-black/70">
+                {snapshot.trials.map((t, i) => (
+                  <li key={i}>
+                    <div className="text-black/90">
+                      {sectionPosition(t.key)} · {t.accused ? `指认 ${t.accused}` : "未指认"} · {t.executed ? `处刑 ${t.executed}` : "未处刑"}
+                    </div>
+                    {t.votes.length > 0 && <div className="text-black/50">投票：{t.votes.map((v) => `${v.voter}→${v.target}`).join("、")}</div>}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {snapshot.clues.length > 0 && (
+            <section className="mt-6">
+              <h3 className="text-[14px] leading-[20px] font-semibold">线索</h3>
+              <ul className="mt-2 space-y-2 text-[12px] leading-[18px] text-black/70">
+                {snapshot.clues.map((c, i) => (
+                  <li key={i}>
+                    <div className="text-black/90">{c.content}</div>
+                    <div className="text-black/50">
+                      {[sectionPosition(c.key), c.finder && `发现者：${c.finder}`, c.pointsTo && `指向：${c.pointsTo}`].filter(Boolean).join(" · ")}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {snapshot.sections === 0 && (
+            <p className="mt-6 text-[13px] leading-[18px] text-black/60">尚无故事状态：每节生成后会自动提取死亡、审判、魔女化与线索。</p>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { CONTINUITY_KIND_LABELS, type ContinuityIssue } from "@/lib/continuityCheck";
+
+/**
+ * 小节下方的连贯性检查结果：规则检查即时显示，模型审校按需发起。
+ * 有问题时可一键“按这些问题重新生成”（仅最近一节可重新生成，同“重新创建”按钮）。
+ */
+
+type Props = {
+  ruleIssues: ContinuityIssue[];
+  /** 模型审校结果；undefined 表示尚未审校或正文已变化 */
+  judgeIssues?: ContinuityIssue[];
+  judgeStatus?: "pending" | "error";
+  canRegenerate: boolean;
+  busy: boolean;
+  onJudge: () => void;
+  onRegenerate: (issues: ContinuityIssue[]) => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function IssueItem({ issue }: { issue: ContinuityIssue }) {
+  return (
+    <li>
+      <div className={cls(issue.severity === "error" ? "text-red-600" : "text-black/80")}>
+        [{CONTINUITY_KIND_LABELS[issue.kind]}{issue.source === "judge" ? " · 审校" : ""}] {issue.message}
+      </div>
+      {issue.quote && <div className="pl-3 border-l border-black/15 text-black/50">「{issue.quote}」</div>}
+      {issue.fix && <div className="text-black/50">建议：{issue.fix}</div>}
+    </li>
+  );
+}
+
+export default function ContinuityReport({ ruleIssues, judgeIssues, judgeStatus, canRegenerate, busy, onJudge, onRegenerate }: Props) {
+  const issues = [...ruleIssues, ...(judgeIssues ?? [])];
+  const errors = issues.filter((it) => it.severity === "error").length;
+  const judgeLabel =
+    judgeStatus === "pending" ? "审校中…" : judgeStatus === "error" ? "审校失败，重试" : judgeIssues ? "重新审校" : "模型审校";
+
+  return (
+    <details className="mt-1 text-[12px] leading-[18px] text-black/60">
+      <summary className={cls("cursor-pointer select-none", errors > 0 && "text-red-600")}>
+        连贯性：{issues.length === 0 ? "未发现问题" : `${issues.length} 个问题${errors > 0 ? `（${errors} 个必须修改）` : ""}`}
+        {judgeIssues ? " · 已审校" : " · 仅规则检查"}
+      </summary>
+      {issues.length > 0 && (
+        <ul className="mt-1 space-y-1">
+          {issues.map((it, i) => (
+            <IssueItem key={i} issue={it} />
+          ))}
+        </ul>
+      )}
+      <div className="mt-2 flex gap-2">
+        <button
+          type="button"
+          onClick={onJudge}
+          disabled={busy || judgeStatus === "pending"}
+          className="h-8 px-3 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform disabled:opacity-40"
+          title="由模型对照简述、局势与人物设定审校本节"
+        >
+          {judgeLabel}
+        </button>
+        {issues.length > 0 && canRegenerate && (
+          <button
+            type="button"
+            onClick={() => onRegenerate(issues)}
+            disabled={busy}
+            className="h-8 px-3 rounded-[4px] border border-black/20 hover:border-black active:scale-[0.99] transition-transform disabled:opacity-40"
+            title="把以上问题作为修改要求重新生成本节"
+          >
+            按这些问题重新生成
+          </button>
+        )}
+      </div>
+    </details>
+  );
+}
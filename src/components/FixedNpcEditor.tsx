@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  PROMPT_CHARACTER_FIELDS,
+  emptyPromptCharacter,
+  newNpcId,
+  type FixedNpc,
+  type PromptCharacter,
+} from "@/lib/castRoster";
+
+/**
+ * 固定 NPC 名单编辑面板
+ * - 每个 NPC 可单独停用（保留设定但不参与生成）、编辑全部人物字段或删除
+ * - 可新增 NPC，或恢复为当前世界包清单里的默认名单
+ * - 修改即时生效（由父组件保存到 localStorage），下一次生成大纲时使用
+ */
+
+type Props = {
+  packName: string;
+  npcs: FixedNpc[];
+  onChange: (list: FixedNpc[]) => void;
+  onReset: () => void;
+  onClose: () => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+export default function FixedNpcEditor({ packName, npcs, onChange, onReset, onClose }: Props) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Esc 关闭
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  function update(id: string, patch: Partial<FixedNpc>) {
+    onChange(npcs.map((n) => (n.id === id ? { ...n, ...patch } : n)));
+  }
+
+  function updateField(npc: FixedNpc, key: keyof PromptCharacter, value: string) {
+    update(npc.id, { character: { ...npc.character, [key]: value } });
+  }
+
+  function add() {
+    const npc: FixedNpc = { id: newNpcId(), enabled: true, character: emptyPromptCharacter(`新角色${npcs.length + 1}`) };
+    onChange([...npcs, npc]);
+    setExpandedId(npc.id);
+  }
+
+  function remove(npc: FixedNpc) {
+    if (!confirm(`删除固定角色「${npc.character.name || "未命名"}」？`)) return;
+    onChange(npcs.filter((n) => n.id !== npc.id));
+  }
+
+  function reset() {
+    if (!confirm(`放弃本地修改，恢复为「${packName}」的默认固定角色？`)) return;
+    setExpandedId(null);
+    onReset();
+  }
+
+  const enabledCount = npcs.filter((n) => n.enabled && n.character.name.trim()).length;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center ui-visible" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-white/70 backdrop-blur-[6px]" onClick={onClose} />
+
+      <div className="relative w-[92%] max-w-[880px] max-h-[90vh] overflow-y-auto rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+        <div className="flex items-center justify-between">
+          <h2 className="text-[28px] leading-[36px] font-semibold tracking-tight">固定角色</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="关闭"
+            className="h-10 px-4 rounded-[4px] border border-black/20 bg-white active:scale-[0.98] transition-transform"
+          >
+            关闭
+          </button>
+        </div>
+        <p className="mt-2 text-[14px] leading-[20px] text-black/70">
+          世界包「{packName}」· 参与生成 {enabledCount} / {npcs.length}。固定角色追加在勾选的玩家角色之后，计入故事人数。
+        </p>
+
+        <div className="mt-6 space-y-3">
+          {npcs.length === 0 && <p className="text-[14px] leading-[20px] text-black/40">暂无固定角色。</p>}
+          {npcs.map((npc) => {
+            const open = expandedId === npc.id;
+            return (
+              <div
+                key={npc.id}
+                className={cls("rounded-[4px] border p-4", npc.enabled ? "border-black/20" : "border-black/10 text-black/50")}
+              >
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-2 text-[14px] cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={npc.enabled}
+                      onChange={(e) => update(npc.id, { enabled: e.target.checked })}
+                    />
+                    启用
+                  </label>
+                  <span className="flex-1 min-w-0 truncate text-[15px] leading-[22px] font-semibold">
+                    {npc.character.name || "未命名"}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(open ? null : npc.id)}
+                    className="h-8 px-3 rounded-[4px] border border-black/15 text-[12px] hover:border-black transition-colors"
+                  >
+                    {open ? "收起" : "编辑"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(npc)}
+                    className="h-8 px-3 rounded-[4px] border border-black/15 text-[12px] hover:border-black transition-colors"
+                  >
+                    删除
+                  </button>
+                </div>
+
+                {open && (
+                  <div className="mt-4 grid gap-3">
+                    {PROMPT_CHARACTER_FIELDS.map((f) => (
+                      <label key={f.key} className="grid gap-1 text-[13px] leading-[18px] text-black/70">
+                        {f.label}
+                        {f.multiline ? (
+                          <textarea
+                            value={npc.character[f.key]}
+                            onChange={(e) => updateField(npc, f.key, e.target.value)}
+                            rows={3}
+                            className="w-full rounded-[4px] border border-black/20 px-3 py-2 text-[14px] leading-[20px] text-black focus:outline-none focus:border-black resize-y"
+                          />
+                        ) : (
+                          <input
+                            value={npc.character[f.key]}
+                            onChange={(e) => updateField(npc, f.key, e.target.value)}
+                            className="h-10 w-full rounded-[4px] border border-black/20 px-3 text-[14px] text-black focus:outline-none focus:border-black"
+                          />
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="mt-6 flex items-center justify-end gap-3">
+          <button
+            type="button"
+            onClick={reset}
+            className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors"
+          >
+            恢复默认
+          </button>
+          <button
+            type="button"
+            onClick={add}
+            className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors"
+          >
+            新增角色
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { ChatRequestPreview } from "@/lib/aiClient";
+import { promptStats, type MeasuredPromptPart } from "@/lib/promptInspector";
+
+/**
+ * 提示词检查器：在发送前展示将要发送的内容
+ * - 组成部分：世界书 / 人物 XML / 大纲 XML / 上一节 / 模板，各自的字数与估算 token 数
+ * - 提示词可直接修改后发送（只影响本次请求，不回写模板）；请求体随修改实时刷新
+ * - 取消即为“试运行”：不发送、不消耗 token
+ */
+
+type Props = {
+  title: string;
+  parts: MeasuredPromptPart[];
+  prompt: string;
+  /** 根据（修改后的）提示词构造请求体预览；配置缺失时抛错 */
+  preview: (prompt: string) => ChatRequestPreview;
+  onSend: (prompt: string) => void;
+  onCancel: () => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+export default function PromptInspector({ title, parts, prompt, preview, onSend, onCancel }: Props) {
+  const [text, setText] = useState(prompt);
+  const [tab, setTab] = useState<"prompt" | "payload">("prompt");
+  const [openPart, setOpenPart] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Esc 取消
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onCancel]);
+
+  const stats = useMemo(() => promptStats(text), [text]);
+  const edited = text !== prompt;
+
+  const payload = useMemo(() => {
+    if (tab !== "payload") return null;
+    try {
+      return { ok: true as const, value: preview(text) };
+    } catch (e: unknown) {
+      return { ok: false as const, message: e instanceof Error ? e.message : "无法构造请求" };
+    }
+  }, [tab, text, preview]);
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1200);
+    } catch {
+      // 剪贴板不可用时忽略
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center ui-visible" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-white/70 backdrop-blur-[6px]" onClick={onCancel} />
+
+      <div className="relative w-[94%] max-w-[1080px] max-h-[92vh] flex flex-col rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-[28px] leading-[36px] font-semibold tracking-tight truncate">提示词预览 · {title}</h2>
+            <p className="text-[13px] leading-[18px] text-black/60">
+              共 {stats.chars} 字 · 约 {stats.tokens} tokens{edited ? "（已修改）" : ""}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            aria-label="关闭"
+            className="h-10 px-4 rounded-[4px] border border-black/20 bg-white active:scale-[0.98] transition-transform"
+          >
+            关闭
+          </button>
+        </div>
+
+        {/* 组成部分 */}
+        <div className="mt-4 rounded-[4px] border border-black/15 divide-y divide-black/10 text-[13px] leading-[18px]">
+          {parts.map((p) => (
+            <div key={p.id}>
+              <button
+                type="button"
+                onClick={() => setOpenPart(openPart === p.id ? null : p.id)}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-black/[0.03]"
+              >
+                <span className="w-4 text-black/50">{openPart === p.id ? "▾" : "▸"}</span>
+                <span className="flex-1 font-medium">{p.label}</span>
+                <span className="text-black/60 tabular-nums">{p.chars} 字</span>
+                <span className="w-[96px] text-right text-black/60 tabular-nums">≈ {p.tokens} tokens</span>
+              </button>
+              {openPart === p.id && (
+                <pre className="max-h-[200px] overflow-auto px-3 pb-3 whitespace-pre-wrap break-all text-[12px] leading-[18px] text-black/80">
+                  {p.text}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* 提示词 / 请求体 */}
+        <div className="mt-4 flex items-center gap-2">
+          {(["prompt", "payload"] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={cls(
+                "h-9 px-4 rounded-[4px] border text-[14px] transition-colors",
+                tab === t ? "border-black bg-black text-white" : "border-black/20 hover:border-black"
+              )}
+            >
+              {t === "prompt" ? "提示词（可编辑）" : "请求体"}
+            </button>
+          ))}
+        </div>
+        <div className="mt-2 flex-1 min-h-[240px] overflow-hidden">
+          {tab === "prompt" ? (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              spellCheck={false}
+              className="w-full h-full min-h-[240px] rounded-[4px] border border-black/20 px-3 py-2 font-mono text-[12px] leading-[18px] focus:outline-none focus:border-black resize-none"
+            />
+          ) : payload?.ok ? (
+            <div className="h-full min-h-[240px] flex flex-col">
+              <p className="text-[12px] leading-[16px] text-black/60 break-all">
+                POST {payload.value.url} · {payload.value.provider} · {payload.value.model}
+              </p>
+              <pre className="mt-2 flex-1 overflow-auto rounded-[4px] border border-black/15 px-3 py-2 whitespace-pre-wrap break-all text-[12px] leading-[18px]">
+                {payload.value.body}
+              </pre>
+            </div>
+          ) : (
+            <p className="text-[14px] leading-[20px] text-black/60">{payload?.message}</p>
+          )}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={copy}
+            className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors"
+          >
+            {copied ? "已复制" : "复制提示词"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setText(prompt)}
+            disabled={!edited}
+            className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            恢复原文
+          </button>
+          <div className="ms-auto" />
+          <button
+            type="button"
+            onClick={onCancel}
+            className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors"
+          >
+            取消（不发送）
+          </button>
+          <button
+            type="button"
+            onClick={() => onSend(text)}
+            disabled={!text.trim()}
+            className="h-10 px-5 rounded-[4px] border border-black bg-black text-white hover:opacity-90 transition-opacity disabled:opacity-40 disabled:pointer-events-none"
+          >
+            发送
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { deleteSaveSlot, loadSaveSlots, type SaveSlot } from "@/lib/saveSlots";
+
+/**
+ * 存档 / 读档面板（编号槽位）
+ * - 存档模式：点击任意槽位写入当前进度（已有存档需确认覆盖）
+ * - 读档模式：点击已有存档恢复到保存时的位置；空槽位不可点击
+ * - UI 规范：黑白极简、圆角不超过 4px、玻璃态遮罩，与 API 配置面板一致
+ */
+
+type Props = {
+  mode: "save" | "load";
+  onClose: () => void;
+  /** 存档：写入指定编号槽位；返回错误信息（成功返回 null） */
+  onSave?: (slot: number) => string | null;
+  onLoad?: (data: SaveSlot) => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function formatTime(ts: number) {
+  const d = new Date(ts);
+  return isNaN(d.getTime()) ? String(ts) : `${d.toLocaleDateString()} ${d.toLocaleTimeString()}`;
+}
+
+const STEP_LABEL: Record<SaveSlot["step"], string> = {
+  form: "角色问卷",
+  progress: "生成中",
+  result: "大纲与小节",
+};
+
+export default function SaveLoadPanel({ mode, onClose, onSave, onLoad }: Props) {
+  const [slots, setSlots] = useState<Array<SaveSlot | null>>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSlots(loadSaveSlots());
+  }, []);
+
+  // Esc 关闭
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  function pick(index: number) {
+    const slotNo = index + 1;
+    const existing = slots[index];
+    if (mode === "load") {
+      if (existing) onLoad?.(existing);
+      return;
+    }
+    if (existing && !confirm(`覆盖存档 ${slotNo}？`)) return;
+    const err = onSave?.(slotNo) ?? null;
+    if (err) {
+      setMessage(`存档失败：${err}`);
+      return;
+    }
+    setSlots(loadSaveSlots());
+    setMessage(`已保存到存档 ${slotNo}。`);
+  }
+
+  function remove(index: number) {
+    if (!confirm(`删除存档 ${index + 1}？`)) return;
+    deleteSaveSlot(index + 1);
+    setSlots(loadSaveSlots());
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center ui-visible" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-white/70 backdrop-blur-[6px]" onClick={onClose} />
+
+      <div className="relative w-[92%] max-w-[880px] max-h-[90vh] overflow-y-auto rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+        <div className="flex items-center justify-between">
+          <h2 className="text-[28px] leading-[36px] font-semibold tracking-tight">{mode === "save" ? "存档" : "读档"}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="关闭"
+            className="h-10 px-4 rounded-[4px] border border-black/20 bg-white active:scale-[0.98] transition-transform"
+          >
+            关闭
+          </button>
+        </div>
+
+        {message && <p className="mt-2 text-[14px] leading-[20px] text-black/70">{message}</p>}
+
+        <div className="mt-6 grid gap-3 sm:grid-cols-3">
+          {slots.map((s, i) => {
+            const disabled = mode === "load" && !s;
+            return (
+              <div
+                key={i}
+                className={cls(
+                  "relative flex flex-col rounded-[4px] border p-4 min-h-[148px] transition-[transform,border-color]",
+                  disabled ? "border-black/10 text-black/40" : "border-black/20 hover:border-black active:scale-[0.99] cursor-pointer"
+                )}
+                role="button"
+                tabIndex={disabled ? -1 : 0}
+                aria-disabled={disabled}
+                onClick={() => !disabled && pick(i)}
+                onKeyDown={(e) => {
+                  if (!disabled && (e.key === "Enter" || e.key === " ")) {
+                    e.preventDefault();
+                    pick(i);
+                  }
+                }}
+              >
+                <div className="flex items-center justify-between text-[12px] leading-[16px] text-black/60">
+                  <span className="font-medium text-black">No.{String(i + 1).padStart(2, "0")}</span>
+                  {s && <span>{formatTime(s.savedAt)}</span>}
+                </div>
+                {s ? (
+                  <>
+                    <p className="mt-2 text-[15px] leading-[22px] font-semibold truncate">{s.outlineTitle || "未命名大纲"}</p>
+                    <p className="text-[12px] leading-[16px] text-black/60">
+                      {STEP_LABEL[s.step]} · 已生成 {Object.keys(s.sectionStories).length} 节
+                    </p>
+                    {s.preview && (
+                      <p className="mt-2 text-[12px] leading-[18px] text-black/70 line-clamp-3">
+                        {s.preview.sectionTitle ? `【${s.preview.sectionTitle}】` : ""}
+                        {s.preview.excerpt}
+                      </p>
+                    )}
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        remove(i);
+                      }}
+                      className="mt-auto self-end h-8 px-3 rounded-[4px] border border-black/15 text-[12px] hover:border-black transition-colors"
+                    >
+                      删除
+                    </button>
+                  </>
+                ) : (
+                  <p className="mt-6 text-center text-[14px] leading-[20px] text-black/40">空槽位</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { diffStats, diffText, type DiffSegment, type SectionVersion } from "@/lib/sectionVersions";
+
+/**
+ * 小节版本历史：列出本节每次生成的版本（模型、温度、提示词指纹、时间），
+ * 选择 A / B 两个版本并排逐字对比，任一版本可恢复为当前正文（其他版本保留）。
+ */
+
+type Props = {
+  title: string;
+  versions: SectionVersion[];
+  currentText: string;
+  busy: boolean;
+  onRestore: (version: SectionVersion) => void;
+  onClose: () => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const SOURCE_LABELS: Record<SectionVersion["source"], string> = {
+  section: "生成",
+  trial: "互动审判",
+  unknown: "来源未知",
+};
+
+function DiffColumn({ segments, side }: { segments: DiffSegment[]; side: "delete" | "insert" }) {
+  return (
+    <p className="text-[14px] leading-[22px] whitespace-pre-wrap">
+      {segments.map((s, i) =>
+        s.type === "equal" ? (
+          <span key={i}>{s.text}</span>
+        ) : s.type === side ? (
+          <span key={i} className={side === "delete" ? "text-red-700 line-through bg-black/[0.04]" : "bg-black/[0.08] underline underline-offset-2"}>
+            {s.text}
+          </span>
+        ) : null
+      )}
+    </p>
+  );
+}
+
+export default function SectionVersionsPanel({ title, versions, currentText, busy, onRestore, onClose }: Props) {
+  const currentId = versions.find((v) => v.text === currentText)?.id;
+  // 默认对比当前版本与其前一版（没有当前版本时对比最后两版）
+  const [pair, setPair] = useState<[string | undefined, string | undefined]>(() => {
+    const at = currentId ? versions.findIndex((v) => v.id === currentId) : versions.length - 1;
+    const other = at > 0 ? versions[at - 1] : versions[at + 1];
+    return [other?.id, versions[at]?.id];
+  });
+
+  // Esc 关闭
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const left = versions.find((v) => v.id === pair[0]);
+  const right = versions.find((v) => v.id === pair[1]);
+  const segments = useMemo(() => (left && right ? diffText(left.text, right.text) : []), [left, right]);
+  const stats = useMemo(() => diffStats(segments), [segments]);
+  const labelOf = (v: SectionVersion | undefined) => (v ? `版本 ${versions.indexOf(v) + 1}` : "");
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center ui-visible" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-white/70 backdrop-blur-[6px]" onClick={onClose} />
+
+      <div className="relative w-[94%] max-w-[1080px] max-h-[92vh] flex flex-col rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-[28px] leading-[36px] font-semibold tracking-tight truncate">版本历史 · {title}</h2>
+            <p className="text-[13px] leading-[18px] text-black/60">{versions.length} 个版本 · 选择 A、B 两个版本并排对比</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="关闭"
+            className="h-10 px-4 rounded-[4px] border border-black/20 bg-white active:scale-[0.98] transition-transform"
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="mt-4 flex-1 min-h-0 overflow-auto">
+          <table className="w-full text-[12px] leading-[18px]">
+            <thead className="text-black/50 text-left">
+              <tr>
+                <th className="py-1 pe-2 font-normal">A</th>
+                <th className="py-1 pe-2 font-normal">B</th>
+                <th className="py-1 pe-2 font-normal">版本</th>
+                <th className="py-1 pe-2 font-normal">时间</th>
+                <th className="py-1 pe-2 font-normal">模型</th>
+                <th className="py-1 pe-2 font-normal">温度</th>
+                <th className="py-1 pe-2 font-normal">提示词指纹</th>
+                <th className="py-1 pe-2 font-normal">字数</th>
+                <th className="py-1 font-normal" />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map((v, i) => {
+                const current = v.id === currentId;
+                return (
+                  <tr key={v.id} className={cls("border-t border-black/10", current && "font-medium")}>
+                    <td className="py-1 pe-2">
+                      <input type="radio" name="version-a" checked={pair[0] === v.id} onChange={() => setPair([v.id, pair[1]])} aria-label={`A：版本 ${i + 1}`} />
+                    </td>
+                    <td className="py-1 pe-2">
+                      <input type="radio" name="version-b" checked={pair[1] === v.id} onChange={() => setPair([pair[0], v.id])} aria-label={`B：版本 ${i + 1}`} />
+                    </td>
+                    <td className="py-1 pe-2 whitespace-nowrap">
+                      版本 {i + 1}
+                      {current && <span className="ms-1 px-1 rounded-[2px] border border-black text-[11px]">当前</span>}
+                      {v.source !== "section" && <span className="ms-1 text-black/40">{SOURCE_LABELS[v.source]}</span>}
+                    </td>
+                    <td className="py-1 pe-2 whitespace-nowrap text-black/60">{new Date(v.createdAt).toLocaleString()}</td>
+                    <td className="py-1 pe-2 text-black/60">{v.model || "—"}</td>
+                    <td className="py-1 pe-2 text-black/60">{v.temperature ?? "—"}</td>
+                    <td className="py-1 pe-2 font-mono text-black/60">{v.promptHash || "—"}</td>
+                    <td className="py-1 pe-2 text-black/60">{Array.from(v.text).length}</td>
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => onRestore(v)}
+                        disabled={busy || current}
+                        className="h-7 px-2 rounded-[4px] border border-black/20 hover:border-black text-[12px] transition-colors disabled:opacity-40"
+                      >
+                        恢复此版本
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {left && right && left.id !== right.id && (
+            <section className="mt-6">
+              <p className="text-[12px] leading-[18px] text-black/60">
+                {labelOf(left)} → {labelOf(right)} · 删除 {stats.deleted} 字 · 新增 {stats.inserted} 字
+                {left.promptHash && left.promptHash === right.promptHash ? " · 提示词相同" : ""}
+              </p>
+              <div className="mt-2 grid gap-4 sm:grid-cols-2">
+                <div className="rounded-[4px] border border-black/15 p-3">
+                  <h3 className="text-[13px] leading-[18px] font-semibold text-black/60">A：{labelOf(left)}</h3>
+                  <div className="mt-2">
+                    <DiffColumn segments={segments} side="delete" />
+                  </div>
+                </div>
+                <div className="rounded-[4px] border border-black/15 p-3">
+                  <h3 className="text-[13px] leading-[18px] font-semibold text-black/60">B：{labelOf(right)}</h3>
+                  <div className="mt-2">
+                    <DiffColumn segments={segments} side="insert" />
+                  </div>
+                </div>
+              </div>
+            </section>
+          )}
+          {left && right && left.id === right.id && (
+            <p className="mt-6 text-[12px] leading-[18px] text-black/50">A 与 B 为同一版本，请选择另一个版本对比。</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
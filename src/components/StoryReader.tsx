@@ -0,0 +1,256 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { isLineRead, loadReadMarks, saveReadMarks, type ReadMarks, type ReaderLine } from "@/lib/reader";
+
+/**
+ * 阅读模式：在 CG 背景层之上以视觉小说方式逐条显示小节正文
+ * - 点击 / Enter / 空格 / → 前进（文字未显示完时先补全），← 回看上一条，Esc 关闭
+ * - 自动播放（三档速度）、跳过已读（遇到未读即停）、回想（backlog，滚轮上滑也可打开）
+ * - 进入新小节时通知外部切换 CG
+ * - UI 规范：黑白极简、圆角不超过 4px、玻璃态文本框
+ */
+
+type Speed = "slow" | "normal" | "fast";
+
+// 每字显示间隔 / 自动播放时整句显示完后的停顿（毫秒）
+const SPEED_MS: Record<Speed, { perChar: number; pause: number }> = {
+  slow: { perChar: 60, pause: 2200 },
+  normal: { perChar: 35, pause: 1400 },
+  fast: { perChar: 15, pause: 700 },
+};
+const SKIP_INTERVAL_MS = 60;
+
+const SPEED_LABEL: Record<Speed, string> = { slow: "慢", normal: "中", fast: "快" };
+
+type Props = {
+  lines: ReaderLine[];
+  /** 用于记录已读进度的大纲 id（为空则不记录） */
+  outlineId: string | null;
+  startIndex?: number;
+  onClose: () => void;
+  /** 前进到新小节时调用（用于切换 CG） */
+  onSectionChange?: () => void;
+  onCgPrev?: () => void;
+  onCgNext?: () => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+export default function StoryReader({ lines, outlineId, startIndex = 0, onClose, onSectionChange, onCgPrev, onCgNext }: Props) {
+  const [index, setIndex] = useState(() => Math.min(Math.max(startIndex, 0), Math.max(lines.length - 1, 0)));
+  // 已显示字数（与台词序号绑定，切换台词时自然归零）
+  const [typed, setTyped] = useState<{ i: number; n: number }>({ i: -1, n: 0 });
+  const [auto, setAuto] = useState(false);
+  const [speed, setSpeed] = useState<Speed>("normal");
+  const [skip, setSkip] = useState(false);
+  const [showBacklog, setShowBacklog] = useState(false);
+  const [ended, setEnded] = useState(false);
+  const marksRef = useRef<ReadMarks>({});
+
+  const line = lines[index];
+  const shown = typed.i === index ? typed.n : 0;
+  const fullyShown = !!line && shown >= line.text.length;
+
+  useEffect(() => {
+    marksRef.current = outlineId ? loadReadMarks(outlineId) : {};
+  }, [outlineId]);
+
+  // 打字机效果：每次切换台词从头显示
+  useEffect(() => {
+    if (!line || fullyShown) return;
+    if (skip) {
+      setTyped({ i: index, n: line.text.length });
+      return;
+    }
+    const t = setTimeout(() => setTyped({ i: index, n: shown + 1 }), SPEED_MS[speed].perChar);
+    return () => clearTimeout(t);
+  }, [line, index, shown, fullyShown, speed, skip]);
+
+  // 显示完毕即记为已读
+  useEffect(() => {
+    if (!line || !fullyShown || !outlineId) return;
+    const marks = marksRef.current;
+    if ((marks[line.sectionKey] ?? -1) < line.idx) {
+      marks[line.sectionKey] = line.idx;
+      saveReadMarks(outlineId, marks);
+    }
+  }, [line, fullyShown, outlineId]);
+
+  const advance = useCallback(() => {
+    if (!line) return;
+    if (!fullyShown) {
+      setTyped({ i: index, n: line.text.length });
+      return;
+    }
+    if (index >= lines.length - 1) {
+      setEnded(true);
+      setAuto(false);
+      setSkip(false);
+      return;
+    }
+    const next = lines[index + 1];
+    if (next.sectionKey !== line.sectionKey) onSectionChange?.();
+    setIndex(index + 1);
+  }, [line, fullyShown, index, lines, onSectionChange]);
+
+  const back = useCallback(() => {
+    setEnded(false);
+    setIndex((i) => Math.max(0, i - 1));
+  }, []);
+
+  // 自动播放：整句显示完后停顿再前进
+  useEffect(() => {
+    if (!auto || skip || !fullyShown || ended || showBacklog) return;
+    const t = setTimeout(advance, SPEED_MS[speed].pause);
+    return () => clearTimeout(t);
+  }, [auto, skip, fullyShown, ended, showBacklog, speed, advance]);
+
+  // 跳过已读：遇到未读台词时自动停止
+  useEffect(() => {
+    if (!skip || ended || showBacklog || !line) return;
+    const next = lines[index + 1];
+    if (!next || !isLineRead(marksRef.current, next)) {
+      setSkip(false);
+      if (next) advance();
+      return;
+    }
+    const t = setTimeout(advance, SKIP_INTERVAL_MS);
+    return () => clearTimeout(t);
+  }, [skip, ended, showBacklog, line, lines, index, advance]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        if (showBacklog) setShowBacklog(false);
+        else onClose();
+        return;
+      }
+      if (showBacklog) return;
+      if (e.key === "ArrowRight" || e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        advance();
+      } else if (e.key === "ArrowLeft") {
+        e.preventDefault();
+        back();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [advance, back, onClose, showBacklog]);
+
+  const backlog = useMemo(() => lines.slice(0, index + 1), [lines, index]);
+  const backlogEndRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    if (showBacklog) backlogEndRef.current?.scrollIntoView({ block: "end" });
+  }, [showBacklog]);
+
+  const toolBtn = "h-10 px-4 rounded-[4px] border bg-white/85 text-[14px] active:scale-[0.98] transition-transform";
+
+  if (!line) {
+    return (
+      <div className="fixed inset-0 z-[40] flex items-center justify-center ui-visible">
+        <div className="rounded-[4px] border border-black/15 bg-white p-6">
+          <p className="text-[16px] leading-[24px]">暂无可阅读的小节，请先生成小节故事。</p>
+          <button type="button" onClick={onClose} className={cls(toolBtn, "mt-4 border-black/20")}>关闭</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[40] ui-visible no-select"
+      onClick={() => !showBacklog && advance()}
+      onWheel={(e) => {
+        if (e.deltaY < 0 && !showBacklog) setShowBacklog(true);
+      }}
+    >
+      {/* 顶部工具栏 */}
+      <div className="absolute top-4 left-4 right-4 flex flex-wrap items-center gap-2 pr-[200px]" onClick={(e) => e.stopPropagation()}>
+        <span className="h-10 px-4 inline-flex items-center rounded-[4px] border border-black/15 bg-white/85 text-[14px] font-medium max-w-[320px] truncate">
+          {line.sectionTitle || "小节"}
+        </span>
+        <button type="button" aria-pressed={auto} onClick={() => { setAuto((v) => !v); setSkip(false); }} className={cls(toolBtn, auto ? "border-black" : "border-black/20")}>
+          {auto ? "自动中" : "自动"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setSpeed((s) => (s === "slow" ? "normal" : s === "normal" ? "fast" : "slow"))}
+          className={cls(toolBtn, "border-black/20")}
+          title="切换文字与自动播放速度"
+        >
+          速度：{SPEED_LABEL[speed]}
+        </button>
+        <button type="button" aria-pressed={skip} onClick={() => { setSkip((v) => !v); setAuto(false); }} className={cls(toolBtn, skip ? "border-black" : "border-black/20")}>
+          {skip ? "跳过中" : "跳过已读"}
+        </button>
+        <button type="button" onClick={() => setShowBacklog(true)} className={cls(toolBtn, "border-black/20")}>
+          回想
+        </button>
+        {onCgPrev && <button type="button" onClick={onCgPrev} className={cls(toolBtn, "border-black/20")} aria-label="上一张 CG">◀ CG</button>}
+        {onCgNext && <button type="button" onClick={onCgNext} className={cls(toolBtn, "border-black/20")} aria-label="下一张 CG">CG ▶</button>}
+        <button type="button" onClick={onClose} className={cls(toolBtn, "border-black/20")}>
+          关闭
+        </button>
+      </div>
+
+      {/* 底部文本框 */}
+      <div className="absolute left-1/2 bottom-8 w-[92%] max-w-[1040px] -translate-x-1/2">
+        {line.kind === "dialogue" && line.speaker && (
+          <div className="inline-block mb-[-1px] px-4 py-1 rounded-t-[4px] border border-b-0 border-black/15 bg-white/90 text-[16px] font-semibold">
+            {line.speaker}
+          </div>
+        )}
+        <div className="min-h-[148px] rounded-[4px] border border-black/15 bg-white/85 backdrop-blur-[6px] px-6 py-5 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+          <p className="text-[18px] leading-[30px] whitespace-pre-wrap">{line.text.slice(0, shown)}</p>
+          <div className="mt-2 flex items-center justify-between text-[12px] leading-[16px] text-black/50">
+            <span>
+              {index + 1} / {lines.length}
+            </span>
+            {ended ? <span>已读到最新小节</span> : fullyShown && <span aria-hidden>▼</span>}
+          </div>
+        </div>
+      </div>
+
+      {/* 回想（backlog） */}
+      {showBacklog && (
+        <div className="absolute inset-0 z-[1] bg-white/80 backdrop-blur-[6px]" onClick={(e) => e.stopPropagation()}>
+          <div className="mx-auto max-w-[880px] h-full flex flex-col px-6 py-8">
+            <div className="flex items-center justify-between">
+              <h2 className="text-[22px] leading-[28px] font-semibold">回想</h2>
+              <button type="button" onClick={() => setShowBacklog(false)} className={cls(toolBtn, "border-black/20")}>
+                返回
+              </button>
+            </div>
+            <div className="mt-4 flex-1 overflow-y-auto space-y-3 pr-2">
+              {backlog.map((l, i) => (
+                <div key={l.id}>
+                  {(i === 0 || backlog[i - 1].sectionKey !== l.sectionKey) && (
+                    <p className="mt-4 mb-2 text-[13px] leading-[18px] font-semibold text-black/60">{l.sectionTitle || "小节"}</p>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIndex(i);
+                      setEnded(false);
+                      setShowBacklog(false);
+                    }}
+                    className="w-full text-left rounded-[4px] px-3 py-2 hover:bg-black/5 transition-colors"
+                    title="跳回这一句"
+                  >
+                    {l.speaker && <span className="mr-2 font-semibold">{l.speaker}</span>}
+                    <span className="text-[15px] leading-[24px] text-black/80">{l.text}</span>
+                  </button>
+                </div>
+              ))}
+              <div ref={backlogEndRef} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { sectionPosition } from "@/lib/storyMemory";
+import { tailText } from "@/lib/tokenBudget";
+import { activePath, childrenOf, pathTo, storyLeaves, type StoryNode, type StoryTree } from "@/lib/storyTree";
+
+/**
+ * 故事树：按分支展示各小节的所有版本
+ * - “切换到此分支”跳到该节点之下最近生成的结局；“从这里续写”把当前分支截到该节点，之后生成的小节成为新分支
+ * - 勾选两个结局并排对比：各自的抉择路径与结尾
+ */
+
+type Props = {
+  tree: StoryTree;
+  titleOf: (key: string) => string | undefined;
+  onSwitch: (nodeId: string) => void;
+  onBranchFrom: (nodeId: string) => void;
+  onClose: () => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+const EXCERPT_CHARS = 60;
+const ENDING_CHARS = 600;
+
+function excerpt(text: string): string {
+  const t = text.replace(/\s+/g, " ").trim();
+  return t.length > EXCERPT_CHARS ? `${t.slice(0, EXCERPT_CHARS)}…` : t;
+}
+
+export default function StoryTreePanel({ tree, titleOf, onSwitch, onBranchFrom, onClose }: Props) {
+  const [compare, setCompare] = useState<string[]>([]);
+
+  // Esc 关闭
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const active = useMemo(() => new Set(activePath(tree).map((n) => n.id)), [tree]);
+  const leaves = useMemo(() => storyLeaves(tree), [tree]);
+  const leafIds = useMemo(() => new Set(leaves.map((n) => n.id)), [leaves]);
+  const branchCount = leaves.length;
+
+  // 深度优先展开：同一父节点下多于一个版本时才缩进，线性部分保持平铺
+  const rows = useMemo(() => {
+    const out: Array<{ node: StoryNode; depth: number; siblings: number; index: number }> = [];
+    const walk = (parentId: string | null, depth: number) => {
+      const kids = childrenOf(tree, parentId);
+      kids.forEach((node, index) => {
+        const d = kids.length > 1 ? depth + 1 : depth;
+        out.push({ node, depth: d, siblings: kids.length, index });
+        walk(node.id, d);
+      });
+    };
+    walk(null, 0);
+    return out;
+  }, [tree]);
+
+  function toggleCompare(id: string) {
+    setCompare((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)));
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center ui-visible" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-white/70 backdrop-blur-[6px]" onClick={onClose} />
+
+      <div className="relative w-[94%] max-w-[1080px] max-h-[92vh] flex flex-col rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-[28px] leading-[36px] font-semibold tracking-tight">故事树</h2>
+            <p className="text-[13px] leading-[18px] text-black/60">
+              {Object.keys(tree.nodes).length} 个版本 · {branchCount} 条分支 · 勾选两个结局可并排对比
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="关闭"
+            className="h-10 px-4 rounded-[4px] border border-black/20 bg-white active:scale-[0.98] transition-transform"
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="mt-4 flex-1 min-h-0 overflow-auto">
+          {rows.length === 0 && <p className="text-[14px] leading-[20px] text-black/60">尚未生成任何小节。</p>}
+          <ul className="space-y-1">
+            {rows.map(({ node, depth, siblings, index }) => (
+              <li
+                key={node.id}
+                style={{ paddingLeft: depth * 20 }}
+                className={cls("border-l-[3px] pl-3", active.has(node.id) ? "border-black" : "border-black/10")}
+              >
+                <div className="flex flex-wrap items-center gap-2 py-1">
+                  <span className="text-[13px] leading-[18px] font-medium">
+                    {sectionPosition(node.key)} {titleOf(node.key) ?? ""}
+                  </span>
+                  {siblings > 1 && <span className="text-[12px] text-black/40">版本 {index + 1}/{siblings}</span>}
+                  {node.choice && <span className="text-[12px] text-black/60">抉择：{node.choice}</span>}
+                  <span className="text-[12px] text-black/40">{new Date(node.createdAt).toLocaleString()}</span>
+                  <div className="ms-auto flex items-center gap-2">
+                    {leafIds.has(node.id) && (
+                      <label className="flex items-center gap-1 text-[12px] text-black/60">
+                        <input type="checkbox" checked={compare.includes(node.id)} onChange={() => toggleCompare(node.id)} />
+                        对比
+                      </label>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => onSwitch(node.id)}
+                      disabled={active.has(node.id) && leafIds.has(node.id)}
+                      className="h-7 px-2 rounded-[4px] border border-black/20 hover:border-black text-[12px] transition-colors disabled:opacity-40"
+                    >
+                      切换到此分支
+                    </button>
+                    {!leafIds.has(node.id) && (
+                      <button
+                        type="button"
+                        onClick={() => onBranchFrom(node.id)}
+                        className="h-7 px-2 rounded-[4px] border border-black/20 hover:border-black text-[12px] transition-colors"
+                        title="当前分支截止到此节，之后生成的小节成为新分支（原分支保留）"
+                      >
+                        从这里续写
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <p className="pb-1 text-[12px] leading-[18px] text-black/50">{excerpt(node.text)}</p>
+              </li>
+            ))}
+          </ul>
+
+          {compare.length === 2 && (
+            <section className="mt-6 grid gap-4 sm:grid-cols-2">
+              {compare.map((id) => {
+                const path = pathTo(tree, id);
+                const end = path[path.length - 1];
+                return (
+                  <div key={id} className="rounded-[4px] border border-black/15 p-3">
+                    <h3 className="text-[14px] leading-[20px] font-semibold">
+                      结局：{end ? `${sectionPosition(end.key)} ${titleOf(end.key) ?? ""}` : ""}
+                    </h3>
+                    <ol className="mt-2 space-y-0.5 text-[12px] leading-[18px] text-black/60">
+                      {path
+                        .filter((n) => n.choice)
+                        .map((n) => (
+                          <li key={n.id}>
+                            {sectionPosition(n.key)}：{n.choice}
+                          </li>
+                        ))}
+                      {path.every((n) => !n.choice) && <li>（未经抉择）</li>}
+                    </ol>
+                    <p className="mt-2 text-[13px] leading-[20px] whitespace-pre-wrap">{end ? tailText(end.text, ENDING_CHARS) : ""}</p>
+                  </div>
+                );
+              })}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
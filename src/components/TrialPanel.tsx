@@ -0,0 +1,301 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { tallyVotes, type TrialAction, type TrialEntry, type TrialSession } from "@/lib/trial";
+
+/**
+ * 互动审判面板：玩家以主人公身份参与审判节
+ * - 辩论：点选一条发言并（可选）附上证据即为反驳；不选发言时出示证据或自由发言
+ * - 投票：随时可进入投票（模型认为讨论已充分时高亮提示）；投票后显示票数、处刑与描写
+ * - 完成后由外部把审判记录写为本节正文；关闭面板不丢失进度
+ */
+
+type Props = {
+  session: TrialSession;
+  protagonist: string;
+  evidence: string[];
+  /** 可投票的人物（仍存活的其他角色） */
+  candidates: string[];
+  busy: boolean;
+  error?: string | null;
+  onAction: (action: TrialAction) => void;
+  onEnterVote: () => void;
+  onVote: (target: string) => void;
+  onFinish: () => void;
+  onRestart: () => void;
+  onClose: () => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function EntryRow({ e, target, selected, onSelect }: { e: TrialEntry; target?: TrialEntry; selected: boolean; onSelect?: () => void }) {
+  if (e.role === "judge") {
+    return <li className="px-3 py-2 text-[13px] leading-[18px] text-black/50 italic">{e.text}</li>;
+  }
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onSelect}
+        disabled={!onSelect}
+        className={cls(
+          "w-full text-left px-3 py-2 rounded-[4px] border transition-colors",
+          e.role === "player" ? "border-black/10 bg-black/[0.03]" : "border-transparent",
+          onSelect && "hover:border-black/30",
+          selected && "border-black"
+        )}
+      >
+        <div className="flex items-center gap-2 text-[12px] leading-[16px] text-black/50">
+          <span className="font-medium text-black/80">{e.speaker}</span>
+          {target && <span className="truncate">反驳 {target.speaker}</span>}
+          {e.evidence && <span className="truncate">证据：{e.evidence}</span>}
+          {e.hit !== undefined && (
+            <span className={cls("ms-auto shrink-0 px-1.5 rounded-[2px] border", e.hit ? "border-black bg-black text-white" : "border-black/20")}>
+              {e.hit ? "击中要害" : "未能成立"}
+            </span>
+          )}
+        </div>
+        {e.text && <p className="mt-1 text-[14px] leading-[20px]">「{e.text}」</p>}
+      </button>
+    </li>
+  );
+}
+
+export default function TrialPanel({
+  session,
+  protagonist,
+  evidence,
+  candidates,
+  busy,
+  error,
+  onAction,
+  onEnterVote,
+  onVote,
+  onFinish,
+  onRestart,
+  onClose,
+}: Props) {
+  const [statementId, setStatementId] = useState<string | null>(null);
+  const [picked, setPicked] = useState("");
+  const [text, setText] = useState("");
+  const [vote, setVote] = useState("");
+  const listRef = useRef<HTMLOListElement | null>(null);
+
+  // Esc 关闭
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  // 新发言到达时滚动到底部
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [session.entries.length, session.phase]);
+
+  const byId = useMemo(() => new Map(session.entries.map((e) => [e.id, e])), [session.entries]);
+  const tally = useMemo(() => tallyVotes(session.votes), [session.votes]);
+  const debating = session.phase === "debate";
+
+  function submit() {
+    if (busy) return;
+    const action: TrialAction = statementId
+      ? { type: "rebut", statementId, evidence: picked, text }
+      : picked
+        ? { type: "present", evidence: picked, text }
+        : { type: "speak", text };
+    onAction(action);
+    setStatementId(null);
+    setPicked("");
+    setText("");
+  }
+
+  const canSubmit = !busy && !!(picked || text.trim());
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center ui-visible" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-white/70 backdrop-blur-[6px]" onClick={onClose} />
+
+      <div className="relative w-[94%] max-w-[1080px] h-[92vh] flex flex-col rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-[28px] leading-[36px] font-semibold tracking-tight truncate">互动审判 · {session.title}</h2>
+            <p className="text-[13px] leading-[18px] text-black/60">
+              你是{protagonist}
+              {debating ? " · 辩论中" : session.phase === "vote" ? " · 投票中" : " · 审判结束"}
+              {debating && session.ready ? " · 讨论已充分，可以投票" : ""}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onRestart}
+              disabled={busy}
+              className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors disabled:opacity-40"
+            >
+              重新开庭
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              aria-label="关闭"
+              className="h-10 px-4 rounded-[4px] border border-black/20 bg-white active:scale-[0.98] transition-transform"
+            >
+              关闭
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-4 flex-1 min-h-0 flex gap-4">
+          {/* 发言记录 */}
+          <ol ref={listRef} className="flex-1 min-w-0 overflow-auto space-y-1 rounded-[4px] border border-black/15 p-2">
+            {session.entries.map((e) => (
+              <EntryRow
+                key={e.id}
+                e={e}
+                target={e.target ? byId.get(e.target) : undefined}
+                selected={statementId === e.id}
+                onSelect={debating && e.role === "cast" ? () => setStatementId(statementId === e.id ? null : e.id) : undefined}
+              />
+            ))}
+            {session.entries.length === 0 && <li className="px-3 py-2 text-[13px] text-black/50">{busy ? "开庭中…" : "尚无发言"}</li>}
+            {session.phase === "verdict" && (
+              <li className="px-3 py-3 border-t border-black/10">
+                <p className="text-[13px] leading-[18px] text-black/70">
+                  {tally.counts.map((c) => `${c.name} ${c.votes} 票`).join(" · ")} · {session.executed ? `处刑 ${session.executed}` : "平票，无人被处刑"}
+                </p>
+                {session.narration && <p className="mt-2 text-[14px] leading-[22px] whitespace-pre-wrap">{session.narration}</p>}
+              </li>
+            )}
+          </ol>
+
+          {/* 证据 */}
+          <aside className="w-[260px] shrink-0 overflow-auto rounded-[4px] border border-black/15 p-3">
+            <h3 className="text-[14px] leading-[20px] font-semibold">证据</h3>
+            {evidence.length === 0 && <p className="mt-2 text-[12px] leading-[18px] text-black/50">尚无已记录的线索，可直接发言反驳。</p>}
+            <ul className="mt-2 space-y-1">
+              {evidence.map((ev) => (
+                <li key={ev}>
+                  <button
+                    type="button"
+                    onClick={() => setPicked(picked === ev ? "" : ev)}
+                    disabled={!debating}
+                    className={cls(
+                      "w-full text-left px-2 py-1.5 rounded-[4px] border text-[12px] leading-[18px] transition-colors",
+                      picked === ev ? "border-black bg-black text-white" : "border-black/15 hover:border-black/40"
+                    )}
+                  >
+                    {ev}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </aside>
+        </div>
+
+        {error && <p className="mt-2 text-[13px] leading-[18px] text-red-600">{error}</p>}
+
+        {debating && (
+          <div className="mt-3">
+            <p className="text-[12px] leading-[16px] text-black/50">
+              {statementId ? `反驳：${byId.get(statementId)?.speaker ?? ""}的发言` : "点选一条发言即可反驳；"}
+              {picked ? ` · 出示：${picked}` : " · 可在右侧选择证据"}
+            </p>
+            <div className="mt-1 flex gap-2">
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && (e.ctrlKey || e.metaKey) && canSubmit) submit();
+                }}
+                rows={2}
+                placeholder={statementId ? "指出这条发言的矛盾（Ctrl+Enter 发送）" : "发言或说明证据（Ctrl+Enter 发送）"}
+                className="flex-1 rounded-[4px] border border-black/20 px-3 py-2 text-[14px] leading-[20px] focus:outline-none focus:border-black resize-none"
+              />
+              <div className="flex flex-col gap-2">
+                <button
+                  type="button"
+                  onClick={submit}
+                  disabled={!canSubmit}
+                  className="h-10 px-5 rounded-[4px] border border-black bg-black text-white hover:opacity-90 transition-opacity disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  {busy ? "等待回应…" : statementId ? "反驳" : picked ? "出示证据" : "发言"}
+                </button>
+                <button
+                  type="button"
+                  onClick={onEnterVote}
+                  disabled={busy || session.entries.length === 0}
+                  className={cls(
+                    "h-10 px-4 rounded-[4px] border transition-colors disabled:opacity-40 disabled:pointer-events-none",
+                    session.ready ? "border-black" : "border-black/20 hover:border-black"
+                  )}
+                >
+                  进入投票
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {session.phase === "vote" && (
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-[14px] leading-[20px]">投票指认：</span>
+            {candidates.map((c) => (
+              <button
+                key={c}
+                type="button"
+                onClick={() => setVote(c)}
+                disabled={busy}
+                className={cls(
+                  "h-9 px-3 rounded-[4px] border text-[14px] transition-colors",
+                  vote === c ? "border-black bg-black text-white" : "border-black/20 hover:border-black"
+                )}
+              >
+                {c}
+              </button>
+            ))}
+            <div className="ms-auto" />
+            <button
+              type="button"
+              onClick={() => vote && onVote(vote)}
+              disabled={busy || !vote}
+              className="h-10 px-5 rounded-[4px] border border-black bg-black text-white hover:opacity-90 transition-opacity disabled:opacity-40 disabled:pointer-events-none"
+            >
+              {busy ? "开票中…" : "投票"}
+            </button>
+          </div>
+        )}
+
+        {session.phase === "verdict" && (
+          <div className="mt-3 flex items-center gap-3">
+            <p className={cls("flex-1 text-[13px] leading-[18px]", session.recounted ? "text-red-600" : "text-black/60")}>
+              {session.recounted
+                ? "处刑描写与计票结果不符，无法写入本节；请重新投票。"
+                : "审判记录将写为本节正文，投票与处刑计入局势，并作为审判结果交给下一节。"}
+            </p>
+            <button
+              type="button"
+              onClick={onEnterVote}
+              disabled={busy}
+              className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors disabled:opacity-40"
+            >
+              重新投票
+            </button>
+            <button
+              type="button"
+              onClick={onFinish}
+              disabled={busy || !!session.recounted}
+              className="h-10 px-5 rounded-[4px] border border-black bg-black text-white hover:opacity-90 transition-opacity disabled:opacity-40 disabled:pointer-events-none"
+            >
+              {session.finished ? "重新写入本节" : "写入本节"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import {
+  createWorldBookFile,
+  deleteWorldBookFile,
+  fetchWorldBookTree,
+  moveWorldBookFile,
+  saveWorldBookFile,
+  type WorldBookNode,
+} from "@/lib/worldBookClient";
+import { WORLD_STAGES, parseWorldBookFile } from "@/lib/worldRetrieval";
+
+/**
+ * 世界书编辑器（需开发服务器）
+ * - 左侧为当前世界包的世界书目录树，右侧为 Markdown 编辑与预览
+ * - 支持新建、保存、重命名/移动（修改路径）与删除；写入后下一次生成即生效
+ * - 预览上方解析 front matter（关键词 / 优先级 / 常驻 / 阶段），便于核对检索行为
+ * - UI 规范：黑白极简、圆角不超过 4px、玻璃态遮罩，与存档面板一致
+ */
+
+type Props = {
+  /** 世界包 id；空串为默认世界包 */
+  packId: string;
+  onClose: () => void;
+};
+
+function cls(...xs: Array<string | false | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function findFile(node: WorldBookNode, path: string): WorldBookNode | null {
+  if (node.type === "file") return node.path === path ? node : null;
+  for (const ch of node.children ?? []) {
+    const hit = findFile(ch, path);
+    if (hit) return hit;
+  }
+  return null;
+}
+
+// ---- 简易 Markdown 预览（标题、列表、分隔线、段落与 **粗体**） ----
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(/(\*\*[^*]+\*\*)/g).map((part, i) =>
+    /^\*\*[^*]+\*\*$/.test(part) ? <strong key={i}>{part.slice(2, -2)}</strong> : part
+  );
+}
+
+function MarkdownPreview({ text }: { text: string }) {
+  const blocks: ReactNode[] = [];
+  let para: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  const flush = () => {
+    if (para.length > 0) {
+      blocks.push(
+        <p key={blocks.length} className="mt-3 whitespace-pre-wrap">
+          {renderInline(para.join("\n"))}
+        </p>
+      );
+      para = [];
+    }
+    if (list) {
+      const items = list.items.map((it, i) => <li key={i}>{renderInline(it)}</li>);
+      blocks.push(
+        list.ordered ? (
+          <ol key={blocks.length} className="mt-3 list-decimal pl-6">{items}</ol>
+        ) : (
+          <ul key={blocks.length} className="mt-3 list-disc pl-6">{items}</ul>
+        )
+      );
+      list = null;
+    }
+  };
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const ordered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (heading) {
+      flush();
+      const size = heading[1].length <= 2 ? "text-[20px] leading-[28px]" : "text-[16px] leading-[24px]";
+      blocks.push(
+        <p key={blocks.length} className={cls("mt-4 font-semibold", size)}>
+          {renderInline(heading[2])}
+        </p>
+      );
+    } else if (/^\s*(?:-{3,}|\*{3,})\s*$/.test(line)) {
+      flush();
+      blocks.push(<hr key={blocks.length} className="mt-4 border-black/15" />);
+    } else if (bullet || ordered) {
+      if (para.length > 0 || (list && list.ordered !== !!ordered)) flush();
+      if (!list) list = { ordered: !!ordered, items: [] };
+      list.items.push((bullet ?? ordered)![1]);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      if (list) flush();
+      para.push(line);
+    }
+  }
+  flush();
+  return <div className="text-[14px] leading-[22px] text-black/80">{blocks}</div>;
+}
+
+function TreeView({
+  node,
+  selected,
+  onSelect,
+  depth = 0,
+}: {
+  node: WorldBookNode;
+  selected: string | null;
+  onSelect: (path: string) => void;
+  depth?: number;
+}) {
+  if (node.type === "file") {
+    return (
+      <li>
+        <button
+          type="button"
+          onClick={() => onSelect(node.path)}
+          className={cls(
+            "w-full text-left truncate rounded-[4px] px-2 py-1 text-[13px] leading-[20px] transition-colors",
+            selected === node.path ? "bg-black text-white" : "hover:bg-black/5"
+          )}
+          style={{ paddingLeft: 8 + depth * 12 }}
+          title={node.path}
+        >
+          {node.name}
+        </button>
+      </li>
+    );
+  }
+  return (
+    <li>
+      {depth > 0 && (
+        <p className="px-2 py-1 text-[12px] leading-[18px] font-medium text-black/60" style={{ paddingLeft: 8 + (depth - 1) * 12 }}>
+          {node.name}/
+        </p>
+      )}
+      <ul>
+        {(node.children ?? []).map((ch) => (
+          <TreeView key={ch.path} node={ch} selected={selected} onSelect={onSelect} depth={depth + 1} />
+        ))}
+      </ul>
+    </li>
+  );
+}
+
+export default function WorldBookEditor({ packId, onClose }: Props) {
+  const [tree, setTree] = useState<WorldBookNode | null>(null);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [saved, setSaved] = useState("");
+  const [pathDraft, setPathDraft] = useState("");
+  const [newFolder, setNewFolder] = useState("");
+  const [newName, setNewName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const dirty = selected !== null && draft !== saved;
+
+  const reload = useCallback(async (select?: string | null) => {
+    try {
+      const res = await fetchWorldBookTree(packId);
+      setTree(res.tree);
+      setFolders(res.folders);
+      setNewFolder((f) => f || res.folders[0] || "");
+      if (select !== undefined) {
+        const file = select ? findFile(res.tree, select) : null;
+        setSelected(file ? file.path : null);
+        setDraft(file?.content ?? "");
+        setSaved(file?.content ?? "");
+        setPathDraft(file?.path ?? "");
+      }
+    } catch (e: unknown) {
+      setMessage(`读取世界书失败（需在开发服务器下使用）：${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [packId]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const requestClose = useCallback(() => {
+    if (dirty && !confirm("当前文件有未保存的修改，确定关闭？")) return;
+    onClose();
+  }, [dirty, onClose]);
+
+  // Esc 关闭
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") requestClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [requestClose]);
+
+  const parsed = useMemo(() => (selected ? parseWorldBookFile(selected, draft) : null), [selected, draft]);
+  const hasFrontMatter = !!parsed && parsed.entry.content !== draft;
+
+  function select(path: string) {
+    if (path === selected) return;
+    if (dirty && !confirm("当前文件有未保存的修改，确定切换？")) return;
+    const file = tree ? findFile(tree, path) : null;
+    setSelected(path);
+    setDraft(file?.content ?? "");
+    setSaved(file?.content ?? "");
+    setPathDraft(path);
+    setMessage(null);
+  }
+
+  async function run(action: () => Promise<{ ok: boolean; path?: string; message?: string }>, done: string, next?: string | null) {
+    setBusy(true);
+    try {
+      const res = await action();
+      if (!res.ok) {
+        setMessage(`操作失败：${res.message ?? "未知错误"}`);
+        return;
+      }
+      setMessage(done);
+      await reload(next === undefined ? res.path ?? null : next);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function create() {
+    const name = newName.trim();
+    if (!newFolder || !name) return;
+    const fileName = name.endsWith(".md") ? name : `${name}.md`;
+    if (dirty && !confirm("当前文件有未保存的修改，确定新建并切换？")) return;
+    void run(() => createWorldBookFile(packId, `${newFolder}/${fileName}`, ""), `已新建 ${newFolder}/${fileName}`).then(() =>
+      setNewName("")
+    );
+  }
+
+  function save() {
+    if (!selected) return;
+    void run(() => saveWorldBookFile(packId, selected, draft), `已保存 ${selected}`);
+  }
+
+  function move() {
+    if (!selected) return;
+    const target = pathDraft.trim();
+    if (!target || target === selected) return;
+    if (dirty && !confirm("移动前不会保存当前修改，确定继续？")) return;
+    void run(() => moveWorldBookFile(packId, selected, target), `已移动到 ${target}`);
+  }
+
+  function remove() {
+    if (!selected || !confirm(`删除 ${selected}？此操作不可撤销。`)) return;
+    void run(() => deleteWorldBookFile(packId, selected), `已删除 ${selected}`, null);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center ui-visible" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-white/70 backdrop-blur-[6px]" onClick={requestClose} />
+
+      <div className="relative flex flex-col w-[96%] max-w-[1280px] h-[90vh] rounded-[4px] border border-black/15 bg-white text-black p-6 shadow-[0_10px_28px_rgba(0,0,0,0.12)]">
+        <div className="flex items-center justify-between">
+          <h2 className="text-[28px] leading-[36px] font-semibold tracking-tight">世界书</h2>
+          <button
+            type="button"
+            onClick={requestClose}
+            aria-label="关闭"
+            className="h-10 px-4 rounded-[4px] border border-black/20 bg-white active:scale-[0.98] transition-transform"
+          >
+            关闭
+          </button>
+        </div>
+        <p className="mt-1 text-[12px] leading-[16px] text-black/60">
+          直接编辑当前世界包世界书目录下的 Markdown；保存后下一次生成即使用新内容。文件开头可用 front matter 声明 keywords / priority / constant / stages。
+        </p>
+        {message && <p className="mt-2 text-[14px] leading-[20px] text-black/70">{message}</p>}
+
+        <div className="mt-4 flex-1 min-h-0 grid gap-4 grid-cols-[260px_1fr]">
+          {/* 目录树与新建 */}
+          <div className="flex flex-col min-h-0 rounded-[4px] border border-black/15">
+            <ul className="flex-1 overflow-y-auto p-2">
+              {tree ? (
+                <TreeView node={tree} selected={selected} onSelect={select} />
+              ) : (
+                <li className="px-2 py-1 text-[13px] text-black/40">加载中…</li>
+              )}
+            </ul>
+            <div className="border-t border-black/10 p-2 space-y-2">
+              <select
+                value={newFolder}
+                onChange={(e) => setNewFolder(e.target.value)}
+                className="w-full h-9 rounded-[4px] border border-black/15 px-2 text-[13px] outline-none focus:border-black transition-colors"
+                aria-label="新建到分类"
+              >
+                {folders.map((f) => (
+                  <option key={f} value={f}>
+                    {f}
+                  </option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && create()}
+                  placeholder="新文件名"
+                  className="min-w-0 flex-1 h-9 rounded-[4px] border border-black/15 px-2 text-[13px] outline-none focus:border-black transition-colors"
+                />
+                <button
+                  type="button"
+                  onClick={create}
+                  disabled={busy || !newName.trim() || !newFolder}
+                  className="h-9 px-3 rounded-[4px] border border-black/20 text-[13px] hover:border-black transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  新建
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* 编辑与预览 */}
+          {selected ? (
+            <div className="flex flex-col min-h-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  value={pathDraft}
+                  onChange={(e) => setPathDraft(e.target.value)}
+                  className="min-w-[240px] flex-1 h-10 rounded-[4px] border border-black/15 px-3 text-[14px] outline-none focus:border-black transition-colors"
+                  aria-label="文件路径"
+                  title="修改路径后点“重命名/移动”"
+                />
+                <button
+                  type="button"
+                  onClick={move}
+                  disabled={busy || !pathDraft.trim() || pathDraft.trim() === selected}
+                  className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  重命名/移动
+                </button>
+                <button
+                  type="button"
+                  onClick={remove}
+                  disabled={busy}
+                  className="h-10 px-4 rounded-[4px] border border-black/20 hover:border-black transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  删除
+                </button>
+                <button
+                  type="button"
+                  onClick={save}
+                  disabled={busy || !dirty}
+                  className="h-10 px-5 rounded-[4px] bg-black text-white active:scale-[0.98] transition-transform disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  {dirty ? "保存" : "已保存"}
+                </button>
+              </div>
+
+              <div className="mt-3 flex-1 min-h-0 grid gap-4 grid-cols-2">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if ((e.ctrlKey || e.metaKey) && e.key === "s") {
+                      e.preventDefault();
+                      if (dirty && !busy) save();
+                    }
+                  }}
+                  spellCheck={false}
+                  className="h-full resize-none rounded-[4px] border border-black/15 p-3 font-mono text-[13px] leading-[20px] outline-none focus:border-black transition-colors"
+                  aria-label="Markdown 内容"
+                />
+                <div className="h-full overflow-y-auto rounded-[4px] border border-black/10 p-4">
+                  {parsed && hasFrontMatter && (
+                    <div className="rounded-[4px] bg-black/[0.03] p-3 text-[12px] leading-[18px] text-black/70">
+                      <p>关键词：{parsed.entry.meta.keywords.length > 0 ? parsed.entry.meta.keywords.join("、") : "无（按检索相关度收录）"}</p>
+                      <p>
+                        优先级：{parsed.entry.meta.priority}
+                        {parsed.entry.meta.constant ? " · 常驻" : ""}
+                      </p>
+                      <p>
+                        阶段：
+                        {WORLD_STAGES.filter((s) => parsed.entry.meta.stages.includes(s.id))
+                          .map((s) => s.label)
+                          .join("、")}
+                      </p>
+                      {parsed.errors.map((err, i) => (
+                        <p key={i} className="text-red-600">
+                          {err}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <MarkdownPreview text={parsed ? parsed.entry.content : draft} />
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center rounded-[4px] border border-dashed border-black/15 text-[14px] text-black/40">
+              从左侧选择一个文件，或新建文件
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,17 @@
 "use client";
 
+import { resolveStageProfile, type ApiStage } from "@/lib/apiProfiles";
+import {
+  getProviderAdapter,
+  normalizeProvider,
+  parseProviderStreamLine,
+  type AIProvider,
+  type ChatMessage,
+  type ProviderAdapter,
+} from "@/lib/providers";
+
 export type LocalAIConfig = {
+  provider: AIProvider;
   apiKey: string;
   baseURL: string; // e.g. https://openrouter.ai/api/v1/chat/completions
   model: string;
@@ -15,6 +26,8 @@ export type ChatResult = {
   raw?: unknown;
   status?: number;
   message?: string;
+  /** 流式生成被手动中止（text 为已收到的部分） */
+  aborted?: boolean;
 };
 
 function readLocalConfig(): Partial<LocalAIConfig> {
@@ -22,6 +35,7 @@ function readLocalConfig(): Partial<LocalAIConfig> {
     const raw = localStorage.getItem("manosaba_ai.api_config");
     const cfg = raw ? JSON.parse(raw) : {};
     return {
+      provider: normalizeProvider(cfg?.AI_PROVIDER),
       apiKey: cfg?.AI_API_KEY,
       baseURL: cfg?.AI_BASE_URL,
       model: cfg?.AI_MODEL_ID,
@@ -31,14 +45,26 @@ function readLocalConfig(): Partial<LocalAIConfig> {
   }
 }
 
-function ensureConfig(overrides?: Partial<LocalAIConfig>): LocalAIConfig {
-  const cfg = { ...readLocalConfig(), ...(overrides || {}) };
+function readStageConfig(stage?: ApiStage): Partial<LocalAIConfig> {
+  if (!stage) return {};
+  try {
+    const p = resolveStageProfile(stage);
+    return p ? { provider: p.provider, apiKey: p.apiKey, baseURL: p.baseURL, model: p.model } : {};
+  } catch {
+    return {};
+  }
+}
+
+function ensureConfig(overrides?: Partial<LocalAIConfig>, stage?: ApiStage): LocalAIConfig {
+  const cfg = { ...readLocalConfig(), ...readStageConfig(stage), ...(overrides || {}) };
+  const provider = normalizeProvider(cfg.provider);
+  const adapter = getProviderAdapter(provider);
   const apiKey = (cfg.apiKey || "").trim();
   const baseURL = (cfg.baseURL || "").trim();
   const model = (cfg.model || "").trim();
 
   const missing: string[] = [];
-  if (!apiKey) missing.push("AI_API_KEY");
+  if (!apiKey && adapter.requiresApiKey) missing.push("AI_API_KEY");
   if (!baseURL) missing.push("AI_BASE_URL");
   if (!model) missing.push("AI_MODEL_ID");
 
@@ -50,68 +76,126 @@ function ensureConfig(overrides?: Partial<LocalAIConfig>): LocalAIConfig {
     const u = new URL(baseURL);
     if (!u.protocol.startsWith("http")) throw new Error("invalid");
   } catch {
-    throw new Error("AI_BASE_URL 非法，请填写完整的 chat/completions 接口 URL，例如：https://openrouter.ai/api/v1/chat/completions");
+    throw new Error(`AI_BASE_URL 非法，请填写完整的接口 URL，例如：${adapter.baseURLExample}`);
   }
-  return { apiKey, baseURL, model };
+  return { provider, apiKey, baseURL, model };
 }
 
-/**
- * 直接在浏览器中调用 chat/completions
- * - 依赖跨域（CORS）放行；推荐使用允许浏览器直连的供应商（如 OpenRouter）
- * - 从 localStorage 读取 API Key/Base URL/Model ID
- */
-export async function postChatCompletionsFromLocalConfig(
+type ChatOptions = {
+  temperature?: number;
+  maxTokens?: number;
+  modelId?: string;
+  overrides?: Partial<LocalAIConfig>; // 手动覆盖配置（调试用）
+  /** 生成阶段：按 API 档案的分阶段路由选择档案与模型 */
+  stage?: ApiStage;
+  signal?: AbortSignal;
+  /** 置于本次提示词之前的对话历史（如续写时的原提示词与已输出部分） */
+  history?: ChatMessage[];
+};
+
+async function sendChatRequest(
+  adapter: ProviderAdapter,
+  cfg: LocalAIConfig,
   prompt: string,
-  opts?: {
-    temperature?: number;
-    maxTokens?: number;
-    modelId?: string;
-    overrides?: Partial<LocalAIConfig>; // 手动覆盖配置（调试用）
-    signal?: AbortSignal;
-  }
-): Promise<ChatResult> {
-  const { temperature, maxTokens, modelId, overrides, signal } = opts || {};
-  const cfg = ensureConfig(overrides);
-  const model = (modelId || cfg.model).trim();
-
-  const payload: {
-    model: string;
-    messages: Array<{ role: string; content: string }>;
-    temperature: number;
-    max_tokens?: number;
-    stream: boolean;
-  } = {
+  model: string,
+  opts: ChatOptions,
+  stream: boolean
+): Promise<{ resp: Response } | { error: ChatResult }> {
+  const { temperature, maxTokens, signal, history } = opts;
+  const request = adapter.buildRequest({
+    baseURL: cfg.baseURL,
+    apiKey: cfg.apiKey,
     model,
     messages: [
+      ...(history ?? []),
       {
         role: "user",
         content: prompt,
       },
     ],
     temperature: typeof temperature === "number" ? temperature : 1.0,
-    max_tokens: typeof maxTokens === "number" ? maxTokens : undefined,
-    stream: false,
-  };
-
-  let resp: Response | null = null;
+    maxTokens: typeof maxTokens === "number" ? maxTokens : undefined,
+    stream,
+  });
   try {
-    resp = await fetch(cfg.baseURL, {
+    const resp = await fetch(request.url, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${cfg.apiKey}`,
-      },
-      body: JSON.stringify(payload),
+      headers: request.headers,
+      body: request.body,
       signal,
     });
+    return { resp };
   } catch (e: unknown) {
     // 典型为 CORS 或网络错误
     const msg =
       e instanceof Error
         ? e.message
         : "网络错误或浏览器被跨域策略阻止（CORS）。请确认供应商支持浏览器直连。";
-    return { ok: false, text: "", status: 0, message: msg };
+    return { error: { ok: false, text: "", status: 0, message: msg } };
   }
+}
+
+export type ChatRequestPreview = {
+  provider: AIProvider;
+  model: string;
+  url: string;
+  /** 将要发送的请求体（格式化 JSON，不含请求头，API Key 不会出现在这里） */
+  body: string;
+};
+
+/**
+ * 预览将要发送的请求（不发送）：与 postChatCompletionsFromLocalConfig 使用同一套配置解析与请求构造。
+ * 配置缺失时抛出与发送时相同的错误。
+ */
+export function previewChatRequest(prompt: string, opts?: ChatOptions, stream = false): ChatRequestPreview {
+  const options = opts || {};
+  const cfg = ensureConfig(options.overrides, options.stage);
+  const adapter = getProviderAdapter(cfg.provider);
+  const model = (options.modelId || cfg.model).trim();
+  const request = adapter.buildRequest({
+    baseURL: cfg.baseURL,
+    apiKey: cfg.apiKey,
+    model,
+    messages: [...(options.history ?? []), { role: "user", content: prompt }],
+    temperature: typeof options.temperature === "number" ? options.temperature : 1.0,
+    maxTokens: typeof options.maxTokens === "number" ? options.maxTokens : undefined,
+    stream,
+  });
+  let body = request.body;
+  try {
+    body = JSON.stringify(JSON.parse(request.body), null, 2);
+  } catch {
+    // 非 JSON 请求体原样展示
+  }
+  return { provider: cfg.provider, model, url: request.url, body };
+}
+
+/** 某阶段实际使用的模型 ID（按档案路由解析）；配置缺失时返回空串 */
+export function resolveStageModel(stage?: ApiStage): string {
+  try {
+    return ensureConfig(undefined, stage).model.trim();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * 直接在浏览器中调用所配置供应商的对话接口
+ * - 依赖跨域（CORS）放行；推荐使用允许浏览器直连的供应商（如 OpenRouter）
+ * - 从 localStorage 读取 Provider/API Key/Base URL/Model ID；指定 stage 时按档案路由覆盖
+ */
+export async function postChatCompletionsFromLocalConfig(
+  prompt: string,
+  opts?: ChatOptions
+): Promise<ChatResult> {
+  const options = opts || {};
+  const cfg = ensureConfig(options.overrides, options.stage);
+  const adapter = getProviderAdapter(cfg.provider);
+  const model = (options.modelId || cfg.model).trim();
+
+  const sent = await sendChatRequest(adapter, cfg, prompt, model, options, false);
+  if ("error" in sent) return sent.error;
+  const resp = sent.resp;
 
   const status = resp.status;
   const rawText = await resp.clone().text();
@@ -139,23 +223,166 @@ export async function postChatCompletionsFromLocalConfig(
     };
   }
 
-  // 兼容 OpenAI/OpenRouter 风格
-  const choices = data.choices as Array<Record<string, unknown>> | undefined;
-  const choice = choices?.[0];
-  const message = choice?.message as Record<string, unknown> | undefined;
-  const text: string =
-    (message?.content as string) ??
-    (choice?.text as string) ??
-    (data.output_text as string) ??
-    "";
-
+  const { text, finishReason, usage } = adapter.parseResponse(data);
   return {
     ok: true,
     text,
     model,
-    finishReason: choice?.finish_reason as string | undefined,
-    usage: data.usage,
+    finishReason,
+    usage,
     raw: data,
     status,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * 流式调用对话接口（stream: true），逐块回调增量文本
+ * - 按供应商解析 SSE "data:" 分块或 Ollama 的逐行 JSON
+ * - 通过 signal 中止时不视为失败：返回 aborted=true 与已收到的部分文本
+ * - 若服务端未按流式返回（例如忽略了 stream 参数），则按普通 JSON 响应解析
+ */
+export async function streamChatCompletionsFromLocalConfig(
+  prompt: string,
+  opts?: ChatOptions & {
+    onDelta?: (delta: string, fullText: string) => void;
+  }
+): Promise<ChatResult> {
+  const options = opts || {};
+  const { onDelta, signal } = options;
+  const cfg = ensureConfig(options.overrides, options.stage);
+  const adapter = getProviderAdapter(cfg.provider);
+  const model = (options.modelId || cfg.model).trim();
+
+  const sent = await sendChatRequest(adapter, cfg, prompt, model, options, true);
+  if ("error" in sent) {
+    if (signal?.aborted) return { ok: true, text: "", model, aborted: true, finishReason: "abort" };
+    return sent.error;
+  }
+  const resp = sent.resp;
+  const status = resp.status;
+
+  if (!resp.ok) {
+    const rawText = await resp.text().catch(() => "");
+    return {
+      ok: false,
+      text: "",
+      status,
+      message: rawText || `LLM API 调用失败，HTTP ${status}`,
+      raw: rawText,
+    };
+  }
+
+  const contentType = resp.headers.get("content-type") || "";
+  if (!resp.body || (adapter.streamFormat === "sse" && contentType.includes("application/json"))) {
+    const rawText = await resp.text();
+    let text = rawText;
+    let finishReason: string | undefined;
+    let usage: unknown;
+    try {
+      ({ text, finishReason, usage } = adapter.parseResponse(JSON.parse(rawText) as Record<string, unknown>));
+    } catch {
+      // 纯文本
+    }
+    if (text) onDelta?.(text, text);
+    return { ok: true, text, model, finishReason, usage, status };
+  }
+
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let fullText = "";
+  let finishReason: string | undefined;
+  let usage: unknown;
+  let done = false;
+
+  const consume = (line: string) => {
+    const parsed = parseProviderStreamLine(adapter, line);
+    if (!parsed) return;
+    if (parsed.finishReason) finishReason = parsed.finishReason;
+    if (parsed.usage) usage = parsed.usage;
+    if (parsed.delta) {
+      fullText += parsed.delta;
+      onDelta?.(parsed.delta, fullText);
+    }
+    if (parsed.done) done = true;
+  };
+
+  try {
+    while (!done) {
+      const { value, done: streamDone } = await reader.read();
+      if (streamDone) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        consume(line);
+        if (done) break;
+      }
+    }
+    // 冲刷解码器中残留的半个多字节字符
+    buffer += decoder.decode();
+    if (!done && buffer) consume(buffer);
+  } catch (e: unknown) {
+    if (signal?.aborted) {
+      return { ok: true, text: fullText, model, aborted: true, finishReason: "abort", usage, status };
+    }
+    return {
+      ok: false,
+      text: fullText,
+      status,
+      message: e instanceof Error ? e.message : "流式读取中断",
+    };
+  } finally {
+    try { reader.releaseLock(); } catch {}
+  }
+
+  return { ok: true, text: fullText, model, finishReason, usage, status };
+}
+
+export type EmbedResult = {
+  ok: boolean;
+  vectors: number[][];
+  status?: number;
+  message?: string;
+};
+
+/**
+ * 通过所配置供应商的向量化接口计算文本向量（用于世界书语义检索）
+ * - model 为向量模型 ID（与对话模型不同）；供应商不支持向量化时返回 ok=false
+ */
+export async function embedTextsFromLocalConfig(
+  texts: string[],
+  opts: { model: string; overrides?: Partial<LocalAIConfig>; signal?: AbortSignal }
+): Promise<EmbedResult> {
+  const cfg = ensureConfig(opts.overrides);
+  const adapter = getProviderAdapter(cfg.provider);
+  if (!adapter.buildEmbeddingRequest || !adapter.parseEmbeddingResponse) {
+    return { ok: false, vectors: [], message: `${adapter.label} 不支持向量化接口` };
+  }
+  if (texts.length === 0) return { ok: true, vectors: [] };
+  const request = adapter.buildEmbeddingRequest({
+    baseURL: cfg.baseURL,
+    apiKey: cfg.apiKey,
+    model: opts.model.trim(),
+    texts,
+  });
+  try {
+    const resp = await fetch(request.url, {
+      method: "POST",
+      headers: request.headers,
+      body: request.body,
+      signal: opts.signal,
+    });
+    const rawText = await resp.text();
+    if (!resp.ok) {
+      return { ok: false, vectors: [], status: resp.status, message: rawText || `向量化接口调用失败，HTTP ${resp.status}` };
+    }
+    const vectors = adapter.parseEmbeddingResponse(JSON.parse(rawText) as Record<string, unknown>);
+    if (vectors.length !== texts.length || vectors.some((v) => v.length === 0)) {
+      return { ok: false, vectors: [], status: resp.status, message: "向量化响应条数与输入不一致" };
+    }
+    return { ok: true, vectors, status: resp.status };
+  } catch (e: unknown) {
+    return { ok: false, vectors: [], status: 0, message: e instanceof Error ? e.message : "向量化请求失败" };
+  }
+}
@@ -0,0 +1,155 @@
+import { normalizeProvider, type AIProvider } from "@/lib/providers";
+
+/**
+ * 浏览器端（localStorage）的 API 配置档案与分阶段路由。
+ * - 可保存多个命名档案（供应商 / Key / Base URL / 模型），其中一个为“默认档案”
+ * - 每个生成阶段可指定使用哪个档案，并可单独覆盖模型 ID
+ * - 默认档案会同步写入旧键 manosaba_ai.api_config，保持兼容
+ * 注意：需在“use client”组件里调用这些方法，服务端渲染阶段没有 window。
+ */
+
+export type ApiProfile = {
+  id: string;
+  name: string;
+  provider: AIProvider;
+  apiKey: string;
+  baseURL: string;
+  model: string;
+};
+
+/** 生成阶段：人物补全（completeRole）/ 大纲（runWorkflow）/ 小节故事（generateSectionStory）/ 剧情记忆与状态（小节摘要、故事状态提取）/ 连贯性审校 / 互动审判 / 分支抉择 */
+export type ApiStage = "completion" | "outline" | "section" | "memory" | "review" | "trial" | "choice";
+
+export const API_STAGES: Array<{ id: ApiStage; label: string }> = [
+  { id: "completion", label: "人物补全" },
+  { id: "outline", label: "故事大纲" },
+  { id: "section", label: "小节故事" },
+  { id: "memory", label: "记忆与状态" },
+  { id: "review", label: "连贯性审校" },
+  { id: "trial", label: "互动审判" },
+  { id: "choice", label: "分支抉择" },
+];
+
+export type StageRoute = {
+  /** 为空时使用默认档案 */
+  profileId?: string;
+  /** 为空时使用档案自身的模型 */
+  modelId?: string;
+};
+
+export type ApiProfilesState = {
+  profiles: ApiProfile[];
+  defaultId: string;
+  routes: Partial<Record<ApiStage, StageRoute>>;
+};
+
+export const API_PROFILES_KEY = "manosaba_ai.api_profiles";
+export const API_CONFIG_KEY = "manosaba_ai.api_config";
+
+export function newProfileId(): string {
+  return `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createProfile(name: string, from?: Partial<ApiProfile>): ApiProfile {
+  return {
+    id: newProfileId(),
+    name,
+    provider: normalizeProvider(from?.provider),
+    apiKey: from?.apiKey ?? "",
+    baseURL: from?.baseURL ?? "",
+    model: from?.model ?? "",
+  };
+}
+
+function readLegacyConfig(): Partial<ApiProfile> | null {
+  try {
+    const raw = window.localStorage.getItem(API_CONFIG_KEY);
+    if (!raw) return null;
+    const cfg = JSON.parse(raw);
+    return {
+      provider: normalizeProvider(cfg?.AI_PROVIDER),
+      apiKey: cfg?.AI_API_KEY ?? "",
+      baseURL: cfg?.AI_BASE_URL ?? "",
+      model: cfg?.AI_MODEL_ID ?? "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+function sanitizeProfile(p: unknown): ApiProfile | null {
+  if (!p || typeof p !== "object") return null;
+  const o = p as Record<string, unknown>;
+  if (typeof o.id !== "string" || !o.id) return null;
+  const str = (v: unknown) => (typeof v === "string" ? v : "");
+  return {
+    id: o.id,
+    name: str(o.name) || "未命名",
+    provider: normalizeProvider(o.provider),
+    apiKey: str(o.apiKey),
+    baseURL: str(o.baseURL),
+    model: str(o.model),
+  };
+}
+
+/**
+ * 读取档案列表；若尚未创建过档案，则从旧的单一配置迁移出一个“默认”档案。
+ */
+export function loadApiProfiles(): ApiProfilesState {
+  const empty: ApiProfilesState = { profiles: [], defaultId: "", routes: {} };
+  if (typeof window === "undefined") return empty;
+  try {
+    const s = window.localStorage.getItem(API_PROFILES_KEY);
+    if (s) {
+      const j = JSON.parse(s);
+      const profiles = (Array.isArray(j?.profiles) ? j.profiles : [])
+        .map(sanitizeProfile)
+        .filter((p: ApiProfile | null): p is ApiProfile => !!p);
+      if (profiles.length > 0) {
+        const defaultId = profiles.some((p: ApiProfile) => p.id === j?.defaultId) ? j.defaultId : profiles[0].id;
+        const routes = j?.routes && typeof j.routes === "object" ? (j.routes as ApiProfilesState["routes"]) : {};
+        return { profiles, defaultId, routes };
+      }
+    }
+  } catch {
+    // ignore
+  }
+  const legacy = readLegacyConfig();
+  const first = createProfile("默认", legacy ?? undefined);
+  return { profiles: [first], defaultId: first.id, routes: {} };
+}
+
+export function saveApiProfiles(state: ApiProfilesState): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(API_PROFILES_KEY, JSON.stringify(state));
+  const def = state.profiles.find((p) => p.id === state.defaultId) ?? state.profiles[0];
+  if (def) {
+    window.localStorage.setItem(
+      API_CONFIG_KEY,
+      JSON.stringify({
+        AI_PROVIDER: def.provider,
+        AI_API_KEY: def.apiKey,
+        AI_BASE_URL: def.baseURL,
+        AI_MODEL_ID: def.model,
+      })
+    );
+  }
+}
+
+/**
+ * 解析某一阶段实际使用的配置：路由指定的档案（失效时回退默认档案），再叠加模型覆盖。
+ * 尚未保存过档案时返回 null，由调用方回退到旧的单一配置。
+ */
+export function resolveStageProfile(stage: ApiStage): ApiProfile | null {
+  if (typeof window === "undefined") return null;
+  if (!window.localStorage.getItem(API_PROFILES_KEY)) return null;
+  const state = loadApiProfiles();
+  const route = state.routes[stage] ?? {};
+  const profile =
+    state.profiles.find((p) => p.id === route.profileId) ??
+    state.profiles.find((p) => p.id === state.defaultId) ??
+    state.profiles[0];
+  if (!profile) return null;
+  const modelId = (route.modelId || "").trim();
+  return modelId ? { ...profile, model: modelId } : profile;
+}
@@ -0,0 +1,123 @@
+import type { CastRules } from "@/lib/worldPacks";
+
+/**
+ * 浏览器端（localStorage）的阵容规则与固定 NPC 名单。
+ * - 玩家勾选的角色数须落在世界包清单的 cast.min ~ cast.max 之间
+ * - 固定 NPC 以 PromptCharacter 记录保存，可停用、编辑、删除或新增；
+ *   未修改过时直接使用世界包清单里的 fixedCharacters
+ * - 名单按世界包 id 分别保存（键：manosaba_ai.fixed_npcs）
+ * 注意：需在“use client”组件里调用这些方法，服务端渲染阶段没有 window。
+ */
+
+export type { CastRules };
+
+/** 用于前端内存中的“中文提示词”结构（不落盘） */
+export interface PromptCharacter {
+  name: string;           // 姓名（女性）
+  appearance: string;     // 外貌与衣着
+  magic_pre: string;      // 魔女化前的能力
+  magic_post: string;     // 魔女化后的能力
+  tragic_story: string;   // 悲惨故事
+  personality: string;    // 性格特质（正/负）
+  original_sin: string;   // 原罪
+}
+
+export const PROMPT_CHARACTER_FIELDS: Array<{ key: keyof PromptCharacter; label: string; multiline: boolean }> = [
+  { key: "name", label: "姓名", multiline: false },
+  { key: "appearance", label: "外貌与衣着", multiline: true },
+  { key: "magic_pre", label: "魔女化前的能力", multiline: true },
+  { key: "magic_post", label: "魔女化后的能力", multiline: true },
+  { key: "tragic_story", label: "悲惨故事", multiline: true },
+  { key: "personality", label: "性格特质", multiline: true },
+  { key: "original_sin", label: "原罪", multiline: true },
+];
+
+export type FixedNpc = {
+  id: string;
+  /** 停用后不参与生成，但保留在名单里 */
+  enabled: boolean;
+  character: PromptCharacter;
+};
+
+export const FIXED_NPCS_KEY = "manosaba_ai.fixed_npcs";
+
+export const DEFAULT_CAST_RULES: CastRules = { min: 12, max: 12 };
+
+export function newNpcId(): string {
+  return `npc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function emptyPromptCharacter(name = ""): PromptCharacter {
+  return { name, appearance: "", magic_pre: "", magic_post: "", tragic_story: "", personality: "", original_sin: "" };
+}
+
+/** 世界包清单里的固定角色 → 默认名单（全部启用） */
+export function npcsFromPack(characters: PromptCharacter[]): FixedNpc[] {
+  return characters.map((c, i) => ({ id: `pack_${i}`, enabled: true, character: { ...c } }));
+}
+
+function sanitizeNpc(v: unknown): FixedNpc | null {
+  if (!v || typeof v !== "object") return null;
+  const o = v as Record<string, unknown>;
+  const c = o.character && typeof o.character === "object" ? (o.character as Record<string, unknown>) : null;
+  if (typeof o.id !== "string" || !o.id || !c) return null;
+  const character = emptyPromptCharacter();
+  for (const { key } of PROMPT_CHARACTER_FIELDS) {
+    if (typeof c[key] === "string") character[key] = c[key] as string;
+  }
+  return { id: o.id, enabled: o.enabled !== false, character };
+}
+
+function readAll(): Record<string, unknown> {
+  try {
+    const raw = window.localStorage.getItem(FIXED_NPCS_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeAll(all: Record<string, unknown>): void {
+  try {
+    window.localStorage.setItem(FIXED_NPCS_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.warn("Failed to save fixed NPCs:", e);
+  }
+}
+
+/** 读取指定世界包的固定 NPC 名单；从未修改过时返回清单默认名单 */
+export function loadFixedNpcs(packId: string, defaults: PromptCharacter[]): FixedNpc[] {
+  if (typeof window === "undefined") return npcsFromPack(defaults);
+  const stored = readAll()[packId];
+  if (!Array.isArray(stored)) return npcsFromPack(defaults);
+  return stored.map(sanitizeNpc).filter((n): n is FixedNpc => !!n);
+}
+
+export function saveFixedNpcs(packId: string, list: FixedNpc[]): void {
+  if (typeof window === "undefined") return;
+  writeAll({ ...readAll(), [packId]: list });
+}
+
+/** 清除本地修改，恢复为世界包清单的默认名单 */
+export function resetFixedNpcs(packId: string): void {
+  if (typeof window === "undefined") return;
+  const all = readAll();
+  delete all[packId];
+  writeAll(all);
+}
+
+/** 参与生成的固定 NPC（已启用且有姓名） */
+export function activeNpcCharacters(list: FixedNpc[]): PromptCharacter[] {
+  return list.filter((n) => n.enabled && n.character.name.trim()).map((n) => n.character);
+}
+
+/** 校验勾选人数；符合规则时返回 null，否则返回提示文案 */
+export function checkCastCount(count: number, rules: CastRules): string | null {
+  if (count >= rules.min && count <= rules.max) return null;
+  return `请勾选 ${formatCastRange(rules)} 个角色（当前：${count}）`;
+}
+
+export function formatCastRange(rules: CastRules): string {
+  return rules.min === rules.max ? `${rules.min}` : `${rules.min}～${rules.max}`;
+}
@@ -0,0 +1,50 @@
+/**
+ * 人物提示词 XML（页面 buildCharactersXml 生成的 <人物提示词>）的读取工具，供提示词组装、预算裁剪、
+ * 阅读器与连贯性检查共用。人物 XML 也可能来自旧存档或手工编辑，这里以宽松的正则读取，不做结构校验。
+ */
+
+export type CharacterRecord = {
+  name: string;
+  abilityBefore: string;
+  abilityAfter: string;
+};
+
+function fieldPattern(tag: string, flags = ""): RegExp {
+  return new RegExp(`<${tag}>\\s*(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?\\s*</${tag}>`, flags);
+}
+
+/** 人物块中某字段的文本（去掉 CDATA 与首尾空白；缺失时为空串） */
+export function characterField(block: string, tag: string): string {
+  const m = block.match(fieldPattern(tag));
+  return m ? m[1].trim() : "";
+}
+
+/** 逐个 <人物> 块替换：fn 收到块内文本与整段原文，返回替换后的整段 */
+export function mapCharacterBlocks(xml: string, fn: (body: string, whole: string) => string): string {
+  return (xml || "").replace(/<人物>([\s\S]*?)<\/人物>/g, (whole, body: string) => fn(body, whole));
+}
+
+/** 人物 XML 中的全部姓名（去重，按出现顺序） */
+export function castNamesFromCharactersXml(xml: string): string[] {
+  const names: string[] = [];
+  const re = fieldPattern("姓名", "g");
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml || ""))) {
+    const n = m[1].trim();
+    if (n && !names.includes(n)) names.push(n);
+  }
+  return names;
+}
+
+/** 每个人物的姓名与魔女化前后的能力 */
+export function characterRecordsFromXml(xml: string): CharacterRecord[] {
+  const out: CharacterRecord[] = [];
+  mapCharacterBlocks(xml, (body, whole) => {
+    const name = characterField(body, "姓名");
+    if (name) {
+      out.push({ name, abilityBefore: characterField(body, "魔女化前的能力"), abilityAfter: characterField(body, "魔女化后的能力") });
+    }
+    return whole;
+  });
+  return out;
+}
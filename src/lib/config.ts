@@ -1,25 +1,36 @@
 import { z } from 'zod';
+import { getProviderAdapter, normalizeProvider } from '@/lib/providers';
 
 /**
  * 浏览器端配置优先策略：后端仅从请求头读取 AI 配置，不再读取 .env 或进程环境。
  * 必须提供以下请求头：
- * - x-ai-api-key
+ * - x-ai-api-key（provider 为 ollama 时可省略）
  * - x-ai-base-url
  * - x-ai-model-id
+ * 可选请求头：
+ * - x-ai-provider：openai（默认）/ anthropic / gemini / ollama
  */
-const EnvSchema = z.object({
-  AI_API_KEY: z.string().min(1, 'AI_API_KEY is required'),
-  AI_BASE_URL: z.string().url('AI_BASE_URL must be a valid URL'),
-  AI_MODEL_ID: z.string().min(1, 'AI_MODEL_ID is required'),
-});
+const EnvSchema = z
+  .object({
+    AI_PROVIDER: z.enum(['openai', 'anthropic', 'gemini', 'ollama']),
+    AI_API_KEY: z.string(),
+    AI_BASE_URL: z.string().url('AI_BASE_URL must be a valid URL'),
+    AI_MODEL_ID: z.string().min(1, 'AI_MODEL_ID is required'),
+  })
+  .refine((v) => !getProviderAdapter(v.AI_PROVIDER).requiresApiKey || v.AI_API_KEY.length > 0, {
+    message: 'AI_API_KEY is required',
+    path: ['AI_API_KEY'],
+  });
 
 export async function getConfigFromRequest(req: Request) {
   const headers = req.headers;
+  const hProvider = normalizeProvider(headers.get('x-ai-provider') || '');
   const hApiKey = headers.get('x-ai-api-key') || '';
   const hBaseURL = headers.get('x-ai-base-url') || '';
   const hModelId = headers.get('x-ai-model-id') || '';
 
   const raw = {
+    AI_PROVIDER: hProvider,
     AI_API_KEY: hApiKey,
     AI_BASE_URL: hBaseURL,
     AI_MODEL_ID: hModelId,
@@ -28,7 +39,7 @@ export async function getConfigFromRequest(req: Request) {
   const parsed = EnvSchema.safeParse(raw);
   if (!parsed.success) {
     const missing: string[] = [];
-    if (!hApiKey) missing.push('x-ai-api-key');
+    if (!hApiKey && getProviderAdapter(hProvider).requiresApiKey) missing.push('x-ai-api-key');
     if (!hBaseURL) missing.push('x-ai-base-url');
     if (!hModelId) missing.push('x-ai-model-id');
     const detail = JSON.stringify(parsed.error.flatten().fieldErrors);
@@ -37,9 +48,10 @@ export async function getConfigFromRequest(req: Request) {
 
   return {
     ai: {
+      provider: parsed.data.AI_PROVIDER,
       apiKey: parsed.data.AI_API_KEY,
       baseURL: parsed.data.AI_BASE_URL,
       model: parsed.data.AI_MODEL_ID,
     },
   } as const;
-}
\ No newline at end of file
+}
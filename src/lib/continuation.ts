@@ -0,0 +1,128 @@
+"use client";
+
+import { streamChatCompletionsFromLocalConfig, type ChatResult } from "@/lib/aiClient";
+import type { ChatMessage } from "@/lib/providers";
+import type { ApiStage } from "@/lib/apiProfiles";
+
+/**
+ * 长文自动续写：模型因输出长度上限（finish_reason = "length"）截断时，
+ * 携带此前的对话（原提示词 + 已输出部分）追加一次“从截断处继续”的请求，直到正常结束或达到轮数上限，
+ * 再把各轮输出拼接成完整文本交给调用方解析。
+ * - 续写轮数可配置（localStorage：manosaba_ai.continuation_rounds），0 表示关闭
+ * - 拼接时去掉续写开头的代码围栏以及与已输出文本重叠的部分
+ */
+
+export const CONTINUATION_ROUNDS_KEY = "manosaba_ai.continuation_rounds";
+export const DEFAULT_CONTINUATION_ROUNDS = 3;
+export const MAX_CONTINUATION_ROUNDS = 8;
+
+export const CONTINUE_PROMPT = [
+  "你的上一条回复因长度上限被截断。",
+  "请从截断处紧接着继续输出剩余内容：不要重复已经输出的文字，不要重新开始 XML，也不要添加任何解释或代码围栏；",
+  "直到完整输出全部剩余内容与结束标签为止。",
+].join("\n");
+
+// 重叠检测的最大窗口（字符）
+const OVERLAP_WINDOW = 200;
+
+function clampRounds(n: unknown): number {
+  const v = typeof n === "number" ? n : Number(n);
+  if (!Number.isFinite(v)) return DEFAULT_CONTINUATION_ROUNDS;
+  return Math.min(Math.max(Math.floor(v), 0), MAX_CONTINUATION_ROUNDS);
+}
+
+export function loadContinuationRounds(): number {
+  if (typeof window === "undefined") return DEFAULT_CONTINUATION_ROUNDS;
+  try {
+    const s = window.localStorage.getItem(CONTINUATION_ROUNDS_KEY);
+    return s === null ? DEFAULT_CONTINUATION_ROUNDS : clampRounds(JSON.parse(s));
+  } catch {
+    return DEFAULT_CONTINUATION_ROUNDS;
+  }
+}
+
+export function saveContinuationRounds(n: number): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(CONTINUATION_ROUNDS_KEY, JSON.stringify(clampRounds(n)));
+  } catch {
+    // ignore
+  }
+}
+
+export function isLengthTruncated(finishReason?: string): boolean {
+  return finishReason === "length";
+}
+
+/** 把续写片段接到已有文本之后：去掉开头的代码围栏与重叠部分 */
+export function stitchContinuation(prev: string, next: string): string {
+  const cleaned = next.replace(/^\s*```[A-Za-z]*[^\S\n]*\n?/, "");
+  const max = Math.min(OVERLAP_WINDOW, prev.length, cleaned.length);
+  for (let n = max; n >= 8; n--) {
+    if (prev.endsWith(cleaned.slice(0, n))) return prev + cleaned.slice(n);
+  }
+  return prev + cleaned;
+}
+
+export type ContinuationResult = ChatResult & {
+  /** 实际进行的续写轮数（0 表示一次完成） */
+  rounds: number;
+  /** 达到轮数上限后仍被截断 */
+  truncated: boolean;
+};
+
+/**
+ * 以流式方式生成，遇到长度截断时自动续写。
+ * onDelta 收到的是拼接后的完整文本；onRound 在每轮续写开始前调用（从 1 计）。
+ */
+export async function streamWithContinuation(
+  prompt: string,
+  opts: {
+    stage?: ApiStage;
+    temperature?: number;
+    signal?: AbortSignal;
+    maxRounds?: number;
+    onDelta?: (fullText: string) => void;
+    onRound?: (round: number) => void;
+  }
+): Promise<ContinuationResult> {
+  const { stage, temperature, signal, onDelta, onRound } = opts;
+  const maxRounds = clampRounds(opts.maxRounds ?? loadContinuationRounds());
+
+  let res = await streamChatCompletionsFromLocalConfig(prompt, {
+    stage,
+    temperature,
+    signal,
+    onDelta: (_delta, full) => onDelta?.(full),
+  });
+  let text = res.text;
+  let rounds = 0;
+
+  while (res.ok && !res.aborted && isLengthTruncated(res.finishReason) && rounds < maxRounds) {
+    rounds++;
+    onRound?.(rounds);
+    const history: ChatMessage[] = [
+      { role: "user", content: prompt },
+      { role: "assistant", content: text },
+    ];
+    const base = text;
+    res = await streamChatCompletionsFromLocalConfig(CONTINUE_PROMPT, {
+      stage,
+      temperature,
+      signal,
+      history,
+      onDelta: (_delta, full) => onDelta?.(stitchContinuation(base, full)),
+    });
+    text = stitchContinuation(base, res.text);
+  }
+
+  // 续写请求失败时保留已拼接的部分，按“仍被截断”处理
+  const continuationFailed = rounds > 0 && !res.ok;
+  return {
+    ...res,
+    ok: res.ok || continuationFailed,
+    text,
+    rounds,
+    truncated: continuationFailed || (res.ok && !res.aborted && isLengthTruncated(res.finishReason)),
+  };
+}
@@ -0,0 +1,311 @@
+import { renderTemplate, type TemplateIssue, type TemplateVariableSpec } from "@/lib/templateEngine";
+import type { CharacterRecord } from "@/lib/charactersXml";
+import { detectSpeaker } from "@/lib/reader";
+import { readSectionRecords, sectionPosition, textFingerprint, type SectionRecords } from "@/lib/storyMemory";
+import { formatStoryState, sameCharacter, WITCH_STAGE_LABELS, type StoryStateSnapshot } from "@/lib/storyState";
+import type { ContinuityReportXML } from "@/lib/xml";
+
+/**
+ * 连贯性检查：把新生成的小节与大纲简述、本节开始前的局势、人物设定（buildCharactersXml 的人物 XML）对照。
+ * - 规则检查在本地即时完成：已死亡/被处刑的角色开口或行动、简述中的人物与关键词未出现、能力归属与魔女化阶段不符
+ * - 可选的模型审校（固定 XML 格式 + zod 校验）补充规则覆盖不到的剧情矛盾；结果按大纲键分区存于 localStorage
+ *   （键：manosaba_ai.continuity.<大纲键>），带正文指纹（同剧情记忆）
+ * - 问题可整理为“修改要求”（生成故事模板变量 revisionNotes），一键按这些问题重新生成本节
+ */
+
+export type ContinuityIssueKind = "revived-character" | "summary-mismatch" | "ability-misuse" | "state-conflict" | "other";
+
+export type ContinuityIssue = {
+  source: "rule" | "judge";
+  kind: ContinuityIssueKind;
+  severity: "error" | "warning";
+  message: string;
+  /** 正文中有问题的原句 */
+  quote?: string;
+  /** 修改建议 */
+  fix?: string;
+};
+
+export const CONTINUITY_KIND_LABELS: Record<ContinuityIssueKind, string> = {
+  "revived-character": "角色复活",
+  "summary-mismatch": "偏离简述",
+  "ability-misuse": "能力误用",
+  "state-conflict": "局势矛盾",
+  other: "其他",
+};
+
+// ---- 人物设定 ----
+
+/** 能力描述中以『』「」“”括起的专有名词（能力名、招式名），作为正文中识别能力使用的关键词 */
+function abilityTerms(text: string): string[] {
+  const terms = new Set<string>();
+  const re = /[『「“]([^』」”]{2,10})[』」”]/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) terms.add(m[1].trim());
+  return Array.from(terms).filter(Boolean);
+}
+
+// ---- 规则检查 ----
+
+const QUOTE_MAX = 80;
+// 回忆、梦境、遗物等语境中出现已故角色不算复活
+const RECALL_RE = /回忆|想起|记忆|梦|遗言|遗书|遗物|录音|录像|照片|幻觉|幻影|幻听|生前|曾经|那时|尸体|遗体|亡灵|灵魂/;
+const ACTION_RE = "(?:说|问|喊|笑|哭|答|走|跑|站|坐|点头|摇头|伸手|推开|看向|望向|开口|转身|回头|抬头|举起|皱眉)";
+const SENTENCE_RE = /[^。！？!?\n]+[。！？!?」”』]*/g;
+
+function clip(text: string): string {
+  const t = text.trim();
+  return t.length > QUOTE_MAX ? `${t.slice(0, QUOTE_MAX)}…` : t;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function paragraphsOf(text: string): string[] {
+  return text
+    .split(/\r?\n+/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+/** 人物在段落中出现的称呼（全名或全名的一部分，如“冰上 梅露露”的“梅露露”） */
+function mentionOf(paragraph: string, name: string): string | undefined {
+  const parts = [name, ...name.split(/[\s·・]+/).filter((p) => p.length >= 2)];
+  return parts.find((p) => paragraph.includes(p));
+}
+
+function checkRevived(text: string, snapshot: StoryStateSnapshot, knownNames: string[]): ContinuityIssue[] {
+  const ended = snapshot.cast.filter((c) => c.status !== "alive");
+  const out: ContinuityIssue[] = [];
+  for (const c of ended) {
+    const how = `${c.endedIn ? `已于${sectionPosition(c.endedIn)}` : "已"}${c.status === "dead" ? "死亡" : "被处刑"}`;
+    const fix = `${c.name}${how}，只能出现在回忆、遗物或他人的提及中，请改写这一处`;
+    for (const p of paragraphsOf(text)) {
+      if (RECALL_RE.test(p)) continue;
+      const speaker = detectSpeaker(p, knownNames);
+      if (speaker && sameCharacter(speaker, c.name)) {
+        out.push({ source: "rule", kind: "revived-character", severity: "error", message: `${c.name}${how}，却在本节开口说话`, quote: clip(p), fix });
+        break;
+      }
+      const mention = mentionOf(p, c.name);
+      if (mention && new RegExp(`${escapeRegExp(mention)}[^，。！？,!?「“『]{0,4}${ACTION_RE}`).test(p)) {
+        out.push({ source: "rule", kind: "revived-character", severity: "error", message: `${c.name}${how}，却在本节有所行动`, quote: clip(p), fix });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+function checkSummary(text: string, summary: string, castNames: string[]): ContinuityIssue[] {
+  if (!summary.trim()) return [];
+  const out: ContinuityIssue[] = [];
+  for (const name of castNames) {
+    if (mentionOf(summary, name) && !mentionOf(text, name)) {
+      out.push({
+        source: "rule",
+        kind: "summary-mismatch",
+        severity: "warning",
+        message: `大纲简述提到${name}，正文中却没有出现`,
+        quote: clip(summary),
+        fix: `按简述安排${name}的戏份`,
+      });
+    }
+  }
+  for (const term of abilityTerms(summary)) {
+    if (!text.includes(term)) {
+      out.push({
+        source: "rule",
+        kind: "summary-mismatch",
+        severity: "warning",
+        message: `大纲简述中的「${term}」在正文中没有出现`,
+        quote: clip(summary),
+        fix: `补写简述中「${term}」相关的情节`,
+      });
+    }
+  }
+  return out;
+}
+
+function checkAbilities(text: string, characters: CharacterRecord[], snapshot: StoryStateSnapshot): ContinuityIssue[] {
+  const out: ContinuityIssue[] = [];
+  const seen = new Set<string>();
+  const push = (issue: ContinuityIssue) => {
+    if (seen.has(issue.message)) return;
+    seen.add(issue.message);
+    out.push(issue);
+  };
+  const sentences = text.match(SENTENCE_RE) ?? [];
+  for (const owner of characters) {
+    const stage = snapshot.cast.find((c) => sameCharacter(c.name, owner.name))?.witchStage ?? 0;
+    const terms = [
+      ...abilityTerms(owner.abilityBefore).map((term) => ({ term, after: false })),
+      ...abilityTerms(owner.abilityAfter).map((term) => ({ term, after: true })),
+    ];
+    for (const { term, after } of terms) {
+      for (const s of sentences) {
+        if (!s.includes(term)) continue;
+        const ownerHere = !!mentionOf(s, owner.name);
+        const other = characters.find((c) => c !== owner && !sameCharacter(c.name, owner.name) && mentionOf(s, c.name));
+        if (!ownerHere && other) {
+          push({
+            source: "rule",
+            kind: "ability-misuse",
+            severity: "warning",
+            message: `「${term}」是${owner.name}的能力，这里似乎由${other.name}使用`,
+            quote: clip(s),
+            fix: `能力只能由其持有者使用；若确为${other.name}所为，请改用${other.name}自己的能力`,
+          });
+        } else if (ownerHere && after && stage < 4) {
+          push({
+            source: "rule",
+            kind: "ability-misuse",
+            severity: "warning",
+            message: `${owner.name}尚未完全魔女化（${WITCH_STAGE_LABELS[stage]}），却使用了魔女化后的能力「${term}」`,
+            quote: clip(s),
+            fix: `改用${owner.name}魔女化前的能力，或先交代其魔女化加深的过程`,
+          });
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * 规则检查。snapshot 为本节开始前的局势；knownNames 用于识别说话人（speakerNamesFromCharactersXml）。
+ * 规则只能覆盖显式的矛盾，命中也可能是误报（例如正文确实在讲述回忆），因此除角色复活外均为提醒级别。
+ */
+export function checkSectionRules(input: {
+  text: string;
+  summary: string;
+  snapshot: StoryStateSnapshot;
+  characters: CharacterRecord[];
+  knownNames: string[];
+}): ContinuityIssue[] {
+  const { text, summary, snapshot, characters, knownNames } = input;
+  if (!text.trim()) return [];
+  return [
+    ...checkRevived(text, snapshot, knownNames),
+    ...checkSummary(text, summary, characters.map((c) => c.name)),
+    ...checkAbilities(text, characters, snapshot),
+  ];
+}
+
+// ---- 模型审校 ----
+
+export type ContinuityJudgement = {
+  key: string;
+  /** 审校时小节正文的指纹 */
+  fingerprint: string;
+  issues: ContinuityIssue[];
+  checkedAt: number;
+};
+
+export type ContinuityRecord = SectionRecords<ContinuityJudgement>;
+
+export const CONTINUITY_PREFIX = "manosaba_ai.continuity.";
+
+export function loadContinuity(outlineKey: string): ContinuityRecord {
+  if (!outlineKey) return {};
+  return readSectionRecords<ContinuityJudgement>(CONTINUITY_PREFIX + outlineKey);
+}
+
+export function saveContinuity(outlineKey: string, record: ContinuityRecord): void {
+  if (typeof window === "undefined" || !outlineKey) return;
+  window.localStorage.setItem(CONTINUITY_PREFIX + outlineKey, JSON.stringify(record));
+}
+
+const JUDGE_VARS: TemplateVariableSpec[] = [
+  { name: "position", description: "小节位置（第X章第Y节）", required: true },
+  { name: "sectionTitle", description: "节标题", required: true },
+  { name: "sectionSummary", description: "大纲中的本节简述" },
+  { name: "storyState", description: "本节开始前的局势（首节为空）" },
+  { name: "characters", description: "人物提示词 XML" },
+  { name: "sectionText", description: "本节正文", required: true },
+];
+
+/** 审校提示词：输出格式与 parseContinuityReportXml 对应，不随世界包变化 */
+const JUDGE_TEMPLATE = `你是一名严格的连载小说审校，负责检查一部魔女审判推理故事的前后一致性。下面是{{position}}《{{sectionTitle}}》的正文。
+{{#if sectionSummary}}
+大纲中的本节简述：{{sectionSummary}}
+{{/if}}
+{{#if storyState}}
+
+本节开始前的局势：
+{{storyState}}
+{{/if}}
+{{#if characters}}
+
+人物设定：
+{{characters}}
+{{/if}}
+
+本节正文：
+{{sectionText}}
+
+请逐项检查：
+- 正文是否偏离或遗漏了本节简述中的关键情节
+- 已死亡或被处刑的角色是否以活人身份出场、行动或说话（回忆、遗物与他人提及不算）
+- 角色是否使用了不属于自己的能力，或在完全魔女化之前使用了魔女化后的能力
+- 是否与此前的局势（死因、凶手、审判结果、线索）相矛盾
+
+按如下XML格式输出，不要输出其他内容；没有问题时输出 <continuityReport></continuityReport>：
+<continuityReport>
+  <issue>
+    <kind>summary-mismatch | revived-character | ability-misuse | state-conflict | other</kind>
+    <severity>error（必须修改）| warning（建议修改）</severity>
+    <quote><![CDATA[正文中有问题的原句，原样摘录]]></quote>
+    <problem><![CDATA[问题说明]]></problem>
+    <fix><![CDATA[具体的修改建议]]></fix>
+  </issue>
+</continuityReport>
+
+要求：只报告确实存在的问题，不评价文笔，每个问题只报告一次`;
+
+export function buildContinuityJudgePrompt(vars: {
+  key: string;
+  sectionTitle: string;
+  sectionSummary: string;
+  snapshot: StoryStateSnapshot;
+  charactersXml: string;
+  sectionText: string;
+}): { prompt: string; issues: TemplateIssue[] } {
+  const { key, snapshot, charactersXml, ...rest } = vars;
+  const { text, issues } = renderTemplate(JUDGE_TEMPLATE, {
+    vars: { ...rest, position: sectionPosition(key), storyState: formatStoryState(snapshot), characters: charactersXml },
+    known: JUDGE_VARS,
+  });
+  return { prompt: text.trim(), issues };
+}
+
+const KINDS = Object.keys(CONTINUITY_KIND_LABELS) as ContinuityIssueKind[];
+
+/** 审校结果转为问题列表：未知的类型归为“其他”，级别默认为提醒 */
+export function judgementFromReport(key: string, text: string, report: ContinuityReportXML): ContinuityJudgement {
+  const issues = report.issues.map((it): ContinuityIssue => {
+    const kind = KINDS.find((k) => it.kind.includes(k)) ?? "other";
+    return {
+      source: "judge",
+      kind,
+      severity: /error|必须/i.test(it.severity) ? "error" : "warning",
+      message: it.problem,
+      quote: it.quote ? clip(it.quote) : undefined,
+      fix: it.fix || undefined,
+    };
+  });
+  return { key, fingerprint: textFingerprint(text), issues, checkedAt: Date.now() };
+}
+
+/** 把问题整理为“修改要求”（生成故事模板变量 revisionNotes） */
+export function formatRevisionNotes(issues: ContinuityIssue[]): string {
+  return issues
+    .map((it, i) => {
+      const parts = [`${i + 1}. ${it.message}`];
+      if (it.quote) parts.push(`   原文：「${it.quote}」`);
+      if (it.fix) parts.push(`   修改：${it.fix}`);
+      return parts.join("\n");
+    })
+    .join("\n");
+}
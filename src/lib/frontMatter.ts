@@ -0,0 +1,136 @@
+/**
+ * 极简 YAML front matter（仅覆盖世界书元数据需要的子集，不引入 YAML 依赖）：
+ * ---
+ * keywords: [食堂, 厨房]      # 行内数组
+ * stages:                     # 块数组
+ *   - outline
+ *   - section
+ * priority: 10                # 数字
+ * constant: true              # 布尔
+ * title: "1层布局"            # 字符串（可加引号）
+ * ---
+ * - 不支持嵌套对象、多行字符串与锚点；无法识别的行会记入 errors 并跳过
+ * - 文件不以 "---" 开头时视为没有 front matter，正文原样返回
+ */
+
+export type FrontMatterValue = string | number | boolean | null | Array<string | number | boolean | null>;
+
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+export type FrontMatterParseResult = {
+  data: FrontMatter;
+  body: string;
+  /** 是否存在 front matter 块 */
+  present: boolean;
+  errors: string[];
+};
+
+const FENCE_RE = /^\uFEFF?---[^\S\r\n]*\r?\n([\s\S]*?)\r?\n?---[^\S\r\n]*(?:\r?\n|$)/;
+
+function stripComment(s: string): string {
+  // 引号外的 " #" 之后为注释
+  let quote: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "#" && (i === 0 || /\s/.test(s[i - 1]))) {
+      return s.slice(0, i);
+    }
+  }
+  return s;
+}
+
+function parseScalar(raw: string): string | number | boolean | null {
+  const s = raw.trim();
+  if (s === "" || s === "~" || s === "null") return null;
+  if (s === "true" || s === "yes") return true;
+  if (s === "false" || s === "no") return false;
+  if (/^-?\d+(?:\.\d+)?$/.test(s)) return Number(s);
+  const q = s.match(/^"((?:[^"\\]|\\.)*)"$/) ?? s.match(/^'((?:[^']|'')*)'$/);
+  if (q) return s[0] === '"' ? q[1].replace(/\\(["\\])/g, "$1").replace(/\\n/g, "\n") : q[1].replace(/''/g, "'");
+  return s;
+}
+
+/** 按逗号切分行内数组，忽略引号内的逗号 */
+function splitInline(s: string): string[] {
+  const out: string[] = [];
+  let buf = "";
+  let quote: string | null = null;
+  for (const ch of s) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      buf += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      buf += ch;
+    } else if (ch === "," || ch === "，") {
+      out.push(buf);
+      buf = "";
+    } else {
+      buf += ch;
+    }
+  }
+  if (buf.trim()) out.push(buf);
+  return out.map((x) => x.trim()).filter(Boolean);
+}
+
+export function parseFrontMatter(text: string): FrontMatterParseResult {
+  const src = typeof text === "string" ? text : "";
+  const m = src.match(FENCE_RE);
+  if (!m) return { data: {}, body: src, present: false, errors: [] };
+
+  const data: FrontMatter = {};
+  const errors: string[] = [];
+  let listKey: string | null = null;
+
+  m[1].split(/\r?\n/).forEach((line, i) => {
+    const content = stripComment(line).replace(/\s+$/, "");
+    if (!content.trim()) return;
+    const item = content.match(/^\s*-\s*(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as Array<string | number | boolean | null>).push(parseScalar(item[1]));
+      return;
+    }
+    const kv = content.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!kv) {
+      errors.push(`第 ${i + 2} 行无法解析：${line.trim()}`);
+      listKey = null;
+      return;
+    }
+    const [, key, rest] = kv;
+    if (rest === "") {
+      // 块数组（后续 "- item" 行）
+      data[key] = [];
+      listKey = key;
+      return;
+    }
+    listKey = null;
+    const inline = rest.trim().match(/^\[(.*)\]$/);
+    data[key] = inline ? splitInline(inline[1]).map(parseScalar) : parseScalar(rest);
+  });
+
+  return { data, body: src.slice(m[0].length), present: true, errors };
+}
+
+function formatScalar(v: string | number | boolean | null): string {
+  if (v === null) return "null";
+  if (typeof v !== "string") return String(v);
+  // 可能被误读为其它类型或含特殊字符时加引号
+  return /^(?:true|false|yes|no|null|~|-?\d+(?:\.\d+)?)$|[:#,\[\]{}"'\n]|^\s|\s$|^-/.test(v) || v === ""
+    ? JSON.stringify(v)
+    : v;
+}
+
+/** 序列化为 front matter + 正文；data 为空时只返回正文 */
+export function stringifyFrontMatter(data: FrontMatter, body: string): string {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    lines.push(Array.isArray(value) ? `${key}: [${value.map(formatScalar).join(", ")}]` : `${key}: ${formatScalar(value)}`);
+  }
+  if (lines.length === 0) return body;
+  return `---\n${lines.join("\n")}\n---\n${body}`;
+}
@@ -55,4 +55,19 @@ export function clearOutlineHistory(): void {
 export function getLatestOutline(): OutlineHistoryEntry | null {
   const list = loadOutlineHistory();
   return list.length > 0 ? list[0] : null;
-}
\ No newline at end of file
+}
+/**
+ * 按 id 插入或覆盖一条历史（用于从服务端会话导入），新条目置顶。
+ */
+export function upsertOutlineHistory(entry: OutlineHistoryEntry): void {
+  if (typeof window === "undefined") return;
+  try {
+    const list = loadOutlineHistory();
+    const idx = list.findIndex((x) => x.id === entry.id);
+    if (idx >= 0) list[idx] = { ...list[idx], ...entry };
+    else list.unshift(entry);
+    window.localStorage.setItem(OUTLINE_HISTORY_KEY, JSON.stringify(list));
+  } catch {
+    // ignore
+  }
+}
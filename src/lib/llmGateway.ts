@@ -0,0 +1,298 @@
+import type { ZodError } from 'zod';
+import { getConfigFromRequest } from '@/lib/config';
+import { getProviderAdapter, type ProviderRequest } from '@/lib/providers';
+
+/**
+ * 服务端统一 LLM 网关：所有 /api/** 路由的模型调用都经由此处。
+ * - 配置：基于 getConfigFromRequest（请求头 x-ai-*），按 provider 选择适配器翻译请求与响应
+ * - 重试：429 / 5xx / 网络错误按指数退避重试（优先遵循 Retry-After）
+ * - 超时：单次请求超时后中止并按可重试错误处理
+ * - 错误：统一抛出 GatewayError，路由用 errorResponse 输出一致的错误信封
+ * - 记账：统一归一化 token 用量（含重试次数与耗时），随结果返回并写入日志
+ * - 日志：API Key 脱敏，提示词/响应体仅输出长度与截断预览
+ */
+
+export type GatewayErrorCode =
+  | 'INVALID_BODY'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'CONFIG_ERROR'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'INTERNAL_ERROR';
+
+const HTTP_STATUS: Record<GatewayErrorCode, number> = {
+  INVALID_BODY: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  CONFIG_ERROR: 400,
+  UPSTREAM_ERROR: 502,
+  UPSTREAM_TIMEOUT: 504,
+  NETWORK_ERROR: 502,
+  INTERNAL_ERROR: 500,
+};
+
+export class GatewayError extends Error {
+  readonly code: GatewayErrorCode;
+  readonly upstreamStatus?: number;
+  readonly retryable: boolean;
+  readonly details?: unknown;
+
+  constructor(
+    code: GatewayErrorCode,
+    message: string,
+    opts?: { upstreamStatus?: number; retryable?: boolean; details?: unknown }
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+    this.code = code;
+    this.upstreamStatus = opts?.upstreamStatus;
+    this.retryable = opts?.retryable ?? false;
+    this.details = opts?.details;
+  }
+
+  get httpStatus(): number {
+    return HTTP_STATUS[this.code];
+  }
+}
+
+export type GatewayUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type GatewayResult = {
+  text: string;
+  model: string;
+  finishReason?: string;
+  usage?: GatewayUsage;
+  /** 实际发起的请求次数（含重试） */
+  attempts: number;
+  durationMs: number;
+  raw: unknown;
+};
+
+export type GatewayRequest = {
+  /** 日志标签，如 'SECTION STORY' */
+  tag: string;
+  prompt: string;
+  modelId?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+  maxRetries?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 180_000;
+const DEFAULT_MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 800;
+const BACKOFF_MAX_MS = 15_000;
+
+// ---- 日志（脱敏） ----
+
+function redactKey(key: string): string {
+  if (!key) return '';
+  if (key.length <= 8) return '***';
+  return `${key.slice(0, 3)}…${key.slice(-4)}`;
+}
+
+function preview(text: string, max = 200): string {
+  const t = text ?? '';
+  return t.length > max ? `${t.slice(0, max)}…(${t.length} chars)` : t;
+}
+
+function log(tag: string, event: string, data: Record<string, unknown>): void {
+  console.log(`[LLM ${tag}] ${event}`, data);
+}
+
+// ---- 用量 ----
+
+function normalizeUsage(raw: unknown): GatewayUsage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const u = raw as Record<string, unknown>;
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : 0);
+  const promptTokens = num(u.prompt_tokens ?? u.input_tokens);
+  const completionTokens = num(u.completion_tokens ?? u.output_tokens);
+  const totalTokens = num(u.total_tokens) || promptTokens + completionTokens;
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+// ---- 请求 ----
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const sec = Number(retryAfter);
+    if (Number.isFinite(sec) && sec >= 0) return Math.min(sec * 1000, BACKOFF_MAX_MS);
+  }
+  const exp = BACKOFF_BASE_MS * 2 ** attempt;
+  return Math.min(exp + Math.floor(Math.random() * BACKOFF_BASE_MS), BACKOFF_MAX_MS);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+async function attemptOnce(
+  request: ProviderRequest,
+  timeoutMs: number
+): Promise<{ status: number; retryAfter: string | null; rawText: string }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      signal: controller.signal,
+    });
+    const rawText = await response.text();
+    return { status: response.status, retryAfter: response.headers.get('retry-after'), rawText };
+  } catch (err: unknown) {
+    if (controller.signal.aborted) {
+      throw new GatewayError('UPSTREAM_TIMEOUT', `LLM request timed out after ${timeoutMs}ms`, { retryable: true });
+    }
+    throw new GatewayError('NETWORK_ERROR', err instanceof Error ? err.message : 'Network error', { retryable: true });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 发送一次对话请求（含重试与超时），返回解析后的文本与用量。
+ * 失败时抛出 GatewayError。
+ */
+export async function chatCompletion(req: Request, input: GatewayRequest): Promise<GatewayResult> {
+  let cfg: Awaited<ReturnType<typeof getConfigFromRequest>>;
+  try {
+    cfg = await getConfigFromRequest(req);
+  } catch (err: unknown) {
+    throw new GatewayError('CONFIG_ERROR', err instanceof Error ? err.message : 'Invalid AI config');
+  }
+
+  const adapter = getProviderAdapter(cfg.ai.provider);
+  const model = input.modelId ?? cfg.ai.model;
+  const timeoutMs = input.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = input.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const temperature = input.temperature ?? 1.0;
+  const request = adapter.buildRequest({
+    baseURL: cfg.ai.baseURL,
+    apiKey: cfg.ai.apiKey,
+    model,
+    messages: [
+      {
+        role: 'user',
+        content: input.prompt,
+      },
+    ],
+    temperature,
+    maxTokens: input.maxOutputTokens,
+    stream: false,
+  });
+
+  log(input.tag, 'request', {
+    provider: adapter.id,
+    baseURL: cfg.ai.baseURL,
+    model,
+    apiKey: redactKey(cfg.ai.apiKey),
+    temperature,
+    max_tokens: input.maxOutputTokens,
+    prompt: preview(input.prompt),
+  });
+
+  const startedAt = Date.now();
+  let lastError: GatewayError | null = null;
+  let attempts = 0;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    attempts = attempt + 1;
+    let retryAfter: string | null = null;
+    try {
+      const res = await attemptOnce(request, timeoutMs);
+      retryAfter = res.retryAfter;
+      log(input.tag, 'response', { attempt: attempt + 1, status: res.status, body: preview(res.rawText) });
+
+      if (res.status < 200 || res.status >= 300) {
+        throw new GatewayError('UPSTREAM_ERROR', res.rawText || `LLM API responded with HTTP ${res.status}`, {
+          upstreamStatus: res.status,
+          retryable: isRetryableStatus(res.status),
+        });
+      }
+
+      let result: Record<string, unknown>;
+      try {
+        result = JSON.parse(res.rawText) as Record<string, unknown>;
+      } catch {
+        throw new GatewayError('UPSTREAM_ERROR', 'LLM API returned a non-JSON body', { upstreamStatus: res.status });
+      }
+
+      const parsed = adapter.parseResponse(result);
+      const { text, finishReason } = parsed;
+      const usage = normalizeUsage(parsed.usage);
+      const durationMs = Date.now() - startedAt;
+      log(input.tag, 'usage', { model, attempts: attempt + 1, durationMs, finishReason, ...usage });
+      return {
+        text,
+        model,
+        finishReason,
+        usage,
+        attempts: attempt + 1,
+        durationMs,
+        raw: result,
+      };
+    } catch (err: unknown) {
+      lastError =
+        err instanceof GatewayError
+          ? err
+          : new GatewayError('INTERNAL_ERROR', err instanceof Error ? err.message : 'Unknown error');
+      if (!lastError.retryable || attempt === maxRetries) break;
+      const delay = backoffDelay(attempt, retryAfter);
+      log(input.tag, 'retry', { attempt: attempt + 1, code: lastError.code, status: lastError.upstreamStatus, delayMs: delay });
+      await sleep(delay);
+    }
+  }
+
+  console.error(`[LLM ${input.tag}] failed`, {
+    code: lastError?.code,
+    attempts,
+    status: lastError?.upstreamStatus,
+    message: preview(lastError?.message ?? ''),
+  });
+  throw lastError ?? new GatewayError('INTERNAL_ERROR', 'Unknown error');
+}
+
+// ---- 错误信封 ----
+
+/**
+ * 统一错误响应：
+ * { ok: false, error: { code, message, upstreamStatus?, retryable, details? }, ...extra }
+ */
+export function errorResponse(err: unknown, extra?: Record<string, unknown>): Response {
+  const e =
+    err instanceof GatewayError
+      ? err
+      : new GatewayError('INTERNAL_ERROR', err instanceof Error ? err.message : 'Unknown error');
+  return Response.json(
+    {
+      ok: false,
+      ...(extra ?? {}),
+      error: {
+        code: e.code,
+        message: e.message,
+        upstreamStatus: e.upstreamStatus,
+        retryable: e.retryable,
+        details: e.details,
+      },
+    },
+    { status: e.httpStatus }
+  );
+}
+
+export function invalidBodyResponse(error: ZodError): Response {
+  return errorResponse(new GatewayError('INVALID_BODY', 'Invalid body', { details: error.flatten() }));
+}
@@ -0,0 +1,300 @@
+import { z } from "zod";
+import { API_CONFIG_KEY, API_PROFILES_KEY } from "@/lib/apiProfiles";
+import { loadOutlineHistory, upsertOutlineHistory, type OutlineHistoryEntry } from "@/lib/history";
+import {
+  SECTION_STORIES_PREFIX,
+  loadSectionVersions,
+  mergeSectionVersions,
+  saveSectionVersions,
+} from "@/lib/sectionVersions";
+import { mergeSectionRecords } from "@/lib/storyMemory";
+import { loadStoryState, saveStoryState } from "@/lib/storyState";
+import { loadStoryTree, mergeStoryTrees, saveStoryTree } from "@/lib/storyTree";
+import { loadTrials, mergeTrials, saveTrials } from "@/lib/trial";
+import { SectionStateSchema } from "@/lib/xml";
+
+/**
+ * 项目归档：把分散在 localStorage 的整个战役（角色问卷、主人公、大纲历史、小节故事及其版本历史与故事树、故事状态、互动审判、折叠状态、设置）
+ * 打包为单个带版本号的 JSON，导入时用 zod 校验后恢复。
+ * - API Key 不会被导出；导入时保留本机已有的 Key
+ * - 导入为合并：大纲按 id 覆盖，小节故事按键合并，版本历史按版本 id 合并，故事树按节点 id 合并，
+ *   故事状态按小节与正文指纹合并，互动审判按节保留较新的一场，角色问卷整体替换
+ * 注意：需在“use client”组件里调用这些方法，服务端渲染阶段没有 window。
+ */
+
+export const PROJECT_ARCHIVE_FORMAT = "manosaba_ai.project";
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+const ROLES_KEY = "manosaba_ai.roles";
+const SECTION_EXPAND_PREFIX = "manosaba_ai.section_expand.";
+
+const QuestionSchema = z.object({
+  id: z.string(),
+  q: z.string(),
+  a: z.string(),
+  fixed: z.boolean().optional(),
+  placeholder: z.string().optional(),
+});
+
+const RoleSchema = z.object({
+  roleId: z.string().min(1),
+  roleName: z.string(),
+  selected: z.boolean(),
+  expanded: z.boolean(),
+  questions: z.array(QuestionSchema),
+});
+
+const SectionVersionSchema = z.object({
+  id: z.string().min(1),
+  nodeId: z.string().optional(),
+  text: z.string().optional(),
+  model: z.string().default(""),
+  temperature: z.number().optional(),
+  promptHash: z.string().default(""),
+  source: z.enum(["section", "trial", "unknown"]).default("unknown"),
+  createdAt: z.number(),
+});
+
+const StoryNodeSchema = z.object({
+  id: z.string().min(1),
+  parentId: z.string().nullable(),
+  key: z.string(),
+  text: z.string(),
+  choice: z.string().optional(),
+  rounds: z.object({ rounds: z.number(), truncated: z.boolean().optional() }).optional(),
+  choices: z
+    .object({
+      options: z.array(z.object({ label: z.string(), consequence: z.string().default("") })),
+      picked: z.number().optional(),
+    })
+    .optional(),
+  createdAt: z.number(),
+});
+
+const StoryTreeSchema = z.object({
+  nodes: z.record(z.string(), StoryNodeSchema),
+  activeLeaf: z.string().nullable(),
+});
+
+const SectionStateEntrySchema = SectionStateSchema.and(
+  z.object({
+    key: z.string(),
+    fingerprint: z.string(),
+    updatedAt: z.number(),
+  })
+);
+
+const TrialSessionSchema = z.object({
+  key: z.string(),
+  title: z.string(),
+  phase: z.enum(["debate", "vote", "verdict"]),
+  entries: z.array(
+    z.object({
+      id: z.string().min(1),
+      role: z.enum(["player", "cast", "judge"]),
+      speaker: z.string(),
+      text: z.string(),
+      target: z.string().optional(),
+      evidence: z.string().optional(),
+      hit: z.boolean().optional(),
+    })
+  ),
+  ready: z.boolean(),
+  playerVote: z.string().optional(),
+  votes: z.array(z.object({ voter: z.string(), target: z.string() })),
+  executed: z.string().optional(),
+  narration: z.string().optional(),
+  recounted: z.boolean().optional(),
+  finished: z.boolean().optional(),
+  updatedAt: z.number(),
+});
+
+const OutlineSchema = z.object({
+  id: z.string().min(1),
+  sessionId: z.string(),
+  protagonistName: z.string(),
+  createdAt: z.number(),
+  outlineXml: z.string().min(1),
+  charactersXml: z.string().optional(),
+  title: z.string().optional(),
+  sectionStories: z.record(z.string(), z.string()).default({}),
+  sectionExpand: z.record(z.string(), z.boolean()).default({}),
+  /** 各节的生成版本（旧归档没有此字段） */
+  sectionVersions: z.record(z.string(), z.array(SectionVersionSchema)).default({}),
+  /** 故事树：各分支的正文（旧归档没有此字段） */
+  storyTree: StoryTreeSchema.optional(),
+  /** 各节的故事状态（旧归档没有此字段） */
+  storyState: z.record(z.string(), z.array(SectionStateEntrySchema)).default({}),
+  /** 各审判节的互动审判（旧归档没有此字段） */
+  trials: z.record(z.string(), TrialSessionSchema).default({}),
+});
+
+const SettingsSchema = z.object({
+  /** 旧的单一配置（不含 AI_API_KEY） */
+  apiConfig: z.record(z.string(), z.string()).optional(),
+  /** API 档案与分阶段路由（档案不含 apiKey） */
+  apiProfiles: z.unknown().optional(),
+});
+
+export const ProjectArchiveSchema = z.object({
+  format: z.literal(PROJECT_ARCHIVE_FORMAT),
+  version: z.literal(PROJECT_ARCHIVE_VERSION),
+  exportedAt: z.number(),
+  /** 主人公（角色 roleId） */
+  protagonist: z.string().default(""),
+  roles: z.array(RoleSchema),
+  outlines: z.array(OutlineSchema),
+  settings: SettingsSchema.default({}),
+});
+
+export type ProjectArchive = z.infer<typeof ProjectArchiveSchema>;
+export type ArchivedRole = z.infer<typeof RoleSchema>;
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const s = window.localStorage.getItem(key);
+    return s ? (JSON.parse(s) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function stripApiKeys(): ProjectArchive["settings"] {
+  const settings: ProjectArchive["settings"] = {};
+  const cfg = readJson<Record<string, string> | null>(API_CONFIG_KEY, null);
+  if (cfg) {
+    const rest = { ...cfg };
+    delete rest.AI_API_KEY;
+    settings.apiConfig = rest;
+  }
+  const profiles = readJson<{ profiles?: Array<Record<string, unknown>> } | null>(API_PROFILES_KEY, null);
+  if (profiles && Array.isArray(profiles.profiles)) {
+    settings.apiProfiles = {
+      ...profiles,
+      profiles: profiles.profiles.map((p) => ({ ...p, apiKey: "" })),
+    };
+  }
+  return settings;
+}
+
+/**
+ * 从 localStorage 汇总当前项目。roles / protagonist 取页面内存中的最新值（可能尚未落盘）。
+ */
+export function buildProjectArchive(input: { roles: ArchivedRole[]; protagonist: string }): ProjectArchive {
+  const history = loadOutlineHistory();
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    protagonist: input.protagonist,
+    roles: input.roles,
+    outlines: history.map((e) => ({
+      id: e.id,
+      sessionId: e.sessionId,
+      protagonistName: e.protagonistName,
+      createdAt: e.createdAt,
+      outlineXml: e.outlineXml,
+      charactersXml: e.charactersXml,
+      title: e.title,
+      sectionStories: readJson<Record<string, string>>(SECTION_STORIES_PREFIX + e.id, {}),
+      sectionExpand: readJson<Record<string, boolean>>(SECTION_EXPAND_PREFIX + e.id, {}),
+      sectionVersions: loadSectionVersions(e.id),
+      storyTree: loadStoryTree(e.id),
+      storyState: loadStoryState(e.id),
+      trials: loadTrials(e.id),
+    })),
+    settings: stripApiKeys(),
+  };
+}
+
+export type ParseArchiveResult =
+  | { ok: true; archive: ProjectArchive }
+  | { ok: false; error: string };
+
+export function parseProjectArchive(text: string): ParseArchiveResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "文件不是有效的 JSON" };
+  }
+  const format = (json as { format?: unknown } | null)?.format;
+  const version = (json as { version?: unknown } | null)?.version;
+  if (format !== PROJECT_ARCHIVE_FORMAT) {
+    return { ok: false, error: "不是本应用导出的项目文件" };
+  }
+  if (typeof version === "number" && version > PROJECT_ARCHIVE_VERSION) {
+    return { ok: false, error: `项目文件版本 v${version} 高于当前支持的 v${PROJECT_ARCHIVE_VERSION}，请升级后再导入` };
+  }
+  const parsed = ProjectArchiveSchema.safeParse(json);
+  if (!parsed.success) {
+    const first = parsed.error.issues[0];
+    const where = first?.path.join(".") || "(root)";
+    return { ok: false, error: `项目文件校验失败：${where} ${first?.message ?? ""}`.trim() };
+  }
+  return { ok: true, archive: parsed.data };
+}
+
+function restoreSettings(settings: ProjectArchive["settings"]): void {
+  if (settings.apiConfig) {
+    const local = readJson<Record<string, string>>(API_CONFIG_KEY, {});
+    const next: Record<string, string> = { ...settings.apiConfig };
+    if (local.AI_API_KEY) next.AI_API_KEY = local.AI_API_KEY;
+    window.localStorage.setItem(API_CONFIG_KEY, JSON.stringify(next));
+  }
+  const incoming = settings.apiProfiles as { profiles?: Array<Record<string, unknown>> } | undefined;
+  if (incoming && Array.isArray(incoming.profiles)) {
+    const local = readJson<{ profiles?: Array<Record<string, unknown>> }>(API_PROFILES_KEY, {});
+    const keyOf = new Map((local.profiles ?? []).map((p) => [p.id, p.apiKey]));
+    window.localStorage.setItem(
+      API_PROFILES_KEY,
+      JSON.stringify({
+        ...incoming,
+        profiles: incoming.profiles.map((p) => ({ ...p, apiKey: keyOf.get(p.id) ?? "" })),
+      })
+    );
+  }
+}
+
+/**
+ * 把归档写回 localStorage。返回导入的大纲数量。
+ */
+export function restoreProjectArchive(archive: ProjectArchive): { outlines: number } {
+  window.localStorage.setItem(ROLES_KEY, JSON.stringify(archive.roles));
+  // 旧列表中不存在的大纲按导出顺序追加在前
+  for (const o of [...archive.outlines].reverse()) {
+    const entry: OutlineHistoryEntry = {
+      id: o.id,
+      sessionId: o.sessionId,
+      protagonistName: o.protagonistName,
+      createdAt: o.createdAt,
+      outlineXml: o.outlineXml,
+      charactersXml: o.charactersXml,
+      title: o.title,
+    };
+    upsertOutlineHistory(entry);
+    if (Object.keys(o.sectionStories).length > 0) {
+      const local = readJson<Record<string, string>>(SECTION_STORIES_PREFIX + o.id, {});
+      window.localStorage.setItem(SECTION_STORIES_PREFIX + o.id, JSON.stringify({ ...local, ...o.sectionStories }));
+    }
+    if (Object.keys(o.sectionVersions).length > 0) {
+      if (!saveSectionVersions(o.id, mergeSectionVersions(loadSectionVersions(o.id), o.sectionVersions))) {
+        throw new Error("版本历史写入失败（可能超出浏览器存储配额）");
+      }
+    }
+    if (o.storyTree && Object.keys(o.storyTree.nodes).length > 0) {
+      saveStoryTree(o.id, mergeStoryTrees(loadStoryTree(o.id), o.storyTree));
+    }
+    if (Object.keys(o.storyState).length > 0) {
+      saveStoryState(o.id, mergeSectionRecords(loadStoryState(o.id), o.storyState));
+    }
+    if (Object.keys(o.trials).length > 0) {
+      saveTrials(o.id, mergeTrials(loadTrials(o.id), o.trials));
+    }
+    if (Object.keys(o.sectionExpand).length > 0) {
+      window.localStorage.setItem(SECTION_EXPAND_PREFIX + o.id, JSON.stringify(o.sectionExpand));
+    }
+  }
+  restoreSettings(archive.settings);
+  return { outlines: archive.outlines.length };
+}
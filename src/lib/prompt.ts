@@ -1,20 +1,22 @@
+import { renderTemplate as renderWithEngine } from '@/lib/templateEngine';
+
 export type QAItem = { q: string; a: string };
 
 /**
- * 统一的提示词模板，使用占位符：
- * - {x}: 前端问答汇总文本
- * - {instruction}: 附加的写作/生成指令（可选）
+ * 统一的提示词模板（语法见 '@/lib/templateEngine'），使用变量：
+ * - {{x}}: 前端问答汇总文本
+ * - {{instruction}}: 附加的写作/生成指令（可选）
  */
 export const PromptTemplates = {
   base: `下面是一个问答：
-{x}
+{{x}}
 
 请你根据上面来生成回答`,
   withInstruction: `下面是一个问答：
-{x}
+{{x}}
 
 请你根据上面的问答和下列指令生成回答：
-{instruction}`,
+{{instruction}}`,
 } as const;
 
 export const DEFAULT_INSTRUCTION = '请基于上面的问答，输出一个标准 XML 块描述人物设定，格式如下：\\n<characterProfile>\\n  <appearance><![CDATA[...]]></appearance>\\n  <preferences><![CDATA[...]]></preferences>\\n</characterProfile>\\n要求：\\n- 仅输出上述 XML 块，不要额外文字/解释/Markdown/标签以外内容；\\n- 使用中文；\\n- appearance 描述具体外貌（五官、体态、发色/服饰/神态等），50-120 字；\\n- preferences 描述偏好（饮食/颜色/音乐/爱好/禁忌/讨厌的事物等），50-120 字；\\n- 如需包含特殊符号，请置于 CDATA 中。';
@@ -40,14 +42,10 @@ export function qaToText(qa: QAItem[]): string {
 }
 
 /**
- * 渲染模板：替换 {x} 与 {instruction} 占位符
+ * 渲染模板：替换 {{x}} 与 {{instruction}} 变量（变量值中的 {{...}} 不会被再次解析）
  */
 export function renderTemplate(template: string, vars: { x: string; instruction?: string }): string {
-  let result = template.replace(/{x}/g, vars.x);
-  if (vars.instruction !== undefined) {
-    result = result.replace(/{instruction}/g, vars.instruction);
-  }
-  return result;
+  return renderWithEngine(template, { vars }).text;
 }
 
 /**
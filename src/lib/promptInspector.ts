@@ -0,0 +1,46 @@
+import { estimateTokens } from "@/lib/tokenizer";
+import type { WorkflowPromptPart } from "@/lib/workflowPrompts";
+
+/**
+ * 提示词检查器（发送前预览）的开关与统计。
+ * - 开启后，人物补全 / 大纲 / 小节在发送前先打开检查器：可查看各组成部分、请求体，并修改提示词后再发送
+ * - 开关存于 localStorage（键：manosaba_ai.prompt_preview）
+ * 注意：需在“use client”组件里调用这些方法，服务端渲染阶段没有 window。
+ */
+
+export const PROMPT_PREVIEW_KEY = "manosaba_ai.prompt_preview";
+
+export type PromptStats = {
+  chars: number;
+  /** 估算值，见 estimateTokens */
+  tokens: number;
+};
+
+export type MeasuredPromptPart = WorkflowPromptPart & PromptStats;
+
+export function promptStats(text: string): PromptStats {
+  return { chars: text.length, tokens: estimateTokens(text) };
+}
+
+export function measurePromptParts(parts: WorkflowPromptPart[]): MeasuredPromptPart[] {
+  return parts.map((p) => ({ ...p, ...promptStats(p.text) }));
+}
+
+export function loadPromptPreviewEnabled(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return window.localStorage.getItem(PROMPT_PREVIEW_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function savePromptPreviewEnabled(enabled: boolean): void {
+  if (typeof window === "undefined") return;
+  try {
+    if (enabled) window.localStorage.setItem(PROMPT_PREVIEW_KEY, "1");
+    else window.localStorage.removeItem(PROMPT_PREVIEW_KEY);
+  } catch {
+    // ignore
+  }
+}
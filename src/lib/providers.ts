@@ -0,0 +1,415 @@
+/**
+ * 多供应商适配层：把统一的“消息列表 + 采样参数”翻译为各家接口的请求体，
+ * 并把响应/流式分块统一解析为 { text, finishReason, usage }。
+ * 浏览器端（aiClient）与服务端（llmGateway）共用，不依赖 window 或 Node API。
+ *
+ * finishReason 统一为 OpenAI 语义：'stop' | 'length' | 其它原值
+ * usage 统一为 OpenAI 形状：{ prompt_tokens, completion_tokens, total_tokens }
+ * 向量化（embeddings）为可选能力：Anthropic 没有官方接口，不提供
+ */
+
+export type AIProvider = 'openai' | 'anthropic' | 'gemini' | 'ollama';
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type ProviderRequestInput = {
+  baseURL: string;
+  apiKey: string;
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens?: number;
+  stream: boolean;
+};
+
+export type EmbeddingRequestInput = {
+  baseURL: string;
+  apiKey: string;
+  model: string;
+  texts: string[];
+};
+
+export type ProviderRequest = {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+};
+
+export type ProviderResponse = {
+  text: string;
+  finishReason?: string;
+  usage?: OpenAIStyleUsage;
+};
+
+export type ProviderStreamChunk = {
+  delta?: string;
+  finishReason?: string;
+  usage?: OpenAIStyleUsage;
+  done?: boolean;
+};
+
+export type OpenAIStyleUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+export type ProviderAdapter = {
+  id: AIProvider;
+  label: string;
+  /** 供 UI 提示的 Base URL 示例 */
+  baseURLExample: string;
+  requiresApiKey: boolean;
+  /** 流式响应格式：SSE（data: 前缀）或逐行 JSON */
+  streamFormat: 'sse' | 'ndjson';
+  buildRequest(input: ProviderRequestInput): ProviderRequest;
+  parseResponse(data: Record<string, unknown>): ProviderResponse;
+  parseStreamEvent(data: Record<string, unknown>): ProviderStreamChunk;
+  /** 由对话接口地址推导向量化接口并构造请求（可选） */
+  buildEmbeddingRequest?(input: EmbeddingRequestInput): ProviderRequest;
+  /** 解析向量化响应，按输入顺序返回向量 */
+  parseEmbeddingResponse?(data: Record<string, unknown>): number[][];
+};
+
+type Json = Record<string, unknown>;
+
+function num(v: unknown): number {
+  return typeof v === 'number' && Number.isFinite(v) ? v : 0;
+}
+
+function toUsage(prompt: unknown, completion: unknown, total?: unknown): OpenAIStyleUsage | undefined {
+  const p = num(prompt);
+  const c = num(completion);
+  if (!p && !c && !num(total)) return undefined;
+  return { prompt_tokens: p, completion_tokens: c, total_tokens: num(total) || p + c };
+}
+
+function splitSystem(messages: ChatMessage[]): { system: string; rest: ChatMessage[] } {
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+  return { system, rest: messages.filter((m) => m.role !== 'system') };
+}
+
+// ---- OpenAI / OpenRouter 兼容 chat/completions ----
+
+const openaiAdapter: ProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI 兼容（chat/completions）',
+  baseURLExample: 'https://openrouter.ai/api/v1/chat/completions',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+  buildRequest({ baseURL, apiKey, model, messages, temperature, maxTokens, stream }) {
+    return {
+      url: baseURL,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ model, messages, temperature, max_tokens: maxTokens, stream }),
+    };
+  },
+  parseResponse(data) {
+    const choice = (data.choices as Json[] | undefined)?.[0];
+    const message = choice?.message as Json | undefined;
+    const text =
+      (message?.content as string) ??
+      (choice?.text as string) ??
+      (data.output_text as string) ??
+      '';
+    const usage = data.usage as Json | undefined;
+    return {
+      text: typeof text === 'string' ? text : '',
+      finishReason: (choice?.finish_reason as string | null) ?? undefined,
+      usage: usage ? toUsage(usage.prompt_tokens, usage.completion_tokens, usage.total_tokens) : undefined,
+    };
+  },
+  parseStreamEvent(data) {
+    const choice = (data.choices as Json[] | undefined)?.[0];
+    const delta = choice?.delta as Json | undefined;
+    const text = (delta?.content as string) ?? (choice?.text as string) ?? '';
+    const usage = data.usage as Json | undefined;
+    return {
+      delta: typeof text === 'string' ? text : '',
+      finishReason: (choice?.finish_reason as string | null) ?? undefined,
+      usage: usage ? toUsage(usage.prompt_tokens, usage.completion_tokens, usage.total_tokens) : undefined,
+    };
+  },
+  buildEmbeddingRequest({ baseURL, apiKey, model, texts }) {
+    // .../chat/completions → .../embeddings
+    const url = /\/chat\/completions\/?$/i.test(baseURL)
+      ? baseURL.replace(/\/chat\/completions\/?$/i, '/embeddings')
+      : `${baseURL.replace(/\/+$/, '')}/embeddings`;
+    return {
+      url,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ model, input: texts }),
+    };
+  },
+  parseEmbeddingResponse(data) {
+    const items = ((data.data as Json[] | undefined) ?? []).slice();
+    items.sort((a, b) => num(a.index) - num(b.index));
+    return items.map((it) => (Array.isArray(it.embedding) ? (it.embedding as number[]) : []));
+  },
+};
+
+// ---- Anthropic Messages ----
+
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8192;
+
+function anthropicFinish(reason: unknown): string | undefined {
+  if (typeof reason !== 'string') return undefined;
+  if (reason === 'max_tokens') return 'length';
+  if (reason === 'end_turn' || reason === 'stop_sequence') return 'stop';
+  return reason;
+}
+
+const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic Messages',
+  baseURLExample: 'https://api.anthropic.com/v1/messages',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+  buildRequest({ baseURL, apiKey, model, messages, temperature, maxTokens, stream }) {
+    const { system, rest } = splitSystem(messages);
+    return {
+      url: baseURL,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        // 浏览器直连需显式声明
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages: rest.map((m) => ({ role: m.role, content: m.content })),
+        // Anthropic 的 temperature 取值范围为 0-1
+        temperature: Math.min(Math.max(temperature, 0), 1),
+        max_tokens: maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+        stream,
+      }),
+    };
+  },
+  parseResponse(data) {
+    const blocks = (data.content as Json[] | undefined) ?? [];
+    const text = blocks
+      .filter((b) => b.type === 'text')
+      .map((b) => (b.text as string) ?? '')
+      .join('');
+    const usage = data.usage as Json | undefined;
+    return {
+      text,
+      finishReason: anthropicFinish(data.stop_reason),
+      usage: usage ? toUsage(usage.input_tokens, usage.output_tokens) : undefined,
+    };
+  },
+  parseStreamEvent(data) {
+    switch (data.type) {
+      case 'content_block_delta': {
+        const delta = data.delta as Json | undefined;
+        return { delta: delta?.type === 'text_delta' ? ((delta.text as string) ?? '') : '' };
+      }
+      case 'message_start': {
+        const usage = (data.message as Json | undefined)?.usage as Json | undefined;
+        return { usage: usage ? toUsage(usage.input_tokens, usage.output_tokens) : undefined };
+      }
+      case 'message_delta': {
+        const delta = data.delta as Json | undefined;
+        const usage = data.usage as Json | undefined;
+        return {
+          finishReason: anthropicFinish(delta?.stop_reason),
+          usage: usage ? toUsage(usage.input_tokens, usage.output_tokens) : undefined,
+        };
+      }
+      case 'message_stop':
+        return { done: true };
+      default:
+        return {};
+    }
+  },
+};
+
+// ---- Google Gemini generateContent ----
+
+function geminiFinish(reason: unknown): string | undefined {
+  if (typeof reason !== 'string') return undefined;
+  if (reason === 'MAX_TOKENS') return 'length';
+  if (reason === 'STOP') return 'stop';
+  return reason.toLowerCase();
+}
+
+function geminiUrl(baseURL: string, model: string, stream: boolean): string {
+  const method = stream ? 'streamGenerateContent' : 'generateContent';
+  let url: string;
+  // 允许直接填写完整的 :generateContent 地址，或仅填写 API 根路径（自动拼接 models/{model}）
+  if (/:(stream)?generateContent/i.test(baseURL)) {
+    url = baseURL.replace(/:(stream)?generateContent/i, `:${method}`);
+  } else {
+    url = `${baseURL.replace(/\/+$/, '')}/models/${encodeURIComponent(model)}:${method}`;
+  }
+  if (stream && !/[?&]alt=sse/.test(url)) {
+    url += url.includes('?') ? '&alt=sse' : '?alt=sse';
+  }
+  return url;
+}
+
+function geminiParse(data: Json): ProviderResponse {
+  const candidate = (data.candidates as Json[] | undefined)?.[0];
+  const parts = ((candidate?.content as Json | undefined)?.parts as Json[] | undefined) ?? [];
+  const text = parts.map((p) => (typeof p.text === 'string' ? p.text : '')).join('');
+  const meta = data.usageMetadata as Json | undefined;
+  return {
+    text,
+    finishReason: geminiFinish(candidate?.finishReason),
+    usage: meta ? toUsage(meta.promptTokenCount, meta.candidatesTokenCount, meta.totalTokenCount) : undefined,
+  };
+}
+
+const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  label: 'Google Gemini（generateContent）',
+  baseURLExample: 'https://generativelanguage.googleapis.com/v1beta',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+  buildRequest({ baseURL, apiKey, model, messages, temperature, maxTokens, stream }) {
+    const { system, rest } = splitSystem(messages);
+    return {
+      url: geminiUrl(baseURL, model, stream),
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+        contents: rest.map((m) => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }],
+        })),
+        generationConfig: { temperature, maxOutputTokens: maxTokens },
+      }),
+    };
+  },
+  parseResponse: geminiParse,
+  parseStreamEvent(data) {
+    const { text, finishReason, usage } = geminiParse(data);
+    return { delta: text, finishReason, usage };
+  },
+  buildEmbeddingRequest({ baseURL, apiKey, model, texts }) {
+    // 取 API 根路径（去掉 /models/... 部分）后拼接 batchEmbedContents
+    const root = baseURL.replace(/\/models\/.*$/i, '').replace(/\/+$/, '');
+    return {
+      url: `${root}/models/${encodeURIComponent(model)}:batchEmbedContents`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        requests: texts.map((text) => ({ model: `models/${model}`, content: { parts: [{ text }] } })),
+      }),
+    };
+  },
+  parseEmbeddingResponse(data) {
+    return ((data.embeddings as Json[] | undefined) ?? []).map((e) => (Array.isArray(e.values) ? (e.values as number[]) : []));
+  },
+};
+
+// ---- Ollama 本地 /api/chat ----
+
+const ollamaAdapter: ProviderAdapter = {
+  id: 'ollama',
+  label: 'Ollama 本地（/api/chat）',
+  baseURLExample: 'http://localhost:11434/api/chat',
+  requiresApiKey: false,
+  streamFormat: 'ndjson',
+  buildRequest({ baseURL, apiKey, model, messages, temperature, maxTokens, stream }) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    return {
+      url: baseURL,
+      headers,
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        options: { temperature, num_predict: maxTokens },
+      }),
+    };
+  },
+  parseResponse(data) {
+    const message = data.message as Json | undefined;
+    return {
+      text: (message?.content as string) ?? '',
+      finishReason: (data.done_reason as string | undefined) ?? (data.done ? 'stop' : undefined),
+      usage: toUsage(data.prompt_eval_count, data.eval_count),
+    };
+  },
+  parseStreamEvent(data) {
+    const message = data.message as Json | undefined;
+    const done = data.done === true;
+    return {
+      delta: (message?.content as string) ?? '',
+      finishReason: done ? ((data.done_reason as string | undefined) ?? 'stop') : undefined,
+      usage: done ? toUsage(data.prompt_eval_count, data.eval_count) : undefined,
+      done,
+    };
+  },
+  buildEmbeddingRequest({ baseURL, apiKey, model, texts }) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    // .../api/chat → .../api/embed
+    const url = /\/api\/chat\/?$/i.test(baseURL)
+      ? baseURL.replace(/\/api\/chat\/?$/i, '/api/embed')
+      : `${baseURL.replace(/\/+$/, '')}/api/embed`;
+    return { url, headers, body: JSON.stringify({ model, input: texts }) };
+  },
+  parseEmbeddingResponse(data) {
+    return ((data.embeddings as unknown[] | undefined) ?? []).map((e) => (Array.isArray(e) ? (e as number[]) : []));
+  },
+};
+
+const ADAPTERS: Record<AIProvider, ProviderAdapter> = {
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+  ollama: ollamaAdapter,
+};
+
+export const AI_PROVIDERS: ProviderAdapter[] = [openaiAdapter, anthropicAdapter, geminiAdapter, ollamaAdapter];
+
+export function normalizeProvider(p: unknown): AIProvider {
+  return typeof p === 'string' && Object.hasOwn(ADAPTERS, p) ? (p as AIProvider) : 'openai';
+}
+
+export function getProviderAdapter(p: unknown): ProviderAdapter {
+  return ADAPTERS[normalizeProvider(p)];
+}
+
+/**
+ * 解析流式响应中的一行：
+ * - SSE：仅处理 "data:" 行，"data: [DONE]" 视为结束；忽略注释与 event: 行
+ * - NDJSON：每行一个 JSON
+ */
+export function parseProviderStreamLine(adapter: ProviderAdapter, line: string): ProviderStreamChunk | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  let payload = trimmed;
+  if (adapter.streamFormat === 'sse') {
+    if (!trimmed.startsWith('data:')) return null;
+    payload = trimmed.slice(5).trim();
+    if (payload === '[DONE]') return { done: true };
+  }
+  try {
+    return adapter.parseStreamEvent(JSON.parse(payload) as Json);
+  } catch {
+    return null;
+  }
+}
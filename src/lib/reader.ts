@@ -0,0 +1,149 @@
+import { castNamesFromCharactersXml } from "@/lib/charactersXml";
+
+/**
+ * 阅读模式（视觉小说式）脚本：把按顺序排列的小节正文切分为逐条显示的“台词/旁白”。
+ * - 以段落为单位；含「」/“”引号的段落视为台词，并尝试识别说话人
+ * - 过长的旁白段按句末标点再切分，避免一屏文字过多
+ * - 切分为纯函数；已读记录（供“跳过已读”使用）存于 localStorage
+ */
+
+export type ReaderLine = {
+  /** 全局唯一：`${sectionKey}#${idx}` */
+  id: string;
+  sectionKey: string;
+  sectionTitle?: string;
+  /** 小节内序号（0 起） */
+  idx: number;
+  kind: "dialogue" | "narration";
+  speaker?: string;
+  text: string;
+};
+
+export type ReaderSection = {
+  key: string;
+  title?: string;
+  text: string;
+};
+
+const DEFAULT_MAX_CHARS = 120;
+const QUOTE_RE = /[「“『]([\s\S]*?)[」”』]/;
+// 常见的说话人前缀：“艾玛：「……」” / “艾玛说：「……」” / “艾玛低声道，「……」”
+const SPEECH_VERB_RE = /(?:低声|小声|大声|笑着|冷冷地)?(?:说道|问道|喊道|答道|笑道|叹道|说|问|喊|答|道)$/;
+const NAME_RE = /^[\u4e00-\u9fa5A-Za-z·・]{1,8}$/;
+
+/**
+ * 识别说话人：优先匹配已知角色名（取引号前最后出现的名字），否则取“名字：”/“名字说：”形式的前缀。
+ */
+export function detectSpeaker(paragraph: string, knownNames: string[] = []): string | undefined {
+  const q = paragraph.search(QUOTE_RE);
+  if (q < 0) return undefined;
+  const prefix = paragraph.slice(0, q);
+  let best: { name: string; at: number } | null = null;
+  for (const name of knownNames) {
+    if (!name) continue;
+    const at = prefix.lastIndexOf(name);
+    if (at >= 0 && (!best || at > best.at || (at === best.at && name.length > best.name.length))) {
+      best = { name, at };
+    }
+  }
+  if (best) return best.name;
+  const bare = prefix.trim().replace(/[：:，,\s]+$/, "").replace(SPEECH_VERB_RE, "");
+  return NAME_RE.test(bare) ? bare : undefined;
+}
+
+/** 按句末标点切分，并把相邻短句合并到不超过 maxChars 的页 */
+function paginate(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+  const sentences = text.match(/[^。！？!?…]+[。！？!?…」”』]*|[^。！？!?…]+$/g) ?? [text];
+  const pages: string[] = [];
+  let buf = "";
+  for (const s of sentences) {
+    if (buf && buf.length + s.length > maxChars) {
+      pages.push(buf);
+      buf = "";
+    }
+    buf += s;
+  }
+  if (buf) pages.push(buf);
+  return pages;
+}
+
+export function splitStoryLines(
+  section: ReaderSection,
+  knownNames: string[] = [],
+  maxChars: number = DEFAULT_MAX_CHARS
+): ReaderLine[] {
+  const paragraphs = (section.text || "")
+    .split(/\r?\n+/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const out: ReaderLine[] = [];
+  const push = (kind: ReaderLine["kind"], text: string, speaker?: string) => {
+    const idx = out.length;
+    out.push({ id: `${section.key}#${idx}`, sectionKey: section.key, sectionTitle: section.title, idx, kind, speaker, text });
+  };
+  for (const p of paragraphs) {
+    if (QUOTE_RE.test(p)) {
+      // 台词整段保留，过长时仍分页但沿用同一说话人
+      const speaker = detectSpeaker(p, knownNames);
+      for (const page of paginate(p, maxChars)) push("dialogue", page, speaker);
+    } else {
+      for (const page of paginate(p, maxChars)) push("narration", page);
+    }
+  }
+  return out;
+}
+
+/**
+ * 从“人物提示词 XML”（<姓名>）收集可用于识别说话人的名字；
+ * 带空格的全名（如“冰上 梅露露”）同时收录各部分，便于匹配正文中的简称。
+ */
+export function speakerNamesFromCharactersXml(xml: string, extra: string[] = []): string[] {
+  const names = new Set<string>();
+  const add = (raw: string) => {
+    const n = raw.trim();
+    if (!n) return;
+    names.add(n);
+    for (const part of n.split(/[\s·・]+/)) {
+      if (part.length >= 2) names.add(part);
+    }
+  };
+  castNamesFromCharactersXml(xml).forEach(add);
+  extra.forEach(add);
+  return Array.from(names);
+}
+
+/** 将多个小节依次展开为完整阅读脚本 */
+export function buildReaderScript(sections: ReaderSection[], knownNames: string[] = []): ReaderLine[] {
+  return sections.flatMap((s) => splitStoryLines(s, knownNames));
+}
+
+// ---- 已读记录（localStorage；按大纲分区，记录每个小节已读到的最大序号） ----
+
+export const READER_READ_PREFIX = "manosaba_ai.reader_read.";
+
+export type ReadMarks = Record<string, number>;
+
+export function loadReadMarks(outlineId: string): ReadMarks {
+  if (typeof window === "undefined") return {};
+  try {
+    const s = window.localStorage.getItem(READER_READ_PREFIX + outlineId);
+    const j = s ? JSON.parse(s) : {};
+    return j && typeof j === "object" ? (j as ReadMarks) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveReadMarks(outlineId: string, marks: ReadMarks): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(READER_READ_PREFIX + outlineId, JSON.stringify(marks));
+  } catch {
+    // ignore
+  }
+}
+
+export function isLineRead(marks: ReadMarks, line: ReaderLine): boolean {
+  return (marks[line.sectionKey] ?? -1) >= line.idx;
+}
@@ -0,0 +1,89 @@
+import type { ArchivedRole } from "@/lib/projectArchive";
+import type { StoryTree } from "@/lib/storyTree";
+
+/**
+ * 浏览器端（localStorage）的编号存档槽。
+ * 每个槽保存“回到原处”所需的全部状态：流程步骤与阶段、角色问卷、当前大纲（含 XML 快照）、
+ * 已生成的小节故事及其故事树、CG 索引，以及用于列表展示的时间、标题与最远小节预览。
+ * 注意：需在“use client”组件里调用这些方法，服务端渲染阶段没有 window。
+ */
+
+export const SAVE_SLOTS_KEY = "manosaba_ai.save_slots";
+export const SAVE_SLOT_COUNT = 9;
+
+export type SaveStageStatus = "idle" | "running" | "done" | "error";
+
+export type SaveSlot = {
+  /** 槽位编号（1 起） */
+  slot: number;
+  savedAt: number;
+  step: "form" | "progress" | "result";
+  stage: { profile: SaveStageStatus; outline: SaveStageStatus; story: SaveStageStatus };
+  roles: ArchivedRole[];
+  protagonist: string;
+  protagonistName: string;
+  currentOutlineKey: string | null;
+  outlineSessionId: string | null;
+  /** 大纲 XML 快照：即使大纲历史被清空也能恢复 */
+  outlineXml: string;
+  charactersXml?: string;
+  outlineTitle?: string;
+  sectionStories: Record<string, string>;
+  /** 当前大纲的故事树（旧存档没有此字段） */
+  storyTree?: StoryTree;
+  cgIdx: number;
+  /** 最远已生成小节的预览 */
+  preview?: { key: string; sectionTitle?: string; excerpt: string };
+};
+
+export function loadSaveSlots(): Array<SaveSlot | null> {
+  const slots: Array<SaveSlot | null> = Array.from({ length: SAVE_SLOT_COUNT }, () => null);
+  if (typeof window === "undefined") return slots;
+  try {
+    const s = window.localStorage.getItem(SAVE_SLOTS_KEY);
+    const j = s ? JSON.parse(s) : null;
+    if (j && typeof j === "object") {
+      for (const v of Object.values(j as Record<string, SaveSlot>)) {
+        if (v && typeof v.slot === "number" && v.slot >= 1 && v.slot <= SAVE_SLOT_COUNT) {
+          slots[v.slot - 1] = v;
+        }
+      }
+    }
+  } catch {
+    // ignore
+  }
+  return slots;
+}
+
+function writeAll(slots: Array<SaveSlot | null>): void {
+  const map: Record<string, SaveSlot> = {};
+  for (const s of slots) {
+    if (s) map[String(s.slot)] = s;
+  }
+  window.localStorage.setItem(SAVE_SLOTS_KEY, JSON.stringify(map));
+}
+
+/** 写入存档槽（覆盖同编号槽位）；localStorage 满时抛出错误由调用方提示 */
+export function writeSaveSlot(data: SaveSlot): void {
+  if (typeof window === "undefined") return;
+  const slots = loadSaveSlots();
+  slots[data.slot - 1] = data;
+  writeAll(slots);
+}
+
+export function deleteSaveSlot(slot: number): void {
+  if (typeof window === "undefined") return;
+  try {
+    const slots = loadSaveSlots();
+    slots[slot - 1] = null;
+    writeAll(slots);
+  } catch {
+    // ignore
+  }
+}
+
+/** 生成正文预览：压缩空白并截断 */
+export function makeExcerpt(text: string, max = 80): string {
+  const t = (text || "").replace(/\s+/g, " ").trim();
+  return t.length > max ? `${t.slice(0, max)}…` : t;
+}
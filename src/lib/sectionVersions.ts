@@ -0,0 +1,258 @@
+import type { StoryNode } from "@/lib/storyTree";
+
+/**
+ * 小节版本历史：每次生成（含互动审判写入）的模型、温度、提示词指纹与时间一并保留，
+ * 重新生成不再覆盖上一版，可在版本间做逐字对比并恢复任一版本。
+ * - 正文只存于故事树节点，这里按节点 id 记录生成信息；展示时从故事树取回正文
+ * - 与小节正文同一前缀存于 localStorage（键：manosaba_ai.section_stories.<大纲键>.versions），值为“章-节 → 版本列表”
+ * - 本功能之前生成、只存在于故事树中的版本按“来源未知”一并列出
+ */
+
+export const SECTION_STORIES_PREFIX = "manosaba_ai.section_stories.";
+
+export type SectionVersionRecord = {
+  id: string;
+  /** 正文所在的故事树节点（早期记录没有，正文直接存于 text） */
+  nodeId?: string;
+  /** 早期记录保存的正文 */
+  text?: string;
+  /** 生成所用模型；未配置或来源未知时为空 */
+  model: string;
+  temperature?: number;
+  /** 实际发送的提示词指纹（审判等多轮生成、来源未知时为空） */
+  promptHash: string;
+  source: "section" | "trial" | "unknown";
+  createdAt: number;
+};
+
+/** 取回正文后的版本（版本历史面板使用） */
+export type SectionVersion = SectionVersionRecord & { text: string };
+
+/** 小节键 → 版本（按生成时间先后） */
+export type SectionVersions = Record<string, SectionVersionRecord[]>;
+
+export function sectionVersionsKey(outlineKey: string): string {
+  return `${SECTION_STORIES_PREFIX}${outlineKey}.versions`;
+}
+
+export function loadSectionVersions(outlineKey: string): SectionVersions {
+  if (typeof window === "undefined" || !outlineKey) return {};
+  try {
+    const raw = window.localStorage.getItem(sectionVersionsKey(outlineKey));
+    const j = raw ? JSON.parse(raw) : null;
+    return j && typeof j === "object" ? (j as SectionVersions) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** 写入版本记录；超出存储配额时返回 false（正文已在故事树中，不受影响） */
+export function saveSectionVersions(outlineKey: string, versions: SectionVersions): boolean {
+  if (typeof window === "undefined" || !outlineKey) return false;
+  try {
+    window.localStorage.setItem(sectionVersionsKey(outlineKey), JSON.stringify(versions));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let versionSeq = 0;
+
+function versionId(): string {
+  versionSeq = (versionSeq + 1) % 1_000_000;
+  return `${Date.now().toString(36)}-${versionSeq.toString(36)}`;
+}
+
+/** 追加一个版本；与该节最新版本同一节点时只更新其信息 */
+export function addSectionVersion(
+  versions: SectionVersions,
+  key: string,
+  input: Omit<SectionVersionRecord, "id" | "createdAt" | "text"> & { nodeId: string }
+): SectionVersions {
+  const list = versions[key] ?? [];
+  const last = list[list.length - 1];
+  const same = !!last && last.nodeId === input.nodeId;
+  const version: SectionVersionRecord = { ...input, id: same ? last.id : versionId(), createdAt: Date.now() };
+  if (version.temperature === undefined) delete version.temperature;
+  const next = same ? [...list.slice(0, -1), version] : [...list, version];
+  return { ...versions, [key]: next };
+}
+
+/** 合并两份版本记录（按 id 去重），用于导入项目 */
+export function mergeSectionVersions(base: SectionVersions, incoming: SectionVersions): SectionVersions {
+  const out: SectionVersions = { ...base };
+  for (const [key, list] of Object.entries(incoming)) {
+    const ids = new Set((out[key] ?? []).map((v) => v.id));
+    out[key] = [...(out[key] ?? []), ...list.filter((v) => !ids.has(v.id))].sort((a, b) => a.createdAt - b.createdAt);
+  }
+  return out;
+}
+
+/**
+ * 某节的全部版本：已记录的版本（正文从故事树节点取回，节点已不存在的早期记录用其自带正文），
+ * 加上故事树中正文未被记录的节点（来源未知）。正文相同的版本只列一次，保留最后记录的信息。
+ */
+export function collectSectionVersions(recorded: SectionVersionRecord[], nodes: StoryNode[]): SectionVersion[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const byText = new Map<string, SectionVersion>();
+  for (const r of recorded) {
+    const text = (r.nodeId ? byId.get(r.nodeId)?.text : undefined) ?? r.text;
+    if (text !== undefined) byText.set(text, { ...r, text });
+  }
+  for (const n of nodes) {
+    if (byText.has(n.text)) continue;
+    byText.set(n.text, { id: n.id, nodeId: n.id, text: n.text, model: "", promptHash: "", source: "unknown", createdAt: n.createdAt });
+  }
+  return [...byText.values()].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// ---- 逐字对比 ----
+
+export type DiffSegment = { type: "equal" | "delete" | "insert"; text: string };
+
+type EditOp = "=" | "-" | "+";
+
+/**
+ * Myers 差分：返回把 a 变为 b 的编辑序列；编辑数超过 maxEdits 时返回 null。
+ */
+function editScript(a: string[], b: string[], maxEdits: number): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const off = n + m + 1;
+  const v = new Int32Array(2 * off + 1);
+  // trace[d] 为第 d 步开始前 k ∈ [-d, d] 的 v（下标 k + d）
+  const trace: Int32Array[] = [];
+  for (let d = 0; d <= Math.min(n + m, maxEdits); d++) {
+    trace.push(v.slice(off - d, off + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[off + k - 1] < v[off + k + 1]) ? v[off + k + 1] : v[off + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[off + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snap = trace[d];
+    const at = (k: number) => snap[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push("=");
+      x--;
+      y--;
+    }
+    ops.push(x === prevX ? "+" : "-");
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push("=");
+    x--;
+    y--;
+  }
+  return ops.reverse();
+}
+
+function applyScript(a: string[], b: string[], ops: EditOp[], out: DiffSegment[]): void {
+  let i = 0;
+  let j = 0;
+  for (const op of ops) {
+    if (op === "=") {
+      push(out, "equal", a[i++]);
+      j++;
+    } else if (op === "-") push(out, "delete", a[i++]);
+    else push(out, "insert", b[j++]);
+  }
+}
+
+function push(out: DiffSegment[], type: DiffSegment["type"], text: string): void {
+  const last = out[out.length - 1];
+  if (last && last.type === type) last.text += text;
+  else if (text) out.push({ type, text });
+}
+
+// 按句切分（句末标点连同其后的引号归入本句，换行单独成段）
+function sentences(text: string): string[] {
+  return text.match(/[^。！？!?…\n]*[。！？!?…]+[」』”’）)]*|[^。！？!?…\n]+|\n+/g) ?? [];
+}
+
+// 句子级编辑数上限（超出时整体视为替换）
+const MAX_SENTENCE_EDITS = 2000;
+// 改动的句段内做逐字对比的长度上限
+const MAX_CHAR_DIFF = 4000;
+// 逐字对比时相同字符不足此比例的句段整体视为替换，避免零散的同字匹配
+const MIN_CHAR_OVERLAP = 0.5;
+
+/**
+ * 两个版本的逐字差异：先按句对齐，再在改动的句段内逐字比较；改动过大的句段整体标为删除 + 插入。
+ */
+export function diffText(a: string, b: string): DiffSegment[] {
+  const out: DiffSegment[] = [];
+  const sa = sentences(a);
+  const sb = sentences(b);
+  const ops = editScript(sa, sb, MAX_SENTENCE_EDITS);
+  if (!ops) {
+    push(out, "delete", a);
+    push(out, "insert", b);
+    return out;
+  }
+  let i = 0;
+  let j = 0;
+  let del = "";
+  let ins = "";
+  const flush = () => {
+    if (del && ins && del.length + ins.length <= MAX_CHAR_DIFF) {
+      const ca = Array.from(del);
+      const cb = Array.from(ins);
+      // 编辑数 = |a| + |b| - 2·公共字符数
+      const limit = Math.floor((ca.length + cb.length) * (1 - MIN_CHAR_OVERLAP));
+      const chars = editScript(ca, cb, limit);
+      if (chars) applyScript(ca, cb, chars, out);
+      else {
+        push(out, "delete", del);
+        push(out, "insert", ins);
+      }
+    } else {
+      push(out, "delete", del);
+      push(out, "insert", ins);
+    }
+    del = "";
+    ins = "";
+  };
+  for (const op of ops) {
+    if (op === "-") del += sa[i++];
+    else if (op === "+") ins += sb[j++];
+    else {
+      flush();
+      push(out, "equal", sa[i++]);
+      j++;
+    }
+  }
+  flush();
+  return out;
+}
+
+/** 差异统计：删除与新增的字数 */
+export function diffStats(segments: DiffSegment[]): { deleted: number; inserted: number } {
+  let deleted = 0;
+  let inserted = 0;
+  for (const s of segments) {
+    if (s.type === "delete") deleted += Array.from(s.text).length;
+    else if (s.type === "insert") inserted += Array.from(s.text).length;
+  }
+  return { deleted, inserted };
+}
@@ -0,0 +1,262 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * 服务端会话存储：按 sessionId 保存问答会话、角色、大纲与小节故事。
+ * - 接口 SessionStore 与实现解耦，当前实现为文件型 JSON（每个会话一个文件）
+ * - 数据目录：环境变量 MANOSABA_DATA_DIR，缺省为 <cwd>/data；文件位于 <dataDir>/sessions/<sessionId>.json
+ * - 写入先落临时文件再 rename，避免进程中断留下半个 JSON；同一进程内对同一会话的写入串行化
+ * - 各路由模块各自打包、不共享内存，因此一律以磁盘为准，不做进程内缓存
+ */
+
+export type SessionQA = {
+  q: string;
+  a: string;
+};
+
+/** /api/session 的问答会话（提示词与上次输出） */
+export type StoredProfileSession = {
+  qa: SessionQA[];
+  promptOnly: string;
+  appendInstruction: string;
+  finalPrompt: string;
+  templateName?: string;
+  templateRaw?: string;
+  output?: {
+    text: string;
+    model: string;
+    finishReason?: string;
+    usage?: unknown;
+    raw?: unknown;
+  };
+  extractedXml?: {
+    appearance: string;
+    preferences: string;
+  };
+  composedProfilePrompt?: string;
+  updatedAt: number;
+};
+
+export type StoredOutline = {
+  /** 大纲 id（与浏览器端大纲历史的 entry.id 一致） */
+  id: string;
+  outlineXml: string;
+  charactersXml?: string;
+  title?: string;
+  protagonistName?: string;
+  createdAt: number;
+  /** 小节故事：键 = "chapterIdx-sectionIdx" */
+  sectionStories?: Record<string, string>;
+};
+
+export type StoredStory = {
+  title: string;
+  content: string;
+  savedAt: number;
+};
+
+export type SessionRecord = {
+  sessionId: string;
+  title?: string;
+  protagonistName?: string;
+  profile?: StoredProfileSession;
+  /** 角色表单原样保存（结构由前端决定） */
+  roles?: unknown[];
+  outlines: StoredOutline[];
+  story?: StoredStory;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type SessionSummary = {
+  sessionId: string;
+  title?: string;
+  protagonistName?: string;
+  outlineCount: number;
+  sectionCount: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * 局部更新：顶层字段覆盖；outlines 按 id 合并（同 id 覆盖字段，sectionStories 按键合并，值为 null 表示删除该节）。
+ */
+export type SessionPatch = {
+  title?: string;
+  protagonistName?: string;
+  profile?: StoredProfileSession;
+  roles?: unknown[];
+  outlines?: Array<Partial<Omit<StoredOutline, 'sectionStories'>> & {
+    id: string;
+    sectionStories?: Record<string, string | null>;
+  }>;
+  story?: StoredStory;
+};
+
+export interface SessionStore {
+  list(): Promise<SessionSummary[]>;
+  get(sessionId: string): Promise<SessionRecord | null>;
+  update(sessionId: string, patch: SessionPatch): Promise<SessionRecord>;
+  delete(sessionId: string): Promise<boolean>;
+}
+
+/** sessionId 仅允许字母数字、下划线与连字符，防止路径穿越 */
+export const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_PATTERN.test(sessionId);
+}
+
+export function getDataDir(): string {
+  const fromEnv = (process.env.MANOSABA_DATA_DIR ?? '').trim();
+  return fromEnv ? path.resolve(fromEnv) : path.resolve(process.cwd(), 'data');
+}
+
+function summarize(r: SessionRecord): SessionSummary {
+  return {
+    sessionId: r.sessionId,
+    title: r.title,
+    protagonistName: r.protagonistName,
+    outlineCount: r.outlines.length,
+    sectionCount: r.outlines.reduce((n, o) => n + Object.keys(o.sectionStories ?? {}).length, 0),
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+  };
+}
+
+function applyPatch(base: SessionRecord, patch: SessionPatch): SessionRecord {
+  const next: SessionRecord = { ...base };
+  if (patch.title !== undefined) next.title = patch.title;
+  if (patch.protagonistName !== undefined) next.protagonistName = patch.protagonistName;
+  if (patch.profile !== undefined) next.profile = patch.profile;
+  if (patch.roles !== undefined) next.roles = patch.roles;
+  if (patch.story !== undefined) next.story = patch.story;
+
+  if (patch.outlines) {
+    const outlines = [...base.outlines];
+    for (const p of patch.outlines) {
+      const idx = outlines.findIndex((o) => o.id === p.id);
+      const prev: StoredOutline = idx >= 0 ? outlines[idx] : { id: p.id, outlineXml: '', createdAt: Date.now() };
+      const { sectionStories: storiesPatch, ...fields } = p;
+      const merged: StoredOutline = { ...prev };
+      for (const [k, v] of Object.entries(fields) as Array<[keyof StoredOutline, unknown]>) {
+        if (v !== undefined) (merged as Record<string, unknown>)[k] = v;
+      }
+      if (storiesPatch) {
+        const stories = { ...(prev.sectionStories ?? {}) };
+        for (const [key, text] of Object.entries(storiesPatch)) {
+          if (text === null) delete stories[key];
+          else stories[key] = text;
+        }
+        merged.sectionStories = stories;
+      }
+      if (idx >= 0) outlines[idx] = merged;
+      else outlines.push(merged);
+    }
+    next.outlines = outlines;
+  }
+
+  next.updatedAt = Date.now();
+  return next;
+}
+
+export class FileSessionStore implements SessionStore {
+  private readonly dir: string;
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(dataDir: string) {
+    this.dir = path.join(dataDir, 'sessions');
+  }
+
+  private fileOf(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) {
+      throw new Error(`Invalid sessionId: ${sessionId}`);
+    }
+    return path.join(this.dir, `${sessionId}.json`);
+  }
+
+  /** 同一会话的读改写串行执行 */
+  private withLock<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+    const prev = this.locks.get(sessionId) ?? Promise.resolve();
+    const run = prev.catch(() => undefined).then(fn);
+    this.locks.set(sessionId, run);
+    return run.finally(() => {
+      if (this.locks.get(sessionId) === run) this.locks.delete(sessionId);
+    });
+  }
+
+  private async read(sessionId: string): Promise<SessionRecord | null> {
+    try {
+      const raw = await fs.readFile(this.fileOf(sessionId), 'utf8');
+      const data = JSON.parse(raw) as SessionRecord;
+      return { ...data, outlines: Array.isArray(data.outlines) ? data.outlines : [] };
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  private async write(record: SessionRecord): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.fileOf(record.sessionId);
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(record, null, 2), 'utf8');
+    await fs.rename(tmp, file);
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') return [];
+      throw err;
+    }
+    const out: SessionSummary[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const id = name.slice(0, -'.json'.length);
+      if (!isValidSessionId(id)) continue;
+      try {
+        const r = await this.read(id);
+        if (r) out.push(summarize(r));
+      } catch {
+        // 跳过损坏的文件
+      }
+    }
+    return out.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  get(sessionId: string): Promise<SessionRecord | null> {
+    return this.read(sessionId);
+  }
+
+  update(sessionId: string, patch: SessionPatch): Promise<SessionRecord> {
+    return this.withLock(sessionId, async () => {
+      const now = Date.now();
+      const base = (await this.read(sessionId)) ?? { sessionId, outlines: [], createdAt: now, updatedAt: now };
+      const next = applyPatch(base, patch);
+      await this.write(next);
+      return next;
+    });
+  }
+
+  delete(sessionId: string): Promise<boolean> {
+    return this.withLock(sessionId, async () => {
+      try {
+        await fs.unlink(this.fileOf(sessionId));
+        return true;
+      } catch (err: unknown) {
+        if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') return false;
+        throw err;
+      }
+    });
+  }
+}
+
+let instance: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (!instance) instance = new FileSessionStore(getDataDir());
+  return instance;
+}
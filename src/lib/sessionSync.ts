@@ -0,0 +1,67 @@
+import type { SessionPatch, SessionRecord, SessionSummary } from "@/lib/sessionStore";
+
+/**
+ * 浏览器端与服务端会话存储（/api/session/store/*）的同步工具。
+ * - 推送为“尽力而为”：纯静态部署没有服务端时静默失败，不影响本地 localStorage 流程
+ * - 拉取用于在另一台浏览器中打开已保存的会话
+ */
+
+const BASE = "/api/session/store";
+
+async function postJson<T>(url: string, body: unknown): Promise<T | null> {
+  try {
+    const resp = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!resp.ok) return null;
+    return (await resp.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function pushSession(sessionId: string, patch: SessionPatch): Promise<boolean> {
+  const res = await postJson<{ ok: boolean }>(`${BASE}/update`, { sessionId, ...patch });
+  return !!res?.ok;
+}
+
+/**
+ * 小节故事的增量补丁：相对上次推送的内容，新增或改动的节给出正文，已移除的节给出 null（服务端按键合并，null 即删除）。
+ * 没有变化时返回 null。
+ */
+export function sectionStoriesPatch(
+  prev: Record<string, string>,
+  next: Record<string, string>
+): Record<string, string | null> | null {
+  const patch: Record<string, string | null> = {};
+  for (const [key, text] of Object.entries(next)) {
+    if (prev[key] !== text) patch[key] = text;
+  }
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) patch[key] = null;
+  }
+  return Object.keys(patch).length > 0 ? patch : null;
+}
+
+export async function listServerSessions(): Promise<SessionSummary[] | null> {
+  try {
+    const resp = await fetch(`${BASE}/list`);
+    if (!resp.ok) return null;
+    const data = (await resp.json()) as { ok: boolean; sessions?: SessionSummary[] };
+    return data.ok ? data.sessions ?? [] : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchServerSession(sessionId: string): Promise<SessionRecord | null> {
+  const res = await postJson<{ ok: boolean; session?: SessionRecord }>(`${BASE}/get`, { sessionId });
+  return res?.ok ? res.session ?? null : null;
+}
+
+export async function deleteServerSession(sessionId: string): Promise<boolean> {
+  const res = await postJson<{ ok: boolean }>(`${BASE}/delete`, { sessionId });
+  return !!res?.ok;
+}
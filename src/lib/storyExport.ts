@@ -0,0 +1,279 @@
+import type { FullOutlineXML, OutlineXML } from "@/lib/xml";
+import { createZip } from "@/lib/zip";
+
+/**
+ * 成品故事导出：把大纲结构与已生成的小节正文组合成“书”，输出 Markdown、单文件 HTML 与 EPUB 3。
+ * - 章节结构取自 chapterTitle / sectionTitle；小节键为 "chapterIdx-sectionIdx"
+ * - 默认只收录已生成的小节，没有任何已生成小节的章会被省略
+ * - 纯函数，不依赖 DOM；下载由调用方处理
+ */
+
+export type BookSection = {
+  key: string;
+  title: string;
+  text: string;
+};
+
+export type BookChapter = {
+  title: string;
+  sections: BookSection[];
+};
+
+export type StoryBook = {
+  title: string;
+  premise?: string;
+  ending?: string;
+  author?: string;
+  chapters: BookChapter[];
+};
+
+export function bookFromOutline(
+  outline: { full?: FullOutlineXML | null; minimal?: OutlineXML | null },
+  sectionStories: Record<string, string>,
+  opts?: { title?: string; author?: string }
+): StoryBook {
+  const chapters: BookChapter[] = [];
+  if (outline.full) {
+    outline.full.chapters.forEach((ch, ci) => {
+      const sections = ch.sections
+        .map((sec, si) => ({ key: `${ci}-${si}`, title: sec.sectionTitle, text: sectionStories[`${ci}-${si}`] ?? "" }))
+        .filter((s) => s.text.trim());
+      if (sections.length > 0) chapters.push({ title: ch.chapterTitle, sections });
+    });
+  } else if (outline.minimal) {
+    const sections = outline.minimal.beats
+      .map((_, i) => ({ key: `0-${i}`, title: `第${i + 1}节`, text: sectionStories[`0-${i}`] ?? "" }))
+      .filter((s) => s.text.trim());
+    if (sections.length > 0) chapters.push({ title: "正文", sections });
+  }
+  return {
+    title: opts?.title || outline.full?.title || "未命名故事",
+    premise: outline.full?.premise ?? outline.minimal?.premise,
+    ending: outline.full?.ending,
+    author: opts?.author,
+    chapters,
+  };
+}
+
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\r?\n+/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function sectionId(key: string): string {
+  return `s-${key}`;
+}
+
+// ---- Markdown ----
+
+export function toMarkdown(book: StoryBook): string {
+  const out: string[] = [`# ${book.title}`, ""];
+  if (book.author) out.push(`作者：${book.author}`, "");
+  if (book.premise) out.push(`> ${book.premise}`, "");
+  out.push("## 目录", "");
+  book.chapters.forEach((ch) => {
+    out.push(`- ${ch.title}`);
+    ch.sections.forEach((s) => out.push(`  - ${s.title}`));
+  });
+  out.push("");
+  for (const ch of book.chapters) {
+    out.push(`## ${ch.title}`, "");
+    for (const s of ch.sections) {
+      out.push(`### ${s.title}`, "");
+      for (const p of paragraphs(s.text)) out.push(p, "");
+    }
+  }
+  if (book.ending) out.push("## 结局", "", book.ending, "");
+  return out.join("\n");
+}
+
+// ---- 单文件 HTML ----
+
+const BOOK_CSS = `
+body { margin: 0; background: #fff; color: #111; font-family: "Noto Serif SC", "Songti SC", serif; }
+main { max-width: 760px; margin: 0 auto; padding: 48px 24px 96px; }
+h1 { font-size: 32px; line-height: 40px; margin: 0 0 16px; }
+h2 { font-size: 24px; line-height: 32px; margin: 56px 0 16px; border-bottom: 1px solid rgba(0,0,0,.15); padding-bottom: 8px; }
+h3 { font-size: 18px; line-height: 26px; margin: 32px 0 12px; }
+p { font-size: 17px; line-height: 30px; text-indent: 2em; margin: 0 0 12px; }
+.premise { color: rgba(0,0,0,.7); text-indent: 0; }
+nav ol { padding-left: 20px; line-height: 28px; }
+nav a { color: inherit; }
+`.trim();
+
+export function toHtml(book: StoryBook): string {
+  const toc = book.chapters
+    .map(
+      (ch) =>
+        `<li>${escapeXml(ch.title)}<ol>${ch.sections
+          .map((s) => `<li><a href="#${sectionId(s.key)}">${escapeXml(s.title)}</a></li>`)
+          .join("")}</ol></li>`
+    )
+    .join("\n");
+  const body = book.chapters
+    .map(
+      (ch) =>
+        `<section>\n<h2>${escapeXml(ch.title)}</h2>\n${ch.sections
+          .map(
+            (s) =>
+              `<article id="${sectionId(s.key)}">\n<h3>${escapeXml(s.title)}</h3>\n${paragraphs(s.text)
+                .map((p) => `<p>${escapeXml(p)}</p>`)
+                .join("\n")}\n</article>`
+          )
+          .join("\n")}\n</section>`
+    )
+    .join("\n");
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeXml(book.title)}</title>
+<style>
+${BOOK_CSS}
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeXml(book.title)}</h1>
+${book.author ? `<p class="premise">作者：${escapeXml(book.author)}</p>\n` : ""}${book.premise ? `<p class="premise">${escapeXml(book.premise)}</p>\n` : ""}<nav><h2>目录</h2><ol>
+${toc}
+</ol></nav>
+${body}
+${book.ending ? `<section><h2>结局</h2><p>${escapeXml(book.ending)}</p></section>\n` : ""}</main>
+</body>
+</html>
+`;
+}
+
+// ---- EPUB 3 ----
+
+function xhtmlPage(title: string, bodyHtml: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="zh-CN" lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${bodyHtml}
+</body>
+</html>
+`;
+}
+
+function uuid(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  const hex = Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+export function toEpub(book: StoryBook, opts?: { identifier?: string; modified?: Date }): Uint8Array {
+  const identifier = opts?.identifier ?? `urn:uuid:${uuid()}`;
+  // dcterms:modified 需为不带毫秒的 UTC 时间
+  const modified = (opts?.modified ?? new Date()).toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  const sectionFiles = book.chapters.flatMap((ch) =>
+    ch.sections.map((s, i) => ({
+      id: sectionId(s.key),
+      href: `${sectionId(s.key)}.xhtml`,
+      title: s.title,
+      html: xhtmlPage(
+        s.title,
+        `${i === 0 ? `<h2>${escapeXml(ch.title)}</h2>\n` : ""}<section epub:type="chapter" id="${sectionId(s.key)}">\n<h3>${escapeXml(s.title)}</h3>\n${paragraphs(s.text)
+          .map((p) => `<p>${escapeXml(p)}</p>`)
+          .join("\n")}\n</section>`
+      ),
+    }))
+  );
+
+  const titlePage = xhtmlPage(
+    book.title,
+    `<section epub:type="titlepage">\n<h1>${escapeXml(book.title)}</h1>\n${book.author ? `<p class="premise">作者：${escapeXml(book.author)}</p>\n` : ""}${book.premise ? `<p class="premise">${escapeXml(book.premise)}</p>\n` : ""}</section>`
+  );
+
+  const navPage = xhtmlPage(
+    "目录",
+    `<nav epub:type="toc" id="toc">\n<h2>目录</h2>\n<ol>\n${book.chapters
+      .map(
+        (ch) =>
+          `<li><a href="${sectionId(ch.sections[0].key)}.xhtml">${escapeXml(ch.title)}</a>\n<ol>\n${ch.sections
+            .map((s) => `<li><a href="${sectionId(s.key)}.xhtml">${escapeXml(s.title)}</a></li>`)
+            .join("\n")}\n</ol></li>`
+      )
+      .join("\n")}\n</ol>\n</nav>`
+  );
+
+  const endingPage = book.ending
+    ? xhtmlPage("结局", `<section epub:type="epilogue">\n<h2>结局</h2>\n<p>${escapeXml(book.ending)}</p>\n</section>`)
+    : null;
+
+  const manifest = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />`,
+    `<item id="css" href="style.css" media-type="text/css" />`,
+    `<item id="title" href="title.xhtml" media-type="application/xhtml+xml" />`,
+    ...sectionFiles.map((f) => `<item id="${f.id}" href="${f.href}" media-type="application/xhtml+xml" />`),
+    ...(endingPage ? [`<item id="ending" href="ending.xhtml" media-type="application/xhtml+xml" />`] : []),
+  ];
+  const spine = [
+    `<itemref idref="title" />`,
+    `<itemref idref="nav" />`,
+    ...sectionFiles.map((f) => `<itemref idref="${f.id}" />`),
+    ...(endingPage ? [`<itemref idref="ending" />`] : []),
+  ];
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="bookid" xml:lang="zh-CN">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="bookid">${escapeXml(identifier)}</dc:identifier>
+<dc:title>${escapeXml(book.title)}</dc:title>
+<dc:language>zh-CN</dc:language>
+${book.author ? `<dc:creator>${escapeXml(book.author)}</dc:creator>\n` : ""}<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+${manifest.join("\n")}
+</manifest>
+<spine>
+${spine.join("\n")}
+</spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>
+`;
+
+  return createZip([
+    { name: "mimetype", data: "application/epub+zip" },
+    { name: "META-INF/container.xml", data: container },
+    { name: "OEBPS/content.opf", data: opf },
+    { name: "OEBPS/style.css", data: BOOK_CSS },
+    { name: "OEBPS/title.xhtml", data: titlePage },
+    { name: "OEBPS/nav.xhtml", data: navPage },
+    ...sectionFiles.map((f) => ({ name: `OEBPS/${f.href}`, data: f.html })),
+    ...(endingPage ? [{ name: "OEBPS/ending.xhtml", data: endingPage }] : []),
+  ]);
+}
+
+/** 生成安全的文件名（去除路径与保留字符） */
+export function safeFileName(name: string, fallback = "story"): string {
+  const s = (name || "").replace(/[\\/:*?"<>|\r\n]+/g, "_").trim();
+  return s || fallback;
+}
@@ -0,0 +1,142 @@
+import type { SectionMemoryXML } from "@/lib/xml";
+
+/**
+ * 剧情记忆（“故事至今”）：每节生成后由模型提炼摘要与要事（死亡、处刑、线索、关系变化），
+ * 按故事顺序累积后注入之后每一节的提示词（跨章有效），弥补只传上一节正文带来的遗忘。
+ * - 按大纲键分区存于 localStorage（键：manosaba_ai.story_memory.<大纲键>），与小节正文同一分区方式
+ * - 每条记忆记录所依据正文的指纹；小节重新生成后指纹不符，下次使用前重新提炼
+ * - 同一节在不同分支上的每份正文各保留一条记忆（见 SectionRecords），切换分支后不必重新提炼
+ */
+
+export type SectionMemory = SectionMemoryXML & {
+  /** 小节键（"章-节"，0 起） */
+  key: string;
+  title: string;
+  /** 提炼时小节正文的指纹 */
+  fingerprint: string;
+  updatedAt: number;
+};
+
+export type StoryMemory = SectionRecords<SectionMemory>;
+
+export const STORY_MEMORY_PREFIX = "manosaba_ai.story_memory.";
+
+/** 剧情记忆模板的内置版本（世界包未提供 workflow/剧情记忆提示词.md 时使用） */
+export const DEFAULT_MEMORY_TEMPLATE = `请为连载故事第{{chapterIndex}}章第{{sectionIndex}}节《{{sectionTitle}}》整理剧情记忆。
+{{#if storySoFar}}
+此前的剧情记忆（仅供对照，不要重复记录）：
+{{storySoFar}}
+
+{{/if}}
+本节正文：
+{{sectionText}}
+
+请只根据本节正文，按如下XML格式输出，不要输出其他内容；没有内容的分类保留空标签：
+<sectionMemory>
+  <summary><![CDATA[本节剧情摘要，100~200字]]></summary>
+  <deaths><item><![CDATA[死者：死因与发现经过]]></item></deaths>
+  <executions><item><![CDATA[被处刑者：审判结果与处刑方式]]></item></executions>
+  <clues><item><![CDATA[线索内容与发现者]]></item></clues>
+  <relationships><item><![CDATA[人物A与人物B：关系变化]]></item></relationships>
+</sectionMemory>`;
+
+/** 正文指纹：长度 + 32 位哈希，足以识别重新生成或编辑 */
+export function textFingerprint(text: string): string {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = ((h << 5) + h + text.charCodeAt(i)) | 0;
+  return `${text.length}:${(h >>> 0).toString(36)}`;
+}
+
+// ---- 按正文指纹保留的小节记录（剧情记忆、故事状态、连贯性审校共用） ----
+
+/** 小节键 → 记录列表：每份正文（按指纹）一条，按写入先后排列 */
+export type SectionRecords<T> = Record<string, T[]>;
+
+// 每节最多保留的记录数（分支很多时丢弃最早写入的）
+const MAX_RECORDS_PER_SECTION = 16;
+
+/** 某节基于当前正文的记录 */
+export function freshRecord<T extends { fingerprint: string }>(
+  records: SectionRecords<T>,
+  key: string,
+  text: string | undefined
+): T | undefined {
+  if (!text) return undefined;
+  const fp = textFingerprint(text);
+  return records[key]?.find((e) => e.fingerprint === fp);
+}
+
+/** 写入一条记录，替换同一份正文的旧记录；其他正文（其他分支）的记录保留 */
+export function putRecord<T extends { key: string; fingerprint: string }>(records: SectionRecords<T>, entry: T): SectionRecords<T> {
+  const rest = (records[entry.key] ?? []).filter((e) => e.fingerprint !== entry.fingerprint);
+  return { ...records, [entry.key]: [...rest, entry].slice(-MAX_RECORDS_PER_SECTION) };
+}
+
+/** 并入另一份记录（导入项目）：逐条写入，同一份正文以 incoming 为准 */
+export function mergeSectionRecords<T extends { key: string; fingerprint: string }>(
+  base: SectionRecords<T>,
+  incoming: SectionRecords<T>
+): SectionRecords<T> {
+  let out = base;
+  for (const list of Object.values(incoming)) for (const entry of list) out = putRecord(out, entry);
+  return out;
+}
+
+/** 读取存储的小节记录；旧格式每节只有一条，读入时转为列表 */
+export function readSectionRecords<T>(storageKey: string): SectionRecords<T> {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    const j: unknown = raw ? JSON.parse(raw) : null;
+    if (!j || typeof j !== "object" || Array.isArray(j)) return {};
+    const out: SectionRecords<T> = {};
+    for (const [key, v] of Object.entries(j)) {
+      if (Array.isArray(v)) out[key] = v as T[];
+      else if (v && typeof v === "object") out[key] = [v as T];
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+export function loadStoryMemory(outlineKey: string): StoryMemory {
+  if (!outlineKey) return {};
+  return readSectionRecords<SectionMemory>(STORY_MEMORY_PREFIX + outlineKey);
+}
+
+export function saveStoryMemory(outlineKey: string, memory: StoryMemory): void {
+  if (typeof window === "undefined" || !outlineKey) return;
+  window.localStorage.setItem(STORY_MEMORY_PREFIX + outlineKey, JSON.stringify(memory));
+}
+
+/** 小节键转为“第X章第Y节” */
+export function sectionPosition(key: string): string {
+  const [ci, si] = key.split("-").map((x) => parseInt(x, 10));
+  return `第${(ci || 0) + 1}章第${(si || 0) + 1}节`;
+}
+
+const MEMORY_CATEGORIES: Array<{ field: "deaths" | "executions" | "clues" | "relationships"; label: string }> = [
+  { field: "deaths", label: "已死亡" },
+  { field: "executions", label: "已处刑" },
+  { field: "clues", label: "已发现的线索" },
+  { field: "relationships", label: "关系变化" },
+];
+
+/**
+ * 把按故事顺序排列的各节记忆整理为注入提示词的“故事至今”文本。
+ * recentSummaries 限定保留摘要的最近节数（更早的只保留要事），用于压缩上下文。
+ */
+export function formatStoryMemory(entries: SectionMemory[], opts?: { recentSummaries?: number }): string {
+  if (entries.length === 0) return "";
+  const keep = opts?.recentSummaries ?? entries.length;
+  const skipped = Math.max(0, entries.length - keep);
+  const lines = ["剧情摘要："];
+  if (skipped > 0) lines.push(`- （前 ${skipped} 节摘要从略，要事见下）`);
+  for (const e of entries.slice(skipped)) lines.push(`- ${sectionPosition(e.key)}《${e.title}》：${e.summary}`);
+  for (const { field, label } of MEMORY_CATEGORIES) {
+    const items = entries.flatMap((e) => (e[field] ?? []).map((it) => `- ${it}（${sectionPosition(e.key)}）`));
+    lines.push("", `${label}：`, ...(items.length > 0 ? items : ["- 无"]));
+  }
+  return lines.join("\n");
+}
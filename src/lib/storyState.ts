@@ -0,0 +1,234 @@
+import { renderTemplate, type TemplateIssue, type TemplateVariableSpec } from "@/lib/templateEngine";
+import { readSectionRecords, sectionPosition, type SectionRecords } from "@/lib/storyMemory";
+import type { SectionStateClue, SectionStateDeath, SectionStateTrial, SectionStateXML } from "@/lib/xml";
+
+/**
+ * 故事状态：每节生成后以结构化请求（固定 XML 格式 + zod 校验）提取本节的死亡与凶手、审判投票与处刑、
+ * 魔女化进度和线索，按故事顺序汇总为登场人物的存活状态。
+ * - 汇总结果显示在“局势”侧栏，并注入之后各节的提示词，已死亡或被处刑的角色不再以活人身份出场
+ * - 按大纲键分区存于 localStorage（键：manosaba_ai.story_state.<大纲键>），每节每份正文一条，带正文指纹（同剧情记忆）
+ */
+
+export type SectionState = SectionStateXML & {
+  /** 小节键（"章-节"，0 起） */
+  key: string;
+  /** 提取时小节正文的指纹 */
+  fingerprint: string;
+  updatedAt: number;
+};
+
+export type StoryStateRecord = SectionRecords<SectionState>;
+
+export const STORY_STATE_PREFIX = "manosaba_ai.story_state.";
+
+export function loadStoryState(outlineKey: string): StoryStateRecord {
+  if (!outlineKey) return {};
+  return readSectionRecords<SectionState>(STORY_STATE_PREFIX + outlineKey);
+}
+
+export function saveStoryState(outlineKey: string, record: StoryStateRecord): void {
+  if (typeof window === "undefined" || !outlineKey) return;
+  window.localStorage.setItem(STORY_STATE_PREFIX + outlineKey, JSON.stringify(record));
+}
+
+// ---- 汇总 ----
+
+export type CastStatus = "alive" | "dead" | "executed";
+
+export const CAST_STATUS_LABELS: Record<CastStatus, string> = {
+  alive: "存活",
+  dead: "已死亡",
+  executed: "已处刑",
+};
+
+/** 魔女化程度 0~4 的说明 */
+export const WITCH_STAGE_LABELS = ["未显现", "初现征兆", "明显", "严重", "完全魔女化"];
+
+export type CastState = {
+  name: string;
+  status: CastStatus;
+  /** 死亡或被处刑的小节键 */
+  endedIn?: string;
+  killer?: string;
+  cause?: string;
+  witchStage: number;
+  witchNote?: string;
+  /** 不在登场人物名单中、由正文提取到的人物 */
+  extra?: boolean;
+};
+
+export type StoryStateSnapshot = {
+  cast: CastState[];
+  deaths: Array<SectionStateDeath & { key: string }>;
+  trials: Array<SectionStateTrial & { key: string }>;
+  clues: Array<SectionStateClue & { key: string }>;
+  /** 已汇总的小节数 */
+  sections: number;
+};
+
+function normalizeName(name: string): string {
+  return name.replace(/[\s·・]/g, "");
+}
+
+/** 姓名匹配：去掉空格与间隔号后相同，或一方包含另一方（全名与名字，如“冰上 梅露露”与“梅露露”） */
+export function sameCharacter(a: string, b: string): boolean {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return false;
+  return x === y || (Math.min(x.length, y.length) >= 2 && (x.includes(y) || y.includes(x)));
+}
+
+/** 按故事顺序把各节状态汇总为当前局势；castNames 为登场人物名单（初始均为存活） */
+export function reduceStoryState(castNames: string[], entries: SectionState[]): StoryStateSnapshot {
+  const cast: CastState[] = castNames.map((name) => ({ name, status: "alive", witchStage: 0 }));
+  const find = (name: string): CastState => {
+    const hit = cast.find((c) => sameCharacter(c.name, name));
+    if (hit) return hit;
+    const extra: CastState = { name, status: "alive", witchStage: 0, extra: true };
+    cast.push(extra);
+    return extra;
+  };
+  const snapshot: StoryStateSnapshot = { cast, deaths: [], trials: [], clues: [], sections: entries.length };
+
+  for (const e of entries) {
+    for (const d of e.deaths) {
+      const c = find(d.victim);
+      if (c.status === "alive") {
+        Object.assign(c, { status: "dead", endedIn: e.key, killer: d.killer || undefined, cause: d.cause || undefined });
+        snapshot.deaths.push({ ...d, key: e.key });
+      } else if (c.status === "dead" && d.killer && !c.killer) {
+        // 后续小节查明了凶手
+        c.killer = d.killer;
+        const prev = snapshot.deaths.find((x) => sameCharacter(x.victim, c.name));
+        if (prev) prev.killer = d.killer;
+      }
+    }
+    for (const t of e.trials) {
+      if (t.executed) {
+        const c = find(t.executed);
+        if (c.status === "alive") Object.assign(c, { status: "executed", endedIn: e.key });
+      }
+      snapshot.trials.push({ ...t, key: e.key });
+    }
+    for (const w of e.witchification) {
+      const c = find(w.name);
+      c.witchStage = w.stage;
+      c.witchNote = w.note || undefined;
+    }
+    for (const clue of e.clues) {
+      if (!snapshot.clues.some((x) => x.content === clue.content)) snapshot.clues.push({ ...clue, key: e.key });
+    }
+  }
+  return snapshot;
+}
+
+/** 人物在当前局势中是否存活（名单外的人物视为存活） */
+export function isCharacterAlive(snapshot: StoryStateSnapshot, name: string): boolean {
+  const c = snapshot.cast.find((x) => sameCharacter(x.name, name));
+  return !c || c.status === "alive";
+}
+
+/** 整理为注入提示词的“当前局势”文本；尚无任何小节状态时为空串 */
+export function formatStoryState(snapshot: StoryStateSnapshot): string {
+  if (snapshot.sections === 0) return "";
+  const alive = snapshot.cast.filter((c) => c.status === "alive");
+  const witch = (c: CastState) => (c.witchStage > 0 ? `（魔女化：${WITCH_STAGE_LABELS[c.witchStage]}）` : "");
+  const lines = [`存活：${alive.length > 0 ? alive.map((c) => `${c.name}${witch(c)}`).join("、") : "无"}`];
+
+  const dead = snapshot.cast.filter((c) => c.status === "dead");
+  if (dead.length > 0) {
+    lines.push("已死亡：");
+    for (const c of dead) {
+      const where = c.endedIn ? sectionPosition(c.endedIn) : "";
+      lines.push(`- ${c.name}（${[where, c.cause && `死因：${c.cause}`, `凶手：${c.killer || "未查明"}`].filter(Boolean).join("；")}）`);
+    }
+  }
+  const executed = snapshot.cast.filter((c) => c.status === "executed");
+  if (executed.length > 0) {
+    lines.push(`已处刑：${executed.map((c) => `${c.name}${c.endedIn ? `（${sectionPosition(c.endedIn)}）` : ""}`).join("、")}`);
+  }
+  if (snapshot.trials.length > 0) {
+    lines.push("审判记录：");
+    for (const t of snapshot.trials) {
+      const votes = t.votes.map((v) => `${v.voter}→${v.target}`).join("、");
+      const result = [t.accused && `指认 ${t.accused}`, t.executed ? `处刑 ${t.executed}` : "未处刑", votes && `投票 ${votes}`];
+      lines.push(`- ${sectionPosition(t.key)}：${result.filter(Boolean).join("；")}`);
+    }
+  }
+  if (snapshot.clues.length > 0) {
+    lines.push("已发现的线索：");
+    for (const c of snapshot.clues) {
+      const meta = [c.finder && `发现者：${c.finder}`, c.pointsTo && `指向：${c.pointsTo}`].filter(Boolean).join("；");
+      lines.push(`- ${c.content}${meta ? `（${meta}）` : ""}`);
+    }
+  }
+  if (dead.length + executed.length > 0) {
+    lines.push("", "注意：已死亡或被处刑的角色不能再以活人身份出场、行动或说话，只能出现在回忆、遗物或他人的提及中。");
+  }
+  return lines.join("\n");
+}
+
+// ---- 提取请求 ----
+
+const STATE_EXTRACTION_VARS: TemplateVariableSpec[] = [
+  { name: "position", description: "小节位置（第X章第Y节）", required: true },
+  { name: "sectionTitle", description: "节标题", required: true },
+  { name: "sectionText", description: "本节正文", required: true },
+  { name: "castList", description: "登场人物姓名列表" },
+  { name: "stateSoFar", description: "此前的局势（首节为空）" },
+];
+
+/** 状态提取提示词：输出格式与 parseSectionStateXml 对应，不随世界包变化 */
+const STATE_EXTRACTION_TEMPLATE = `你是一名严谨的记录员，负责追踪一部魔女审判推理故事的局势。下面是{{position}}《{{sectionTitle}}》的正文。
+{{#if castList}}
+登场人物：{{castList}}
+{{/if}}
+{{#if stateSoFar}}
+
+此前的局势（仅供对照，不要重复记录此前已发生的事件）：
+{{stateSoFar}}
+{{/if}}
+
+本节正文：
+{{sectionText}}
+
+请只根据本节正文提取本节新发生的事件，按如下XML格式输出，不要输出其他内容：
+<sectionState>
+  <deaths>
+    <death><victim>死者姓名</victim><killer>凶手姓名（本节未查明则留空）</killer><cause>死因</cause></death>
+  </deaths>
+  <trials>
+    <trial>
+      <accused>被指认者</accused>
+      <executed>被处刑者（未处刑则留空）</executed>
+      <votes><vote><voter>投票人</voter><target>被投票人</target></vote></votes>
+    </trial>
+  </trials>
+  <witchification>
+    <character><name>人物姓名</name><stage>0~4 的整数</stage><note>表现</note></character>
+  </witchification>
+  <clues>
+    <clue><content>线索内容</content><finder>发现者</finder><pointsTo>指向的人物或事件</pointsTo></clue>
+  </clues>
+</sectionState>
+
+要求：
+- 只记录本节正文中明确发生的事，没有对应事件的分类保留空标签，例如 <deaths></deaths>
+- 本节查明了此前命案的凶手时，重新列出该条死亡记录并填写凶手
+- 魔女化程度：0 未显现，1 初现征兆，2 明显，3 严重，4 完全魔女化；只列出本节有描写或有变化的人物
+- 人物一律使用登场人物名单中的姓名`;
+
+export function buildStateExtractionPrompt(vars: {
+  key: string;
+  sectionTitle: string;
+  sectionText: string;
+  castList: string[];
+  stateSoFar: string;
+}): { prompt: string; issues: TemplateIssue[] } {
+  const { key, ...rest } = vars;
+  const { text, issues } = renderTemplate(STATE_EXTRACTION_TEMPLATE, {
+    vars: { ...rest, position: sectionPosition(key) },
+    known: STATE_EXTRACTION_VARS,
+  });
+  return { prompt: text.trim(), issues };
+}
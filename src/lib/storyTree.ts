@@ -0,0 +1,274 @@
+import { renderTemplate, type TemplateIssue, type TemplateVariableSpec } from "@/lib/templateEngine";
+import { sectionPosition } from "@/lib/storyMemory";
+import { tailText } from "@/lib/tokenBudget";
+
+/**
+ * 故事树：小节正文按分支保存，而不是每节只有一份。
+ * - 每个节点是某一小节的一个版本，父节点为故事顺序中的上一节；重新生成产生兄弟节点，旧版本保留
+ * - 每节生成后可由模型提出 2~4 个主人公的抉择，选择其一后生成的下一节即沿该抉择分支
+ * - 当前分支（根到 activeLeaf 的路径）展开为“章-节 → 正文”，即页面其余部分使用的 sectionStories，
+ *   剧情记忆、故事状态等按小节键与正文指纹缓存，切换分支后沿用各分支正文已有的记录，缺失的再提取
+ * - 按大纲键分区存于 localStorage（键：manosaba_ai.story_tree.<大纲键>）；只写了 sectionStories 的旧数据
+ *   （存档、导入的项目）在载入时按当前分支并入树中
+ */
+
+export type StoryChoice = {
+  label: string;
+  /** 模型给出的可能后果（仅供玩家参考，不注入提示词） */
+  consequence: string;
+};
+
+export type StoryNode = {
+  id: string;
+  /** 上一节的节点；全书首节为 null */
+  parentId: string | null;
+  /** 小节键（"章-节"，0 起） */
+  key: string;
+  text: string;
+  /** 进入本节时选择的抉择 */
+  choice?: string;
+  /** 生成轮数（续写时大于 1） */
+  rounds?: { rounds: number; truncated?: boolean };
+  /** 本节末尾提出的抉择与玩家的选择 */
+  choices?: { options: StoryChoice[]; picked?: number };
+  createdAt: number;
+};
+
+export type StoryTree = {
+  nodes: Record<string, StoryNode>;
+  /** 当前分支的末端节点；尚无正文时为 null */
+  activeLeaf: string | null;
+};
+
+export const STORY_TREE_PREFIX = "manosaba_ai.story_tree.";
+export const BRANCH_CHOICES_KEY = "manosaba_ai.branch_choices";
+
+export function emptyStoryTree(): StoryTree {
+  return { nodes: {}, activeLeaf: null };
+}
+
+export function loadStoryTree(outlineKey: string): StoryTree {
+  if (typeof window === "undefined" || !outlineKey) return emptyStoryTree();
+  try {
+    const raw = window.localStorage.getItem(STORY_TREE_PREFIX + outlineKey);
+    const j = raw ? JSON.parse(raw) : null;
+    return j && typeof j === "object" && j.nodes && typeof j.nodes === "object" ? (j as StoryTree) : emptyStoryTree();
+  } catch {
+    return emptyStoryTree();
+  }
+}
+
+export function saveStoryTree(outlineKey: string, tree: StoryTree): void {
+  if (typeof window === "undefined" || !outlineKey) return;
+  window.localStorage.setItem(STORY_TREE_PREFIX + outlineKey, JSON.stringify(tree));
+}
+
+/** 是否在每节生成后提出抉择（默认关闭） */
+export function loadBranchChoicesEnabled(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return window.localStorage.getItem(BRANCH_CHOICES_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function saveBranchChoicesEnabled(enabled: boolean): void {
+  if (typeof window === "undefined") return;
+  try {
+    if (enabled) window.localStorage.setItem(BRANCH_CHOICES_KEY, "1");
+    else window.localStorage.removeItem(BRANCH_CHOICES_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+// ---- 查询 ----
+
+/** 小节键按故事顺序比较 */
+export function compareSectionKeys(a: string, b: string): number {
+  const [ac, as] = a.split("-").map((x) => parseInt(x, 10));
+  const [bc, bs] = b.split("-").map((x) => parseInt(x, 10));
+  return ac - bc || as - bs;
+}
+
+export function childrenOf(tree: StoryTree, parentId: string | null): StoryNode[] {
+  return Object.values(tree.nodes)
+    .filter((n) => n.parentId === parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** 根到 nodeId 的路径（按故事顺序） */
+export function pathTo(tree: StoryTree, nodeId: string | null): StoryNode[] {
+  const path: StoryNode[] = [];
+  let cur = nodeId ? tree.nodes[nodeId] : undefined;
+  while (cur) {
+    path.unshift(cur);
+    cur = cur.parentId ? tree.nodes[cur.parentId] : undefined;
+  }
+  return path;
+}
+
+export function activePath(tree: StoryTree): StoryNode[] {
+  return pathTo(tree, tree.activeLeaf);
+}
+
+/** 路径展开为“章-节 → 正文” */
+export function pathStories(path: StoryNode[]): Record<string, string> {
+  return Object.fromEntries(path.map((n) => [n.key, n.text]));
+}
+
+/** 节点之下最近生成的末端节点（节点本身没有后续时即为自身） */
+export function latestLeafUnder(tree: StoryTree, nodeId: string): string {
+  let cur = nodeId;
+  for (;;) {
+    const kids = childrenOf(tree, cur);
+    if (kids.length === 0) return cur;
+    cur = kids.reduce((a, b) => (latestCreatedUnder(tree, b.id) > latestCreatedUnder(tree, a.id) ? b : a)).id;
+  }
+}
+
+function latestCreatedUnder(tree: StoryTree, nodeId: string): number {
+  const self = tree.nodes[nodeId]?.createdAt ?? 0;
+  return childrenOf(tree, nodeId).reduce((m, c) => Math.max(m, latestCreatedUnder(tree, c.id)), self);
+}
+
+/** 各分支的结局（没有后续的节点），按生成时间排列 */
+export function storyLeaves(tree: StoryTree): StoryNode[] {
+  const parents = new Set(Object.values(tree.nodes).map((n) => n.parentId));
+  return Object.values(tree.nodes)
+    .filter((n) => !parents.has(n.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// ---- 修改（均返回新树） ----
+
+let nodeSeq = 0;
+
+function nodeId(): string {
+  nodeSeq = (nodeSeq + 1) % 1_000_000;
+  return `${Date.now().toString(36)}-${nodeSeq.toString(36)}`;
+}
+
+export function addStoryNode(
+  tree: StoryTree,
+  input: { parentId: string | null; key: string; text: string; choice?: string; rounds?: StoryNode["rounds"] }
+): { tree: StoryTree; node: StoryNode } {
+  const node: StoryNode = { id: nodeId(), createdAt: Date.now(), ...input };
+  if (!node.choice) delete node.choice;
+  if (!node.rounds) delete node.rounds;
+  return { tree: { ...tree, nodes: { ...tree.nodes, [node.id]: node } }, node };
+}
+
+export function updateStoryNode(tree: StoryTree, id: string, patch: Partial<Omit<StoryNode, "id" | "parentId">>): StoryTree {
+  const node = tree.nodes[id];
+  return node ? { ...tree, nodes: { ...tree.nodes, [id]: { ...node, ...patch } } } : tree;
+}
+
+export function setActiveLeaf(tree: StoryTree, id: string | null): StoryTree {
+  return tree.activeLeaf === id ? tree : { ...tree, activeLeaf: id };
+}
+
+/**
+ * 并入另一棵树（导入项目、读档）：按节点 id 合并，本地已有的节点不被覆盖；当前分支取 incoming 的当前分支。
+ */
+export function mergeStoryTrees(base: StoryTree, incoming: StoryTree): StoryTree {
+  const nodes = { ...incoming.nodes, ...base.nodes };
+  const activeLeaf = incoming.activeLeaf && nodes[incoming.activeLeaf] ? incoming.activeLeaf : base.activeLeaf;
+  return { nodes, activeLeaf };
+}
+
+/**
+ * 使当前分支与 stories（“章-节 → 正文”）一致：沿当前分支逐节比对，不一致处复用同内容的已有子节点或新建节点，
+ * 旧分支保留。内容一致时原样返回同一对象。
+ */
+export function reconcileStoryTree(tree: StoryTree, stories: Record<string, string>): StoryTree {
+  const keys = Object.keys(stories)
+    .filter((k) => stories[k])
+    .sort(compareSectionKeys);
+  const path = activePath(tree);
+  let next = tree;
+  let parent: string | null = null;
+  keys.forEach((key, i) => {
+    const text = stories[key];
+    const onPath = path[i];
+    if (onPath && onPath.key === key && onPath.text === text && onPath.parentId === parent) {
+      parent = onPath.id;
+      return;
+    }
+    const existing = childrenOf(next, parent).find((n) => n.key === key && n.text === text);
+    if (existing) {
+      parent = existing.id;
+      return;
+    }
+    const added = addStoryNode(next, { parentId: parent, key, text });
+    next = added.tree;
+    parent = added.node.id;
+  });
+  return setActiveLeaf(next, parent);
+}
+
+// ---- 抉择提示词 ----
+
+const CHOICE_VARS: TemplateVariableSpec[] = [
+  { name: "position", description: "小节位置（第X章第Y节）", required: true },
+  { name: "sectionTitle", description: "节标题", required: true },
+  { name: "sectionText", description: "本节正文（结尾部分）", required: true },
+  { name: "protagonist", description: "主人公姓名", required: true },
+  { name: "nextSectionTitle", description: "下一节标题（末节为空）" },
+  { name: "nextSectionSummary", description: "下一节摘要（末节为空）" },
+  { name: "storyState", description: "当前局势" },
+];
+
+// 抉择只需要本节结尾的情境
+const CHOICE_TEXT_CHARS = 3000;
+
+/** 抉择提示词：输出格式与 parseStoryChoicesXml 对应，不随世界包变化 */
+const CHOICE_TEMPLATE = `下面是连载故事{{position}}《{{sectionTitle}}》的结尾部分，主人公是{{protagonist}}。
+{{#if storyState}}
+
+当前局势：
+{{storyState}}
+{{/if}}
+
+本节结尾：
+{{sectionText}}
+{{#if nextSectionTitle}}
+
+下一节《{{nextSectionTitle}}》的大纲简述：{{nextSectionSummary}}
+{{/if}}
+
+请站在本节结尾的时刻，为{{protagonist}}提出 2~4 个接下来可以采取的行动或决定，交给玩家选择。
+要求：
+- 选项之间差异明显（例如信任或怀疑某人、独自行动或结伴、隐瞒或公开某条线索），都符合主人公的性格与处境
+- 每个选项都能衔接到下一节的大纲简述，只改变经过与人物关系，不推翻大纲
+- 选项用主人公的行动描述，不超过 30 字；后果为一句话的可能走向，不超过 40 字
+
+按如下XML格式输出，不要输出其他内容：
+<choices>
+  <choice><label><![CDATA[选项]]></label><consequence><![CDATA[可能的后果]]></consequence></choice>
+</choices>`;
+
+export function buildChoicePrompt(vars: {
+  key: string;
+  sectionTitle: string;
+  sectionText: string;
+  protagonist: string;
+  nextSectionTitle: string;
+  nextSectionSummary: string;
+  storyState: string;
+}): { prompt: string; issues: TemplateIssue[] } {
+  const { key, sectionText, ...rest } = vars;
+  const { text, issues } = renderTemplate(CHOICE_TEMPLATE, {
+    vars: { ...rest, position: sectionPosition(key), sectionText: tailText(sectionText, CHOICE_TEXT_CHARS) },
+    known: CHOICE_VARS,
+  });
+  return { prompt: text.trim(), issues };
+}
+
+/** 已选择的抉择（注入下一节提示词的 playerChoice） */
+export function formatPlayerChoice(node: StoryNode | undefined): string {
+  const picked = node?.choices?.picked;
+  const option = picked !== undefined ? node?.choices?.options[picked] : undefined;
+  return option ? option.label : "";
+}
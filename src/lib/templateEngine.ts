@@ -0,0 +1,271 @@
+/**
+ * 提示词模板引擎（game/workflow 等模板共用，前后端均可使用，不依赖 fs）。
+ * 语法：
+ * - {{name}}                 变量；数组以“、”连接，null/undefined 输出为空
+ * - {{#if name}}…{{else}}…{{/if}}、{{#unless name}}…{{/unless}}
+ *                            条件块，可嵌套；空串、0、false、空数组视为假
+ * - {{> 路径}}               引用外部片段（如世界书条目 "world_setting/魔女"），由调用方提供 includes 解析
+ * - {{! 注释}}               不输出
+ * 独占一行的块标签（if/else/unless/注释）连同换行一起移除，避免产生空行。
+ * 渲染从不抛错；语法问题、未知或缺失的变量、无法解析的引用统一以 issues 返回，由调用方决定是否阻止发送。
+ */
+
+export type TemplateValue = string | number | boolean | string[] | null | undefined;
+export type TemplateVars = Record<string, TemplateValue>;
+
+export type TemplateVariableSpec = {
+  name: string;
+  description: string;
+  /** 引用时必须提供非空值 */
+  required?: boolean;
+};
+
+/** 引用解析：返回片段原文，找不到时返回 undefined */
+export type TemplateIncludeResolver = (name: string) => string | undefined;
+
+export type TemplateIssueKind = "syntax" | "unknown-variable" | "missing-variable" | "unknown-include";
+
+export type TemplateIssue = {
+  kind: TemplateIssueKind;
+  /** 1 起的行号 */
+  line: number;
+  name?: string;
+  message: string;
+};
+
+export type TemplateOptions = {
+  vars?: TemplateVars;
+  /** 已知变量清单；提供时清单外的变量报 unknown-variable */
+  known?: TemplateVariableSpec[];
+  includes?: TemplateIncludeResolver;
+};
+
+type TextNode = { type: "text"; value: string };
+type VarNode = { type: "var"; name: string; line: number };
+type IncludeNode = { type: "include"; name: string; line: number };
+type IfNode = { type: "if"; name: string; negate: boolean; line: number; then: TemplateNode[]; else: TemplateNode[] };
+type TemplateNode = TextNode | VarNode | IncludeNode | IfNode;
+
+const TAG_RE = /\{\{\s*([#/>!]?)\s*([\s\S]*?)\s*\}\}/g;
+const NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function lineAt(src: string, index: number): number {
+  let n = 1;
+  for (let i = 0; i < index; i++) if (src.charCodeAt(i) === 10) n++;
+  return n;
+}
+
+/** 块标签独占一行时，把所在整行（含换行）并入标签范围 */
+function standaloneRange(src: string, start: number, end: number): [number, number] {
+  let ls = start;
+  while (ls > 0 && (src[ls - 1] === " " || src[ls - 1] === "\t")) ls--;
+  if (ls > 0 && src[ls - 1] !== "\n") return [start, end];
+  let le = end;
+  while (le < src.length && (src[le] === " " || src[le] === "\t" || src[le] === "\r")) le++;
+  if (le < src.length && src[le] !== "\n") return [start, end];
+  return [ls, le < src.length ? le + 1 : le];
+}
+
+function parse(src: string, issues: TemplateIssue[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // 栈顶为当前正在收集子节点的容器
+  const stack: Array<{ node: IfNode | null; keyword: string; target: TemplateNode[] }> = [
+    { node: null, keyword: "", target: root },
+  ];
+  let cursor = 0;
+  const push = (n: TemplateNode) => stack[stack.length - 1].target.push(n);
+  const pushText = (value: string) => {
+    if (value) push({ type: "text", value });
+  };
+
+  for (const m of src.matchAll(TAG_RE)) {
+    const sigil = m[1];
+    const body = m[2];
+    const tagStart = m.index ?? 0;
+    const tagEnd = tagStart + m[0].length;
+    const line = lineAt(src, tagStart);
+    const isBlock = sigil === "#" || sigil === "/" || sigil === "!" || (sigil === "" && body === "else");
+    const [start, end] = isBlock ? standaloneRange(src, tagStart, tagEnd) : [tagStart, tagEnd];
+    if (start < cursor) {
+      // 前一个标签已吞掉本行开头的空白：只截掉标签本身
+      pushText(src.slice(cursor, tagStart));
+    } else {
+      pushText(src.slice(cursor, start));
+    }
+    cursor = Math.max(end, cursor);
+
+    if (sigil === "!") continue;
+
+    if (sigil === "#") {
+      const [keyword, name = "", ...rest] = body.split(/\s+/);
+      if ((keyword !== "if" && keyword !== "unless") || !NAME_RE.test(name) || rest.length > 0) {
+        issues.push({ kind: "syntax", line, message: `无法识别的块标签：{{#${body}}}` });
+        continue;
+      }
+      const node: IfNode = { type: "if", name, negate: keyword === "unless", line, then: [], else: [] };
+      push(node);
+      stack.push({ node, keyword, target: node.then });
+      continue;
+    }
+
+    if (sigil === "/") {
+      const top = stack[stack.length - 1];
+      if (!top.node) {
+        issues.push({ kind: "syntax", line, message: `多余的结束标签：{{/${body}}}` });
+        continue;
+      }
+      if (body !== top.keyword) {
+        issues.push({ kind: "syntax", line, message: `结束标签 {{/${body}}} 与第 ${top.node.line} 行的 {{#${top.keyword}}} 不匹配` });
+      }
+      stack.pop();
+      continue;
+    }
+
+    if (sigil === ">") {
+      if (!body) {
+        issues.push({ kind: "syntax", line, message: "引用标签缺少名称：{{> }}" });
+        continue;
+      }
+      push({ type: "include", name: body, line });
+      continue;
+    }
+
+    if (body === "else") {
+      const top = stack[stack.length - 1];
+      if (!top.node || top.target === top.node.else) {
+        issues.push({ kind: "syntax", line, message: "{{else}} 不在条件块内" });
+        continue;
+      }
+      top.target = top.node.else;
+      continue;
+    }
+
+    if (!NAME_RE.test(body)) {
+      issues.push({ kind: "syntax", line, message: `无效的变量名：{{${body}}}` });
+      continue;
+    }
+    push({ type: "var", name: body, line });
+  }
+  pushText(src.slice(cursor));
+
+  for (let i = stack.length - 1; i > 0; i--) {
+    const { node, keyword } = stack[i];
+    if (node) issues.push({ kind: "syntax", line: node.line, message: `{{#${keyword} ${node.name}}} 缺少结束标签 {{/${keyword}}}` });
+  }
+  return root;
+}
+
+function isTruthy(v: TemplateValue): boolean {
+  if (Array.isArray(v)) return v.length > 0;
+  return !!v;
+}
+
+function stringify(v: TemplateValue): string {
+  if (v === null || v === undefined || v === false) return "";
+  if (Array.isArray(v)) return v.join("、");
+  return String(v);
+}
+
+type RenderState = {
+  vars: TemplateVars;
+  known?: Map<string, TemplateVariableSpec>;
+  includes?: TemplateIncludeResolver;
+  issues: TemplateIssue[];
+  /** 同一变量只报告一次 */
+  reported: Set<string>;
+};
+
+function report(state: RenderState, issue: TemplateIssue) {
+  const key = `${issue.kind}:${issue.name ?? ""}`;
+  if (state.reported.has(key)) return;
+  state.reported.add(key);
+  state.issues.push(issue);
+}
+
+/** 检查变量名；output 为 true 表示要输出其值（条件判断允许未提供） */
+function checkVar(state: RenderState, name: string, line: number, output: boolean) {
+  const spec = state.known?.get(name);
+  if (state.known && !spec) {
+    report(state, { kind: "unknown-variable", line, name, message: `未知变量 {{${name}}}` });
+    return;
+  }
+  const value = state.vars[name];
+  const provided = Object.prototype.hasOwnProperty.call(state.vars, name) && value !== undefined;
+  if (output && (!provided || (spec?.required && !isTruthy(value)))) {
+    report(state, { kind: "missing-variable", line, name, message: `变量 {{${name}}} 未提供值` });
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], state: RenderState, out: string[], active: boolean) {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        if (active) out.push(node.value);
+        break;
+      case "var":
+        checkVar(state, node.name, node.line, active);
+        if (active) out.push(stringify(state.vars[node.name]));
+        break;
+      case "include": {
+        const text = state.includes?.(node.name);
+        if (text === undefined) {
+          report(state, { kind: "unknown-include", line: node.line, name: node.name, message: `找不到引用 {{> ${node.name}}}` });
+        } else if (active) {
+          out.push(text);
+        }
+        break;
+      }
+      case "if": {
+        checkVar(state, node.name, node.line, false);
+        const cond = isTruthy(state.vars[node.name]) !== node.negate;
+        // 未选中的分支也要走一遍，以便报告其中的未知变量与引用
+        renderNodes(node.then, state, out, active && cond);
+        renderNodes(node.else, state, out, active && !cond);
+        break;
+      }
+    }
+  }
+}
+
+/** 渲染模板并返回问题列表（不抛错） */
+export function renderTemplate(src: string, options: TemplateOptions = {}): { text: string; issues: TemplateIssue[] } {
+  const issues: TemplateIssue[] = [];
+  const nodes = parse(src, issues);
+  const state: RenderState = {
+    vars: options.vars ?? {},
+    known: options.known ? new Map(options.known.map((s) => [s.name, s])) : undefined,
+    includes: options.includes,
+    issues,
+    reported: new Set(),
+  };
+  const out: string[] = [];
+  renderNodes(nodes, state, out, true);
+  return { text: out.join(""), issues };
+}
+
+/** 仅校验（等价于渲染后丢弃文本），用于发送请求前检查模板 */
+export function validateTemplate(src: string, options: TemplateOptions = {}): TemplateIssue[] {
+  return renderTemplate(src, options).issues;
+}
+
+/** 模板中引用到的变量名（含条件块），按出现顺序去重 */
+export function templateVariables(src: string): string[] {
+  const names: string[] = [];
+  const walk = (nodes: TemplateNode[]) => {
+    for (const n of nodes) {
+      if (n.type === "var" || n.type === "if") {
+        if (!names.includes(n.name)) names.push(n.name);
+      }
+      if (n.type === "if") {
+        walk(n.then);
+        walk(n.else);
+      }
+    }
+  };
+  walk(parse(src, []));
+  return names;
+}
+
+export function formatTemplateIssues(issues: TemplateIssue[]): string {
+  return issues.map((i) => `第 ${i.line} 行：${i.message}`).join("\n");
+}
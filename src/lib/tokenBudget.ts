@@ -0,0 +1,297 @@
+import { characterField, mapCharacterBlocks } from "@/lib/charactersXml";
+import { estimateTokens } from "@/lib/tokenizer";
+import type { TemplateVars } from "@/lib/templateEngine";
+import { renderWorldBooksXml, type WorldBookEntry, type WorldRetrievalReport } from "@/lib/worldRetrieval";
+import type { FullOutlineXML } from "@/lib/xml";
+
+/**
+ * 上下文窗口管理：按模型的上下文上限为小节提示词做预算，超出时按优先级逐步裁剪。
+ * 裁剪顺序（每一步后重新估算，够用即停）：
+ * 1. 较早的小节：大纲中上一节之前的小节只保留标题；剧情记忆只保留最近几节的摘要；上一节正文只保留结尾部分
+ * 2. 低优先级世界书：常驻条目以外，按优先级、相关度从低到高逐条丢弃
+ * 3. 不在场的角色：人物 XML 中只保留姓名与简短的性格特质
+ * 仍超出时由调用方在发送前提示。
+ * 设置存于 localStorage（键：manosaba_ai.context_budget）。
+ */
+
+// ---- 模型上下文上限 ----
+
+/** 内置上下文上限表：按模型 ID 匹配，先匹配者优先（具体型号放在前面） */
+export const MODEL_CONTEXT_LIMITS: Array<{ pattern: RegExp; tokens: number }> = [
+  { pattern: /gpt-4\.1/, tokens: 1_047_576 },
+  { pattern: /gpt-4o|gpt-4-turbo|gpt-4-1106|gpt-4-0125/, tokens: 128_000 },
+  { pattern: /gpt-4-32k/, tokens: 32_768 },
+  { pattern: /gpt-4/, tokens: 8_192 },
+  { pattern: /gpt-3\.5/, tokens: 16_385 },
+  { pattern: /(^|\/)o[134](-|$)/, tokens: 200_000 },
+  { pattern: /claude/, tokens: 200_000 },
+  { pattern: /gemini-1\.5-pro/, tokens: 2_097_152 },
+  { pattern: /gemini/, tokens: 1_048_576 },
+  { pattern: /deepseek/, tokens: 65_536 },
+  { pattern: /qwen-max/, tokens: 32_768 },
+  { pattern: /qwen/, tokens: 131_072 },
+  { pattern: /llama-?3\.[123]|llama3\.[123]/, tokens: 131_072 },
+  { pattern: /llama/, tokens: 8_192 },
+  { pattern: /mixtral/, tokens: 32_768 },
+  { pattern: /mistral-(large|medium|small)|ministral|codestral/, tokens: 131_072 },
+  { pattern: /mistral/, tokens: 32_768 },
+  { pattern: /glm-4/, tokens: 128_000 },
+  { pattern: /kimi|moonshot-v1-128k/, tokens: 131_072 },
+  { pattern: /moonshot-v1-32k/, tokens: 32_768 },
+  { pattern: /moonshot-v1-8k/, tokens: 8_192 },
+  { pattern: /gemma/, tokens: 8_192 },
+];
+
+/** 未知模型的默认上限 */
+export const DEFAULT_CONTEXT_LIMIT = 32_768;
+
+export type ContextLimitOverride = {
+  /** 模型 ID 片段（不区分大小写，包含即匹配） */
+  pattern: string;
+  tokens: number;
+};
+
+export type ContextLimit = {
+  tokens: number;
+  source: "override" | "table" | "default";
+};
+
+export function contextLimitFor(model: string, overrides: ContextLimitOverride[] = []): ContextLimit {
+  const id = (model || "").toLowerCase();
+  const o = overrides.find((x) => x.pattern && id.includes(x.pattern.toLowerCase()));
+  if (o) return { tokens: o.tokens, source: "override" };
+  const hit = MODEL_CONTEXT_LIMITS.find((x) => x.pattern.test(id));
+  if (hit) return { tokens: hit.tokens, source: "table" };
+  return { tokens: DEFAULT_CONTEXT_LIMIT, source: "default" };
+}
+
+// ---- 设置 ----
+
+export type ContextBudgetSettings = {
+  enabled: boolean;
+  /** 为模型输出（含续写）预留的 token 数 */
+  reserveTokens: number;
+  overrides: ContextLimitOverride[];
+};
+
+export const CONTEXT_BUDGET_KEY = "manosaba_ai.context_budget";
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudgetSettings = {
+  enabled: true,
+  reserveTokens: 8_000,
+  overrides: [],
+};
+
+/** 解析“模型片段 = 上限”的逐行文本；无法解析的行忽略 */
+export function parseContextOverrides(text: string): ContextLimitOverride[] {
+  const out: ContextLimitOverride[] = [];
+  for (const line of (text || "").split(/\r?\n/)) {
+    const m = line.match(/^\s*([^=\s][^=]*?)\s*[=:：]\s*(\d+)\s*(k)?\s*$/i);
+    if (!m) continue;
+    const tokens = Number(m[2]) * (m[3] ? 1024 : 1);
+    if (tokens > 0) out.push({ pattern: m[1], tokens });
+  }
+  return out;
+}
+
+export function formatContextOverrides(list: ContextLimitOverride[]): string {
+  return list.map((o) => `${o.pattern} = ${o.tokens}`).join("\n");
+}
+
+export function loadContextBudgetSettings(): ContextBudgetSettings {
+  if (typeof window === "undefined") return DEFAULT_CONTEXT_BUDGET;
+  try {
+    const raw = window.localStorage.getItem(CONTEXT_BUDGET_KEY);
+    const j = raw ? JSON.parse(raw) : null;
+    if (!j || typeof j !== "object") return DEFAULT_CONTEXT_BUDGET;
+    const reserve = Number(j.reserveTokens);
+    return {
+      enabled: j.enabled !== false,
+      reserveTokens: Number.isFinite(reserve) && reserve >= 0 ? Math.floor(reserve) : DEFAULT_CONTEXT_BUDGET.reserveTokens,
+      overrides: Array.isArray(j.overrides)
+        ? j.overrides.filter(
+            (o: unknown): o is ContextLimitOverride =>
+              !!o &&
+              typeof (o as ContextLimitOverride).pattern === "string" &&
+              Number((o as ContextLimitOverride).tokens) > 0
+          )
+        : [],
+    };
+  } catch {
+    return DEFAULT_CONTEXT_BUDGET;
+  }
+}
+
+export function saveContextBudgetSettings(settings: ContextBudgetSettings): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(CONTEXT_BUDGET_KEY, JSON.stringify(settings));
+}
+
+// ---- 裁剪工具 ----
+
+function cdata(s: string): string {
+  return `<![CDATA[${(s || "").replace(/\]\]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+/**
+ * 重建大纲 XML：序号在 (keepFromCh, keepFromSec) 之前的小节只保留标题，其余保持完整。
+ * 输出结构与生成大纲模板一致，仍可被 parseFullStoryOutlineXml 解析。
+ */
+export function compactOutlineXml(outline: FullOutlineXML, keepFromCh: number, keepFromSec: number): string {
+  const lines = ["<storyOutline>", `  <title>${cdata(outline.title)}</title>`, `  <premise>${cdata(outline.premise)}</premise>`, "  <chapters>"];
+  outline.chapters.forEach((ch, ci) => {
+    lines.push("    <chapter>", `      <chapterTitle>${cdata(ch.chapterTitle)}</chapterTitle>`, "      <sections>");
+    ch.sections.forEach((sec, si) => {
+      const older = ci < keepFromCh || (ci === keepFromCh && si < keepFromSec);
+      lines.push("        <section>", `          <sectionTitle>${cdata(sec.sectionTitle)}</sectionTitle>`);
+      if (!older) lines.push(`          <summary>${cdata(sec.summary)}</summary>`);
+      lines.push("        </section>");
+    });
+    lines.push("      </sections>", "    </chapter>");
+  });
+  lines.push("  </chapters>");
+  if (outline.ending) lines.push(`  <ending>${cdata(outline.ending)}</ending>`);
+  lines.push("</storyOutline>");
+  return lines.join("\n");
+}
+
+/** 只保留正文结尾约 maxChars 字（从段落边界开始） */
+export function tailText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(text.length - maxChars);
+  const nl = cut.indexOf("\n");
+  return `……（前文从略）\n${nl >= 0 && nl < maxChars / 3 ? cut.slice(nl + 1) : cut}`;
+}
+
+/** 压缩人物 XML：keepNames 以外的人物只保留姓名与截断的性格特质 */
+export function compressCharactersXml(xml: string, keepNames: string[], maxChars = 60): { xml: string; compressed: string[] } {
+  const compressed: string[] = [];
+  const out = mapCharacterBlocks(xml, (body, whole) => {
+    const name = characterField(body, "姓名");
+    if (!name || keepNames.some((k) => k && (name.includes(k) || k.includes(name)))) return whole;
+    compressed.push(name);
+    const trait = characterField(body, "性格特质");
+    const short = trait.length > maxChars ? `${trait.slice(0, maxChars)}…` : trait;
+    const traitLine = short ? `\n      <性格特质>${cdata(short)}</性格特质>` : "";
+    return `<人物>\n      <姓名>${cdata(name)}</姓名>${traitLine}\n    </人物>`;
+  });
+  return { xml: out, compressed };
+}
+
+// ---- 小节提示词预算 ----
+
+export type BudgetStepId = "outline" | "story-memory" | "prev-section" | "world-books" | "characters";
+
+export type BudgetStep = {
+  id: BudgetStepId;
+  label: string;
+  savedTokens: number;
+  detail: string;
+};
+
+export type SectionBudgetInput = {
+  /** 提示词可用的 token 数（上下文上限减去输出预留） */
+  budget: number;
+  vars: TemplateVars;
+  render: (vars: TemplateVars) => string;
+  outline: FullOutlineXML | null;
+  chIdx: number;
+  secIdx: number;
+  /** 已收录的世界书条目与检索报告（报告用于判断常驻条目与相关度） */
+  worldEntries: WorldBookEntry[];
+  worldReport?: WorldRetrievalReport;
+  /** 在场角色（含主人公）：不会被压缩 */
+  presentNames: string[];
+  /** 压缩后的剧情记忆（较早小节只保留要事），未提供时不压缩 */
+  compactStorySoFar?: string;
+  /** 上一节正文裁剪后保留的字数 */
+  prevSectionChars?: number;
+};
+
+export type SectionBudgetResult = {
+  vars: TemplateVars;
+  prompt: string;
+  tokens: number;
+  budget: number;
+  steps: BudgetStep[];
+  overBudget: boolean;
+};
+
+export function budgetSectionPrompt(input: SectionBudgetInput): SectionBudgetResult {
+  let vars = { ...input.vars };
+  let prompt = input.render(vars);
+  let tokens = estimateTokens(prompt);
+  const steps: BudgetStep[] = [];
+  const fits = () => tokens <= input.budget;
+
+  const apply = (id: BudgetStepId, label: string, patch: TemplateVars, detail: string) => {
+    const nextVars = { ...vars, ...patch };
+    const nextPrompt = input.render(nextVars);
+    const nextTokens = estimateTokens(nextPrompt);
+    if (nextTokens >= tokens) return;
+    steps.push({ id, label, savedTokens: tokens - nextTokens, detail });
+    vars = nextVars;
+    prompt = nextPrompt;
+    tokens = nextTokens;
+  };
+
+  // 1) 较早的小节：大纲中上一节之前的小节去掉摘要，上一节正文只保留结尾
+  if (!fits() && input.outline && typeof vars.outline === "string") {
+    const flat = input.outline.chapters.flatMap((ch, ci) => ch.sections.map((_, si) => [ci, si] as const));
+    const cur = flat.findIndex(([ci, si]) => ci === input.chIdx && si === input.secIdx);
+    const keep = flat[Math.max(0, cur - 1)];
+    if (cur > 1 && keep) {
+      apply("outline", "大纲较早小节", { outline: compactOutlineXml(input.outline, keep[0], keep[1]) }, `前 ${cur - 1} 节只保留标题`);
+    }
+  }
+  if (!fits() && input.compactStorySoFar !== undefined && typeof vars.storySoFar === "string") {
+    apply("story-memory", "较早的剧情记忆", { storySoFar: input.compactStorySoFar }, "较早小节只保留死亡、处刑、线索与关系变化");
+  }
+  const prevChars = input.prevSectionChars ?? 1_200;
+  if (!fits() && typeof vars.prevSection === "string" && vars.prevSection.length > prevChars) {
+    apply("prev-section", "上一节正文", { prevSection: tailText(vars.prevSection, prevChars) }, `只保留结尾约 ${prevChars} 字`);
+  }
+
+  // 2) 低优先级世界书：逐条丢弃（常驻条目保留）
+  if (!fits() && input.worldEntries.length > 0) {
+    const info = new Map((input.worldReport?.included ?? []).map((i) => [i.id, i]));
+    const droppable = input.worldEntries
+      .filter((e) => info.get(e.id)?.via !== "constant" && !e.meta.constant)
+      .sort((a, b) => a.meta.priority - b.meta.priority || (info.get(a.id)?.score ?? 0) - (info.get(b.id)?.score ?? 0));
+    let kept = [...input.worldEntries];
+    const dropped: string[] = [];
+    const before = tokens;
+    for (const e of droppable) {
+      if (tokens <= input.budget) break;
+      kept = kept.filter((k) => k.id !== e.id);
+      dropped.push(e.title);
+      vars = { ...vars, worldBooks: kept.length > 0 ? renderWorldBooksXml(kept) : "" };
+      prompt = input.render(vars);
+      tokens = estimateTokens(prompt);
+    }
+    if (dropped.length > 0) {
+      steps.push({ id: "world-books", label: "低优先级世界书", savedTokens: before - tokens, detail: `丢弃 ${dropped.join("、")}` });
+    }
+  }
+
+  // 3) 不在场的角色：只保留姓名与简短性格
+  if (!fits() && typeof vars.characters === "string") {
+    const { xml, compressed } = compressCharactersXml(vars.characters, input.presentNames);
+    if (compressed.length > 0) {
+      apply("characters", "不在场角色", { characters: xml }, `压缩 ${compressed.join("、")}`);
+    }
+  }
+
+  return { vars, prompt, tokens, budget: input.budget, steps, overBudget: !fits() };
+}
+
+/** 一次预算的结果摘要（界面展示用） */
+export type ContextBudgetReport = {
+  model: string;
+  limit: ContextLimit;
+  reserveTokens: number;
+  budget: number;
+  tokens: number;
+  steps: BudgetStep[];
+  overBudget: boolean;
+};
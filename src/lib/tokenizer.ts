@@ -0,0 +1,40 @@
+/**
+ * 本地 token 估算（不依赖网络与词表文件，前后端均可使用）。
+ * 先按 GPT 系 BPE 分词器的预分词规则切成片段，再按片段类型估算：
+ * - 中日韩字符（含全角标点）：约 1 token/字（cl100k 多为 1~2，o200k / Claude / Gemini 多低于 1，取中间值）
+ * - 英文单词：常见短词 1 token，长词约 4 字符/token；其他拉丁以外的字母约 2 字符/token
+ * - 数字：每 3 位 1 token；标点与符号：约 2 字符/token；连续空白（含换行）计 1 token
+ * 结果是估算值，误差通常在 ±15% 以内，用于预算与提示，不用于计费。
+ */
+
+const PRETOKEN_RE = /'(?:[sdmt]|ll|ve|re)| ?[\p{L}\p{M}]+| ?\p{N}+| ?[^\s\p{L}\p{M}\p{N}]+|\s+/gu;
+const CJK_RE = /[\u3000-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+const CJK_GLOBAL_RE = /[\u3000-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+const ASCII_WORD_RE = /^ ?[A-Za-z]+$/;
+const DIGITS_RE = /^ ?\p{N}+$/u;
+const SPACE_RE = /^\s+$/;
+
+function pieceTokens(piece: string): number {
+  if (SPACE_RE.test(piece)) return 1;
+  if (ASCII_WORD_RE.test(piece)) {
+    const len = piece.trim().length;
+    return len <= 6 ? 1 : Math.ceil(len / 4);
+  }
+  if (DIGITS_RE.test(piece)) return Math.ceil(piece.trim().length / 3);
+  if (CJK_RE.test(piece)) {
+    const cjk = piece.match(CJK_GLOBAL_RE)?.length ?? 0;
+    const rest = piece.replace(CJK_GLOBAL_RE, "").trim();
+    return cjk + (rest ? Math.ceil(rest.length / 2) : 0);
+  }
+  // 其他文字与标点符号
+  return Math.ceil(piece.trim().length / 2);
+}
+
+/** 估算文本的 token 数 */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  let total = 0;
+  for (const m of text.matchAll(PRETOKEN_RE)) total += pieceTokens(m[0]);
+  return total;
+}
+
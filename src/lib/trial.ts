@@ -0,0 +1,359 @@
+import { renderTemplate, type TemplateIssue, type TemplateVariableSpec } from "@/lib/templateEngine";
+import { sectionPosition, textFingerprint, type SectionMemory } from "@/lib/storyMemory";
+import { formatStoryState, sameCharacter, type SectionState, type StoryStateSnapshot } from "@/lib/storyState";
+import type { TrialTurnXML, TrialVerdictXML } from "@/lib/xml";
+
+/**
+ * 互动审判：大纲中每章以“审判”节收尾，玩家可代替自动生成，以主人公身份亲自参与这一节。
+ * - 辩论：模型逐轮扮演其他角色发言；玩家选中某条发言出示证据反驳、单独出示证据或自由发言，模型裁定是否击中要害
+ * - 投票：玩家投出一票，模型给出其他角色的投票与处刑描写；处刑对象按票数在本地核定（票数最多者，平票不处刑）
+ * - 结束后审判记录写为本节正文，投票与处刑直接写入故事状态，审判结果注入下一节的提示词（模板变量 trialOutcome）
+ * - 以此前的故事状态与调查节正文为事实依据；进行中的审判按大纲键分区存于 localStorage（键：manosaba_ai.trial.<大纲键>），可中途关闭后继续
+ */
+
+export type TrialPhase = "debate" | "vote" | "verdict";
+
+export type TrialEntry = {
+  id: string;
+  role: "player" | "cast" | "judge";
+  speaker: string;
+  text: string;
+  /** 玩家反驳所针对的发言 id */
+  target?: string;
+  /** 玩家出示的证据 */
+  evidence?: string;
+  /** 裁定：玩家的反驳或证据是否击中要害 */
+  hit?: boolean;
+};
+
+export type TrialAction =
+  | { type: "rebut"; statementId: string; evidence: string; text: string }
+  | { type: "present"; evidence: string; text: string }
+  | { type: "speak"; text: string };
+
+export type TrialSession = {
+  key: string;
+  title: string;
+  phase: TrialPhase;
+  entries: TrialEntry[];
+  /** 模型认为讨论已足以进入投票 */
+  ready: boolean;
+  playerVote?: string;
+  votes: Array<{ voter: string; target: string }>;
+  /** 被处刑者；无人处刑时为空串 */
+  executed?: string;
+  narration?: string;
+  /** 模型描写的处刑对象与本地计票不符（须重新投票后才能写入本节） */
+  recounted?: boolean;
+  /** 审判已写入本节正文 */
+  finished?: boolean;
+  updatedAt: number;
+};
+
+export type TrialRecord = Record<string, TrialSession>;
+
+export const TRIAL_PREFIX = "manosaba_ai.trial.";
+
+export function loadTrials(outlineKey: string): TrialRecord {
+  if (typeof window === "undefined" || !outlineKey) return {};
+  try {
+    const raw = window.localStorage.getItem(TRIAL_PREFIX + outlineKey);
+    const j = raw ? JSON.parse(raw) : null;
+    return j && typeof j === "object" && !Array.isArray(j) ? (j as TrialRecord) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveTrials(outlineKey: string, record: TrialRecord): void {
+  if (typeof window === "undefined" || !outlineKey) return;
+  window.localStorage.setItem(TRIAL_PREFIX + outlineKey, JSON.stringify(record));
+}
+
+/** 合并两份审判记录（导入项目）：同一节保留更新较晚的一场 */
+export function mergeTrials(base: TrialRecord, incoming: TrialRecord): TrialRecord {
+  const out: TrialRecord = { ...base };
+  for (const [key, session] of Object.entries(incoming)) {
+    if (!out[key] || out[key].updatedAt < session.updatedAt) out[key] = session;
+  }
+  return out;
+}
+
+/** 大纲中的审判节：节标题含“审判”（简版大纲没有节标题，传入节拍文本） */
+export function isTrialSection(title: string): boolean {
+  return /审判/.test(title);
+}
+
+export function newTrialSession(key: string, title: string): TrialSession {
+  return { key, title, phase: "debate", entries: [], ready: false, votes: [], updatedAt: Date.now() };
+}
+
+/**
+ * 审判的事实依据：审判节之前最近的“调查”节（同章优先，没有则取上一节）。
+ * keys 为按故事顺序排列的小节键，titleOf 返回节标题。
+ */
+export function investigationKeyBefore(keys: string[], key: string, titleOf: (key: string) => string | undefined): string | null {
+  const idx = keys.indexOf(key);
+  if (idx <= 0) return null;
+  const chapter = key.split("-")[0];
+  for (let i = idx - 1; i >= 0 && keys[i].split("-")[0] === chapter; i--) {
+    if (/调查|搜查|侦查/.test(titleOf(keys[i]) ?? "")) return keys[i];
+  }
+  return keys[idx - 1];
+}
+
+/** 可出示的证据：故事状态中的线索，外加剧情记忆记下的线索（去重） */
+export function collectEvidence(snapshot: StoryStateSnapshot, memories: SectionMemory[]): string[] {
+  const out: string[] = [];
+  const add = (s: string) => {
+    const t = s.trim();
+    if (t && !out.includes(t)) out.push(t);
+  };
+  snapshot.clues.forEach((c) => add(c.content));
+  memories.forEach((m) => m.clues.forEach(add));
+  return out;
+}
+
+// ---- 发言记录 ----
+
+let entrySeq = 0;
+
+function entryId(): string {
+  entrySeq = (entrySeq + 1) % 1_000_000;
+  return `${Date.now().toString(36)}-${entrySeq}`;
+}
+
+/** 玩家行动记为一条发言 */
+export function playerEntry(protagonist: string, action: TrialAction): TrialEntry {
+  const base = { id: entryId(), role: "player" as const, speaker: protagonist, text: action.text.trim() };
+  if (action.type === "rebut") return { ...base, target: action.statementId, evidence: action.evidence || undefined };
+  if (action.type === "present") return { ...base, evidence: action.evidence };
+  return base;
+}
+
+/** 把一轮模型输出并入审判记录：裁定写在玩家的上一条发言上，并另起一条裁定说明 */
+export function applyTrialTurn(session: TrialSession, turn: TrialTurnXML): TrialSession {
+  const entries = [...session.entries];
+  const lastPlayer = entries.map((e) => e.role).lastIndexOf("player");
+  if (lastPlayer >= 0 && turn.hit !== null) entries[lastPlayer] = { ...entries[lastPlayer], hit: turn.hit };
+  if (turn.judgement) entries.push({ id: entryId(), role: "judge", speaker: "", text: turn.judgement });
+  for (const st of turn.statements) entries.push({ id: entryId(), role: "cast", speaker: st.speaker, text: st.text });
+  return { ...session, entries, ready: turn.ready, updatedAt: Date.now() };
+}
+
+/** 本地核定处刑对象：票数最多者，平票不处刑 */
+export function tallyVotes(votes: Array<{ voter: string; target: string }>): { counts: Array<{ name: string; votes: number }>; executed: string } {
+  const counts: Array<{ name: string; votes: number }> = [];
+  for (const v of votes) {
+    const hit = counts.find((c) => sameCharacter(c.name, v.target));
+    if (hit) hit.votes++;
+    else counts.push({ name: v.target, votes: 1 });
+  }
+  counts.sort((a, b) => b.votes - a.votes);
+  const executed = counts.length > 0 && (counts.length === 1 || counts[0].votes > counts[1].votes) ? counts[0].name : "";
+  return { counts, executed };
+}
+
+/**
+ * 并入投票结果：玩家的一票以玩家选择为准，模型代投的同名票丢弃。
+ * cast 为仍存活、参与审判的其他角色；投票人不在其中、或指认的既非其中之人也非主人公的票丢弃，每人只计一票。
+ */
+export function applyTrialVerdict(session: TrialSession, protagonist: string, cast: string[], verdict: TrialVerdictXML): TrialSession {
+  const playerVote = session.playerVote ?? "";
+  const inCast = (name: string) => cast.some((c) => sameCharacter(c, name));
+  const votes = playerVote ? [{ voter: protagonist, target: playerVote }] : [];
+  for (const v of verdict.votes) {
+    if (!inCast(v.voter) || !(inCast(v.target) || sameCharacter(v.target, protagonist))) continue;
+    if (votes.some((w) => sameCharacter(w.voter, v.voter))) continue;
+    votes.push(v);
+  }
+  const { executed } = tallyVotes(votes);
+  const recounted = executed ? !sameCharacter(verdict.executed || executed, executed) : !!verdict.executed;
+  return { ...session, phase: "verdict", votes, executed, narration: verdict.narration, recounted, updatedAt: Date.now() };
+}
+
+function entryLine(e: TrialEntry, byId: Map<string, TrialEntry>): string {
+  if (e.role === "judge") return `（${e.text}）`;
+  const target = e.target ? byId.get(e.target) : undefined;
+  const lead = [target && `针对${target.speaker}的“${target.text}”`, e.evidence && `出示证据【${e.evidence}】`].filter(Boolean).join("，");
+  return `${e.speaker}${lead ? `（${lead}）` : ""}${e.text ? `：「${e.text}」` : ""}`;
+}
+
+/** 审判记录（提示词中的“此前的辩论”） */
+export function formatTrialTranscript(session: TrialSession): string {
+  const byId = new Map(session.entries.map((e) => [e.id, e]));
+  return session.entries.map((e) => entryLine(e, byId)).join("\n");
+}
+
+/** 审判结束后写为本节正文：辩论记录 + 投票与处刑描写 */
+export function trialSectionText(session: TrialSession): string {
+  const byId = new Map(session.entries.map((e) => [e.id, e]));
+  const lines = session.entries.filter((e) => e.role !== "judge").map((e) => entryLine(e, byId));
+  if (session.narration) lines.push("", session.narration);
+  return lines.join("\n");
+}
+
+/** 审判结果（注入下一节提示词的 trialOutcome） */
+export function formatTrialOutcome(session: TrialSession): string {
+  const { counts } = tallyVotes(session.votes);
+  const lines = [
+    `投票：${session.votes.map((v) => `${v.voter}→${v.target}`).join("、") || "无"}`,
+    `票数：${counts.map((c) => `${c.name} ${c.votes} 票`).join("、") || "无"}`,
+    `处刑：${session.executed || "平票，无人被处刑"}`,
+  ];
+  const hits = session.entries.filter((e) => e.role === "player" && e.hit);
+  if (hits.length > 0) {
+    lines.push("主人公击中要害的反驳：");
+    for (const e of hits) lines.push(`- ${e.text}${e.evidence ? `（证据：${e.evidence}）` : ""}`);
+  }
+  return lines.join("\n");
+}
+
+/** 审判结果直接作为本节的故事状态（不再交给模型提取） */
+export function trialSectionState(session: TrialSession, text: string): SectionState {
+  return {
+    key: session.key,
+    deaths: [],
+    trials: [{ accused: session.playerVote ?? "", executed: session.executed ?? "", votes: session.votes }],
+    witchification: [],
+    clues: [],
+    fingerprint: textFingerprint(text),
+    updatedAt: Date.now(),
+  };
+}
+
+// ---- 提示词 ----
+
+const TRIAL_VARS: TemplateVariableSpec[] = [
+  { name: "position", description: "小节位置（第X章第Y节）", required: true },
+  { name: "sectionTitle", description: "节标题", required: true },
+  { name: "sectionSummary", description: "大纲中的本节简述" },
+  { name: "protagonist", description: "主人公（玩家）姓名", required: true },
+  { name: "castList", description: "仍存活、参与审判的其他角色" },
+  { name: "storyState", description: "审判开始前的局势" },
+  { name: "investigation", description: "调查节正文" },
+  { name: "evidence", description: "已发现的证据" },
+  { name: "transcript", description: "此前的辩论记录" },
+  { name: "playerAction", description: "主人公本轮的行动（开场为空）" },
+  { name: "playerVote", description: "主人公投票指认的人物" },
+];
+
+const TRIAL_CONTEXT = `你在主持一部魔女审判推理故事中的审判：{{position}}《{{sectionTitle}}》。主人公{{protagonist}}由玩家扮演，你扮演其他所有角色。
+{{#if sectionSummary}}
+大纲中的本节简述：{{sectionSummary}}
+{{/if}}
+{{#if castList}}
+参与审判的其他角色：{{castList}}
+{{/if}}
+{{#if storyState}}
+
+审判开始前的局势（事实依据，不得与之矛盾）：
+{{storyState}}
+{{/if}}
+{{#if investigation}}
+
+调查经过（事实依据，真相须与之一致）：
+{{investigation}}
+{{/if}}
+{{#if evidence}}
+
+已发现的证据：
+{{evidence}}
+{{/if}}
+{{#if transcript}}
+
+此前的辩论：
+{{transcript}}
+{{/if}}
+`;
+
+const TRIAL_TURN_TEMPLATE = `${TRIAL_CONTEXT}
+{{#if playerAction}}
+主人公{{protagonist}}本轮的行动：
+{{playerAction}}
+
+请先裁定主人公的行动：反驳须与证据相符并切中被反驳发言的漏洞才算击中要害，不要迁就玩家。然后让其他角色各自回应，推进辩论。
+{{/if}}
+{{#unless playerAction}}
+审判刚刚开始。请让其他角色依次发表开场陈述与怀疑对象，留下可以被证据推翻的漏洞。
+{{/unless}}
+
+要求：
+- 每轮 2~4 条发言，每条不超过 80 字，只能由参与审判的其他角色发言，不替主人公说话
+- 角色的说法符合各自性格与立场，可以说谎或误导，但不能与事实依据相矛盾
+- 不要直接揭晓真凶；讨论已足以投票时 ready 为 true
+
+按如下XML格式输出，不要输出其他内容：
+<trialTurn>
+  <judgement><![CDATA[对主人公本轮行动的裁定与理由（开场留空）]]></judgement>
+  <hit>true 或 false（主人公的反驳或证据是否击中要害；开场留空）</hit>
+  <statements>
+    <statement><speaker>角色姓名</speaker><text><![CDATA[发言内容]]></text></statement>
+  </statements>
+  <ready>true 或 false</ready>
+</trialTurn>`;
+
+const TRIAL_VERDICT_TEMPLATE = `${TRIAL_CONTEXT}
+辩论结束，进入投票。主人公{{protagonist}}投票指认了：{{playerVote}}
+
+请根据辩论的走向与各角色的立场，给出其他每位角色的投票，并描写投票揭晓与魔女审判的执行。
+票数最多者被处刑；平票时无人被处刑，描写中须如实体现。
+
+按如下XML格式输出，不要输出其他内容：
+<trialVerdict>
+  <votes>
+    <vote><voter>投票人</voter><target>被投票人</target></vote>
+  </votes>
+  <executed>被处刑者（平票则留空）</executed>
+  <narration><![CDATA[投票揭晓与处刑的描写，300~600字，以主人公的视角]]></narration>
+</trialVerdict>`;
+
+export type TrialPromptInput = {
+  key: string;
+  sectionTitle: string;
+  sectionSummary: string;
+  protagonist: string;
+  snapshot: StoryStateSnapshot;
+  investigation: string;
+  evidence: string[];
+  session: TrialSession;
+};
+
+function trialVars(input: TrialPromptInput) {
+  const { key, snapshot, evidence, session, ...rest } = input;
+  return {
+    ...rest,
+    position: sectionPosition(key),
+    castList: snapshot.cast.filter((c) => c.status === "alive" && !sameCharacter(c.name, input.protagonist)).map((c) => c.name),
+    storyState: formatStoryState(snapshot),
+    evidence: evidence.map((e) => `- ${e}`).join("\n"),
+    transcript: formatTrialTranscript(session),
+  };
+}
+
+/** 一轮辩论的提示词；action 为空时为开场 */
+export function buildTrialTurnPrompt(input: TrialPromptInput, action?: TrialAction): { prompt: string; issues: TemplateIssue[] } {
+  const target = action?.type === "rebut" ? input.session.entries.find((e) => e.id === action.statementId) : undefined;
+  const playerAction = !action
+    ? ""
+    : [
+        target && `反驳${target.speaker}的发言：“${target.text}”`,
+        action.type !== "speak" && action.evidence && `出示证据：${action.evidence}`,
+        action.text.trim() && `主人公说：「${action.text.trim()}」`,
+      ]
+        .filter(Boolean)
+        .join("\n");
+  const { text, issues } = renderTemplate(TRIAL_TURN_TEMPLATE, {
+    vars: { ...trialVars(input), playerAction },
+    known: TRIAL_VARS,
+  });
+  return { prompt: text.trim(), issues };
+}
+
+export function buildTrialVerdictPrompt(input: TrialPromptInput): { prompt: string; issues: TemplateIssue[] } {
+  const { text, issues } = renderTemplate(TRIAL_VERDICT_TEMPLATE, {
+    vars: { ...trialVars(input), playerVote: input.session.playerVote ?? "" },
+    known: TRIAL_VARS,
+  });
+  return { prompt: text.trim(), issues };
+}
@@ -0,0 +1,225 @@
+import {
+  renderTemplate,
+  type TemplateIncludeResolver,
+  type TemplateIssue,
+  type TemplateVariableSpec,
+  type TemplateVars,
+} from "@/lib/templateEngine";
+import type { WorldBookEntry } from "@/lib/worldRetrieval";
+import type { FullOutlineXML } from "@/lib/xml";
+
+/**
+ * 工作流提示词：各模板可用的变量清单与最终提示词的组装（前后端共用）。
+ * - 模板（game/workflow/*.md、random/人物生成.md）通过 {{worldBooks}}、{{characters}} 等变量自行决定各部分的位置
+ * - 模板未引用的上下文变量按原有顺序补在模板前（旧模板一个都未引用时，行为与之前一致）
+ * - 渲染前先校验：未知变量、缺失的必填变量、无法解析的引用都会在 issues 中返回
+ */
+
+export type WorkflowTemplateKey = "outline" | "story" | "character" | "memory";
+
+const CAST_VARS: TemplateVariableSpec[] = [
+  { name: "mainCharacter", description: "主人公姓名", required: true },
+  { name: "castCount", description: "登场人数（玩家角色 + 固定角色）" },
+  { name: "castList", description: "登场人物姓名列表" },
+];
+
+export const WORKFLOW_TEMPLATE_VARS: Record<WorkflowTemplateKey, TemplateVariableSpec[]> = {
+  outline: [
+    { name: "worldBooks", description: "检索到的世界书 XML" },
+    { name: "characters", description: "人物提示词 XML", required: true },
+    ...CAST_VARS,
+  ],
+  story: [
+    { name: "worldBooks", description: "检索到的世界书 XML" },
+    { name: "characters", description: "人物提示词 XML", required: true },
+    { name: "outline", description: "完整大纲 XML", required: true },
+    ...CAST_VARS,
+    { name: "chapterIndex", description: "章序号（1 起）" },
+    { name: "chapterTitle", description: "章标题" },
+    { name: "sectionIndex", description: "节序号（章内，1 起）" },
+    { name: "sectionTitle", description: "节标题", required: true },
+    { name: "sectionSummary", description: "本节摘要" },
+    { name: "storySoFar", description: "此前各节的剧情记忆：摘要、死亡、处刑、线索与关系变化（首节为空）" },
+    { name: "storyState", description: "当前局势：存活/死亡/处刑的角色、审判投票、魔女化程度与线索（首节为空）" },
+    { name: "prevSection", description: "上一节正文（跨章衔接；首节为空）" },
+    { name: "trialOutcome", description: "上一节为互动审判时的审判结果：投票、处刑与玩家的关键反驳（否则为空）" },
+    { name: "playerChoice", description: "玩家在上一节末尾为主人公选择的行动（未选择时为空）" },
+    { name: "nextSectionTitle", description: "下一节标题（末节为空）" },
+    { name: "nextSectionSummary", description: "下一节摘要（末节为空）" },
+    { name: "revisionNotes", description: "按连贯性检查的问题重新生成时的修改要求（平时为空）" },
+  ],
+  character: [
+    { name: "worldBooks", description: "检索到的世界书 XML" },
+    { name: "qa", description: "问卷问答文本", required: true },
+  ],
+  memory: [
+    { name: "sectionText", description: "本节正文", required: true },
+    { name: "sectionTitle", description: "节标题", required: true },
+    { name: "chapterIndex", description: "章序号（1 起）" },
+    { name: "chapterTitle", description: "章标题" },
+    { name: "sectionIndex", description: "节序号（章内，1 起）" },
+    { name: "castList", description: "登场人物姓名列表" },
+    { name: "storySoFar", description: "此前各节的剧情记忆（首节为空）" },
+  ],
+};
+
+/**
+ * 上下文变量的默认组装方式（按引入模板引擎之前的拼接顺序）。模板未引用的变量逐个补在模板前：
+ * 旧模板一个都未引用时与原来的拼接完全一致；按变量编写的模板也不会漏掉之后新增的变量（如修改要求）
+ */
+const LEGACY_FRAMES: Record<WorkflowTemplateKey, Array<{ name: string; block: string }>> = {
+  outline: [
+    { name: "worldBooks", block: "{{#if worldBooks}}{{worldBooks}}\n\n{{/if}}" },
+    { name: "characters", block: "{{characters}}\n\n" },
+  ],
+  story: [
+    { name: "worldBooks", block: "{{#if worldBooks}}{{worldBooks}}\n\n{{/if}}" },
+    { name: "characters", block: "{{characters}}\n\n" },
+    { name: "outline", block: "{{outline}}\n\n" },
+    { name: "storySoFar", block: "{{#if storySoFar}}故事至今：\n{{storySoFar}}\n\n{{/if}}" },
+    { name: "storyState", block: "{{#if storyState}}当前局势：\n{{storyState}}\n\n{{/if}}" },
+    { name: "prevSection", block: "{{#if prevSection}}上一节内容：\n{{prevSection}}\n\n{{/if}}" },
+    { name: "trialOutcome", block: "{{#if trialOutcome}}审判结果：\n{{trialOutcome}}\n\n{{/if}}" },
+    { name: "playerChoice", block: "{{#if playerChoice}}主人公的抉择：\n{{playerChoice}}\n\n{{/if}}" },
+    {
+      name: "revisionNotes",
+      block: "{{#if revisionNotes}}修改要求（本节此前的版本存在以下问题，重写时务必修正）：\n{{revisionNotes}}\n\n{{/if}}",
+    },
+  ],
+  character: [
+    { name: "worldBooks", block: "{{#if worldBooks}}{{worldBooks}}\n\n{{/if}}" },
+    { name: "qa", block: "下面是一个问答：\n{{qa}}\n\n请你根据上面的问答和下列指令生成回答：\n" },
+  ],
+  memory: [
+    { name: "storySoFar", block: "{{#if storySoFar}}此前的剧情记忆：\n{{storySoFar}}\n\n{{/if}}" },
+    { name: "sectionText", block: "本节正文：\n{{sectionText}}\n\n" },
+  ],
+};
+
+function references(template: string, name: string): boolean {
+  return new RegExp(`\\{\\{\\s*(?:#(?:if|unless)\\s+)?${name}\\s*\\}\\}`).test(template);
+}
+
+/** 在模板前补齐其未引用的上下文变量；全部已引用的模板原样返回 */
+export function composeWorkflowTemplate(key: WorkflowTemplateKey, template: string): string {
+  const head = LEGACY_FRAMES[key]
+    .filter(({ name }) => !references(template, name))
+    .map(({ block }) => block)
+    .join("");
+  return head + template;
+}
+
+function countLines(s: string): number {
+  return s.split("\n").length - 1;
+}
+
+export type WorkflowPrompt = {
+  prompt: string;
+  issues: TemplateIssue[];
+};
+
+/** 渲染工作流模板为最终提示词；issues 非空时调用方应阻止发送 */
+export function buildWorkflowPrompt(
+  key: WorkflowTemplateKey,
+  template: string,
+  vars: TemplateVars,
+  includes?: TemplateIncludeResolver
+): WorkflowPrompt {
+  const composed = composeWorkflowTemplate(key, template);
+  const { text, issues } = renderTemplate(composed, {
+    vars,
+    known: WORKFLOW_TEMPLATE_VARS[key],
+    includes,
+  });
+  // 行号换算回模板原文（补齐的上下文部分不计入）
+  const offset = countLines(composed) - countLines(template);
+  return {
+    prompt: text.trim(),
+    issues: offset > 0 ? issues.map((i) => ({ ...i, line: Math.max(1, i.line - offset) })) : issues,
+  };
+}
+
+/**
+ * {{> 引用}} 解析为世界书条目正文（不受检索预算与阶段限制）：
+ * 依次按路径（可省略 .md，如 "world_setting/魔女"）与标题匹配
+ */
+export function worldBookIncludes(entries: WorldBookEntry[]): TemplateIncludeResolver {
+  return (name) => {
+    const key = name.trim().replace(/\\/g, "/");
+    const withExt = key.toLowerCase().endsWith(".md") ? key : `${key}.md`;
+    const hit = entries.find((e) => e.id === withExt) ?? entries.find((e) => e.title === key);
+    return hit?.content;
+  };
+}
+
+/** 小节在大纲中的位置信息：章/节序号（1 起）、标题、摘要与下一节 */
+export function sectionTemplateVars(outline: FullOutlineXML | null, chIdx: number, secIdx: number): TemplateVars {
+  const chapter = outline?.chapters[chIdx];
+  const section = chapter?.sections[secIdx];
+  const next = chapter?.sections[secIdx + 1] ?? outline?.chapters[chIdx + 1]?.sections[0];
+  return {
+    chapterIndex: chIdx + 1,
+    chapterTitle: chapter?.chapterTitle ?? "",
+    sectionIndex: secIdx + 1,
+    sectionSummary: section?.summary ?? "",
+    nextSectionTitle: next?.sectionTitle ?? "",
+    nextSectionSummary: next?.summary ?? "",
+  };
+}
+
+/** 提示词中可单独查看的组成部分（上下文变量）；其余文字统一归为“模板” */
+export const WORKFLOW_PROMPT_PARTS: Record<WorkflowTemplateKey, Array<{ name: string; label: string }>> = {
+  outline: [
+    { name: "worldBooks", label: "世界书" },
+    { name: "characters", label: "人物 XML" },
+  ],
+  story: [
+    { name: "worldBooks", label: "世界书" },
+    { name: "characters", label: "人物 XML" },
+    { name: "outline", label: "大纲 XML" },
+    { name: "storySoFar", label: "剧情记忆" },
+    { name: "storyState", label: "当前局势" },
+    { name: "prevSection", label: "上一节" },
+    { name: "trialOutcome", label: "审判结果" },
+    { name: "playerChoice", label: "主人公的抉择" },
+    { name: "revisionNotes", label: "修改要求" },
+  ],
+  character: [
+    { name: "worldBooks", label: "世界书" },
+    { name: "qa", label: "问卷问答" },
+  ],
+  memory: [
+    { name: "storySoFar", label: "剧情记忆" },
+    { name: "sectionText", label: "本节正文" },
+  ],
+};
+
+export type WorkflowPromptPart = {
+  id: string;
+  label: string;
+  text: string;
+};
+
+/**
+ * 将提示词按组成部分拆开（用于提示词检查器）：各上下文变量的值，
+ * 加上把这些变量置空后渲染出的模板文字（含引用的世界书条目）
+ */
+export function splitWorkflowPrompt(
+  key: WorkflowTemplateKey,
+  template: string,
+  vars: TemplateVars,
+  includes?: TemplateIncludeResolver
+): WorkflowPromptPart[] {
+  const specs = WORKFLOW_PROMPT_PARTS[key];
+  const blank: TemplateVars = { ...vars };
+  for (const { name } of specs) blank[name] = "";
+  const rest = buildWorkflowPrompt(key, template, blank, includes).prompt;
+  return [
+    ...specs.map(({ name, label }) => ({
+      id: name,
+      label,
+      text: typeof vars[name] === "string" ? (vars[name] as string) : "",
+    })),
+    { id: "template", label: "模板", text: rest },
+  ].filter((p) => p.text.trim().length > 0);
+}
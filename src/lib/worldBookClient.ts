@@ -0,0 +1,73 @@
+import type { WorldBookNode } from "@/lib/worldBookFiles";
+
+/**
+ * 浏览器端的世界书编辑接口（/api/session/world-books）。
+ * - 均作用于指定世界包的世界书目录；packId 为空时为默认世界包
+ * - 仅在开发服务器（有服务端）下可用；纯静态部署时请求失败，返回 ok=false 与错误信息
+ * - 写入后下一次生成会重新拉取世界书，无需重启
+ */
+
+const BASE = "/api/session/world-books";
+
+export type { WorldBookNode };
+
+export type WorldBookTree = {
+  /** 允许写入的一级分类目录 */
+  folders: string[];
+  tree: WorldBookNode;
+};
+
+export type WorldBookWriteResult = {
+  ok: boolean;
+  /** 写入后的相对路径（重命名/移动后为新路径） */
+  path?: string;
+  message?: string;
+};
+
+export async function fetchWorldBookTree(packId: string): Promise<WorldBookTree> {
+  const r = await fetch(`${BASE}/tree`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ packId: packId || undefined }),
+  });
+  if (!r.ok) throw new Error(`world-books/tree 接口错误：${r.status}`);
+  const j = (await r.json()) as { folders?: string[]; tree?: WorldBookNode };
+  if (!j.tree) throw new Error("world-books/tree 返回为空");
+  return { folders: Array.isArray(j.folders) ? j.folders : [], tree: j.tree };
+}
+
+async function send(method: "POST" | "PUT" | "DELETE", body: unknown): Promise<WorldBookWriteResult> {
+  try {
+    const resp = await fetch(BASE, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = (await resp.json().catch(() => null)) as
+      | { ok?: boolean; path?: string; error?: { message?: string } }
+      | null;
+    if (!resp.ok || !data?.ok) {
+      return { ok: false, message: data?.error?.message || `HTTP ${resp.status}` };
+    }
+    return { ok: true, path: data.path };
+  } catch (e: unknown) {
+    return { ok: false, message: e instanceof Error ? e.message : "网络错误" };
+  }
+}
+
+export function createWorldBookFile(packId: string, path: string, content: string): Promise<WorldBookWriteResult> {
+  return send("POST", { packId: packId || undefined, path, content });
+}
+
+export function saveWorldBookFile(packId: string, path: string, content: string): Promise<WorldBookWriteResult> {
+  return send("PUT", { packId: packId || undefined, path, content });
+}
+
+/** 重命名或移动（newPath 可位于另一个分类目录） */
+export function moveWorldBookFile(packId: string, path: string, newPath: string): Promise<WorldBookWriteResult> {
+  return send("PUT", { packId: packId || undefined, path, newPath });
+}
+
+export function deleteWorldBookFile(packId: string, path: string): Promise<WorldBookWriteResult> {
+  return send("DELETE", { packId: packId || undefined, path });
+}
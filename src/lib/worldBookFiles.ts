@@ -0,0 +1,273 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GatewayError } from '@/lib/llmGateway';
+import { parseWorldBookFile, type WorldBookEntry } from '@/lib/worldRetrieval';
+
+/**
+ * 服务端读写世界书：game/world_books 下的每个文件是一条条目。
+ * - 一级子目录名作为分类（description / world_setting / map ...），文件名去扩展名作为标题
+ * - 条目 id 为相对 world_books 的路径（统一使用 "/" 分隔），按路径排序保证输出稳定
+ * - 文件开头可带 front matter（keywords / priority / constant / stages），解析失败的行记入 warnings
+ * - 写操作只允许白名单分类目录下的 .md 文件；路径逐段校验并确认解析后仍位于 world_books 内（含符号链接）
+ */
+
+/** 默认允许写入的一级分类目录（世界包可在清单中另行指定） */
+export const WORLD_BOOK_FOLDERS = ['description', 'map', 'prison_setting', 'supplementary_notes', 'world_setting'] as const;
+
+export const WORLD_BOOK_EXT = '.md';
+
+export type WorldBookLoadResult = {
+  entries: WorldBookEntry[];
+  warnings: string[];
+};
+
+export type WorldBookNode = {
+  type: 'folder' | 'file';
+  name: string;
+  /** 相对 world_books 的路径；根目录为空串 */
+  path: string;
+  children?: WorldBookNode[];
+  /** 文件原文（含 front matter） */
+  content?: string;
+};
+
+export function getWorldBooksDir(): string {
+  return path.join(process.cwd(), 'game', 'world_books');
+}
+
+async function walk(absDir: string, relDir: string, out: WorldBookLoadResult): Promise<void> {
+  const entries = await fs.readdir(absDir, { withFileTypes: true });
+  for (const e of entries) {
+    const rel = relDir ? `${relDir}/${e.name}` : e.name;
+    const abs = path.join(absDir, e.name);
+    if (e.isDirectory()) {
+      await walk(abs, rel, out);
+    } else if (e.isFile()) {
+      let content = '';
+      try {
+        content = await fs.readFile(abs, 'utf-8');
+      } catch {
+        // 跳过不可读文件
+        continue;
+      }
+      const { entry, errors } = parseWorldBookFile(rel, content);
+      out.entries.push(entry);
+      for (const err of errors) out.warnings.push(`${rel}：${err}`);
+    }
+  }
+}
+
+export async function loadWorldBookEntries(baseDir: string = getWorldBooksDir()): Promise<WorldBookLoadResult> {
+  const out: WorldBookLoadResult = { entries: [], warnings: [] };
+  await walk(baseDir, '', out);
+  out.entries.sort((a, b) => a.id.localeCompare(b.id, 'zh-CN'));
+  return out;
+}
+
+/** 目录树（按名字排序；文件带原文），供 XML 输出与编辑器使用 */
+export async function buildWorldBookTree(
+  absDir: string = getWorldBooksDir(),
+  relPath = '',
+  name = 'world_books'
+): Promise<WorldBookNode> {
+  const dirNode: WorldBookNode = { type: 'folder', name, path: relPath, children: [] };
+  const entries = await fs.readdir(absDir, { withFileTypes: true });
+  // 稳定输出：按名字排序
+  entries.sort((a, b) => a.name.localeCompare(b.name, 'zh-CN'));
+  for (const e of entries) {
+    const abs = path.join(absDir, e.name);
+    const rel = relPath ? `${relPath}/${e.name}` : e.name;
+    if (e.isDirectory()) {
+      dirNode.children!.push(await buildWorldBookTree(abs, rel, e.name));
+    } else if (e.isFile()) {
+      let content = '';
+      try {
+        content = await fs.readFile(abs, 'utf-8');
+      } catch {
+        // 跳过不可读文件
+        content = '';
+      }
+      dirNode.children!.push({ type: 'file', name: e.name, path: rel, content });
+    }
+  }
+  return dirNode;
+}
+
+// ---- 写操作 ----
+
+// Windows 保留字符；控制字符另行判断
+const RESERVED_CHARS_RE = /[\\/:*?"<>|]/;
+
+function isValidSegment(seg: string): boolean {
+  if (!seg || seg === '.' || seg === '..' || seg.startsWith('.') || seg !== seg.trim()) return false;
+  if (RESERVED_CHARS_RE.test(seg)) return false;
+  return ![...seg].some((ch) => ch.charCodeAt(0) < 0x20);
+}
+
+/**
+ * 校验并规范化相对路径：必须形如 "<白名单分类>/[子目录/]文件名.md"，
+ * 不允许绝对路径、反斜杠、空段、"." / ".." 与隐藏文件。
+ */
+export function normalizeWorldBookPath(relPath: string, folders: readonly string[] = WORLD_BOOK_FOLDERS): string {
+  const raw = String(relPath ?? '').trim();
+  if (!raw) throw new GatewayError('INVALID_BODY', 'path required');
+  if (raw.includes('\\') || raw.startsWith('/') || path.isAbsolute(raw)) {
+    throw new GatewayError('INVALID_BODY', `invalid path: ${raw}`);
+  }
+  const segments = raw.split('/');
+  if (!segments.every(isValidSegment)) {
+    throw new GatewayError('INVALID_BODY', `invalid path segment in: ${raw}`);
+  }
+  if (segments.length < 2 || !folders.includes(segments[0])) {
+    throw new GatewayError('INVALID_BODY', `path must be inside one of: ${folders.join(', ')}`);
+  }
+  const fileName = segments[segments.length - 1];
+  if (!fileName.endsWith(WORLD_BOOK_EXT) || fileName === WORLD_BOOK_EXT) {
+    throw new GatewayError('INVALID_BODY', `only ${WORLD_BOOK_EXT} files are allowed`);
+  }
+  return segments.join('/');
+}
+
+function isInside(baseAbs: string, targetAbs: string): boolean {
+  const rel = path.relative(baseAbs, targetAbs);
+  return !!rel && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/** 规范化后的相对路径与绝对路径；解析结果必须位于 baseDir 内 */
+function resolveWorldBookPath(relPath: string, baseDir: string, folders: readonly string[]): { rel: string; abs: string } {
+  const rel = normalizeWorldBookPath(relPath, folders);
+  const abs = path.resolve(baseDir, ...rel.split('/'));
+  if (!isInside(path.resolve(baseDir), abs)) {
+    throw new GatewayError('INVALID_BODY', `path escapes world_books: ${relPath}`);
+  }
+  return { rel, abs };
+}
+
+/** 最近的已存在的上级目录（含自身） */
+async function nearestExisting(dir: string): Promise<string> {
+  let cur = dir;
+  while (!(await exists(cur))) {
+    const up = path.dirname(cur);
+    if (up === cur) break;
+    cur = up;
+  }
+  return cur;
+}
+
+/**
+ * 确认父目录的真实路径（跟随符号链接后）仍在 baseDir 内；create 时在确认后再创建父目录，
+ * 以免经符号链接在 baseDir 外建出目录。
+ */
+async function ensureParentInside(abs: string, baseDir: string, create = true): Promise<void> {
+  const parent = path.dirname(abs);
+  const realBase = await fs.realpath(baseDir);
+  const checkInside = async (dir: string) => {
+    if (!isInside(realBase, await fs.realpath(dir))) {
+      throw new GatewayError('INVALID_BODY', 'path escapes world_books via symlink');
+    }
+  };
+  if (create) {
+    await checkInside(await nearestExisting(parent));
+    await fs.mkdir(parent, { recursive: true });
+  }
+  await checkInside(parent);
+}
+
+async function exists(abs: string): Promise<boolean> {
+  try {
+    await fs.lstat(abs);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function writeAtomic(abs: string, content: string): Promise<void> {
+  const tmp = `${abs}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, content, 'utf8');
+  await fs.rename(tmp, abs);
+}
+
+/** 删除/移走文件后清理空的子目录（保留白名单分类目录本身） */
+async function pruneEmptyDirs(abs: string, baseDir: string): Promise<void> {
+  const base = path.resolve(baseDir);
+  let dir = path.dirname(abs);
+  while (isInside(base, dir) && path.dirname(dir) !== base) {
+    try {
+      await fs.rmdir(dir);
+    } catch {
+      return;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+/** 新建文件；已存在时抛出 CONFLICT。返回规范化后的相对路径 */
+export async function createWorldBookFile(
+  relPath: string,
+  content: string,
+  baseDir: string = getWorldBooksDir(),
+  folders: readonly string[] = WORLD_BOOK_FOLDERS
+): Promise<string> {
+  const { rel, abs } = resolveWorldBookPath(relPath, baseDir, folders);
+  await ensureParentInside(abs, baseDir);
+  try {
+    await fs.writeFile(abs, content, { encoding: 'utf8', flag: 'wx' });
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException)?.code === 'EEXIST') {
+      throw new GatewayError('CONFLICT', `file already exists: ${rel}`);
+    }
+    throw err;
+  }
+  return rel;
+}
+
+/**
+ * 更新文件：newPath 与原路径不同时先重命名/移动（目标已存在抛出 CONFLICT），
+ * 再在给出 content 时覆盖写入。返回最终的相对路径
+ */
+export async function updateWorldBookFile(
+  relPath: string,
+  patch: { content?: string; newPath?: string },
+  baseDir: string = getWorldBooksDir(),
+  folders: readonly string[] = WORLD_BOOK_FOLDERS
+): Promise<string> {
+  const from = resolveWorldBookPath(relPath, baseDir, folders);
+  if (!(await exists(from.abs))) throw new GatewayError('NOT_FOUND', `file not found: ${from.rel}`);
+  await ensureParentInside(from.abs, baseDir, false);
+  let target = from;
+  if (patch.newPath !== undefined) {
+    const to = resolveWorldBookPath(patch.newPath, baseDir, folders);
+    if (to.rel !== from.rel) {
+      if (await exists(to.abs)) throw new GatewayError('CONFLICT', `file already exists: ${to.rel}`);
+      await ensureParentInside(to.abs, baseDir);
+      await fs.rename(from.abs, to.abs);
+      await pruneEmptyDirs(from.abs, baseDir);
+      target = to;
+    }
+  }
+  if (patch.content !== undefined) {
+    await writeAtomic(target.abs, patch.content);
+  }
+  return target.rel;
+}
+
+export async function deleteWorldBookFile(
+  relPath: string,
+  baseDir: string = getWorldBooksDir(),
+  folders: readonly string[] = WORLD_BOOK_FOLDERS
+): Promise<string> {
+  const { rel, abs } = resolveWorldBookPath(relPath, baseDir, folders);
+  if (!(await exists(abs))) throw new GatewayError('NOT_FOUND', `file not found: ${rel}`);
+  await ensureParentInside(abs, baseDir, false);
+  try {
+    await fs.unlink(abs);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      throw new GatewayError('NOT_FOUND', `file not found: ${rel}`);
+    }
+    throw err;
+  }
+  await pruneEmptyDirs(abs, baseDir);
+  return rel;
+}
@@ -0,0 +1,60 @@
+import type { PackCharacter, PackQuestion, WorldPackManifest, WorldPackSummary, WorldPackTemplates } from "@/lib/worldPacks";
+
+/**
+ * 浏览器端的世界包选择与读取（/api/session/packs/*）。
+ * - 当前世界包 id 存于 localStorage（键：manosaba_ai.world_pack），空串表示默认世界包
+ * - 模板在每次生成前重新拉取，编辑模板或清单后无需刷新页面
+ */
+
+export type { PackCharacter, PackQuestion, WorldPackManifest, WorldPackSummary, WorldPackTemplates };
+
+export const WORLD_PACK_KEY = "manosaba_ai.world_pack";
+
+export type WorldPackBundle = {
+  manifest: WorldPackManifest;
+  isDefault: boolean;
+  templates: WorldPackTemplates;
+};
+
+export function loadSelectedPackId(): string {
+  if (typeof window === "undefined") return "";
+  try {
+    return window.localStorage.getItem(WORLD_PACK_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveSelectedPackId(packId: string): void {
+  if (typeof window === "undefined") return;
+  try {
+    if (packId) window.localStorage.setItem(WORLD_PACK_KEY, packId);
+    else window.localStorage.removeItem(WORLD_PACK_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+export async function fetchWorldPacks(): Promise<WorldPackSummary[]> {
+  const r = await fetch("/api/session/packs", { method: "GET" });
+  if (!r.ok) throw new Error(`packs 接口错误：${r.status}`);
+  const j = (await r.json()) as { packs?: WorldPackSummary[]; warnings?: string[] };
+  if (Array.isArray(j.warnings) && j.warnings.length > 0) console.warn("[packs] 世界包清单问题", j.warnings);
+  return Array.isArray(j.packs) ? j.packs : [];
+}
+
+/** 拉取世界包清单与模板原文；packId 为空时取默认世界包 */
+export async function fetchWorldPack(packId: string): Promise<WorldPackBundle> {
+  const r = await fetch("/api/session/packs/get", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ packId: packId || undefined }),
+  });
+  const j = (await r.json().catch(() => null)) as
+    | { ok?: boolean; pack?: WorldPackManifest; isDefault?: boolean; templates?: WorldPackTemplates; error?: { message?: string } }
+    | null;
+  if (!r.ok || !j?.ok || !j.pack || !j.templates) {
+    throw new Error(`读取世界包失败：${j?.error?.message || `HTTP ${r.status}`}`);
+  }
+  return { manifest: j.pack, isDefault: !!j.isDefault, templates: j.templates };
+}
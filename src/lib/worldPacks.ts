@@ -0,0 +1,262 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { GatewayError } from '@/lib/llmGateway';
+import { WORLD_BOOK_FOLDERS } from '@/lib/worldBookFiles';
+
+/**
+ * 世界包：把一整套设定（世界书、工作流模板、角色问卷、阵容人数范围与固定 NPC）打包为一个目录。
+ * - 默认世界包就是 game/ 目录本身（清单 game/pack.json），其余世界包位于 game/packs/<packId>/
+ * - 目录内以 pack.json 为清单，路径均相对世界包目录；缺省时沿用默认布局：
+ *   world_books/、workflow/生成大纲提示词.md、workflow/生成故事提示词.md、workflow/剧情记忆提示词.md、random/人物生成.md
+ * - 清单缺失时默认世界包回退为内置清单（兼容没有 pack.json 的旧目录）
+ * - 与会话存储一样以磁盘为准，不做进程内缓存：修改清单或模板后下一次请求即生效
+ */
+
+export const PACK_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const MANIFEST_FILE = 'pack.json';
+
+export const PackCharacterSchema = z.object({
+  name: z.string().min(1, 'name required'),
+  appearance: z.string().default(''),
+  magic_pre: z.string().default(''),
+  magic_post: z.string().default(''),
+  tragic_story: z.string().default(''),
+  personality: z.string().default(''),
+  original_sin: z.string().default(''),
+});
+
+export const PackQuestionSchema = z.object({
+  /** q1..q7 依次对应 姓名 / 年龄 / 外貌与衣着 / 能力 / 悲惨故事 / 性格特质 / 原罪 */
+  id: z.string().min(1, 'id required'),
+  q: z.string().min(1, 'q required'),
+  placeholder: z.string().optional(),
+});
+
+export const CastRulesSchema = z
+  .object({
+    /** 至少勾选的玩家角色数 */
+    min: z.number().int().min(1).max(64),
+    /** 至多勾选的玩家角色数 */
+    max: z.number().int().min(1).max(64),
+  })
+  .refine((c) => c.min <= c.max, { message: 'cast.min must not exceed cast.max' });
+
+export const WorldPackManifestSchema = z.object({
+  id: z.string().regex(PACK_ID_PATTERN, 'invalid pack id'),
+  name: z.string().min(1, 'name required'),
+  description: z.string().default(''),
+  /** 世界书目录 */
+  worldBooks: z.string().optional(),
+  /** 世界书编辑器允许写入的一级分类目录 */
+  worldBookFolders: z.array(z.string().regex(/^[^\\/.][^\\/]*$/, 'invalid folder name')).min(1).optional(),
+  templates: z
+    .object({
+      outline: z.string().optional(),
+      story: z.string().optional(),
+      /** 人物补全模板 */
+      character: z.string().optional(),
+      /** 剧情记忆（小节摘要）模板 */
+      memory: z.string().optional(),
+    })
+    .optional(),
+  /** 角色问卷；缺省时使用前端内置问题 */
+  questions: z.array(PackQuestionSchema).min(1).optional(),
+  /** 可勾选的玩家角色数范围 */
+  cast: CastRulesSchema.default({ min: 12, max: 12 }),
+  /** 固定 NPC 的初始名单，追加在玩家角色之后（前端可停用、编辑或替换） */
+  fixedCharacters: z.array(PackCharacterSchema).default([]),
+});
+
+export type PackCharacter = z.infer<typeof PackCharacterSchema>;
+export type CastRules = z.infer<typeof CastRulesSchema>;
+export type PackQuestion = z.infer<typeof PackQuestionSchema>;
+export type WorldPackManifest = z.infer<typeof WorldPackManifestSchema>;
+
+export type WorldPackTemplateKey = 'outline' | 'story' | 'character' | 'memory';
+
+const DEFAULT_LAYOUT = {
+  worldBooks: 'world_books',
+  templates: {
+    outline: 'workflow/生成大纲提示词.md',
+    story: 'workflow/生成故事提示词.md',
+    character: 'random/人物生成.md',
+    memory: 'workflow/剧情记忆提示词.md',
+  } as Record<WorldPackTemplateKey, string>,
+};
+
+const FALLBACK_MANIFEST: WorldPackManifest = {
+  id: 'default',
+  name: '默认世界',
+  description: '',
+  cast: { min: 12, max: 12 },
+  fixedCharacters: [],
+};
+
+export type WorldPack = {
+  manifest: WorldPackManifest;
+  /** 是否为默认世界包（game/ 根目录） */
+  isDefault: boolean;
+  dir: string;
+  worldBooksDir: string;
+  worldBookFolders: readonly string[];
+  templatePaths: Record<WorldPackTemplateKey, string>;
+};
+
+export type WorldPackSummary = {
+  id: string;
+  name: string;
+  description: string;
+  isDefault: boolean;
+  cast: CastRules;
+  fixedCharacters: string[];
+};
+
+export type WorldPackTemplates = {
+  outline: string;
+  story: string;
+  /** 人物补全模板；文件不存在时为空，前端回退为内置模板 */
+  character?: string;
+  /** 剧情记忆模板；文件不存在时为空，前端回退为内置模板 */
+  memory?: string;
+};
+
+export function getGameDir(): string {
+  return path.join(process.cwd(), 'game');
+}
+
+function getPacksDir(): string {
+  return path.join(getGameDir(), 'packs');
+}
+
+async function readManifest(dir: string): Promise<WorldPackManifest | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(dir, MANIFEST_FILE), 'utf-8');
+  } catch {
+    return null;
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (err: unknown) {
+    throw new GatewayError('CONFIG_ERROR', `invalid ${MANIFEST_FILE} in ${dir}: ${err instanceof Error ? err.message : 'bad JSON'}`);
+  }
+  const parsed = WorldPackManifestSchema.safeParse(migrateManifest(json));
+  if (!parsed.success) {
+    throw new GatewayError('CONFIG_ERROR', `invalid ${MANIFEST_FILE} in ${dir}`, { details: parsed.error.flatten() });
+  }
+  return parsed.data;
+}
+
+/**
+ * 兼容旧清单：castSize（固定人数）等同于 cast: { min: castSize, max: castSize }；
+ * 同时写了 cast 时以 cast 为准。
+ */
+function migrateManifest(json: unknown): unknown {
+  if (!json || typeof json !== 'object' || !('castSize' in json)) return json;
+  const { castSize, ...rest } = json as Record<string, unknown>;
+  return rest.cast === undefined ? { ...rest, cast: { min: castSize, max: castSize } } : rest;
+}
+
+/** 清单中的相对路径：不允许跳出世界包目录 */
+function resolveInside(dir: string, rel: string, field: string): string {
+  const abs = path.resolve(dir, rel);
+  const relative = path.relative(dir, abs);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new GatewayError('CONFIG_ERROR', `${field} must stay inside the pack directory: ${rel}`);
+  }
+  return abs;
+}
+
+function toPack(manifest: WorldPackManifest, dir: string, isDefault: boolean): WorldPack {
+  const t = manifest.templates ?? {};
+  return {
+    manifest,
+    isDefault,
+    dir,
+    worldBooksDir: resolveInside(dir, manifest.worldBooks ?? DEFAULT_LAYOUT.worldBooks, 'worldBooks'),
+    worldBookFolders: manifest.worldBookFolders ?? WORLD_BOOK_FOLDERS,
+    templatePaths: {
+      outline: resolveInside(dir, t.outline ?? DEFAULT_LAYOUT.templates.outline, 'templates.outline'),
+      story: resolveInside(dir, t.story ?? DEFAULT_LAYOUT.templates.story, 'templates.story'),
+      character: resolveInside(dir, t.character ?? DEFAULT_LAYOUT.templates.character, 'templates.character'),
+      memory: resolveInside(dir, t.memory ?? DEFAULT_LAYOUT.templates.memory, 'templates.memory'),
+    },
+  };
+}
+
+async function loadDefaultPack(): Promise<WorldPack> {
+  const dir = getGameDir();
+  return toPack((await readManifest(dir)) ?? FALLBACK_MANIFEST, dir, true);
+}
+
+/**
+ * 取世界包：packId 为空或等于默认世界包 id 时返回默认世界包；
+ * 其余 id 对应 game/packs/<packId>/（以目录名为准）。不存在时抛出 NOT_FOUND
+ */
+export async function getWorldPack(packId?: string): Promise<WorldPack> {
+  const def = await loadDefaultPack();
+  if (!packId || packId === def.manifest.id) return def;
+  if (!PACK_ID_PATTERN.test(packId)) {
+    throw new GatewayError('INVALID_BODY', `invalid packId: ${packId}`);
+  }
+  const dir = path.join(getPacksDir(), packId);
+  const manifest = await readManifest(dir);
+  if (!manifest) throw new GatewayError('NOT_FOUND', `world pack not found: ${packId}`);
+  return toPack({ ...manifest, id: packId }, dir, false);
+}
+
+export function summarizeWorldPack(pack: WorldPack): WorldPackSummary {
+  const m = pack.manifest;
+  return {
+    id: m.id,
+    name: m.name,
+    description: m.description,
+    isDefault: pack.isDefault,
+    cast: m.cast,
+    fixedCharacters: m.fixedCharacters.map((c) => c.name),
+  };
+}
+
+/** 列出全部世界包（默认世界包在前）；清单无效的世界包跳过并记入 warnings */
+export async function listWorldPacks(): Promise<{ packs: WorldPackSummary[]; warnings: string[] }> {
+  const packs: WorldPackSummary[] = [summarizeWorldPack(await loadDefaultPack())];
+  const warnings: string[] = [];
+  let dirs: string[] = [];
+  try {
+    const entries = await fs.readdir(getPacksDir(), { withFileTypes: true });
+    dirs = entries.filter((e) => e.isDirectory() && PACK_ID_PATTERN.test(e.name)).map((e) => e.name);
+  } catch {
+    // 没有 game/packs 目录时只有默认世界包
+  }
+  dirs.sort((a, b) => a.localeCompare(b, 'zh-CN'));
+  for (const id of dirs) {
+    if (id === packs[0].id) {
+      warnings.push(`packs/${id}：与默认世界包 id 重复，已跳过`);
+      continue;
+    }
+    try {
+      packs.push(summarizeWorldPack(await getWorldPack(id)));
+    } catch (err: unknown) {
+      warnings.push(`packs/${id}：${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return { packs, warnings };
+}
+
+/** 读取世界包的工作流模板原文（不做替换） */
+export async function readWorldPackTemplate(pack: WorldPack, key: WorldPackTemplateKey): Promise<string> {
+  return fs.readFile(pack.templatePaths[key], 'utf-8');
+}
+
+export async function readWorldPackTemplates(pack: WorldPack): Promise<WorldPackTemplates> {
+  const [outline, story, character, memory] = await Promise.all([
+    readWorldPackTemplate(pack, 'outline'),
+    readWorldPackTemplate(pack, 'story'),
+    readWorldPackTemplate(pack, 'character').catch(() => undefined),
+    readWorldPackTemplate(pack, 'memory').catch(() => undefined),
+  ]);
+  return { outline, story, character, memory };
+}
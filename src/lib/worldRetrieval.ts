@@ -0,0 +1,486 @@
+import { parseFrontMatter, type FrontMatterValue } from "@/lib/frontMatter";
+import { estimateTokens } from "@/lib/tokenizer";
+
+/**
+ * 世界书检索：不再把全部世界书塞进每个提示词，而是按“当前小节摘要 + 在场角色”检索相关条目。
+ * - 关键词检索：BM25；中文按二元组（bigram）切分，英文/数字按词切分，标题词加权
+ * - 可选语义检索：调用方注入 embed（经所配置供应商的向量化接口），与 BM25 线性混合
+ * - 条目可带 front matter 元数据（类似 SillyTavern 世界书）：触发关键词、优先级、常驻、适用阶段
+ * - 按 token 预算贪心选取，返回注入用的 XML 与“收录/跳过了哪些条目”的报告
+ * - 纯逻辑（设置读写除外），不依赖 DOM；设置存于 localStorage（键：manosaba_ai.world_retrieval）
+ */
+
+/** 世界书适用的生成阶段 */
+export type WorldStage = "outline" | "section" | "completion";
+
+export const WORLD_STAGES: Array<{ id: WorldStage; label: string }> = [
+  { id: "outline", label: "大纲" },
+  { id: "section", label: "小节故事" },
+  { id: "completion", label: "人物补全" },
+];
+
+/** 未声明 stages 时的适用阶段（与旧行为一致：人物补全不注入世界书） */
+export const DEFAULT_WORLD_STAGES: WorldStage[] = ["outline", "section"];
+
+export type WorldBookMeta = {
+  /** 触发关键词：声明后仅当查询文本提到任一关键词时才收录 */
+  keywords: string[];
+  /** 优先级：越大越先装入预算，默认 0 */
+  priority: number;
+  /** 常驻：在适用阶段总是收录，不受关键词与预算限制 */
+  constant: boolean;
+  stages: WorldStage[];
+};
+
+export type WorldBookEntry = {
+  /** 相对 world_books 的路径，如 "world_setting/魔女.md" */
+  id: string;
+  /** 一级目录名 */
+  category: string;
+  title: string;
+  /** 正文（已去除 front matter） */
+  content: string;
+  meta: WorldBookMeta;
+};
+
+// ---- front matter 元数据 ----
+
+function toList(v: FrontMatterValue | undefined): string[] {
+  if (v === undefined || v === null) return [];
+  const list = Array.isArray(v) ? v : String(v).split(/[,，]/);
+  return list.map((x) => String(x ?? "").trim()).filter(Boolean);
+}
+
+const STAGE_ALIASES: Record<string, WorldStage> = {
+  outline: "outline",
+  section: "section",
+  story: "section",
+  completion: "completion",
+  character: "completion",
+};
+
+/**
+ * 解析一个世界书文件：front matter 字段
+ * - keywords（别名 keys / key）：触发关键词
+ * - priority（别名 order）：数字
+ * - constant：true 时常驻
+ * - stages：outline / section / completion（character 为 completion 的别名）
+ * - title：覆盖由文件名得到的标题
+ */
+export function parseWorldBookFile(id: string, raw: string): { entry: WorldBookEntry; errors: string[] } {
+  const fm = parseFrontMatter(raw);
+  const d = fm.data;
+  const errors = [...fm.errors];
+  const stages: WorldStage[] = [];
+  for (const s of toList(d.stages)) {
+    const stage = STAGE_ALIASES[s.toLowerCase()];
+    if (stage && !stages.includes(stage)) stages.push(stage);
+    else if (!stage) errors.push(`未知阶段：${s}`);
+  }
+  const priority = Number(d.priority ?? d.order ?? 0);
+  const parts = id.split("/");
+  const fileName = parts[parts.length - 1];
+  return {
+    entry: {
+      id,
+      category: parts.length > 1 ? parts[0] : "",
+      title: typeof d.title === "string" && d.title.trim() ? d.title.trim() : fileName.replace(/\.[^.]+$/, ""),
+      content: fm.body,
+      meta: {
+        keywords: toList(d.keywords ?? d.keys ?? d.key),
+        priority: Number.isFinite(priority) ? priority : 0,
+        constant: d.constant === true,
+        stages: stages.length > 0 ? stages : DEFAULT_WORLD_STAGES,
+      },
+    },
+    errors,
+  };
+}
+
+export type WorldRetrievalSettings = {
+  /** 关闭时沿用旧行为：注入全部世界书 */
+  enabled: boolean;
+  /** 小节生成时世界书的 token 预算 */
+  sectionBudget: number;
+  /** 大纲生成时世界书的 token 预算（大纲需要更完整的设定） */
+  outlineBudget: number;
+  /** 向量模型 ID；留空则只用 BM25 */
+  embeddingModel: string;
+  /** 语义分数的混合权重（0~1） */
+  embeddingWeight: number;
+};
+
+export const WORLD_RETRIEVAL_KEY = "manosaba_ai.world_retrieval";
+
+export const DEFAULT_WORLD_RETRIEVAL: WorldRetrievalSettings = {
+  enabled: true,
+  sectionBudget: 3000,
+  outlineBudget: 8000,
+  embeddingModel: "",
+  embeddingWeight: 0.5,
+};
+
+function clampInt(v: unknown, min: number, max: number, fallback: number): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? Math.min(Math.max(Math.floor(n), min), max) : fallback;
+}
+
+export function normalizeWorldRetrievalSettings(raw: unknown): WorldRetrievalSettings {
+  const o = (raw && typeof raw === "object" ? raw : {}) as Partial<WorldRetrievalSettings>;
+  const d = DEFAULT_WORLD_RETRIEVAL;
+  const weight = typeof o.embeddingWeight === "number" && Number.isFinite(o.embeddingWeight) ? o.embeddingWeight : d.embeddingWeight;
+  return {
+    enabled: typeof o.enabled === "boolean" ? o.enabled : d.enabled,
+    sectionBudget: clampInt(o.sectionBudget, 200, 200000, d.sectionBudget),
+    outlineBudget: clampInt(o.outlineBudget, 200, 200000, d.outlineBudget),
+    embeddingModel: typeof o.embeddingModel === "string" ? o.embeddingModel.trim() : d.embeddingModel,
+    embeddingWeight: Math.min(Math.max(weight, 0), 1),
+  };
+}
+
+export function loadWorldRetrievalSettings(): WorldRetrievalSettings {
+  if (typeof window === "undefined") return DEFAULT_WORLD_RETRIEVAL;
+  try {
+    const s = window.localStorage.getItem(WORLD_RETRIEVAL_KEY);
+    return normalizeWorldRetrievalSettings(s ? JSON.parse(s) : null);
+  } catch {
+    return DEFAULT_WORLD_RETRIEVAL;
+  }
+}
+
+export function saveWorldRetrievalSettings(settings: WorldRetrievalSettings): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(WORLD_RETRIEVAL_KEY, JSON.stringify(normalizeWorldRetrievalSettings(settings)));
+  } catch {
+    // ignore
+  }
+}
+
+// ---- 切分与 token 估算 ----
+
+const CJK_RE = /[\u3400-\u9fff\uf900-\ufaff]/;
+const TITLE_BOOST = 3;
+
+/** token 估算统一使用本地分词估算器（见 '@/lib/tokenizer'） */
+export { estimateTokens };
+
+/** 切分检索词：连续中文取二元组（单字成段时取单字），英文/数字取小写词 */
+export function tokenize(text: string): string[] {
+  const out: string[] = [];
+  const runs = (text || "").toLowerCase().match(/[\u3400-\u9fff\uf900-\ufaff]+|[a-z0-9]+/g) ?? [];
+  for (const run of runs) {
+    if (!CJK_RE.test(run[0])) {
+      if (run.length >= 2) out.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      out.push(chars[0]);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) out.push(chars[i] + chars[i + 1]);
+  }
+  return out;
+}
+
+// ---- BM25 索引 ----
+
+const K1 = 1.2;
+const B = 0.75;
+
+type IndexedDoc = {
+  entry: WorldBookEntry;
+  tf: Map<string, number>;
+  length: number;
+  tokens: number;
+};
+
+export type WorldBookIndex = {
+  docs: IndexedDoc[];
+  df: Map<string, number>;
+  avgLength: number;
+};
+
+export function buildWorldBookIndex(entries: WorldBookEntry[]): WorldBookIndex {
+  const df = new Map<string, number>();
+  const docs = entries.map((entry) => {
+    const terms = tokenize(entry.content);
+    const titleTerms = tokenize(entry.title);
+    for (let i = 0; i < TITLE_BOOST; i++) terms.push(...titleTerms);
+    const tf = new Map<string, number>();
+    for (const t of terms) tf.set(t, (tf.get(t) ?? 0) + 1);
+    for (const t of tf.keys()) df.set(t, (df.get(t) ?? 0) + 1);
+    return { entry, tf, length: terms.length, tokens: estimateTokens(entry.content) };
+  });
+  const avgLength = docs.length ? docs.reduce((n, d) => n + d.length, 0) / docs.length : 0;
+  return { docs, df, avgLength };
+}
+
+/** 查询词去重并计权（重复出现的词最多计 3 次，便于给角色名加权） */
+function queryWeights(query: string): Map<string, number> {
+  const w = new Map<string, number>();
+  for (const t of tokenize(query)) w.set(t, Math.min((w.get(t) ?? 0) + 1, 3));
+  return w;
+}
+
+function bm25(index: WorldBookIndex, doc: IndexedDoc, weights: Map<string, number>): number {
+  const n = index.docs.length;
+  let score = 0;
+  for (const [term, qw] of weights) {
+    const f = doc.tf.get(term);
+    if (!f) continue;
+    const df = index.df.get(term) ?? 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    score += qw * idf * ((f * (K1 + 1)) / (f + K1 * (1 - B + (B * doc.length) / (index.avgLength || 1))));
+  }
+  return score;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+// ---- 检索与预算 ----
+
+/** 语义相似度低于该值且没有关键词命中的条目视为无关 */
+const MIN_SEMANTIC = 0.3;
+
+export type RankedWorldEntry = {
+  entry: WorldBookEntry;
+  score: number;
+  bm25: number;
+  semantic?: number;
+  tokens: number;
+};
+
+export type WorldRetrievalReportItem = {
+  id: string;
+  title: string;
+  category: string;
+  score: number;
+  tokens: number;
+  priority: number;
+};
+
+/** 收录原因：常驻 / 关键词触发 / 检索相关 / 未启用检索时全部收录 */
+export type WorldIncludeReason = "constant" | "keyword" | "relevance" | "all";
+/** 跳过原因：超出预算 / 与查询无关 / 关键词未触发 */
+export type WorldSkipReason = "budget" | "irrelevant" | "not-triggered";
+
+export type WorldRetrievalReport = {
+  stage: WorldStage;
+  query: string;
+  /** 为空表示不限预算（未启用检索） */
+  budgetTokens?: number;
+  usedTokens: number;
+  /** 是否使用了语义检索 */
+  semantic: boolean;
+  /** 语义检索失败原因（已回退到 BM25） */
+  semanticError?: string;
+  included: Array<WorldRetrievalReportItem & { via: WorldIncludeReason }>;
+  skipped: Array<WorldRetrievalReportItem & { reason: WorldSkipReason }>;
+};
+
+export type WorldRetrievalResult = {
+  xml: string;
+  entries: WorldBookEntry[];
+  report: WorldRetrievalReport;
+};
+
+/** 向量化回调：按输入顺序返回向量；失败时抛错或返回 null（回退到 BM25） */
+export type EmbedFn = (texts: string[]) => Promise<number[][] | null>;
+
+// 条目向量缓存（按 向量模型 + 条目 id + 内容 缓存，页面生命周期内有效）
+const embeddingCache = new Map<string, number[]>();
+
+async function embedEntries(entries: WorldBookEntry[], embed: EmbedFn, cacheKey: string): Promise<number[][] | null> {
+  const keyOf = (e: WorldBookEntry) => `${cacheKey}\u0000${e.id}\u0000${e.content}`;
+  const missing = entries.filter((e) => !embeddingCache.has(keyOf(e)));
+  if (missing.length > 0) {
+    const vectors = await embed(missing.map((e) => `${e.title}\n${e.content}`));
+    if (!vectors || vectors.length !== missing.length) return null;
+    missing.forEach((e, i) => embeddingCache.set(keyOf(e), vectors[i]));
+  }
+  return entries.map((e) => embeddingCache.get(keyOf(e)) ?? []);
+}
+
+export async function rankWorldEntries(
+  index: WorldBookIndex,
+  query: string,
+  opts?: { embed?: EmbedFn; embedCacheKey?: string; embeddingWeight?: number }
+): Promise<{ ranked: RankedWorldEntry[]; semantic: boolean; semanticError?: string }> {
+  const weights = queryWeights(query);
+  const raw = index.docs.map((doc) => ({ doc, bm25: bm25(index, doc, weights) }));
+  const maxBm25 = raw.reduce((m, r) => Math.max(m, r.bm25), 0);
+
+  let semanticScores: number[] | null = null;
+  let semanticError: string | undefined;
+  if (opts?.embed && index.docs.length > 0) {
+    try {
+      const docVectors = await embedEntries(index.docs.map((d) => d.entry), opts.embed, opts.embedCacheKey ?? "");
+      const queryVector = docVectors ? (await opts.embed([query]))?.[0] : undefined;
+      if (docVectors && queryVector) semanticScores = docVectors.map((v) => cosine(queryVector, v));
+      else semanticError = "向量化接口未返回有效结果";
+    } catch (e: unknown) {
+      semanticError = e instanceof Error ? e.message : "向量化失败";
+    }
+  }
+
+  const w = semanticScores ? Math.min(Math.max(opts?.embeddingWeight ?? 0.5, 0), 1) : 0;
+  const ranked = raw.map((r, i) => {
+    const bm25n = maxBm25 > 0 ? r.bm25 / maxBm25 : 0;
+    const semantic = semanticScores?.[i];
+    const score = (1 - w) * bm25n + w * Math.max(semantic ?? 0, 0);
+    return { entry: r.doc.entry, score, bm25: r.bm25, semantic, tokens: r.doc.tokens };
+  });
+  ranked.sort((a, b) => b.score - a.score || a.entry.id.localeCompare(b.entry.id));
+  return { ranked, semantic: !!semanticScores, semanticError };
+}
+
+function reportItem(r: RankedWorldEntry): WorldRetrievalReportItem {
+  return {
+    id: r.entry.id,
+    title: r.entry.title,
+    category: r.entry.category,
+    score: Math.round(r.score * 1000) / 1000,
+    tokens: r.tokens,
+    priority: r.entry.meta.priority,
+  };
+}
+
+/** 查询文本是否提到条目的任一触发关键词（不区分大小写） */
+export function isKeywordTriggered(entry: WorldBookEntry, query: string): boolean {
+  const q = query.toLowerCase();
+  return entry.meta.keywords.some((k) => q.includes(k.toLowerCase()));
+}
+
+type Included = RankedWorldEntry & { via: WorldIncludeReason };
+type Skipped = RankedWorldEntry & { reason: WorldSkipReason };
+
+/**
+ * 选取条目：常驻条目直接收录；带关键词的条目仅在被触发时参与；
+ * 其余条目需与查询相关（未给出预算时全部参与）。参与者按优先级、再按分数贪心装入预算，
+ * 放不下的跳过并继续尝试更小的条目。
+ */
+export function selectWorldEntries(
+  ranked: RankedWorldEntry[],
+  opts: { query: string; budgetTokens?: number }
+): { included: Included[]; skipped: Skipped[]; usedTokens: number } {
+  const { query, budgetTokens } = opts;
+  const included: Included[] = [];
+  const skipped: Skipped[] = [];
+  const candidates: Included[] = [];
+  let used = 0;
+  for (const r of ranked) {
+    const meta = r.entry.meta;
+    if (meta.constant) {
+      included.push({ ...r, via: "constant" });
+      used += r.tokens;
+    } else if (meta.keywords.length > 0) {
+      if (isKeywordTriggered(r.entry, query)) candidates.push({ ...r, via: "keyword" });
+      else skipped.push({ ...r, reason: "not-triggered" });
+    } else if (budgetTokens === undefined) {
+      candidates.push({ ...r, via: "all" });
+    } else if (r.bm25 > 0 || (r.semantic ?? 0) >= MIN_SEMANTIC) {
+      candidates.push({ ...r, via: "relevance" });
+    } else {
+      skipped.push({ ...r, reason: "irrelevant" });
+    }
+  }
+  // sort 为稳定排序：同优先级保持分数顺序
+  candidates.sort((x, y) => y.entry.meta.priority - x.entry.meta.priority);
+  for (const c of candidates) {
+    if (budgetTokens !== undefined && used + c.tokens > budgetTokens) {
+      skipped.push({ ...c, reason: "budget" });
+    } else {
+      included.push(c);
+      used += c.tokens;
+    }
+  }
+  return { included, skipped, usedTokens: used };
+}
+
+function cdata(s: string): string {
+  const safe = (s ?? "").replace(/\]\]>/g, "]]]]><![CDATA[>");
+  return `<![CDATA[${safe}]]>`;
+}
+
+/** 以与 /api/session/world-books 相同的结构输出（按分类分组的 folder/file） */
+export function renderWorldBooksXml(entries: WorldBookEntry[]): string {
+  const groups = new Map<string, WorldBookEntry[]>();
+  for (const e of entries) {
+    const list = groups.get(e.category) ?? [];
+    list.push(e);
+    groups.set(e.category, list);
+  }
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', "<worldBooks>", "  <folder>", `    <name>${cdata("world_books")}</name>`];
+  for (const [category, list] of groups) {
+    const indent = category ? "      " : "    ";
+    if (category) lines.push("    <folder>", `      <name>${cdata(category)}</name>`);
+    for (const e of list) {
+      const fileName = e.id.split("/").pop() ?? e.title;
+      lines.push(`${indent}<file>`, `${indent}  <name>${cdata(fileName)}</name>`, `${indent}  <content>${cdata(e.content)}</content>`, `${indent}</file>`);
+    }
+    if (category) lines.push("    </folder>");
+  }
+  lines.push("  </folder>", "</worldBooks>");
+  return lines.join("\n");
+}
+
+/**
+ * 检索并渲染：先按阶段过滤，再按元数据与相关度选取，返回注入用 XML 与报告。
+ * 未给出 budgetTokens 时不做相关度过滤与预算限制（仍遵循关键词触发与阶段）。
+ * 收录条目按原有 id 顺序输出，保持提示词稳定（便于缓存命中）。
+ */
+export async function retrieveWorldBooks(
+  entries: WorldBookEntry[],
+  query: string,
+  opts: { stage: WorldStage; budgetTokens?: number; embed?: EmbedFn; embedCacheKey?: string; embeddingWeight?: number }
+): Promise<WorldRetrievalResult> {
+  const staged = entries.filter((e) => e.meta.stages.includes(opts.stage));
+  const index = buildWorldBookIndex(staged);
+  const { ranked, semantic, semanticError } = await rankWorldEntries(index, query, {
+    ...opts,
+    // 不限预算时无需语义分数
+    embed: opts.budgetTokens === undefined ? undefined : opts.embed,
+  });
+  const { included, skipped, usedTokens } = selectWorldEntries(ranked, { query, budgetTokens: opts.budgetTokens });
+  const picked = included.map((r) => r.entry).sort((a, b) => a.id.localeCompare(b.id, "zh-CN"));
+  return {
+    xml: picked.length > 0 ? renderWorldBooksXml(picked) : "",
+    entries: picked,
+    report: {
+      stage: opts.stage,
+      query,
+      budgetTokens: opts.budgetTokens,
+      usedTokens,
+      semantic,
+      semanticError,
+      included: included.map((r) => ({ ...reportItem(r), via: r.via })),
+      skipped: skipped.map((r) => ({ ...reportItem(r), reason: r.reason })),
+    },
+  };
+}
+
+/** 拉取世界包的全部世界书条目（JSON）；packId 为空时取默认世界包 */
+export async function fetchWorldBookEntries(packId?: string): Promise<WorldBookEntry[]> {
+  const r = await fetch("/api/session/world-books/entries", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ packId: packId || undefined }),
+  });
+  if (!r.ok) throw new Error(`world-books/entries 接口错误：${r.status}`);
+  const j = (await r.json()) as { entries?: WorldBookEntry[]; warnings?: string[] };
+  if (Array.isArray(j.warnings) && j.warnings.length > 0) console.warn("[world-books] front matter 问题", j.warnings);
+  return Array.isArray(j.entries) ? j.entries : [];
+}
@@ -1,3 +1,17 @@
+import { z } from 'zod';
+import {
+  byteOffsetOf,
+  findElement,
+  findElements,
+  parseXmlTree,
+  stripCodeFence,
+  textContent,
+  type XmlElement,
+  type XmlIssue,
+} from '@/lib/xmlParser';
+
+export type { XmlIssue, XmlIssueCode } from '@/lib/xmlParser';
+
 export type CharacterXML = {
   appearance: string;
   preferences: string;
@@ -13,27 +27,303 @@ export type StoryXML = {
   content: string;
 };
 
-function stripCData(s: string): string {
-  return s
-    .replace(/<!\[CDATA\[/g, '')
-    .replace(/\]\]>/g, '');
-}
+export type FullOutlineSection = {
+  sectionTitle: string;
+  summary: string;
+};
+
+export type FullOutlineChapter = {
+  chapterTitle: string;
+  sections: FullOutlineSection[];
+};
+
+export type FullOutlineXML = {
+  title: string;
+  premise: string;
+  chapters: FullOutlineChapter[];
+  ending?: string;
+};
+
+export type CompletionExtracted = {
+  name: string;
+  age: string;
+  appearanceClothes: string;
+  magicPre: string;
+  magicPost: string;
+  tragicStory: string;
+  personality: string;
+  originalSin: string;
+};
+
+export type SectionStateDeath = {
+  victim: string;
+  /** 凶手；本节尚未查明时为空 */
+  killer: string;
+  cause: string;
+};
+
+export type SectionStateTrial = {
+  /** 被投票指认者 */
+  accused: string;
+  /** 被处刑者；审判未处刑时为空 */
+  executed: string;
+  votes: Array<{ voter: string; target: string }>;
+};
+
+export type SectionStateWitch = {
+  name: string;
+  /** 魔女化程度：0 未显现 … 4 完全魔女化 */
+  stage: number;
+  note: string;
+};
+
+export type SectionStateClue = {
+  content: string;
+  finder: string;
+  /** 线索指向的人物或事件 */
+  pointsTo: string;
+};
+
+export type SectionStateXML = {
+  deaths: SectionStateDeath[];
+  trials: SectionStateTrial[];
+  witchification: SectionStateWitch[];
+  clues: SectionStateClue[];
+};
 
-function innerText(xml: string, tag: string): string | null {
-  const re = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i');
-  const m = xml.match(re);
-  if (!m) return null;
-  return stripCData(m[1]).trim();
+export type ContinuityIssueXML = {
+  kind: string;
+  severity: string;
+  /** 正文原句摘录 */
+  quote: string;
+  problem: string;
+  fix: string;
+};
+
+export type ContinuityReportXML = {
+  issues: ContinuityIssueXML[];
+};
+
+export type TrialTurnXML = {
+  /** 对主人公上一步行动的裁定（开场为空） */
+  judgement: string;
+  /** 反驳或证据是否击中要害；开场或无从判断时为 null */
+  hit: boolean | null;
+  statements: Array<{ speaker: string; text: string }>;
+  /** 讨论是否已足以进入投票 */
+  ready: boolean;
+};
+
+export type TrialVerdictXML = {
+  votes: Array<{ voter: string; target: string }>;
+  /** 被处刑者；无人处刑时为空 */
+  executed: string;
+  narration: string;
+};
+
+export type StoryChoicesXML = {
+  choices: Array<{ label: string; consequence: string }>;
+};
+
+export type SectionMemoryXML = {
+  summary: string;
+  deaths: string[];
+  executions: string[];
+  clues: string[];
+  relationships: string[];
+};
+
+// ---- Schema（解析出的字段统一经 zod 校验；必填字段为空视为缺失） ----
+
+const required = z.string().min(1);
+
+export const CharacterProfileSchema: z.ZodType<CharacterXML> = z.object({
+  appearance: required,
+  preferences: required,
+});
+
+export const StoryOutlineSchema: z.ZodType<OutlineXML> = z.object({
+  premise: required,
+  beats: z.array(required).min(1),
+});
+
+export const FullStoryOutlineSchema: z.ZodType<FullOutlineXML> = z.object({
+  title: z.string(),
+  premise: required,
+  chapters: z
+    .array(
+      z.object({
+        chapterTitle: required,
+        sections: z.array(z.object({ sectionTitle: required, summary: required })).min(1),
+      })
+    )
+    .min(1),
+  ending: z.string().optional(),
+});
+
+export const StorySchema: z.ZodType<StoryXML> = z.object({
+  title: z.string(),
+  content: required,
+});
+
+export const CharacterCompletionSchema: z.ZodType<CompletionExtracted> = z.object({
+  name: required,
+  age: required,
+  appearanceClothes: required,
+  magicPre: z.string(),
+  magicPost: z.string(),
+  tragicStory: required,
+  personality: required,
+  originalSin: required,
+});
+
+export const SectionStateSchema: z.ZodType<SectionStateXML> = z.object({
+  deaths: z.array(z.object({ victim: required, killer: z.string(), cause: z.string() })),
+  trials: z.array(
+    z.object({
+      accused: z.string(),
+      executed: z.string(),
+      votes: z.array(z.object({ voter: required, target: required })),
+    })
+  ),
+  witchification: z.array(z.object({ name: required, stage: z.number().int().min(0).max(4), note: z.string() })),
+  clues: z.array(z.object({ content: required, finder: z.string(), pointsTo: z.string() })),
+});
+
+export const ContinuityReportSchema: z.ZodType<ContinuityReportXML> = z.object({
+  issues: z.array(
+    z.object({ kind: z.string(), severity: z.string(), quote: z.string(), problem: required, fix: z.string() })
+  ),
+});
+
+export const TrialTurnSchema: z.ZodType<TrialTurnXML> = z.object({
+  judgement: z.string(),
+  hit: z.boolean().nullable(),
+  statements: z.array(z.object({ speaker: required, text: required })).min(1),
+  ready: z.boolean(),
+});
+
+export const TrialVerdictSchema: z.ZodType<TrialVerdictXML> = z.object({
+  votes: z.array(z.object({ voter: required, target: required })),
+  executed: z.string(),
+  narration: required,
+});
+
+export const StoryChoicesSchema: z.ZodType<StoryChoicesXML> = z.object({
+  choices: z.array(z.object({ label: required, consequence: z.string() })).min(2).max(4),
+});
+
+export const SectionMemorySchema: z.ZodType<SectionMemoryXML> = z.object({
+  summary: required,
+  deaths: z.array(required),
+  executions: z.array(required),
+  clues: z.array(required),
+  relationships: z.array(required),
+});
+
+// ---- 诊断 ----
+
+export type XmlDiagnostics = {
+  ok: boolean;
+  /** 期望的根节点名 */
+  root: string;
+  rootFound: boolean;
+  /** finish_reason 为 length，或文末存在未闭合的元素 / CDATA / 半截标签 */
+  truncated: boolean;
+  finishReason?: string;
+  /** 是否做过任何修复（剥离围栏、补齐标签等） */
+  repaired: boolean;
+  /** 缺失或为空的字段路径（如 premise、chapters.0.sections） */
+  missingFields: string[];
+  issues: XmlIssue[];
+  /** 首个结构性问题在原文中的位置（字符 / UTF-8 字节） */
+  failureOffset?: number;
+  failureByteOffset?: number;
+};
+
+export type XmlParseResult<T> = {
+  data: T | null;
+  diagnostics: XmlDiagnostics;
+};
+
+export type XmlParseOptions = {
+  /** 模型返回的 finish_reason；为 "length" 时标记为截断 */
+  finishReason?: string | null;
+};
+
+// 仅为外观修复，不算作失败位置
+const COSMETIC_ISSUES = new Set<XmlIssue['code']>(['code-fence', 'nested-cdata', 'schema']);
+
+function parseShape<T>(
+  xml: unknown,
+  root: string,
+  schema: z.ZodType<T>,
+  extract: (scope: XmlElement, issues: XmlIssue[]) => unknown,
+  opts?: XmlParseOptions
+): XmlParseResult<T> {
+  const finishReason = opts?.finishReason ?? undefined;
+  const text = typeof xml === 'string' ? xml : '';
+  const issues: XmlIssue[] = [];
+
+  const fence = stripCodeFence(text);
+  if (fence.stripped) {
+    issues.push({ code: 'code-fence', message: '已剥离 ``` 代码围栏', offset: fence.base });
+  }
+  const tree = parseXmlTree(fence.body);
+  const rootEl = findElement(tree.document, root);
+  const innerIssues: XmlIssue[] = [...tree.issues];
+  if (!rootEl) {
+    innerIssues.push({ code: 'missing-root', message: `未找到 <${root}> 根节点`, offset: 0 });
+  }
+  const raw = extract(rootEl ?? tree.document, innerIssues);
+  for (const issue of innerIssues) {
+    issues.push({ ...issue, offset: issue.offset === undefined ? undefined : issue.offset + fence.base });
+  }
+
+  const result = schema.safeParse(raw);
+  const missingFields: string[] = [];
+  if (!result.success) {
+    for (const zi of result.error.issues) {
+      const path = zi.path.join('.') || root;
+      if (missingFields.includes(path)) continue;
+      missingFields.push(path);
+      issues.push({ code: 'schema', message: `字段 ${path} 缺失或为空`, path });
+    }
+  }
+
+  for (const issue of issues) {
+    if (issue.offset !== undefined) issue.byteOffset = byteOffsetOf(text, issue.offset);
+  }
+  const ok = result.success;
+  const failure = ok ? undefined : issues.find((i) => i.offset !== undefined && !COSMETIC_ISSUES.has(i.code));
+
+  return {
+    data: ok ? result.data : null,
+    diagnostics: {
+      ok,
+      root,
+      rootFound: !!rootEl,
+      truncated: finishReason === 'length' || tree.truncatedAtEof,
+      finishReason,
+      repaired: issues.some((i) => i.code !== 'schema' && i.code !== 'missing-root'),
+      missingFields,
+      issues,
+      failureOffset: failure?.offset,
+      failureByteOffset: failure?.byteOffset,
+    },
+  };
 }
 
-function innerTexts(xml: string, tag: string): string[] {
-  const re = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi');
-  const out: string[] = [];
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(xml)) !== null) {
-    out.push(stripCData(m[1]).trim());
+/** 将诊断整理为一行中文提示（用于错误弹窗与日志） */
+export function formatXmlDiagnostics(d: XmlDiagnostics): string {
+  const parts: string[] = [];
+  if (!d.rootFound && !d.ok) parts.push(`未找到 <${d.root}> 根节点`);
+  if (d.missingFields.length > 0) parts.push(`缺少字段：${d.missingFields.join('、')}`);
+  if (d.truncated) {
+    parts.push(d.finishReason === 'length' ? '输出达到长度上限被截断（finish_reason=length）' : '输出不完整，疑似被截断');
   }
-  return out;
+  if (d.failureByteOffset !== undefined) parts.push(`出错位置：第 ${d.failureByteOffset} 字节`);
+  return parts.join('；');
 }
 
 /**
@@ -43,22 +333,24 @@ function innerTexts(xml: string, tag: string): string[] {
  *   <preferences>...</preferences>
  * </characterProfile>
  *
- * 宽松兼容：允许存在多余空白/换行、CDATA 包裹
+ * 宽松兼容：允许存在多余空白/换行、CDATA 包裹、代码围栏、截断
  * 不允许：缺失标签或无文本时将返回 null
  */
 export function parseCharacterXml(xml: string): CharacterXML | null {
-  if (typeof xml !== 'string' || !xml.trim()) return null;
-
-  // 可选：先尝试定位根节点，减少误匹配
-  const rootMatch = xml.match(/<characterProfile\b[^>]*>([\s\S]*?)<\/characterProfile>/i);
-  const scope = rootMatch ? rootMatch[1] : xml;
-
-  const appearance = innerText(scope, 'appearance');
-  const preferences = innerText(scope, 'preferences');
-
-  if (!appearance || !preferences) return null;
+  return parseCharacterXmlWithDiagnostics(xml).data;
+}
 
-  return { appearance, preferences };
+export function parseCharacterXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<CharacterXML> {
+  return parseShape(
+    xml,
+    'characterProfile',
+    CharacterProfileSchema,
+    (scope) => ({
+      appearance: textContent(findElement(scope, 'appearance')),
+      preferences: textContent(findElement(scope, 'preferences')),
+    }),
+    opts
+  );
 }
 
 /**
@@ -90,41 +382,20 @@ export function composeProfilePrompt(extracted: CharacterXML): string {
  * </storyOutline>
  */
 export function parseStoryOutlineXml(xml: string): OutlineXML | null {
-  if (typeof xml !== 'string' || !xml.trim()) return null;
-  const rootMatch = xml.match(/<storyOutline\b[^>]*>([\s\S]*?)<\/storyOutline>/i);
-  const scope = rootMatch ? rootMatch[1] : xml;
-
-  const premise = innerText(scope, 'premise') ?? '';
-  const beats = innerTexts(scope, 'beat');
-
-  if (!premise || beats.length === 0) return null;
-  return { premise, beats };
+  return parseStoryOutlineXmlWithDiagnostics(xml).data;
 }
-export type FullOutlineSection = {
-  sectionTitle: string;
-  summary: string;
-};
 
-export type FullOutlineChapter = {
-  chapterTitle: string;
-  sections: FullOutlineSection[];
-};
-
-export type FullOutlineXML = {
-  title: string;
-  premise: string;
-  chapters: FullOutlineChapter[];
-  ending?: string;
-};
-
-function matchBlocks(xml: string, tag: string): string[] {
-  const re = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi');
-  const out: string[] = [];
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(xml)) !== null) {
-    out.push(m[1]);
-  }
-  return out;
+export function parseStoryOutlineXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<OutlineXML> {
+  return parseShape(
+    xml,
+    'storyOutline',
+    StoryOutlineSchema,
+    (scope) => ({
+      premise: textContent(findElement(scope, 'premise')),
+      beats: findElements(scope, 'beat').map(textContent).filter(Boolean),
+    }),
+    opts
+  );
 }
 
 /**
@@ -147,53 +418,60 @@ function matchBlocks(xml: string, tag: string): string[] {
  *   </chapters>
  *   <ending><![CDATA[...]]></ending>
  * </storyOutline>
+ *
+ * 缺少标题或摘要的小节、没有有效小节的章会被丢弃（常见于输出截断），并记录在诊断中。
  */
 export function parseFullStoryOutlineXml(xml: string): FullOutlineXML | null {
-  if (typeof xml !== 'string' || !xml.trim()) return null;
-
-  const rootMatch = xml.match(/<storyOutline\b[^>]*>([\s\S]*?)<\/storyOutline>/i);
-  const scope = rootMatch ? rootMatch[1] : xml;
-
-  const title = innerText(scope, 'title') ?? '';
-  const premise = innerText(scope, 'premise') ?? '';
-  const ending = innerText(scope, 'ending') ?? undefined;
-
-  // 章节块
-  const chaptersScopeMatch = scope.match(/<chapters\b[^>]*>([\s\S]*?)<\/chapters>/i);
-  const chaptersScope = chaptersScopeMatch ? chaptersScopeMatch[1] : scope;
-  const chapterBlocks = matchBlocks(chaptersScope, 'chapter');
-
-  const chapters: FullOutlineChapter[] = [];
-
-  for (const chapterXml of chapterBlocks) {
-    const chapterTitle = innerText(chapterXml, 'chapterTitle') ?? '';
-
-    // sections 容器
-    const sectionsScopeMatch = chapterXml.match(/<sections\b[^>]*>([\s\S]*?)<\/sections>/i);
-    const sectionsScope = sectionsScopeMatch ? sectionsScopeMatch[1] : chapterXml;
-    const sectionBlocks = matchBlocks(sectionsScope, 'section');
-
-    const sections: FullOutlineSection[] = sectionBlocks
-      .map((secXml) => {
-        const sectionTitle = innerText(secXml, 'sectionTitle') ?? '';
-        const summary = innerText(secXml, 'summary') ?? '';
-        return { sectionTitle, summary };
-      })
-      .filter((s) => s.sectionTitle && s.summary);
-
-    if (chapterTitle && sections.length > 0) {
-      chapters.push({ chapterTitle, sections });
-    }
-  }
-
-  if (!premise || chapters.length === 0) return null;
+  return parseFullStoryOutlineXmlWithDiagnostics(xml).data;
+}
 
-  return {
-    title,
-    premise,
-    chapters,
-    ending,
-  };
+export function parseFullStoryOutlineXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<FullOutlineXML> {
+  return parseShape(
+    xml,
+    'storyOutline',
+    FullStoryOutlineSchema,
+    (scope, issues) => {
+      const chaptersScope = findElement(scope, 'chapters') ?? scope;
+      const chapters: FullOutlineChapter[] = [];
+      findElements(chaptersScope, 'chapter').forEach((chapterEl, ci) => {
+        const chapterTitle = textContent(findElement(chapterEl, 'chapterTitle'));
+        const sectionsScope = findElement(chapterEl, 'sections') ?? chapterEl;
+        const sections: FullOutlineSection[] = [];
+        findElements(sectionsScope, 'section').forEach((sectionEl, si) => {
+          const sectionTitle = textContent(findElement(sectionEl, 'sectionTitle'));
+          const summary = textContent(findElement(sectionEl, 'summary'));
+          if (sectionTitle && summary) {
+            sections.push({ sectionTitle, summary });
+            return;
+          }
+          issues.push({
+            code: 'incomplete-item',
+            message: `第 ${ci + 1} 章第 ${si + 1} 节缺少${sectionTitle ? '摘要' : '标题'}，已丢弃`,
+            offset: sectionEl.start,
+            path: `chapters.${ci}.sections.${si}.${sectionTitle ? 'summary' : 'sectionTitle'}`,
+          });
+        });
+        if (chapterTitle && sections.length > 0) {
+          chapters.push({ chapterTitle, sections });
+          return;
+        }
+        issues.push({
+          code: 'incomplete-item',
+          message: `第 ${ci + 1} 章${chapterTitle ? '没有有效小节' : '缺少标题'}，已丢弃`,
+          offset: chapterEl.start,
+          path: `chapters.${ci}.${chapterTitle ? 'sections' : 'chapterTitle'}`,
+        });
+      });
+      const endingEl = findElement(scope, 'ending');
+      return {
+        title: textContent(findElement(scope, 'title')),
+        premise: textContent(findElement(scope, 'premise')),
+        chapters,
+        ending: endingEl ? textContent(endingEl) : undefined,
+      };
+    },
+    opts
+  );
 }
 
 /**
@@ -205,7 +483,7 @@ export function parseFullStoryOutlineXml(xml: string): FullOutlineXML | null {
  * {}
  *
  * 故事大纲：
- * {前提：... 
+ * {前提：...
  * 1. ...
  * 2. ...
  * ...}
@@ -229,12 +507,339 @@ export function composeOutlineAppendPrompt(profilePrompt: string, outline: Outli
  * </story>
  */
 export function parseStoryXml(xml: string): StoryXML | null {
-  if (typeof xml !== 'string' || !xml.trim()) return null;
-  const rootMatch = xml.match(/<story\b[^>]*>([\s\S]*?)<\/story>/i);
-  const scope = rootMatch ? rootMatch[1] : xml;
-
-  const title = innerText(scope, 'title') ?? '';
-  const content = innerText(scope, 'content') ?? '';
-  if (!content) return null;
-  return { title, content };
-}
\ No newline at end of file
+  return parseStoryXmlWithDiagnostics(xml).data;
+}
+
+export function parseStoryXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<StoryXML> {
+  return parseShape(
+    xml,
+    'story',
+    StorySchema,
+    (scope) => ({
+      title: textContent(findElement(scope, 'title')),
+      content: textContent(findElement(scope, 'content')),
+    }),
+    opts
+  );
+}
+
+/**
+ * 解析角色补全 XML（game/random/人物生成.md）：
+ * <characterCompletion>
+ *   <name/> <age/> <appearanceClothes/>
+ *   <magic><pre/><post/></magic>
+ *   <tragicStory/> <personality/> <originalSin/>
+ * </characterCompletion>
+ *
+ * 魔法两项可为空，其余字段缺失时返回 null。
+ */
+export function parseCharacterCompletionXml(xml: string): CompletionExtracted | null {
+  return parseCharacterCompletionXmlWithDiagnostics(xml).data;
+}
+
+export function parseCharacterCompletionXmlWithDiagnostics(
+  xml: string,
+  opts?: XmlParseOptions
+): XmlParseResult<CompletionExtracted> {
+  return parseShape(
+    xml,
+    'characterCompletion',
+    CharacterCompletionSchema,
+    (scope) => ({
+      name: textContent(findElement(scope, 'name')),
+      age: textContent(findElement(scope, 'age')),
+      appearanceClothes: textContent(findElement(scope, 'appearanceClothes')),
+      magicPre: textContent(findElement(scope, 'pre')),
+      magicPost: textContent(findElement(scope, 'post')),
+      tragicStory: textContent(findElement(scope, 'tragicStory')),
+      personality: textContent(findElement(scope, 'personality')),
+      originalSin: textContent(findElement(scope, 'originalSin')),
+    }),
+    opts
+  );
+}
+
+/**
+ * 解析剧情记忆 XML（game/workflow/剧情记忆提示词.md）：
+ * <sectionMemory>
+ *   <summary/>
+ *   <deaths><item/>...</deaths> <executions/> <clues/> <relationships/>
+ * </sectionMemory>
+ *
+ * 摘要缺失时返回 null；各分类可为空，空条目忽略。
+ */
+export function parseSectionMemoryXml(xml: string): SectionMemoryXML | null {
+  return parseSectionMemoryXmlWithDiagnostics(xml).data;
+}
+
+export function parseSectionMemoryXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<SectionMemoryXML> {
+  const items = (scope: XmlElement, tag: string) => {
+    const list = findElement(scope, tag);
+    return list ? findElements(list, 'item').map(textContent).filter(Boolean) : [];
+  };
+  return parseShape(
+    xml,
+    'sectionMemory',
+    SectionMemorySchema,
+    (scope) => ({
+      summary: textContent(findElement(scope, 'summary')),
+      deaths: items(scope, 'deaths'),
+      executions: items(scope, 'executions'),
+      clues: items(scope, 'clues'),
+      relationships: items(scope, 'relationships'),
+    }),
+    opts
+  );
+}
+
+/**
+ * 解析故事状态 XML（src/lib/storyState.ts 的状态提取提示词）：
+ * <sectionState>
+ *   <deaths><death><victim/><killer/><cause/></death>...</deaths>
+ *   <trials><trial><accused/><executed/><votes><vote><voter/><target/></vote>...</votes></trial>...</trials>
+ *   <witchification><character><name/><stage>0-4</stage><note/></character>...</witchification>
+ *   <clues><clue><content/><finder/><pointsTo/></clue>...</clues>
+ * </sectionState>
+ *
+ * 各分类均可为空；缺少必填字段（死者、投票双方、人物名、线索内容）的条目丢弃并记录在诊断中，
+ * 魔女化程度超出 0~4 时截断到范围内。
+ */
+export function parseSectionStateXml(xml: string): SectionStateXML | null {
+  return parseSectionStateXmlWithDiagnostics(xml).data;
+}
+
+export function parseSectionStateXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<SectionStateXML> {
+  return parseShape(
+    xml,
+    'sectionState',
+    SectionStateSchema,
+    (scope, issues) => {
+      const list = (tag: string, item: string) => {
+        const el = findElement(scope, tag);
+        return el ? findElements(el, item) : [];
+      };
+      const text = (el: XmlElement, tag: string) => textContent(findElement(el, tag));
+      const drop = (el: XmlElement, path: string, what: string) =>
+        issues.push({ code: 'incomplete-item', message: `${what}，已丢弃`, offset: el.start, path });
+
+      const deaths = list('deaths', 'death').flatMap((el, i) => {
+        const victim = text(el, 'victim');
+        if (!victim) {
+          drop(el, `deaths.${i}.victim`, `第 ${i + 1} 条死亡记录缺少死者`);
+          return [];
+        }
+        return [{ victim, killer: text(el, 'killer'), cause: text(el, 'cause') }];
+      });
+      const trials = list('trials', 'trial').map((el, i) => {
+        const votesEl = findElement(el, 'votes');
+        const votes = (votesEl ? findElements(votesEl, 'vote') : []).flatMap((v, j) => {
+          const voter = text(v, 'voter');
+          const target = text(v, 'target');
+          if (voter && target) return [{ voter, target }];
+          drop(v, `trials.${i}.votes.${j}`, `第 ${i + 1} 场审判的第 ${j + 1} 张票不完整`);
+          return [];
+        });
+        return { accused: text(el, 'accused'), executed: text(el, 'executed'), votes };
+      });
+      const witchification = list('witchification', 'character').flatMap((el, i) => {
+        const name = text(el, 'name');
+        const stage = Math.round(Number(text(el, 'stage').match(/\d+/)?.[0] ?? NaN));
+        if (!name || !Number.isFinite(stage)) {
+          drop(el, `witchification.${i}`, `第 ${i + 1} 条魔女化记录缺少${name ? '程度' : '人物'}`);
+          return [];
+        }
+        return [{ name, stage: Math.min(Math.max(stage, 0), 4), note: text(el, 'note') }];
+      });
+      const clues = list('clues', 'clue').flatMap((el, i) => {
+        const content = text(el, 'content');
+        if (!content) {
+          drop(el, `clues.${i}.content`, `第 ${i + 1} 条线索缺少内容`);
+          return [];
+        }
+        return [{ content, finder: text(el, 'finder'), pointsTo: text(el, 'pointsTo') }];
+      });
+      return { deaths, trials, witchification, clues };
+    },
+    opts
+  );
+}
+
+/**
+ * 解析连贯性审校 XML（src/lib/continuityCheck.ts 的审校提示词）：
+ * <continuityReport>
+ *   <issue><kind/><severity/><quote/><problem/><fix/></issue>...
+ * </continuityReport>
+ *
+ * 没有问题时根节点为空；缺少问题说明的条目丢弃并记录在诊断中。
+ */
+export function parseContinuityReportXml(xml: string): ContinuityReportXML | null {
+  return parseContinuityReportXmlWithDiagnostics(xml).data;
+}
+
+export function parseContinuityReportXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<ContinuityReportXML> {
+  return parseShape(
+    xml,
+    'continuityReport',
+    ContinuityReportSchema,
+    (scope, issues) => ({
+      issues: findElements(scope, 'issue').flatMap((el, i) => {
+        const problem = textContent(findElement(el, 'problem'));
+        if (!problem) {
+          issues.push({ code: 'incomplete-item', message: `第 ${i + 1} 个问题缺少说明，已丢弃`, offset: el.start, path: `issues.${i}.problem` });
+          return [];
+        }
+        return [
+          {
+            kind: textContent(findElement(el, 'kind')),
+            severity: textContent(findElement(el, 'severity')),
+            quote: textContent(findElement(el, 'quote')),
+            problem,
+            fix: textContent(findElement(el, 'fix')),
+          },
+        ];
+      }),
+    }),
+    opts
+  );
+}
+
+// 模型输出的布尔值：true/false、是/否
+function parseFlag(text: string): boolean | null {
+  const t = text.trim().toLowerCase();
+  if (/^(true|yes|是|成立)/.test(t)) return true;
+  if (/^(false|no|否|不成立)/.test(t)) return false;
+  return null;
+}
+
+/**
+ * 解析互动审判的一轮发言 XML（src/lib/trial.ts 的审判提示词）：
+ * <trialTurn>
+ *   <judgement/><hit/>
+ *   <statements><statement><speaker/><text/></statement>...</statements>
+ *   <ready/>
+ * </trialTurn>
+ */
+export function parseTrialTurnXml(xml: string): TrialTurnXML | null {
+  return parseTrialTurnXmlWithDiagnostics(xml).data;
+}
+
+export function parseTrialTurnXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<TrialTurnXML> {
+  return parseShape(
+    xml,
+    'trialTurn',
+    TrialTurnSchema,
+    (scope, issues) => {
+      const listEl = findElement(scope, 'statements');
+      const statements = (listEl ? findElements(listEl, 'statement') : []).flatMap((el, i) => {
+        const speaker = textContent(findElement(el, 'speaker'));
+        const text = textContent(findElement(el, 'text'));
+        if (speaker && text) return [{ speaker, text }];
+        issues.push({ code: 'incomplete-item', message: `第 ${i + 1} 条发言不完整，已丢弃`, offset: el.start, path: `statements.${i}` });
+        return [];
+      });
+      return {
+        judgement: textContent(findElement(scope, 'judgement')),
+        hit: parseFlag(textContent(findElement(scope, 'hit'))),
+        statements,
+        ready: parseFlag(textContent(findElement(scope, 'ready'))) === true,
+      };
+    },
+    opts
+  );
+}
+
+/**
+ * 解析互动审判的投票结果 XML：
+ * <trialVerdict>
+ *   <votes><vote><voter/><target/></vote>...</votes>
+ *   <executed/><narration/>
+ * </trialVerdict>
+ */
+export function parseTrialVerdictXml(xml: string): TrialVerdictXML | null {
+  return parseTrialVerdictXmlWithDiagnostics(xml).data;
+}
+
+export function parseTrialVerdictXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<TrialVerdictXML> {
+  return parseShape(
+    xml,
+    'trialVerdict',
+    TrialVerdictSchema,
+    (scope, issues) => {
+      const votesEl = findElement(scope, 'votes');
+      const votes = (votesEl ? findElements(votesEl, 'vote') : []).flatMap((el, i) => {
+        const voter = textContent(findElement(el, 'voter'));
+        const target = textContent(findElement(el, 'target'));
+        if (voter && target) return [{ voter, target }];
+        issues.push({ code: 'incomplete-item', message: `第 ${i + 1} 张票不完整，已丢弃`, offset: el.start, path: `votes.${i}` });
+        return [];
+      });
+      return {
+        votes,
+        executed: textContent(findElement(scope, 'executed')),
+        narration: textContent(findElement(scope, 'narration')),
+      };
+    },
+    opts
+  );
+}
+
+/**
+ * 解析分支抉择 XML（src/lib/storyTree.ts 的抉择提示词）：
+ * <choices><choice><label/><consequence/></choice>...</choices>
+ *
+ * 须有 2~4 个完整选项；超出 4 个时只保留前 4 个。
+ */
+export function parseStoryChoicesXml(xml: string): StoryChoicesXML | null {
+  return parseStoryChoicesXmlWithDiagnostics(xml).data;
+}
+
+export function parseStoryChoicesXmlWithDiagnostics(xml: string, opts?: XmlParseOptions): XmlParseResult<StoryChoicesXML> {
+  return parseShape(
+    xml,
+    'choices',
+    StoryChoicesSchema,
+    (scope, issues) => {
+      const choices = findElements(scope, 'choice').flatMap((el, i) => {
+        const label = textContent(findElement(el, 'label'));
+        if (label) return [{ label, consequence: textContent(findElement(el, 'consequence')) }];
+        issues.push({ code: 'incomplete-item', message: `第 ${i + 1} 个选项缺少内容，已丢弃`, offset: el.start, path: `choices.${i}.label` });
+        return [];
+      });
+      return { choices: choices.slice(0, 4) };
+    },
+    opts
+  );
+}
+
+function stripCData(s: string): string {
+  return s
+    .replace(/<!\[CDATA\[/g, '')
+    .replace(/\]\]>/g, '');
+}
+
+/**
+ * 从“尚未输出完整”的 <story> XML 中提取 <content> 的当前文本（用于流式渲染）：
+ * - 尚未出现 <content> 时返回空串
+ * - 支持 CDATA 包裹与否；遇到 ]]> 或 </content> 即视为结束
+ * - 末尾若是半截的结束标记（如 "]]"、"</cont"）先行裁掉，避免渲染闪烁
+ */
+export function extractPartialStoryContent(partialXml: string): string {
+  if (typeof partialXml !== 'string' || !partialXml) return '';
+  const open = partialXml.match(/<content\b[^>]*>/i);
+  if (!open || open.index === undefined) return '';
+  let body = partialXml.slice(open.index + open[0].length);
+
+  const cdataStart = body.match(/^\s*<!\[CDATA\[/);
+  if (cdataStart) {
+    body = body.slice(cdataStart[0].length);
+    const end = body.indexOf(']]>');
+    if (end >= 0) return body.slice(0, end).trim();
+    return body.replace(/\]{1,2}$/, '').trimStart();
+  }
+  // CDATA 前缀尚未完整到达
+  if (/^\s*<(?:!(?:\[(?:C(?:D(?:A(?:T(?:A)?)?)?)?)?)?)?$/.test(body)) return '';
+
+  const close = body.search(/<\/content\s*>/i);
+  if (close >= 0) return stripCData(body.slice(0, close)).trim();
+  return stripCData(body.replace(/<\/?[a-z]*$/i, '')).trimStart();
+}
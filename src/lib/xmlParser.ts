@@ -0,0 +1,252 @@
+/**
+ * 容错 XML 解析器（面向模型输出，而非通用 XML）：
+ * - 剥离 ```xml 代码围栏与根节点前后的解释文字
+ * - CDATA 支持嵌套与未闭合（截断时取到文末）
+ * - 结束标签缺失 / 拼错时自动补齐；截断在半个标签处时丢弃残片
+ * - 记录每一处修复及其在原文中的位置（字符与 UTF-8 字节偏移）
+ */
+
+export type XmlElement = {
+  name: string;
+  /** 子节点：文本（已解码实体 / 去除 CDATA 标记）或子元素，保持原顺序 */
+  children: Array<string | XmlElement>;
+  /** 开始标签在原文中的字符偏移 */
+  start: number;
+  /** 是否遇到了匹配的结束标签（自闭合标签视为已闭合） */
+  closed: boolean;
+};
+
+export type XmlIssueCode =
+  | 'code-fence'
+  | 'missing-root'
+  | 'unterminated-cdata'
+  | 'nested-cdata'
+  | 'unclosed-tag'
+  | 'stray-close-tag'
+  | 'truncated-tag'
+  | 'unclosed-at-eof'
+  | 'incomplete-item'
+  | 'schema';
+
+export type XmlIssue = {
+  code: XmlIssueCode;
+  message: string;
+  /** 原文中的字符偏移 */
+  offset?: number;
+  /** 原文中的 UTF-8 字节偏移 */
+  byteOffset?: number;
+  /** 出问题的字段路径，如 chapters.0.sections.1.summary */
+  path?: string;
+};
+
+export type XmlParseTree = {
+  /** 虚拟文档节点，其子节点为顶层内容 */
+  document: XmlElement;
+  issues: XmlIssue[];
+  /** 是否在文末仍有未闭合的元素 / CDATA / 半截标签 */
+  truncatedAtEof: boolean;
+};
+
+const NAME = '[A-Za-z_\\u4e00-\\u9fa5][\\w.:\\-\\u4e00-\\u9fa5]*';
+const OPEN_TAG_RE = new RegExp(`<(${NAME})((?:\\s+[^\\s=>/]+(?:\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s>]+))?)*)\\s*(/?)>`, 'y');
+const CLOSE_TAG_RE = new RegExp(`</\\s*(${NAME})\\s*>`, 'y');
+const PARTIAL_TAG_RE = new RegExp(`^</?(?:${NAME})?(?:\\s[^<>]*)?$`);
+const CDATA_OPEN = '<![CDATA[';
+const CDATA_CLOSE = ']]>';
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (m, e: string) => {
+    if (e[0] !== '#') return ENTITIES[e] ?? m;
+    const code = e[1] === 'x' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+    return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+  });
+}
+
+/** 字符偏移 → UTF-8 字节偏移 */
+export function byteOffsetOf(text: string, charOffset: number): number {
+  return new TextEncoder().encode(text.slice(0, Math.max(0, charOffset))).length;
+}
+
+/**
+ * 定位正文：若存在 ``` 代码围栏，取第一个包含标签的围栏内容（允许缺少收尾围栏）。
+ * 返回正文在原文中的起始偏移，用于换算诊断位置。
+ */
+export function stripCodeFence(text: string): { body: string; base: number; stripped: boolean } {
+  const re = /```[A-Za-z]*[^\S\n]*\n?([\s\S]*?)(?:```|$)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    if (m[1].includes('<')) {
+      return { body: m[1], base: m.index + m[0].indexOf(m[1]), stripped: true };
+    }
+    if (m[0].length === 0) break;
+  }
+  return { body: text, base: 0, stripped: false };
+}
+
+/** 读取（可能嵌套的）CDATA 段，返回内容与结束位置；未闭合时读到文末 */
+function readCData(src: string, from: number): { text: string; end: number; nested: boolean; terminated: boolean } {
+  let depth = 1;
+  let i = from + CDATA_OPEN.length;
+  let text = '';
+  let nested = false;
+  while (i < src.length) {
+    if (src.startsWith(CDATA_OPEN, i)) {
+      depth++;
+      nested = true;
+      i += CDATA_OPEN.length;
+      continue;
+    }
+    if (src.startsWith(CDATA_CLOSE, i)) {
+      depth--;
+      i += CDATA_CLOSE.length;
+      if (depth === 0) return { text, end: i, nested, terminated: true };
+      continue;
+    }
+    text += src[i];
+    i++;
+  }
+  // 截断：去掉末尾半个 "]]"
+  return { text: text.replace(/\]{1,2}$/, ''), end: src.length, nested, terminated: false };
+}
+
+/**
+ * 解析为元素树。永不抛错：无法识别的 "<" 按文本处理，所有修复记录在 issues 中。
+ * offset 为正文内偏移，调用方按需加上 base 换算回原文。
+ */
+export function parseXmlTree(src: string): XmlParseTree {
+  const document: XmlElement = { name: '#document', children: [], start: 0, closed: true };
+  const stack: XmlElement[] = [document];
+  const issues: XmlIssue[] = [];
+  let truncatedAtEof = false;
+  let i = 0;
+
+  const top = () => stack[stack.length - 1];
+  const pushText = (t: string) => {
+    if (!t) return;
+    const children = top().children;
+    const last = children[children.length - 1];
+    if (typeof last === 'string') children[children.length - 1] = last + t;
+    else children.push(t);
+  };
+
+  while (i < src.length) {
+    const lt = src.indexOf('<', i);
+    if (lt < 0) {
+      pushText(decodeEntities(src.slice(i)));
+      break;
+    }
+    if (lt > i) pushText(decodeEntities(src.slice(i, lt)));
+    i = lt;
+
+    if (src.startsWith(CDATA_OPEN, i)) {
+      const c = readCData(src, i);
+      if (c.nested) issues.push({ code: 'nested-cdata', message: 'CDATA 内出现嵌套的 CDATA，已展开', offset: i });
+      if (!c.terminated) {
+        issues.push({ code: 'unterminated-cdata', message: 'CDATA 未闭合，已截取到文末', offset: i });
+        truncatedAtEof = true;
+      }
+      pushText(c.text);
+      i = c.end;
+      continue;
+    }
+    if (src.startsWith('<!--', i)) {
+      const end = src.indexOf('-->', i + 4);
+      i = end < 0 ? src.length : end + 3;
+      continue;
+    }
+    if (src.startsWith('<?', i) || src.startsWith('<!', i)) {
+      const end = src.indexOf('>', i + 2);
+      i = end < 0 ? src.length : end + 1;
+      continue;
+    }
+
+    CLOSE_TAG_RE.lastIndex = i;
+    const close = CLOSE_TAG_RE.exec(src);
+    if (close) {
+      const name = close[1].toLowerCase();
+      let at = -1;
+      for (let k = stack.length - 1; k > 0; k--) {
+        if (stack[k].name.toLowerCase() === name) {
+          at = k;
+          break;
+        }
+      }
+      if (at < 0) {
+        issues.push({ code: 'stray-close-tag', message: `多余的结束标签 </${close[1]}>，已忽略`, offset: i });
+      } else {
+        for (let k = stack.length - 1; k > at; k--) {
+          issues.push({ code: 'unclosed-tag', message: `<${stack[k].name}> 缺少结束标签，已在 </${close[1]}> 前补齐`, offset: i });
+        }
+        stack[at].closed = true;
+        stack.length = at;
+      }
+      i = CLOSE_TAG_RE.lastIndex;
+      continue;
+    }
+
+    OPEN_TAG_RE.lastIndex = i;
+    const open = OPEN_TAG_RE.exec(src);
+    if (open) {
+      const el: XmlElement = { name: open[1], children: [], start: i, closed: open[3] === '/' };
+      top().children.push(el);
+      if (!el.closed) stack.push(el);
+      i = OPEN_TAG_RE.lastIndex;
+      continue;
+    }
+
+    const rest = src.slice(i);
+    if (PARTIAL_TAG_RE.test(rest)) {
+      issues.push({ code: 'truncated-tag', message: `文末存在不完整的标签 "${rest.slice(0, 32)}"，已丢弃`, offset: i });
+      truncatedAtEof = true;
+      break;
+    }
+    // 普通文本中的 "<"
+    pushText('<');
+    i++;
+  }
+
+  for (let k = stack.length - 1; k > 0; k--) {
+    issues.push({ code: 'unclosed-at-eof', message: `<${stack[k].name}> 到文末仍未闭合，已自动补齐`, offset: src.length });
+    truncatedAtEof = true;
+  }
+
+  return { document, issues, truncatedAtEof };
+}
+
+// ---- 查询 ----
+
+/** 深度优先查找第一个同名后代（不区分大小写） */
+export function findElement(scope: XmlElement, name: string): XmlElement | null {
+  const target = name.toLowerCase();
+  for (const child of scope.children) {
+    if (typeof child === 'string') continue;
+    if (child.name.toLowerCase() === target) return child;
+    const hit = findElement(child, name);
+    if (hit) return hit;
+  }
+  return null;
+}
+
+/** 查找所有同名后代；命中后不再深入其内部 */
+export function findElements(scope: XmlElement, name: string): XmlElement[] {
+  const target = name.toLowerCase();
+  const out: XmlElement[] = [];
+  const walk = (el: XmlElement) => {
+    for (const child of el.children) {
+      if (typeof child === 'string') continue;
+      if (child.name.toLowerCase() === target) out.push(child);
+      else walk(child);
+    }
+  };
+  walk(scope);
+  return out;
+}
+
+/** 元素的全部文本内容（含后代），已去首尾空白 */
+export function textContent(el: XmlElement | null): string {
+  if (!el) return '';
+  const collect = (e: XmlElement): string => e.children.map((c) => (typeof c === 'string' ? c : collect(c))).join('');
+  return collect(el).trim();
+}